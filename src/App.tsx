@@ -1,6 +1,7 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { Routes, Route, BrowserRouter } from 'react-router-dom';
 import './index.css';
+import { startRealtimeSync } from './lib/realtime';
 
 // Layout
 import Layout from './components/Layout';
@@ -24,6 +25,7 @@ import CMSAdminPage from './pages/CMSAdminPage';
 import ProfilePage from './pages/ProfilePage';
 import MembersPendingPage from './pages/MembersPendingPage';
 import DirectoryPage from './pages/DirectoryPage';
+import DirectoryPrintPage from './pages/DirectoryPrintPage';
 import SetupAdminPage from './pages/SetupAdminPage';
 import DebugPage from './pages/DebugPage';
 import ViteDebugPage from './pages/ViteDebugPage';
@@ -35,8 +37,12 @@ import SupabaseDebugPage from './pages/SupabaseDebugPage';
 import BlogPage from './pages/BlogPage';
 import BlogAdminPage from './pages/BlogAdminPage';
 import SnippetsPage from './pages/SnippetsPage';
+import SearchPage from './pages/SearchPage';
 
 function App() {
+  // Live content updates for every page (cached reads are invalidated as admins save)
+  useEffect(() => startRealtimeSync(), []);
+
   return (
     <BrowserRouter>
       <ScrollToTop />
@@ -50,6 +56,7 @@ function App() {
           <Route path="news/:id" element={<NewsDetailPage />} />
           <Route path="blog" element={<BlogPage />} />
           <Route path="snippets" element={<SnippetsPage />} />
+          <Route path="search" element={<SearchPage />} />
           <Route path="contact" element={<ContactPage />} />
           <Route path="faq" element={<FaqPage />} />
           <Route path="privacy" element={<PrivacyPage />} />
@@ -71,6 +78,8 @@ function App() {
           <Route path="supabase-debug" element={<SupabaseDebugPage />} />
           <Route path="*" element={<NotFoundPage />} />
         </Route>
+        {/* Printable pages skip the site header and footer */}
+        <Route path="/members/directory/print" element={<DirectoryPrintPage />} />
       </Routes>
     </BrowserRouter>
   );
@@ -0,0 +1,454 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Calendar, Mail, Phone, Trash2, UserPlus, X } from 'lucide-react';
+import { api } from '../lib/api';
+import { ApplicationStage, ApplicationStageChange, MemberProfile, MembershipApplication } from '../types';
+import {
+  APPLICATION_STAGES,
+  APPLICATION_STAGE_COLOURS,
+  APPLICATION_STAGE_LABELS,
+  APPLICATION_TRANSITIONS,
+  canMoveApplication,
+  missingSponsors
+} from '../utils/applications';
+import Button from './Button';
+import ConfirmDialog from './ConfirmDialog';
+import LoadingSpinner from './LoadingSpinner';
+
+interface ApplicationsBoardProps {
+  // Active members can be chosen as sponsors
+  members: MemberProfile[];
+}
+
+interface PendingMove {
+  application: MembershipApplication;
+  change: ApplicationStageChange;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-neutral-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+// <input type="datetime-local"> wants local time without a zone
+const toLocalInput = (value?: string | null) => value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '';
+
+const ApplicationsBoard: React.FC<ApplicationsBoardProps> = ({ members }) => {
+  const [applications, setApplications] = useState<MembershipApplication[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [notes, setNotes] = useState('');
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const [deleting, setDeleting] = useState<MembershipApplication | null>(null);
+  const [dragOver, setDragOver] = useState<ApplicationStage | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadApplications = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setApplications(await api.getMembershipApplications());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadApplications();
+  }, [loadApplications]);
+
+  const activeMembers = useMemo(() => members.filter(m => m.status === 'active'), [members]);
+  const selected = applications.find(a => a.id === selectedId) || null;
+
+  useEffect(() => {
+    setNotes(selected?.notes || '');
+  }, [selected?.id, selected?.notes]);
+
+  const byStage = useMemo(() => {
+    const columns = Object.fromEntries(APPLICATION_STAGES.map(stage => [stage, [] as MembershipApplication[]]));
+    applications.forEach(application => columns[application.stage].push(application));
+    return columns as Record<ApplicationStage, MembershipApplication[]>;
+  }, [applications]);
+
+  const replaceApplication = (updated: MembershipApplication) =>
+    setApplications(prev => prev.map(a => (a.id === updated.id ? updated : a)));
+
+  const startMove = (application: MembershipApplication, stage: ApplicationStage) => {
+    if (!canMoveApplication(application.stage, stage)) return;
+    setPendingMove({
+      application,
+      change: {
+        stage,
+        interview_at: application.interview_at,
+        interview_location: application.interview_location,
+        ballot_date: application.ballot_date,
+        notify: true
+      }
+    });
+  };
+
+  const updateMove = (changes: Partial<ApplicationStageChange>) =>
+    setPendingMove(prev => prev && { ...prev, change: { ...prev.change, ...changes } });
+
+  const confirmMove = async () => {
+    if (!pendingMove) return;
+    try {
+      setSaving(true);
+      setError(null);
+      const { application, emailed } = await api.moveMembershipApplication(pendingMove.application.id, pendingMove.change);
+      replaceApplication(application);
+      setNotice(
+        `${application.full_name} moved to ${APPLICATION_STAGE_LABELS[application.stage]}` +
+        (pendingMove.change.notify === false ? '.' : emailed ? ' and emailed.' : ', but the email could not be sent.')
+      );
+      setPendingMove(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveChanges = async (application: MembershipApplication, data: Partial<MembershipApplication>) => {
+    try {
+      setSaving(true);
+      setError(null);
+      replaceApplication(await api.updateMembershipApplication(application.id, data));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleting) return;
+    try {
+      await api.deleteMembershipApplication(deleting.id);
+      setApplications(prev => prev.filter(a => a.id !== deleting.id));
+      setSelectedId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, stage: ApplicationStage) => {
+    e.preventDefault();
+    setDragOver(null);
+    const application = applications.find(a => a.id === e.dataTransfer.getData('text/plain'));
+    if (application) startMove(application, stage);
+  };
+
+  const renderCard = (application: MembershipApplication) => {
+    const missing = missingSponsors(application);
+    return (
+      <li
+        key={application.id}
+        draggable
+        onDragStart={e => e.dataTransfer.setData('text/plain', application.id)}
+        onClick={() => setSelectedId(application.id)}
+        className="bg-white rounded-md shadow-soft p-3 cursor-pointer hover:shadow-medium transition-shadow"
+      >
+        <p className="font-medium text-primary-600 text-sm">{application.full_name}</p>
+        <p className="text-xs text-neutral-500 mt-1">
+          {APPLICATION_STAGE_LABELS[application.stage]} since {format(new Date(application.stage_changed_at), 'd MMM yyyy')}
+        </p>
+        {application.stage === 'interview' && application.interview_at && (
+          <p className="text-xs text-neutral-700 mt-1 flex items-center">
+            <Calendar size={12} className="mr-1" />
+            {format(new Date(application.interview_at), 'd MMM, HH:mm')}
+          </p>
+        )}
+        {application.stage === 'ballot' && application.ballot_date && (
+          <p className="text-xs text-neutral-700 mt-1 flex items-center">
+            <Calendar size={12} className="mr-1" />
+            Ballot {format(new Date(application.ballot_date), 'd MMM yyyy')}
+          </p>
+        )}
+        {['enquiry', 'interview'].includes(application.stage) && missing.length > 0 && (
+          <p className="text-xs text-amber-700 mt-1 flex items-center">
+            <UserPlus size={12} className="mr-1" />
+            Needs {missing.join(' and ')}
+          </p>
+        )}
+      </li>
+    );
+  };
+
+  const renderSponsorSelect = (application: MembershipApplication, field: 'proposer_id' | 'seconder_id', label: string) => {
+    const other = field === 'proposer_id' ? application.seconder_id : application.proposer_id;
+    return (
+      <div>
+        <label className="block text-xs font-medium text-neutral-500 uppercase mb-1">{label}</label>
+        <select
+          value={application[field] || ''}
+          onChange={e => saveChanges(application, { [field]: e.target.value || null })}
+          disabled={saving || application.stage === 'initiated'}
+          className={inputClass}
+        >
+          <option value="">Not yet chosen</option>
+          {activeMembers
+            .filter(m => m.user_id !== other)
+            .map(m => (
+              <option key={m.user_id} value={m.user_id}>{m.full_name}</option>
+            ))}
+        </select>
+      </div>
+    );
+  };
+
+  const renderMoveFields = ({ application, change }: PendingMove) => (
+    <div className="space-y-4">
+      {change.stage === 'interview' && (
+        <>
+          <div>
+            <label className="block text-sm font-medium text-primary-600 mb-1">Interview date and time *</label>
+            <input
+              type="datetime-local"
+              value={toLocalInput(change.interview_at)}
+              onChange={e => updateMove({ interview_at: e.target.value ? new Date(e.target.value).toISOString() : null })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-primary-600 mb-1">Where</label>
+            <input
+              value={change.interview_location || ''}
+              onChange={e => updateMove({ interview_location: e.target.value })}
+              className={inputClass}
+              placeholder="e.g. Radlett Masonic Centre"
+            />
+          </div>
+        </>
+      )}
+      {change.stage === 'ballot' && (
+        <div>
+          <label className="block text-sm font-medium text-primary-600 mb-1">Ballot date</label>
+          <input
+            type="date"
+            value={change.ballot_date || ''}
+            onChange={e => updateMove({ ballot_date: e.target.value || null })}
+            className={inputClass}
+          />
+          {missingSponsors(application).length > 0 && (
+            <p className="text-sm text-red-600 mt-2">
+              Choose a {missingSponsors(application).join(' and ')} before the ballot.
+            </p>
+          )}
+        </div>
+      )}
+      {change.stage === 'declined' && (
+        <div>
+          <label className="block text-sm font-medium text-primary-600 mb-1">Reason (for the Lodge's records only)</label>
+          <textarea
+            rows={3}
+            value={change.decline_reason || ''}
+            onChange={e => updateMove({ decline_reason: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+      )}
+      <label className="flex items-center text-sm text-neutral-700">
+        <input
+          type="checkbox"
+          checked={change.notify !== false}
+          onChange={e => updateMove({ notify: e.target.checked })}
+          className="mr-2"
+        />
+        Email {application.full_name} about this
+      </label>
+    </div>
+  );
+
+  const moveBlocked = pendingMove && (
+    (pendingMove.change.stage === 'interview' && !pendingMove.change.interview_at) ||
+    (pendingMove.change.stage === 'ballot' && missingSponsors(pendingMove.application).length > 0)
+  );
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-heading font-semibold text-primary-600 flex items-center">
+          <UserPlus size={22} className="mr-2" />
+          Membership Applications ({applications.length})
+        </h2>
+      </div>
+
+      <p className="text-sm text-neutral-500 mb-4">
+        Drag a candidate to another column, or open them to move them on. Candidates are emailed at each stage.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3 mb-4">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="bg-green-50 border border-green-200 text-green-700 text-sm rounded-lg p-3 mb-4 flex justify-between">
+          {notice}
+          <button onClick={() => setNotice(null)} className="ml-4" title="Dismiss">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner subtle={true} className="py-12" />
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4">
+          {APPLICATION_STAGES.map(stage => (
+            <section
+              key={stage}
+              onDragOver={e => {
+                e.preventDefault();
+                setDragOver(stage);
+              }}
+              onDragLeave={() => setDragOver(null)}
+              onDrop={e => handleDrop(e, stage)}
+              className={`rounded-lg border-2 p-3 min-h-[12rem] ${APPLICATION_STAGE_COLOURS[stage]} ${
+                dragOver === stage ? 'ring-2 ring-secondary-500' : ''
+              }`}
+            >
+              <h3 className="text-sm font-semibold text-primary-600 mb-3 flex justify-between">
+                {APPLICATION_STAGE_LABELS[stage]}
+                <span className="text-neutral-500 font-normal">{byStage[stage].length}</span>
+              </h3>
+              <ul className="space-y-2">
+                {byStage[stage].map(renderCard)}
+              </ul>
+            </section>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black bg-opacity-50" onClick={() => setSelectedId(null)} />
+          <div className="relative bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 p-6 max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-start mb-4">
+              <div>
+                <h3 className="text-xl font-heading font-semibold text-primary-600">{selected.full_name}</h3>
+                <p className="text-sm text-neutral-500">
+                  {APPLICATION_STAGE_LABELS[selected.stage]} • Enquired {format(new Date(selected.created_at), 'd MMMM yyyy')}
+                </p>
+              </div>
+              <button onClick={() => setSelectedId(null)} className="text-neutral-400 hover:text-neutral-600" title="Close">
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm mb-4">
+              <a href={`mailto:${selected.email}`} className="flex items-center text-primary-600 hover:text-secondary-600 break-all">
+                <Mail size={14} className="mr-2 flex-shrink-0" />
+                {selected.email}
+              </a>
+              {selected.phone && (
+                <a href={`tel:${selected.phone.replace(/\s/g, '')}`} className="flex items-center text-primary-600 hover:text-secondary-600">
+                  <Phone size={14} className="mr-2" />
+                  {selected.phone}
+                </a>
+              )}
+              {selected.date_of_birth && <p>Born {format(new Date(selected.date_of_birth), 'd MMMM yyyy')}</p>}
+              {selected.town && <p>{selected.town}</p>}
+              {selected.occupation && <p>{selected.occupation}</p>}
+              {selected.known_members && <p>Knows: {selected.known_members}</p>}
+            </div>
+
+            <div className="mb-4">
+              <p className="text-xs font-medium text-neutral-500 uppercase mb-1">Why they want to join</p>
+              <p className="text-sm text-neutral-700 whitespace-pre-wrap bg-neutral-50 rounded p-3">{selected.reason}</p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+              {renderSponsorSelect(selected, 'proposer_id', 'Proposer')}
+              {renderSponsorSelect(selected, 'seconder_id', 'Seconder')}
+            </div>
+
+            {(selected.interview_at || selected.ballot_date || selected.decline_reason) && (
+              <div className="text-sm text-neutral-700 space-y-1 mb-4">
+                {selected.interview_at && (
+                  <p>
+                    Interview: {format(new Date(selected.interview_at), 'EEEE d MMMM yyyy, HH:mm')}
+                    {selected.interview_location && ` at ${selected.interview_location}`}
+                  </p>
+                )}
+                {selected.ballot_date && <p>Ballot: {format(new Date(selected.ballot_date), 'd MMMM yyyy')}</p>}
+                {selected.decline_reason && <p>Declined because: {selected.decline_reason}</p>}
+              </div>
+            )}
+
+            <div className="mb-6">
+              <label className="block text-xs font-medium text-neutral-500 uppercase mb-1">Secretary's notes</label>
+              <textarea
+                rows={3}
+                value={notes}
+                onChange={e => setNotes(e.target.value)}
+                className={inputClass}
+              />
+              {notes !== (selected.notes || '') && (
+                <Button size="sm" className="mt-2" onClick={() => saveChanges(selected, { notes: notes || null })} disabled={saving}>
+                  Save notes
+                </Button>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 pt-4 border-t border-neutral-200">
+              {APPLICATION_TRANSITIONS[selected.stage].map(stage => (
+                <Button
+                  key={stage}
+                  size="sm"
+                  variant={stage === 'declined' || APPLICATION_STAGES.indexOf(stage) < APPLICATION_STAGES.indexOf(selected.stage) ? 'outline' : 'primary'}
+                  onClick={() => startMove(selected, stage)}
+                >
+                  Move to {APPLICATION_STAGE_LABELS[stage]}
+                </Button>
+              ))}
+              <button
+                onClick={() => setDeleting(selected)}
+                className="ml-auto text-sm text-red-600 hover:text-red-700 flex items-center"
+              >
+                <Trash2 size={14} className="mr-1" />
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {pendingMove && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black bg-opacity-50" onClick={() => setPendingMove(null)} />
+          <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full mx-4 p-6">
+            <h3 className="text-lg font-semibold text-primary-600 mb-4">
+              Move {pendingMove.application.full_name} to {APPLICATION_STAGE_LABELS[pendingMove.change.stage]}
+            </h3>
+            {renderMoveFields(pendingMove)}
+            <div className="flex justify-end space-x-3 mt-6">
+              <Button variant="outline" onClick={() => setPendingMove(null)}>
+                Cancel
+              </Button>
+              <Button onClick={confirmMove} disabled={saving || !!moveBlocked}>
+                {saving ? 'Moving...' : 'Move'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={!!deleting}
+        title="Delete application"
+        message={`Delete ${deleting?.full_name}'s application? Their details will be removed and they won't be emailed.`}
+        confirmText="Delete"
+        type="danger"
+        onConfirm={confirmDelete}
+        onCancel={() => setDeleting(null)}
+      />
+    </div>
+  );
+};
+
+export default ApplicationsBoard;
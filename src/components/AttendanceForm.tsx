@@ -0,0 +1,261 @@
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Plus, Trash2 } from 'lucide-react';
+import { AttendanceRegisterForm, AttendanceStatus, MemberProfile } from '../types';
+import { ATTENDANCE_STATUS_LABELS } from '../utils/attendance';
+import { getLodgeMeetingOn, getLodgeMeetingsForYear, MeetingSchedule, toMeetingDateKey } from '../utils/lodgeMeetings';
+import Button from './Button';
+
+interface AttendanceFormProps {
+  // Members who can be marked; the caller decides who belongs on the register
+  members: MemberProfile[];
+  schedule: MeetingSchedule;
+  initialData?: AttendanceRegisterForm;
+  // Dates that already have a register, so they aren't offered for a new one
+  takenDates: string[];
+  onSubmit: (register: AttendanceRegisterForm) => Promise<void>;
+  onCancel: () => void;
+}
+
+type Mark = AttendanceStatus | 'absent';
+
+const inputClass = 'mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500';
+
+const markStyles: Record<Mark, string> = {
+  present: 'bg-green-600 text-white border-green-600',
+  apologies: 'bg-amber-500 text-white border-amber-500',
+  absent: 'bg-neutral-200 text-neutral-700 border-neutral-300'
+};
+
+const AttendanceForm: React.FC<AttendanceFormProps> = ({ members, schedule, initialData, takenDates, onSubmit, onCancel }) => {
+  const [meetingDate, setMeetingDate] = useState(initialData?.meeting_date || '');
+  const [title, setTitle] = useState(initialData?.title || '');
+  const [notes, setNotes] = useState(initialData?.notes || '');
+  const [marks, setMarks] = useState<Record<string, Mark>>(() => {
+    const initial: Record<string, Mark> = {};
+    initialData?.present.forEach(id => { initial[id] = 'present'; });
+    initialData?.apologies.forEach(id => { initial[id] = 'apologies'; });
+    return initial;
+  });
+  const [visitors, setVisitors] = useState(initialData?.visitors || []);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Past Lodge meetings this year and last that don't have a register yet
+  const openMeetings = useMemo(() => {
+    const now = new Date();
+    return [...getLodgeMeetingsForYear(now.getFullYear() - 1, schedule), ...getLodgeMeetingsForYear(now.getFullYear(), schedule)]
+      .filter(meeting => meeting.date <= now && !takenDates.includes(toMeetingDateKey(meeting.date)))
+      .reverse();
+  }, [schedule, takenDates]);
+
+  const handleDateChange = (dateKey: string) => {
+    setMeetingDate(dateKey);
+    const meeting = getLodgeMeetingOn(dateKey, schedule);
+    if (meeting && !title) setTitle(meeting.title);
+  };
+
+  const markOf = (userId: string): Mark => marks[userId] || 'absent';
+  const counts = members.reduce(
+    (totals, member) => ({ ...totals, [markOf(member.user_id)]: totals[markOf(member.user_id)] + 1 }),
+    { present: 0, apologies: 0, absent: 0 } as Record<Mark, number>
+  );
+
+  const markEveryone = (mark: Mark) => {
+    setMarks(Object.fromEntries(members.map(member => [member.user_id, mark])));
+  };
+
+  const updateVisitor = (index: number, field: 'name' | 'lodge_name', value: string) => {
+    setVisitors(prev => prev.map((visitor, i) => i === index ? { ...visitor, [field]: value } : visitor));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!meetingDate || !title.trim()) {
+      setError('Choose the meeting and give it a title');
+      return;
+    }
+    if (!initialData && takenDates.includes(meetingDate)) {
+      setError('That meeting already has a register - edit it instead');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await onSubmit({
+        meeting_date: meetingDate,
+        title: title.trim(),
+        notes,
+        present: members.filter(m => markOf(m.user_id) === 'present').map(m => m.user_id),
+        apologies: members.filter(m => markOf(m.user_id) === 'apologies').map(m => m.user_id),
+        visitors: visitors.filter(visitor => visitor.name.trim())
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The register could not be saved');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="register_date" className="block text-sm font-medium text-primary-600">
+            Meeting
+          </label>
+          {initialData ? (
+            <p className="mt-1 py-2 text-neutral-700">{format(new Date(meetingDate), 'EEEE d MMMM yyyy')}</p>
+          ) : (
+            <>
+              <select
+                value={openMeetings.some(m => toMeetingDateKey(m.date) === meetingDate) ? meetingDate : ''}
+                onChange={(e) => handleDateChange(e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Choose a meeting...</option>
+                {openMeetings.map(meeting => (
+                  <option key={meeting.date.toISOString()} value={toMeetingDateKey(meeting.date)}>
+                    {format(meeting.date, 'd MMMM yyyy')} - {meeting.title}
+                  </option>
+                ))}
+              </select>
+              <input
+                id="register_date"
+                type="date"
+                value={meetingDate}
+                onChange={(e) => handleDateChange(e.target.value)}
+                className={inputClass}
+                title="Or enter the date of an emergency meeting"
+              />
+            </>
+          )}
+        </div>
+        <div>
+          <label htmlFor="register_title" className="block text-sm font-medium text-primary-600">
+            Title
+          </label>
+          <input
+            id="register_title"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className={inputClass}
+            placeholder="e.g. Regular Meeting"
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+          <span className="text-sm font-medium text-primary-600">
+            Members - {counts.present} present, {counts.apologies} apologies, {counts.absent} absent
+          </span>
+          <div className="flex gap-2">
+            <Button type="button" size="sm" variant="outline" onClick={() => markEveryone('present')}>
+              All present
+            </Button>
+            <Button type="button" size="sm" variant="outline" onClick={() => markEveryone('absent')}>
+              Clear
+            </Button>
+          </div>
+        </div>
+        <div className="bg-white border border-neutral-200 rounded-lg divide-y divide-neutral-100 max-h-96 overflow-y-auto">
+          {members.map(member => (
+            <div key={member.user_id} className="flex items-center justify-between px-4 py-2">
+              <span className="text-sm text-neutral-800">{member.full_name}</span>
+              <div className="flex gap-1">
+                {(Object.keys(ATTENDANCE_STATUS_LABELS) as Mark[]).map(mark => (
+                  <button
+                    key={mark}
+                    type="button"
+                    onClick={() => setMarks(prev => ({ ...prev, [member.user_id]: mark }))}
+                    className={`px-2 py-1 text-xs rounded border ${
+                      markOf(member.user_id) === mark ? markStyles[mark] : 'bg-white text-neutral-500 border-neutral-200 hover:border-neutral-400'
+                    }`}
+                  >
+                    {ATTENDANCE_STATUS_LABELS[mark]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-medium text-primary-600">Visiting Brethren ({visitors.length})</span>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => setVisitors(prev => [...prev, { name: '', lodge_name: '' }])}
+            className="flex items-center"
+          >
+            <Plus size={14} className="mr-1" />
+            Add visitor
+          </Button>
+        </div>
+        {visitors.length === 0 ? (
+          <p className="text-xs text-neutral-500">No visitors recorded.</p>
+        ) : (
+          <div className="space-y-2">
+            {visitors.map((visitor, index) => (
+              <div key={index} className="flex gap-2 items-center">
+                <input
+                  value={visitor.name}
+                  onChange={(e) => updateVisitor(index, 'name', e.target.value)}
+                  placeholder="Name, e.g. W.Bro. John Smith"
+                  className={`${inputClass} mt-0`}
+                />
+                <input
+                  value={visitor.lodge_name || ''}
+                  onChange={(e) => updateVisitor(index, 'lodge_name', e.target.value)}
+                  placeholder="Lodge, e.g. Aldenham Lodge No. 1234"
+                  className={`${inputClass} mt-0`}
+                />
+                <button
+                  type="button"
+                  onClick={() => setVisitors(prev => prev.filter((_, i) => i !== index))}
+                  className="p-2 text-neutral-400 hover:text-red-600"
+                  title="Remove visitor"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="register_notes" className="block text-sm font-medium text-primary-600">
+          Notes
+        </label>
+        <textarea
+          id="register_notes"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={2}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex justify-end space-x-4">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={saving}>
+          {saving ? 'Saving...' : 'Save Register'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default AttendanceForm;
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ClipboardCheck } from 'lucide-react';
+import { api } from '../lib/api';
+import { AttendanceEntry, AttendanceRegister } from '../types';
+import {
+  ATTENDANCE_STATUS_LABELS,
+  attendanceMark,
+  formatAttendancePercentage,
+  summariseAttendance
+} from '../utils/attendance';
+
+interface AttendanceHistoryCardProps {
+  userId: string;
+  // Meetings before this aren't counted against the member
+  joinDate?: string;
+}
+
+const markColours = {
+  present: 'text-green-600',
+  apologies: 'text-amber-600',
+  absent: 'text-neutral-400'
+};
+
+const RECENT_MEETINGS = 8;
+
+const AttendanceHistoryCard: React.FC<AttendanceHistoryCardProps> = ({ userId, joinDate }) => {
+  const [registers, setRegisters] = useState<AttendanceRegister[]>([]);
+  const [entries, setEntries] = useState<AttendanceEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.getMemberAttendance(userId, joinDate?.slice(0, 10))
+      .then(result => {
+        setRegisters(result.registers);
+        setEntries(result.entries);
+      })
+      .catch(err => {
+        console.error('Error loading attendance:', err);
+        setError('Your attendance could not be loaded.');
+      });
+  }, [userId, joinDate]);
+
+  const summary = summariseAttendance(registers, entries, userId, joinDate);
+
+  return (
+    <div className="bg-white rounded-lg p-6 shadow-soft mt-6">
+      <h4 className="font-heading font-semibold text-primary-600 mb-2 flex items-center">
+        <ClipboardCheck className="w-5 h-5 mr-2 text-secondary-500" />
+        Attendance
+      </h4>
+
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : summary.held === 0 ? (
+        <p className="text-sm text-neutral-600">No registers have been taken since you joined.</p>
+      ) : (
+        <>
+          <div className="flex items-baseline justify-between mb-4">
+            <span className="text-3xl font-semibold text-primary-600">{formatAttendancePercentage(summary)}</span>
+            <span className="text-sm text-neutral-600">
+              {summary.present} of {summary.held} meetings • {summary.apologies} apologies
+            </span>
+          </div>
+          <ul className="space-y-1 text-sm">
+            {registers.slice(0, RECENT_MEETINGS).map(register => {
+              const mark = attendanceMark(register, entries, userId);
+              return (
+                <li key={register.id} className="flex justify-between">
+                  <span className="text-neutral-700">
+                    {format(new Date(register.meeting_date), 'd MMM yyyy')} - {register.title}
+                  </span>
+                  <span className={markColours[mark]}>{ATTENDANCE_STATUS_LABELS[mark]}</span>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AttendanceHistoryCard;
@@ -0,0 +1,254 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { ClipboardCheck, Download, Pencil, Plus, Trash2 } from 'lucide-react';
+import { api } from '../lib/api';
+import { AttendanceEntry, AttendanceRegister, AttendanceRegisterForm, AttendanceVisitor, MemberProfile } from '../types';
+import { useMeetingSchedule } from '../hooks/useMeetingSchedule';
+import { attendanceReportCsv, formatAttendancePercentage, summariseAttendance } from '../utils/attendance';
+import { downloadCsv } from '../utils/csv';
+import AttendanceForm from './AttendanceForm';
+import Button from './Button';
+import ConfirmDialog from './ConfirmDialog';
+import LoadingSpinner from './LoadingSpinner';
+
+interface AttendancePanelProps {
+  members: MemberProfile[];
+}
+
+interface AttendanceYear {
+  registers: AttendanceRegister[];
+  entries: AttendanceEntry[];
+  visitors: AttendanceVisitor[];
+}
+
+const inputClass = 'px-3 py-2 border border-neutral-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const AttendancePanel: React.FC<AttendancePanelProps> = ({ members }) => {
+  const { schedule } = useMeetingSchedule();
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [data, setData] = useState<AttendanceYear>({ registers: [], entries: [], visitors: [] });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // null: list view; 'new' or a register: the form is open
+  const [editing, setEditing] = useState<AttendanceRegister | 'new' | null>(null);
+  const [deleting, setDeleting] = useState<AttendanceRegister | null>(null);
+
+  const loadYear = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setData(await api.getAttendanceYear(year));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [year]);
+
+  useEffect(() => {
+    loadYear();
+  }, [loadYear]);
+
+  // Active members, plus anyone since made inactive who is on this year's registers
+  const registerMembers = useMemo(() => {
+    const marked = new Set(data.entries.map(entry => entry.user_id));
+    return members
+      .filter(member => member.status === 'active' || marked.has(member.user_id))
+      .sort((a, b) => a.full_name.localeCompare(b.full_name));
+  }, [members, data.entries]);
+
+  const editingForm = useMemo((): AttendanceRegisterForm | undefined => {
+    if (!editing || editing === 'new') return undefined;
+    const entries = data.entries.filter(entry => entry.register_id === editing.id);
+    return {
+      meeting_date: editing.meeting_date,
+      title: editing.title,
+      notes: editing.notes || '',
+      present: entries.filter(entry => entry.status === 'present').map(entry => entry.user_id),
+      apologies: entries.filter(entry => entry.status === 'apologies').map(entry => entry.user_id),
+      visitors: data.visitors
+        .filter(visitor => visitor.register_id === editing.id)
+        .map(visitor => ({ name: visitor.name, lodge_name: visitor.lodge_name || '' }))
+    };
+  }, [editing, data]);
+
+  const handleSave = async (register: AttendanceRegisterForm) => {
+    await api.saveAttendanceRegister(register);
+    setEditing(null);
+    setNotice(`Register saved for ${format(new Date(register.meeting_date), 'd MMMM yyyy')}`);
+    const savedYear = Number(register.meeting_date.slice(0, 4));
+    if (savedYear === year) {
+      await loadYear();
+    } else {
+      setYear(savedYear);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await api.deleteAttendanceRegister(deleting.id);
+      setNotice(`Register for ${deleting.title} deleted`);
+      await loadYear();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const handleExport = () => {
+    const reportMembers = registerMembers.filter(member =>
+      data.registers.some(register => !member.join_date || register.meeting_date >= member.join_date.slice(0, 10))
+    );
+    const { headers, rows } = attendanceReportCsv(data.registers, data.entries, reportMembers);
+    downloadCsv(`attendance ${year}.csv`, headers, rows);
+  };
+
+  const countFor = (register: AttendanceRegister, status: AttendanceEntry['status']) =>
+    data.entries.filter(entry => entry.register_id === register.id && entry.status === status).length;
+
+  const currentYear = new Date().getFullYear();
+  const years = Array.from({ length: 6 }, (_, i) => currentYear - i);
+
+  if (editing) {
+    return (
+      <div className="bg-neutral-50 rounded-lg p-6">
+        <h3 className="text-lg font-semibold text-primary-600 mb-4">
+          {editing === 'new' ? 'Take the Register' : `Register - ${editing.title}`}
+        </h3>
+        <AttendanceForm
+          members={registerMembers}
+          schedule={schedule}
+          initialData={editingForm}
+          takenDates={data.registers.map(register => register.meeting_date)}
+          onSubmit={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-6">
+        <h2 className="text-xl font-heading font-semibold text-primary-600 flex items-center">
+          <ClipboardCheck size={22} className="mr-2" />
+          Attendance Register
+        </h2>
+        <div className="flex gap-2">
+          <select value={year} onChange={e => setYear(Number(e.target.value))} className={inputClass}>
+            {years.map(y => <option key={y} value={y}>{y}</option>)}
+          </select>
+          <Button
+            variant="outline"
+            onClick={handleExport}
+            disabled={data.registers.length === 0}
+            className="flex items-center"
+          >
+            <Download size={18} className="mr-2" />
+            Export {year} CSV
+          </Button>
+          <Button onClick={() => setEditing('new')} className="flex items-center">
+            <Plus size={18} className="mr-2" />
+            Take Register
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3 mb-4">{error}</div>
+      )}
+      {notice && (
+        <div className="bg-green-50 border border-green-200 text-green-700 text-sm rounded-lg p-3 mb-4">{notice}</div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner subtle={true} className="py-8" />
+      ) : data.registers.length === 0 ? (
+        <div className="text-center py-8 bg-neutral-50 rounded-lg">
+          <p className="text-neutral-600">No registers taken in {year}.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <h3 className="font-medium text-primary-600 mb-3">Meetings ({data.registers.length})</h3>
+            <div className="bg-white rounded-lg border border-neutral-200 divide-y divide-neutral-100">
+              {data.registers.map(register => (
+                <div key={register.id} className="p-4 flex items-start justify-between">
+                  <div>
+                    <p className="font-medium text-neutral-800">{register.title}</p>
+                    <p className="text-sm text-neutral-500">{format(new Date(register.meeting_date), 'EEEE d MMMM yyyy')}</p>
+                    <p className="text-xs text-neutral-500 mt-1">
+                      {countFor(register, 'present')} present • {countFor(register, 'apologies')} apologies •{' '}
+                      {data.visitors.filter(visitor => visitor.register_id === register.id).length} visitors
+                    </p>
+                  </div>
+                  <div className="flex items-center">
+                    <button
+                      className="p-2 text-neutral-500 hover:text-secondary-500 transition-colors"
+                      onClick={() => setEditing(register)}
+                      title="Edit register"
+                    >
+                      <Pencil size={18} />
+                    </button>
+                    <button
+                      className="p-2 text-neutral-500 hover:text-red-500 transition-colors"
+                      onClick={() => setDeleting(register)}
+                      title="Delete register"
+                    >
+                      <Trash2 size={18} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="font-medium text-primary-600 mb-3">{year} Attendance</h3>
+            <div className="bg-white rounded-lg border border-neutral-200 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-neutral-50 text-neutral-600">
+                  <tr>
+                    <th className="text-left font-medium px-4 py-2">Member</th>
+                    <th className="text-right font-medium px-2 py-2">Present</th>
+                    <th className="text-right font-medium px-2 py-2">Apologies</th>
+                    <th className="text-right font-medium px-4 py-2">%</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-neutral-100">
+                  {registerMembers.map(member => {
+                    const summary = summariseAttendance(data.registers, data.entries, member.user_id, member.join_date);
+                    if (summary.held === 0) return null;
+                    return (
+                      <tr key={member.user_id}>
+                        <td className="px-4 py-2 text-neutral-800">{member.full_name}</td>
+                        <td className="px-2 py-2 text-right">{summary.present}/{summary.held}</td>
+                        <td className="px-2 py-2 text-right">{summary.apologies}</td>
+                        <td className="px-4 py-2 text-right font-medium">{formatAttendancePercentage(summary)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={!!deleting}
+        title="Delete Register"
+        message={`Delete the register for ${deleting?.title} on ${deleting ? format(new Date(deleting.meeting_date), 'd MMMM yyyy') : ''}? Members' attendance for this meeting will be lost.`}
+        onConfirm={handleDelete}
+        onCancel={() => setDeleting(null)}
+        type="danger"
+        confirmText="Delete"
+      />
+    </div>
+  );
+};
+
+export default AttendancePanel;
@@ -0,0 +1,249 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ChevronDown, ChevronRight, Download, Search, ShieldCheck } from 'lucide-react';
+import { api } from '../lib/api';
+import { AuditLogEntry, AuditLogFilters, MemberProfile } from '../types';
+import { downloadCsv } from '../utils/csv';
+import { isOfficeHolder } from '../utils/permissions';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_CSV_HEADERS,
+  AUDIT_TABLE_LABELS,
+  auditActionLabel,
+  auditActorName,
+  auditLogToCsvRows,
+  auditTableLabel,
+  formatAuditValues
+} from '../utils/auditLog';
+import Button from './Button';
+import LoadingSpinner from './LoadingSpinner';
+
+interface AuditLogPanelProps {
+  // For the "who" filter
+  members: MemberProfile[];
+}
+
+const PAGE_SIZE = 50;
+
+const actionBadges: Record<string, string> = {
+  create: 'bg-green-100 text-green-700',
+  update: 'bg-blue-100 text-blue-700',
+  delete: 'bg-red-100 text-red-700',
+  delete_account: 'bg-red-100 text-red-700'
+};
+
+const inputClass = 'px-3 py-2 border border-neutral-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const AuditLogPanel: React.FC<AuditLogPanelProps> = ({ members }) => {
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [searchInput, setSearchInput] = useState('');
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters(prev => (prev.search || '') === searchInput ? prev : { ...prev, search: searchInput || undefined });
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await api.getAuditLog(filters, page, PAGE_SIZE);
+      setEntries(result.entries);
+      setTotal(result.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const updateFilter = (key: keyof AuditLogFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+    setPage(1);
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const allEntries = await api.getAuditLogForExport(filters);
+      downloadCsv(
+        `audit log ${format(new Date(), 'yyyy-MM-dd')}.csv`,
+        AUDIT_CSV_HEADERS,
+        auditLogToCsvRows(allEntries)
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const renderValues = (title: string, values?: Record<string, unknown> | null) => values && (
+    <div>
+      <p className="text-xs font-medium text-neutral-500 uppercase mb-1">{title}</p>
+      <pre className="text-xs text-neutral-700 bg-neutral-50 rounded p-2 whitespace-pre-wrap break-words">
+        {formatAuditValues(values)}
+      </pre>
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-heading font-semibold text-primary-600 flex items-center">
+          <ShieldCheck size={22} className="mr-2" />
+          Audit Log ({total})
+        </h2>
+        <Button
+          variant="outline"
+          onClick={handleExport}
+          disabled={exporting || total === 0}
+          className="flex items-center"
+        >
+          <Download size={18} className="mr-2" />
+          {exporting ? 'Exporting...' : 'Export CSV'}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3 mb-6">
+        <div className="relative lg:col-span-2">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-neutral-400" />
+          <input
+            type="text"
+            value={searchInput}
+            onChange={e => setSearchInput(e.target.value)}
+            placeholder="Search by name or title..."
+            className={`${inputClass} w-full pl-9`}
+          />
+        </div>
+        <select value={filters.table || ''} onChange={e => updateFilter('table', e.target.value)} className={inputClass}>
+          <option value="">All areas</option>
+          {Object.entries(AUDIT_TABLE_LABELS).map(([table, label]) => (
+            <option key={table} value={table}>{label}</option>
+          ))}
+        </select>
+        <select value={filters.action || ''} onChange={e => updateFilter('action', e.target.value)} className={inputClass}>
+          <option value="">All actions</option>
+          {Object.entries(AUDIT_ACTION_LABELS).map(([action, label]) => (
+            <option key={action} value={action}>{label}</option>
+          ))}
+        </select>
+        <select value={filters.actorId || ''} onChange={e => updateFilter('actorId', e.target.value)} className={inputClass}>
+          <option value="">Anyone</option>
+          {members
+            .filter(member => isOfficeHolder(member.role))
+            .map(member => (
+              <option key={member.user_id} value={member.user_id}>{member.full_name}</option>
+            ))}
+        </select>
+        <div className="flex gap-2">
+          <input
+            type="date"
+            value={filters.from || ''}
+            onChange={e => updateFilter('from', e.target.value)}
+            className={`${inputClass} w-full`}
+            title="From"
+          />
+          <input
+            type="date"
+            value={filters.to || ''}
+            onChange={e => updateFilter('to', e.target.value)}
+            className={`${inputClass} w-full`}
+            title="To"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3 mb-4">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner subtle={true} className="py-8" />
+      ) : entries.length === 0 ? (
+        <div className="text-center py-8 bg-neutral-50 rounded-lg">
+          <p className="text-neutral-600">No audit entries match these filters.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-neutral-200 divide-y divide-neutral-100">
+          {entries.map(entry => {
+            const isExpanded = expanded === entry.id;
+            const hasValues = !!(entry.old_values || entry.new_values);
+
+            return (
+              <div key={entry.id} className="p-4">
+                <button
+                  className="w-full text-left flex items-start gap-3"
+                  onClick={() => setExpanded(isExpanded ? null : entry.id)}
+                  disabled={!hasValues}
+                >
+                  <span className="mt-0.5 text-neutral-400">
+                    {hasValues && (isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />)}
+                  </span>
+                  <div className="flex-grow">
+                    <div className="flex flex-wrap items-center gap-2 mb-1">
+                      <span className={`text-xs font-medium px-2 py-0.5 rounded ${actionBadges[entry.action] || 'bg-neutral-100 text-neutral-600'}`}>
+                        {auditActionLabel(entry.action)}
+                      </span>
+                      <span className="text-xs text-neutral-500">{auditTableLabel(entry.table_name)}</span>
+                      <span className="font-medium text-primary-600">{entry.record_label || entry.record_id}</span>
+                    </div>
+                    <p className="text-sm text-neutral-600">{entry.summary}</p>
+                    <p className="text-xs text-neutral-500 mt-1">
+                      {auditActorName(entry)} - {format(new Date(entry.occurred_at), 'd MMM yyyy, HH:mm')}
+                      {entry.source !== 'database' && ` (via ${entry.source})`}
+                    </p>
+                  </div>
+                </button>
+
+                {isExpanded && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3 ml-7">
+                    {renderValues('Before', entry.old_values)}
+                    {renderValues('After', entry.new_values)}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between mt-4">
+          <p className="text-sm text-neutral-600">
+            Page {page} of {totalPages}
+          </p>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => setPage(page - 1)} disabled={page <= 1 || loading}>
+              Previous
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setPage(page + 1)} disabled={page >= totalPages || loading}>
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogPanel;
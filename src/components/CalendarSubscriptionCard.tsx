@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarPlus, Copy, RefreshCw } from 'lucide-react';
+import { api } from '../lib/api';
+import { getCalendarFeedUrl, toWebcalUrl } from '../lib/calendarFeed';
+import Button from './Button';
+
+interface CalendarSubscriptionCardProps {
+  userId: string;
+}
+
+const CalendarSubscriptionCard: React.FC<CalendarSubscriptionCardProps> = ({ userId }) => {
+  const [token, setToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [resetting, setResetting] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    api.getCalendarFeedToken(userId)
+      .then(setToken)
+      .catch(err => {
+        console.error('Error loading calendar feed token:', err);
+        setError('Your calendar link could not be loaded.');
+      });
+  }, [userId]);
+
+  const feedUrl = token ? getCalendarFeedUrl(token) : null;
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleReset = async () => {
+    try {
+      setResetting(true);
+      setError(null);
+      setToken(await api.resetCalendarFeedToken());
+    } catch (err) {
+      console.error('Error resetting calendar feed token:', err);
+      setError('Your calendar link could not be reset.');
+    } finally {
+      setResetting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg p-6 shadow-soft mt-6">
+      <h4 className="font-heading font-semibold text-primary-600 mb-2 flex items-center">
+        <CalendarPlus className="w-5 h-5 mr-2 text-secondary-500" />
+        Calendar Subscription
+      </h4>
+      <p className="text-sm text-neutral-600 mb-4">
+        Subscribe to all Lodge meetings and events, including members-only events, in your own calendar.
+        Keep this link private.
+      </p>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {feedUrl && (
+        <>
+          <input
+            type="text"
+            readOnly
+            value={feedUrl}
+            onFocus={(e) => e.target.select()}
+            className="w-full text-xs font-mono rounded-md border border-neutral-300 px-2 py-1.5 mb-3 text-neutral-600"
+          />
+          <div className="flex flex-wrap gap-2">
+            <Button
+              size="sm"
+              onClick={() => {
+                window.location.href = toWebcalUrl(feedUrl);
+              }}
+            >
+              Subscribe
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleCopy} className="flex items-center">
+              <Copy size={14} className="mr-1" />
+              {copied ? 'Copied' : 'Copy Link'}
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleReset} disabled={resetting} className="flex items-center">
+              <RefreshCw size={14} className="mr-1" />
+              {resetting ? 'Resetting...' : 'Reset Link'}
+            </Button>
+          </div>
+          <p className="text-xs text-neutral-500 mt-3">
+            Resetting the link stops any calendars still using the old one.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CalendarSubscriptionCard;
@@ -0,0 +1,411 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Download, Heart, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { api } from '../lib/api';
+import { CharityKind, CharityRecord, CharityYearTotal, MeetingMinutes } from '../types';
+import { downloadCsv } from '../utils/csv';
+import {
+  CHARITY_BREAKDOWN_CSV_HEADERS,
+  CHARITY_KIND_BADGES,
+  CHARITY_KIND_LABELS,
+  CHARITY_RECORDS_CSV_HEADERS,
+  amountRaised,
+  charityBreakdownToCsvRows,
+  charityRecordsToCsvRows,
+  totalsForRecords
+} from '../utils/charity';
+import { formatPounds } from '../utils/dues';
+import Button from './Button';
+import ConfirmDialog from './ConfirmDialog';
+import LoadingSpinner from './LoadingSpinner';
+
+interface RecordDraft {
+  id?: string;
+  kind: CharityKind;
+  record_date: string;
+  title: string;
+  charity_name: string;
+  amount: string;
+  notes: string;
+}
+
+const inputClass = 'px-3 py-2 border border-neutral-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+const emptyDraft = (kind: CharityKind): RecordDraft => ({
+  kind,
+  record_date: today(),
+  title: '',
+  charity_name: '',
+  amount: '',
+  notes: ''
+});
+
+const CharityPanel: React.FC = () => {
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [records, setRecords] = useState<CharityRecord[]>([]);
+  const [yearlyTotals, setYearlyTotals] = useState<CharityYearTotal[]>([]);
+  const [minutes, setMinutes] = useState<MeetingMinutes[]>([]);
+  const [kindFilter, setKindFilter] = useState<CharityKind | ''>('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RecordDraft | null>(null);
+  const [deleting, setDeleting] = useState<CharityRecord | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadYear = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [recordsData, totalsData] = await Promise.all([api.getCharityRecords(year), api.getCharityTotals()]);
+      setRecords(recordsData);
+      setYearlyTotals(totalsData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [year]);
+
+  useEffect(() => {
+    loadYear();
+  }, [loadYear]);
+
+  // Confirmed minutes note the alms plate, which saves typing it in twice
+  useEffect(() => {
+    api.getConfirmedMinutes()
+      .then(setMinutes)
+      .catch(err => console.warn('Minutes unavailable for alms suggestions:', err));
+  }, []);
+
+  const unrecordedAlms = useMemo(() => {
+    const recordedDates = new Set(records.filter(record => record.kind === 'alms').map(record => record.record_date));
+    return minutes.filter(minute =>
+      minute.meeting_date.startsWith(`${year}-`) &&
+      Number(minute.alms_collected) > 0 &&
+      !recordedDates.has(minute.meeting_date)
+    );
+  }, [minutes, records, year]);
+
+  const totals = totalsForRecords(records);
+  const visibleRecords = kindFilter ? records.filter(record => record.kind === kindFilter) : records;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    if (draft.kind === 'donation' && !draft.charity_name.trim()) {
+      setError('Name the charity the donation went to');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await api.saveCharityRecord({
+        id: draft.id,
+        kind: draft.kind,
+        record_date: draft.record_date,
+        title: draft.title.trim(),
+        charity_name: draft.kind === 'alms' ? null : draft.charity_name.trim() || null,
+        amount: Number(draft.amount),
+        notes: draft.notes.trim() || null
+      });
+      setNotice(`${CHARITY_KIND_LABELS[draft.kind]} of ${formatPounds(Number(draft.amount))} saved`);
+      setDraft(null);
+      await loadYear();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      setError(null);
+      await api.deleteCharityRecord(deleting.id);
+      setNotice(`"${deleting.title}" deleted`);
+      await loadYear();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const editRecord = (record: CharityRecord) => setDraft({
+    id: record.id,
+    kind: record.kind,
+    record_date: record.record_date,
+    title: record.title,
+    charity_name: record.charity_name || '',
+    amount: String(record.amount),
+    notes: record.notes || ''
+  });
+
+  const currentYear = new Date().getFullYear();
+  const years = Array.from({ length: 6 }, (_, i) => currentYear - i);
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-6">
+        <h2 className="text-xl font-heading font-semibold text-primary-600 flex items-center">
+          <Heart size={22} className="mr-2" />
+          Charity
+        </h2>
+        <div className="flex gap-2">
+          <select value={year} onChange={e => setYear(Number(e.target.value))} className={inputClass}>
+            {years.map(y => <option key={y} value={y}>{y}</option>)}
+          </select>
+          <Button
+            variant="outline"
+            onClick={() => downloadCsv(`charity ${year}.csv`, CHARITY_RECORDS_CSV_HEADERS, charityRecordsToCsvRows(records))}
+            disabled={records.length === 0}
+            className="flex items-center"
+          >
+            <Download size={18} className="mr-2" />
+            {year} CSV
+          </Button>
+          <Button onClick={() => setDraft(emptyDraft('donation'))} className="flex items-center">
+            <Plus size={18} className="mr-2" />
+            New Entry
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3 mb-4">{error}</div>
+      )}
+      {notice && (
+        <div className="bg-green-50 border border-green-200 text-green-700 text-sm rounded-lg p-3 mb-4">{notice}</div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner subtle={true} className="py-8" />
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-4 mb-6">
+            {(['alms', 'fundraising', 'donation'] as CharityKind[]).map(kind => (
+              <div key={kind} className="bg-neutral-50 rounded-lg p-4">
+                <p className="text-sm text-neutral-500">
+                  {kind === 'donation' ? 'Given' : kind === 'alms' ? 'Alms collected' : 'Raised by events'} in {year}
+                </p>
+                <p className="text-2xl font-semibold text-primary-600">{formatPounds(totals[kind])}</p>
+              </div>
+            ))}
+          </div>
+
+          {unrecordedAlms.length > 0 && (
+            <div className="bg-secondary-50 border border-secondary-200 rounded-lg p-4 mb-6">
+              <h3 className="font-medium text-primary-600 mb-2">Alms in the minutes but not recorded here</h3>
+              <div className="divide-y divide-secondary-100">
+                {unrecordedAlms.map(minute => (
+                  <div key={minute.id} className="py-2 flex items-center justify-between text-sm">
+                    <span>
+                      {format(new Date(minute.meeting_date), 'd MMM yyyy')} • {minute.title} •{' '}
+                      {formatPounds(Number(minute.alms_collected))}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setDraft({
+                        ...emptyDraft('alms'),
+                        record_date: minute.meeting_date,
+                        title: `Alms - ${minute.title}`,
+                        amount: String(minute.alms_collected)
+                      })}
+                    >
+                      Record
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center gap-3 mb-3">
+            <select
+              value={kindFilter}
+              onChange={e => setKindFilter(e.target.value as CharityKind | '')}
+              className={inputClass}
+            >
+              <option value="">Everything</option>
+              {Object.entries(CHARITY_KIND_LABELS).map(([kind, label]) => (
+                <option key={kind} value={kind}>{label}s</option>
+              ))}
+            </select>
+          </div>
+
+          {visibleRecords.length === 0 ? (
+            <div className="text-center py-8 bg-neutral-50 rounded-lg mb-6">
+              <p className="text-neutral-600">Nothing recorded for {year} yet.</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg border border-neutral-200 divide-y divide-neutral-100 mb-6">
+              {visibleRecords.map(record => (
+                <div key={record.id} className="p-4 flex flex-wrap items-center gap-3">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${CHARITY_KIND_BADGES[record.kind]}`}>
+                    {CHARITY_KIND_LABELS[record.kind]}
+                  </span>
+                  <div className="flex-1 min-w-[200px]">
+                    <p className="font-medium text-neutral-800">{record.title}</p>
+                    <p className="text-sm text-neutral-500">
+                      {format(new Date(record.record_date), 'd MMM yyyy')}
+                      {record.charity_name && ` • ${record.kind === 'donation' ? 'to' : 'for'} ${record.charity_name}`}
+                    </p>
+                  </div>
+                  <span className="text-neutral-800">{formatPounds(Number(record.amount))}</span>
+                  <button className="p-1 text-neutral-400 hover:text-secondary-600" onClick={() => editRecord(record)} title="Edit">
+                    <Pencil size={16} />
+                  </button>
+                  <button className="p-1 text-neutral-400 hover:text-red-600" onClick={() => setDeleting(record)} title="Delete">
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg border border-neutral-200 p-4">
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="font-medium text-primary-600">Year by Year</h3>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => downloadCsv(
+                  `charity breakdown ${today()}.csv`,
+                  CHARITY_BREAKDOWN_CSV_HEADERS,
+                  charityBreakdownToCsvRows(yearlyTotals)
+                )}
+                disabled={yearlyTotals.length === 0}
+                className="flex items-center"
+              >
+                <Download size={14} className="mr-1" />
+                Export
+              </Button>
+            </div>
+            {yearlyTotals.length === 0 ? (
+              <p className="text-sm text-neutral-500">No charity work recorded yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-neutral-500">
+                      <th className="py-2 pr-4 font-medium">Year</th>
+                      <th className="py-2 pr-4 font-medium text-right">Alms</th>
+                      <th className="py-2 pr-4 font-medium text-right">Fundraising</th>
+                      <th className="py-2 pr-4 font-medium text-right">Total raised</th>
+                      <th className="py-2 pr-4 font-medium text-right">Donations</th>
+                      <th className="py-2 font-medium text-right">Charities</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-neutral-100">
+                    {yearlyTotals.map(total => (
+                      <tr key={total.year}>
+                        <td className="py-2 pr-4 font-medium text-neutral-800">{total.year}</td>
+                        <td className="py-2 pr-4 text-right">{formatPounds(Number(total.alms))}</td>
+                        <td className="py-2 pr-4 text-right">{formatPounds(Number(total.fundraising))}</td>
+                        <td className="py-2 pr-4 text-right font-medium">{formatPounds(amountRaised(total))}</td>
+                        <td className="py-2 pr-4 text-right">{formatPounds(Number(total.donations))}</td>
+                        <td className="py-2 text-right">{total.charities_supported}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {draft && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black bg-opacity-50" onClick={() => setDraft(null)} />
+          <form onSubmit={handleSave} className="relative bg-white rounded-lg shadow-xl max-w-md w-full mx-4 p-6 space-y-3">
+            <div className="flex justify-between items-start">
+              <h3 className="text-lg font-heading font-semibold text-primary-600">
+                {draft.id ? 'Edit Entry' : 'New Entry'}
+              </h3>
+              <button type="button" onClick={() => setDraft(null)} className="text-neutral-400 hover:text-neutral-600" title="Close">
+                <X size={20} />
+              </button>
+            </div>
+            <select
+              value={draft.kind}
+              onChange={e => setDraft({ ...draft, kind: e.target.value as CharityKind })}
+              className={`${inputClass} w-full`}
+            >
+              {Object.entries(CHARITY_KIND_LABELS).map(([kind, label]) => (
+                <option key={kind} value={kind}>{label}</option>
+              ))}
+            </select>
+            <input
+              value={draft.title}
+              onChange={e => setDraft({ ...draft, title: e.target.value })}
+              placeholder={draft.kind === 'alms'
+                ? 'e.g. Alms - Installation meeting'
+                : draft.kind === 'fundraising' ? 'e.g. Charity golf day' : 'e.g. Annual gift'}
+              className={`${inputClass} w-full`}
+              required
+            />
+            {draft.kind !== 'alms' && (
+              <input
+                value={draft.charity_name}
+                onChange={e => setDraft({ ...draft, charity_name: e.target.value })}
+                placeholder={draft.kind === 'donation' ? 'Charity' : 'Raised for (optional)'}
+                className={`${inputClass} w-full`}
+                required={draft.kind === 'donation'}
+              />
+            )}
+            <div className="flex gap-3">
+              <input
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={draft.amount}
+                onChange={e => setDraft({ ...draft, amount: e.target.value })}
+                placeholder="Amount (£)"
+                className={`${inputClass} w-full`}
+                required
+              />
+              <input
+                type="date"
+                value={draft.record_date}
+                onChange={e => setDraft({ ...draft, record_date: e.target.value })}
+                className={`${inputClass} w-full`}
+                title={draft.kind === 'alms' ? 'Meeting date' : 'Date'}
+                required
+              />
+            </div>
+            <textarea
+              value={draft.notes}
+              onChange={e => setDraft({ ...draft, notes: e.target.value })}
+              placeholder="Notes (optional)"
+              rows={2}
+              className={`${inputClass} w-full`}
+            />
+            <div className="flex justify-end gap-3 pt-3">
+              <Button type="button" variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+              <Button type="submit" disabled={saving}>{saving ? 'Saving...' : 'Save'}</Button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={!!deleting}
+        title="Delete Entry"
+        message={`Delete "${deleting?.title}"? It will no longer count towards the charity totals.`}
+        onConfirm={handleDelete}
+        onCancel={() => setDeleting(null)}
+        type="danger"
+        confirmText="Delete"
+      />
+    </div>
+  );
+};
+
+export default CharityPanel;
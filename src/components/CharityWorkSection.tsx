@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { Gift, Heart, HandCoins } from 'lucide-react';
+import AnimatedCounter from './AnimatedCounter';
+import { api } from '../lib/api';
+import { CharityYearTotal } from '../types';
+import { summariseCharityTotals } from '../utils/charity';
+
+/**
+ * "Our charity work" - what the Lodge has raised and given, from the Almoner's
+ * records. Stays hidden until there is something to show.
+ */
+const CharityWorkSection: React.FC = () => {
+  const [totals, setTotals] = useState<CharityYearTotal[]>([]);
+
+  useEffect(() => {
+    api.getCharityTotals()
+      .then(setTotals)
+      .catch(error => console.error('Error loading charity totals:', error));
+  }, []);
+
+  const summary = summariseCharityTotals(totals);
+  if (summary.raised + summary.given <= 0) return null;
+
+  const year = new Date().getFullYear();
+  const figures = [
+    { icon: HandCoins, value: summary.raised, label: 'Raised for Charity', description: `Since ${summary.sinceYear}` },
+    { icon: Heart, value: summary.raisedThisYear, label: `Raised in ${year}`, description: 'Alms and fundraising events' },
+    { icon: Gift, value: summary.given, label: 'Given to Good Causes', description: 'Donations to charities' }
+  ];
+
+  return (
+    <section className="py-16 bg-white">
+      <div className="container mx-auto px-4 md:px-6">
+        <div className="text-center mb-10">
+          <h2 className="text-3xl md:text-4xl font-heading font-bold text-primary-600 mb-4">
+            Our Charity Work
+          </h2>
+          <p className="text-lg text-neutral-600 max-w-2xl mx-auto">
+            Every meeting's alms plate and every fundraising event goes to causes close to our members' hearts
+          </p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+          {figures.map(figure => (
+            <div key={figure.label} className="text-center">
+              <div className="inline-flex items-center justify-center w-14 h-14 bg-secondary-100 rounded-full mb-4">
+                <figure.icon size={28} className="text-secondary-600" />
+              </div>
+              <div className="text-3xl md:text-4xl font-heading font-bold text-primary-600 mb-2">
+                £<AnimatedCounter end={Math.round(figure.value)} />
+              </div>
+              <h3 className="text-lg font-semibold text-neutral-800 mb-1">{figure.label}</h3>
+              <p className="text-sm text-neutral-500">{figure.description}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default CharityWorkSection;
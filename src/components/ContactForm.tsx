@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import Button from './Button';
 
 const ContactForm: React.FC = () => {
@@ -8,8 +8,12 @@ const ContactForm: React.FC = () => {
     phone: '',
     subject: '',
     message: '',
-    interested: false
+    interested: false,
+    // Honeypot - hidden from people, so only bots fill it in
+    website: ''
   });
+  // When the form appeared; messages sent within seconds are treated as automated
+  const startedAt = useRef(Date.now());
   const [formStatus, setFormStatus] = useState<'idle' | 'submitting' | 'success' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState<string>('');
 
@@ -42,7 +46,7 @@ const ContactForm: React.FC = () => {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({ ...formData, elapsed_ms: Date.now() - startedAt.current }),
       });
 
       const result = await response.json();
@@ -61,8 +65,10 @@ const ContactForm: React.FC = () => {
           phone: '',
           subject: '',
           message: '',
-          interested: false
+          interested: false,
+          website: ''
         });
+        startedAt.current = Date.now();
         setFormStatus('idle');
       }, 5000);
 
@@ -162,6 +168,19 @@ const ContactForm: React.FC = () => {
         />
       </div>
       
+      <div className="absolute -left-[9999px] w-px h-px overflow-hidden" aria-hidden="true">
+        <label htmlFor="website">Leave this field empty</label>
+        <input
+          type="text"
+          id="website"
+          name="website"
+          value={formData.website}
+          onChange={handleChange}
+          tabIndex={-1}
+          autoComplete="off"
+        />
+      </div>
+
       <div className="flex items-start">
         <input
           type="checkbox"
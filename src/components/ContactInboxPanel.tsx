@@ -0,0 +1,463 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, Inbox, Mail, MailOpen, Phone, Reply, Search, ShieldAlert, ShieldCheck, Trash2, UserPlus, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { api } from '../lib/api';
+import { ContactSubmission, ContactSubmissionFilters, ContactSubmissionStatus, MemberProfile } from '../types';
+import { CONTACT_STATUSES, CONTACT_STATUS_BADGES, CONTACT_STATUS_LABELS, contactReplyLink } from '../utils/contactInbox';
+import { isOfficeHolder } from '../utils/permissions';
+import Button from './Button';
+import ConfirmDialog from './ConfirmDialog';
+import LoadingSpinner from './LoadingSpinner';
+
+interface ContactInboxPanelProps {
+  // Officers can be assigned an enquiry to follow up
+  members: MemberProfile[];
+}
+
+const PAGE_SIZE = 25;
+
+const inputClass = 'px-3 py-2 border border-neutral-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const ContactInboxPanel: React.FC<ContactInboxPanelProps> = ({ members }) => {
+  const { hasPermission } = useAuth();
+  const [filters, setFilters] = useState<ContactSubmissionFilters>({});
+  const [searchInput, setSearchInput] = useState('');
+  const [submissions, setSubmissions] = useState<ContactSubmission[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [notes, setNotes] = useState('');
+  const [deleting, setDeleting] = useState<ContactSubmission | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters(prev => (prev.search || '') === searchInput ? prev : { ...prev, search: searchInput || undefined });
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const loadSubmissions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await api.getContactSubmissions(filters, page, PAGE_SIZE);
+      setSubmissions(result.submissions);
+      setTotal(result.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    loadSubmissions();
+  }, [loadSubmissions]);
+
+  const officers = useMemo(
+    () => members.filter(member => member.status === 'active' && isOfficeHolder(member.role)),
+    [members]
+  );
+  const officerName = (userId?: string | null) =>
+    members.find(member => member.user_id === userId)?.full_name || 'Unknown member';
+
+  const selected = submissions.find(s => s.id === selectedId) || null;
+
+  useEffect(() => {
+    setNotes(selected?.notes || '');
+  }, [selected?.id, selected?.notes]);
+
+  const replaceSubmission = (updated: ContactSubmission) =>
+    setSubmissions(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+
+  const saveChanges = async (submission: ContactSubmission, data: Partial<ContactSubmission>) => {
+    try {
+      setSaving(true);
+      setError(null);
+      replaceSubmission(await api.updateContactSubmission(submission.id, data));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openSubmission = (submission: ContactSubmission) => {
+    setSelectedId(submission.id);
+    if (!submission.is_read) {
+      saveChanges(submission, { is_read: true });
+    }
+  };
+
+  const linkToPipeline = async (submission: ContactSubmission) => {
+    try {
+      setSaving(true);
+      setError(null);
+      const applicationId = await api.linkContactSubmission(submission.id);
+      replaceSubmission({
+        ...submission,
+        application_id: applicationId,
+        status: submission.status === 'new' ? 'in_progress' : submission.status
+      });
+      setNotice(`${submission.name} is in the membership pipeline - see the Applications tab.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Out of quarantine and into the inbox. It still hasn't been emailed, which the inbox flags.
+  const releaseSubmission = async (submission: ContactSubmission) => {
+    try {
+      setSaving(true);
+      setError(null);
+      await api.updateContactSubmission(submission.id, { quarantined: false });
+      setSubmissions(prev => prev.filter(s => s.id !== submission.id));
+      setTotal(prev => prev - 1);
+      setSelectedId(null);
+      setNotice(`The message from ${submission.name} has been moved to the inbox.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleting) return;
+    try {
+      await api.deleteContactSubmission(deleting.id);
+      setSubmissions(prev => prev.filter(s => s.id !== deleting.id));
+      setTotal(prev => prev - 1);
+      setSelectedId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const updateFilter = (changes: Partial<ContactSubmissionFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setPage(1);
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-6">
+        <h2 className="text-xl font-heading font-semibold text-primary-600 flex items-center">
+          {filters.quarantined ? <ShieldAlert size={22} className="mr-2" /> : <Inbox size={22} className="mr-2" />}
+          {filters.quarantined ? 'Quarantine' : 'Enquiries'} ({total})
+        </h2>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant={filters.quarantined ? 'outline' : 'primary'}
+            onClick={() => updateFilter({ quarantined: undefined })}
+          >
+            Inbox
+          </Button>
+          <Button
+            size="sm"
+            variant={filters.quarantined ? 'primary' : 'outline'}
+            onClick={() => updateFilter({ quarantined: true })}
+          >
+            Quarantine
+          </Button>
+        </div>
+      </div>
+
+      {filters.quarantined && (
+        <p className="text-sm text-neutral-600 mb-4">
+          Messages the spam checks held back. They weren't emailed to the Lodge; release any that are genuine.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-6">
+        <div className="relative md:col-span-2">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-neutral-400" />
+          <input
+            type="text"
+            value={searchInput}
+            onChange={e => setSearchInput(e.target.value)}
+            placeholder="Search by name, email or subject..."
+            className={`${inputClass} w-full pl-9`}
+          />
+        </div>
+        <select
+          value={filters.status || ''}
+          onChange={e => updateFilter({ status: (e.target.value || undefined) as ContactSubmissionStatus | undefined })}
+          className={inputClass}
+        >
+          <option value="">Any status</option>
+          {CONTACT_STATUSES.map(status => (
+            <option key={status} value={status}>{CONTACT_STATUS_LABELS[status]}</option>
+          ))}
+        </select>
+        <select
+          value={filters.assignedTo || ''}
+          onChange={e => updateFilter({ assignedTo: e.target.value || undefined })}
+          className={inputClass}
+        >
+          <option value="">Anyone</option>
+          {officers.map(officer => (
+            <option key={officer.user_id} value={officer.user_id}>{officer.full_name}</option>
+          ))}
+        </select>
+        <label className="flex items-center text-sm text-neutral-700 md:col-span-4">
+          <input
+            type="checkbox"
+            checked={!!filters.unreadOnly}
+            onChange={e => updateFilter({ unreadOnly: e.target.checked || undefined })}
+            className="mr-2"
+          />
+          Unread only
+        </label>
+      </div>
+
+      {notice && (
+        <div className="bg-green-50 border border-green-200 text-green-700 text-sm rounded-lg p-3 mb-4 flex justify-between">
+          <span>{notice}</span>
+          <button onClick={() => setNotice(null)} className="underline ml-4">Dismiss</button>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3 mb-4">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner subtle={true} className="py-8" />
+      ) : submissions.length === 0 ? (
+        <div className="text-center py-8 bg-neutral-50 rounded-lg">
+          <p className="text-neutral-600">
+            {filters.quarantined ? 'Nothing in quarantine matches these filters.' : 'No enquiries match these filters.'}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-neutral-200 divide-y divide-neutral-100">
+          {submissions.map(submission => (
+            <button
+              key={submission.id}
+              onClick={() => openSubmission(submission)}
+              className={`w-full text-left p-4 flex items-start gap-3 hover:bg-neutral-50 ${submission.is_read ? '' : 'bg-blue-50'}`}
+            >
+              <span className="mt-0.5 text-neutral-400">
+                {submission.is_read ? <MailOpen size={16} /> : <Mail size={16} className="text-blue-600" />}
+              </span>
+              <div className="flex-grow min-w-0">
+                <div className="flex flex-wrap items-center gap-2 mb-1">
+                  <span className={`text-xs font-medium px-2 py-0.5 rounded ${CONTACT_STATUS_BADGES[submission.status]}`}>
+                    {CONTACT_STATUS_LABELS[submission.status]}
+                  </span>
+                  {submission.interested && (
+                    <span className="text-xs font-medium px-2 py-0.5 rounded bg-secondary-100 text-secondary-700">
+                      Interested in joining
+                    </span>
+                  )}
+                  <span className={`text-primary-600 truncate ${submission.is_read ? '' : 'font-semibold'}`}>
+                    {submission.subject}
+                  </span>
+                </div>
+                <p className="text-sm text-neutral-600 truncate">{submission.name} - {submission.message}</p>
+                <p className="text-xs text-neutral-500 mt-1">
+                  {format(new Date(submission.created_at), 'd MMM yyyy, HH:mm')}
+                  {submission.assigned_to && ` • Assigned to ${officerName(submission.assigned_to)}`}
+                  {submission.quarantined
+                    ? ` • ${submission.spam_reasons.join('; ')}`
+                    : !submission.email_sent && ' • Not emailed'}
+                </p>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between mt-4">
+          <p className="text-sm text-neutral-600">
+            Page {page} of {totalPages}
+          </p>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => setPage(page - 1)} disabled={page <= 1 || loading}>
+              Previous
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setPage(page + 1)} disabled={page >= totalPages || loading}>
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {selected && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black bg-opacity-50" onClick={() => setSelectedId(null)} />
+          <div className="relative bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 p-6 max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-start mb-4">
+              <div>
+                <h3 className="text-xl font-heading font-semibold text-primary-600">{selected.subject}</h3>
+                <p className="text-sm text-neutral-500">
+                  From {selected.name} • {format(new Date(selected.created_at), 'd MMMM yyyy, HH:mm')}
+                </p>
+              </div>
+              <button onClick={() => setSelectedId(null)} className="text-neutral-400 hover:text-neutral-600" title="Close">
+                <X size={20} />
+              </button>
+            </div>
+
+            {selected.quarantined ? (
+              <div className="bg-red-50 border border-red-200 text-red-800 text-sm rounded-lg p-3 mb-4">
+                <p className="font-medium flex items-center mb-1">
+                  <ShieldAlert size={16} className="mr-2" />
+                  Held back as possible spam
+                </p>
+                <ul className="list-disc ml-8">
+                  {selected.spam_reasons.map(reason => <li key={reason}>{reason}</li>)}
+                </ul>
+              </div>
+            ) : !selected.email_sent && (
+              <div className="bg-amber-50 border border-amber-200 text-amber-800 text-sm rounded-lg p-3 mb-4 flex items-start">
+                <AlertTriangle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+                The email to the Lodge failed, so this inbox is the only copy of this message.
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm mb-4">
+              <a href={`mailto:${selected.email}`} className="flex items-center text-primary-600 hover:text-secondary-600 break-all">
+                <Mail size={14} className="mr-2 flex-shrink-0" />
+                {selected.email}
+              </a>
+              {selected.phone && (
+                <a href={`tel:${selected.phone.replace(/\s/g, '')}`} className="flex items-center text-primary-600 hover:text-secondary-600">
+                  <Phone size={14} className="mr-2" />
+                  {selected.phone}
+                </a>
+              )}
+            </div>
+
+            <p className="text-sm text-neutral-700 whitespace-pre-wrap bg-neutral-50 rounded p-3 mb-4">{selected.message}</p>
+
+            {selected.interested && !selected.quarantined && (
+              <div className="flex flex-wrap items-center justify-between gap-3 bg-secondary-50 border border-secondary-200 rounded-lg p-3 mb-4 text-sm">
+                <span className="text-neutral-700">
+                  {selected.application_id
+                    ? 'Linked to a membership application.'
+                    : `${selected.name} is interested in becoming a Freemason.`}
+                </span>
+                {!selected.application_id && hasPermission('approve_members') && (
+                  <Button size="sm" onClick={() => linkToPipeline(selected)} disabled={saving} className="flex items-center">
+                    <UserPlus size={14} className="mr-1" />
+                    Add to membership pipeline
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+              <div>
+                <label className="block text-xs font-medium text-neutral-500 uppercase mb-1">Status</label>
+                <select
+                  value={selected.status}
+                  onChange={e => saveChanges(selected, { status: e.target.value as ContactSubmissionStatus })}
+                  disabled={saving}
+                  className={`${inputClass} w-full`}
+                >
+                  {CONTACT_STATUSES.map(status => (
+                    <option key={status} value={status}>{CONTACT_STATUS_LABELS[status]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-neutral-500 uppercase mb-1">Assigned to</label>
+                <select
+                  value={selected.assigned_to || ''}
+                  onChange={e => saveChanges(selected, { assigned_to: e.target.value || null })}
+                  disabled={saving}
+                  className={`${inputClass} w-full`}
+                >
+                  <option value="">Nobody</option>
+                  {officers.map(officer => (
+                    <option key={officer.user_id} value={officer.user_id}>{officer.full_name}</option>
+                  ))}
+                  {selected.assigned_to && !officers.some(o => o.user_id === selected.assigned_to) && (
+                    <option value={selected.assigned_to}>{officerName(selected.assigned_to)}</option>
+                  )}
+                </select>
+              </div>
+            </div>
+
+            <div className="mb-6">
+              <label className="block text-xs font-medium text-neutral-500 uppercase mb-1">Notes</label>
+              <textarea
+                rows={3}
+                value={notes}
+                onChange={e => setNotes(e.target.value)}
+                className={`${inputClass} w-full`}
+              />
+              {notes !== (selected.notes || '') && (
+                <Button size="sm" className="mt-2" onClick={() => saveChanges(selected, { notes: notes || null })} disabled={saving}>
+                  Save notes
+                </Button>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 pt-4 border-t border-neutral-200">
+              {selected.quarantined && (
+                <Button size="sm" onClick={() => releaseSubmission(selected)} disabled={saving} className="flex items-center">
+                  <ShieldCheck size={14} className="mr-1" />
+                  Not spam
+                </Button>
+              )}
+              <a
+                href={contactReplyLink(selected)}
+                className="inline-flex items-center rounded-md py-1.5 px-3 text-sm font-medium bg-secondary-500 text-neutral-900 hover:bg-secondary-600"
+              >
+                <Reply size={14} className="mr-1" />
+                Reply
+              </a>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => saveChanges(selected, { is_read: !selected.is_read })}
+                disabled={saving}
+              >
+                Mark as {selected.is_read ? 'unread' : 'read'}
+              </Button>
+              <button
+                onClick={() => setDeleting(selected)}
+                className="ml-auto text-sm text-red-600 hover:text-red-700 flex items-center"
+              >
+                <Trash2 size={14} className="mr-1" />
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={!!deleting}
+        title="Delete enquiry"
+        message={`Delete the message from ${deleting?.name}? This cannot be undone.`}
+        confirmText="Delete"
+        type="danger"
+        onConfirm={confirmDelete}
+        onCancel={() => setDeleting(null)}
+      />
+    </div>
+  );
+};
+
+export default ContactInboxPanel;
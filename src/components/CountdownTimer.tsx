@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { Calendar, Clock, MapPin, Crown } from 'lucide-react';
 import { cmsApi } from '../lib/cmsApi';
+import { useMeetingSchedule } from '../hooks/useMeetingSchedule';
+import { getNextLodgeMeeting } from '../utils/lodgeMeetings';
 import LoadingSpinner from './LoadingSpinner';
 
 interface CountdownTimerProps {
@@ -36,79 +38,7 @@ const CountdownTimer: React.FC<CountdownTimerProps> = ({
   } | null>(null);
 
   const [loading, setLoading] = useState(true);
-
-  // Calculate next Lodge meeting based on schedule
-  const calculateNextLodgeMeeting = () => {
-    const now = new Date();
-    const currentYear = now.getFullYear();
-    
-    // Lodge meeting schedule: 2nd Sat Dec, 2nd Sat Feb, 1st Sat Apr, 2nd Sat Jul, 1st Sat Sep
-    const meetings = [];
-    
-    // Helper function to get nth weekday of month
-    const getNthWeekday = (year: number, month: number, weekday: number, occurrence: number) => {
-      const firstDay = new Date(year, month, 1);
-      const firstWeekday = firstDay.getDay();
-      let firstOccurrence = 1 + (weekday - firstWeekday + 7) % 7;
-      const targetDate = firstOccurrence + (occurrence - 1) * 7;
-      return new Date(year, month, targetDate, 18, 0); // 6:00 PM
-    };
-    
-    // Generate meetings for current and next year
-    for (const year of [currentYear, currentYear + 1]) {
-      // February - 2nd Saturday
-      meetings.push({
-        date: getNthWeekday(year, 1, 6, 2),
-        title: "Regular Lodge Meeting",
-        description: "February regular meeting of Radlett Lodge No. 6652. Festive Board to follow.",
-        location: "Radlett Masonic Centre, Rose Walk, Radlett",
-        isInstallation: false
-      });
-      
-      // April - 1st Saturday
-      meetings.push({
-        date: getNthWeekday(year, 3, 6, 1),
-        title: "Regular Lodge Meeting", 
-        description: "April regular meeting of Radlett Lodge No. 6652. Festive Board to follow.",
-        location: "Radlett Masonic Centre, Rose Walk, Radlett",
-        isInstallation: false
-      });
-      
-      // July - 2nd Saturday
-      meetings.push({
-        date: getNthWeekday(year, 6, 6, 2),
-        title: "Regular Lodge Meeting",
-        description: "July regular meeting of Radlett Lodge No. 6652. Festive Board to follow.",
-        location: "Radlett Masonic Centre, Rose Walk, Radlett", 
-        isInstallation: false
-      });
-      
-      // September - 1st Saturday
-      meetings.push({
-        date: getNthWeekday(year, 8, 6, 1),
-        title: "Regular Lodge Meeting",
-        description: "September regular meeting of Radlett Lodge No. 6652. Festive Board to follow.",
-        location: "Radlett Masonic Centre, Rose Walk, Radlett",
-        isInstallation: false
-      });
-      
-      // December - 2nd Saturday (Installation)
-      meetings.push({
-        date: getNthWeekday(year, 11, 6, 2),
-        title: "Installation Meeting",
-        description: "Annual Installation of the Worshipful Master and Officers. Festive Board to follow.",
-        location: "Radlett Masonic Centre, Rose Walk, Radlett",
-        isInstallation: true
-      });
-    }
-    
-    // Find next meeting
-    const nextMeeting = meetings
-      .filter(meeting => meeting.date > now)
-      .sort((a, b) => a.date.getTime() - b.date.getTime())[0];
-    
-    return nextMeeting || null;
-  };
+  const { schedule, loading: scheduleLoading } = useMeetingSchedule();
 
   // Fetch next event from CMS
   const fetchNextEvent = useCallback(async () => {
@@ -146,9 +76,9 @@ const CountdownTimer: React.FC<CountdownTimerProps> = ({
         // Try to get the next event from CMS first
         targetMeeting = await fetchNextEvent();
         
-        // Fall back to calculated meeting if no CMS event
+        // Fall back to the next meeting from the Lodge's meeting rules
         if (!targetMeeting) {
-          targetMeeting = calculateNextLodgeMeeting();
+          targetMeeting = getNextLodgeMeeting(schedule);
         }
         
         setNextMeeting(targetMeeting);
@@ -187,8 +117,10 @@ const CountdownTimer: React.FC<CountdownTimerProps> = ({
       return () => clearInterval(timer);
     };
     
+    if (scheduleLoading) return;
+
     loadMeetingData();
-  }, [targetDate, useSchedule, fetchNextEvent]);
+  }, [targetDate, useSchedule, fetchNextEvent, schedule, scheduleLoading]);
 
   // Use meeting data from CMS or fallback to props
   const displayTitle = nextMeeting?.title || eventTitle || "Next Lodge Meeting";
@@ -0,0 +1,153 @@
+import React, { useRef, useState } from 'react';
+import { FileText, Upload, X } from 'lucide-react';
+import { documentStorage } from '../lib/documentStorage';
+import {
+  DOCUMENT_FILE_ACCEPT,
+  DocumentFolder,
+  MAX_DOCUMENT_FILE_SIZE,
+  formatFileSize,
+  isStoredFile,
+  storedFileName,
+  validateDocumentFile
+} from '../utils/documentFiles';
+import DocumentLink from './DocumentLink';
+
+interface DocumentFileInputProps {
+  id: string;
+  value: string;
+  onChange: (url: string) => void;
+  folder: DocumentFolder;
+  placeholder?: string;
+}
+
+/**
+ * Drop a file to upload it to the private documents bucket, or paste a link to
+ * a document held elsewhere. Files uploaded here and then replaced or removed
+ * before saving are deleted again.
+ */
+const DocumentFileInput: React.FC<DocumentFileInputProps> = ({ id, value, onChange, folder, placeholder }) => {
+  const [dragging, setDragging] = useState(false);
+  const [progress, setProgress] = useState<{ name: string; percent: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadedHere = useRef<Set<string>>(new Set());
+
+  // Only files uploaded in this form are ours to delete; saved ones belong to the record
+  const discard = (url: string) => {
+    if (uploadedHere.current.has(url)) {
+      uploadedHere.current.delete(url);
+      documentStorage.remove([url]);
+    }
+  };
+
+  const upload = async (file: File) => {
+    const problem = validateDocumentFile(file);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    try {
+      setError(null);
+      setProgress({ name: file.name, percent: 0 });
+      const stored = await documentStorage.upload(file, folder, percent => setProgress({ name: file.name, percent }));
+      uploadedHere.current.add(stored);
+      discard(value);
+      onChange(stored);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Upload failed');
+    } finally {
+      setProgress(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file && !progress) upload(file);
+  };
+
+  const clear = () => {
+    discard(value);
+    onChange('');
+  };
+
+  return (
+    <div>
+      {isStoredFile(value) ? (
+        <div className="flex items-center justify-between rounded-md border border-neutral-300 bg-white px-3 py-2">
+          <DocumentLink url={value} className="flex items-center text-sm text-primary-600 hover:text-primary-700 truncate" title="Open file">
+            <FileText size={16} className="mr-2 flex-shrink-0" />
+            <span className="truncate">{storedFileName(value)}</span>
+          </DocumentLink>
+          <button type="button" onClick={clear} className="ml-2 p-1 text-neutral-400 hover:text-red-600" title="Remove file">
+            <X size={16} />
+          </button>
+        </div>
+      ) : (
+        <>
+          <div
+            onClick={() => !progress && fileInputRef.current?.click()}
+            onDragOver={e => {
+              e.preventDefault();
+              setDragging(true);
+            }}
+            onDragLeave={() => setDragging(false)}
+            onDrop={handleDrop}
+            className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+              progress
+                ? 'border-neutral-200 cursor-not-allowed'
+                : dragging
+                  ? 'border-secondary-500 bg-secondary-50 cursor-copy'
+                  : 'border-neutral-300 hover:border-secondary-500 cursor-pointer'
+            }`}
+          >
+            <Upload className={`w-8 h-8 mx-auto mb-2 ${progress ? 'text-neutral-300' : 'text-neutral-400'}`} />
+            <p className="text-sm text-neutral-600">
+              {progress ? 'Uploading...' : 'Drop a file here or click to choose one'}
+            </p>
+            <p className="text-xs text-neutral-500">
+              PDF, Word, Excel, text, Markdown or images up to {formatFileSize(MAX_DOCUMENT_FILE_SIZE)}. Only members can open it.
+            </p>
+
+            {progress && (
+              <div className="mt-4 text-left">
+                <div className="flex justify-between text-sm text-neutral-600 mb-1">
+                  <span className="truncate">{progress.name}</span>
+                  <span>{progress.percent}%</span>
+                </div>
+                <div className="w-full bg-neutral-200 rounded-full h-2">
+                  <div
+                    className="bg-secondary-500 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${progress.percent}%` }}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={DOCUMENT_FILE_ACCEPT}
+            onChange={e => e.target.files?.[0] && upload(e.target.files[0])}
+            className="hidden"
+          />
+          <input
+            id={id}
+            type="url"
+            value={value}
+            onChange={e => onChange(e.target.value)}
+            disabled={!!progress}
+            className="mt-2 block w-full rounded-md border border-neutral-300 px-3 py-2 text-sm focus:border-secondary-500 focus:ring-secondary-500"
+            placeholder={placeholder || 'Or paste a link to a document held elsewhere'}
+          />
+        </>
+      )}
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default DocumentFileInput;
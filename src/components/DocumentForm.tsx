@@ -1,39 +1,70 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
-import { LodgeDocument } from '../types';
+import { api } from '../lib/api';
+import { DocumentVersion, LodgeDocument } from '../types';
+import { versionLabel } from '../utils/documents';
+import { documentStorage } from '../lib/documentStorage';
+import { isStoredFile } from '../utils/documentFiles';
 import Button from './Button';
-import MediaManager from './cms/MediaManager';
-import { Image, X } from 'lucide-react';
+import DocumentFileInput from './DocumentFileInput';
+import DocumentLink from './DocumentLink';
+import { ExternalLink, History } from 'lucide-react';
+
+// `change_note` is only set when an existing document is given a new file
+export type DocumentFormData = Pick<LodgeDocument, 'title' | 'description' | 'url' | 'category'> & {
+  change_note?: string;
+};
 
 interface DocumentFormProps {
-  onSubmit: (data: Omit<LodgeDocument, 'id' | 'created_at' | 'updated_at'>) => Promise<void>;
+  onSubmit: (data: DocumentFormData) => Promise<void>;
   onCancel: () => void;
   initialData?: Partial<LodgeDocument>;
 }
 
 const DocumentForm: React.FC<DocumentFormProps> = ({ onSubmit, onCancel, initialData }) => {
-  const [showMediaManager, setShowMediaManager] = useState(false);
   const [selectedDocumentUrl, setSelectedDocumentUrl] = useState(initialData?.url || '');
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
   
   const { register, handleSubmit, setValue, formState: { errors, isSubmitting } } = useForm({
     defaultValues: {
       title: initialData?.title || '',
       description: initialData?.description || '',
       url: initialData?.url || '',
-      category: initialData?.category || ''
+      category: initialData?.category || '',
+      change_note: ''
     }
   });
 
-  const handleMediaSelect = (url: string) => {
+  const documentId = initialData?.id;
+  const isNewVersion = !!documentId && selectedDocumentUrl !== (initialData?.url || '');
+
+  useEffect(() => {
+    if (!documentId) return;
+    api.getDocumentVersions([documentId])
+      .then(setVersions)
+      .catch(err => console.warn('Could not load document versions:', err));
+  }, [documentId]);
+
+  const handleFileChange = (url: string) => {
     setSelectedDocumentUrl(url);
-    setValue('url', url, { shouldDirty: true });
-    setShowMediaManager(false);
+    setValue('url', url, { shouldDirty: true, shouldValidate: !!url });
   };
 
-  const handleFormSubmit = async (data: any) => {
+  // A file uploaded for a document that was never saved would be left behind
+  const handleCancel = () => {
+    if (isStoredFile(selectedDocumentUrl) && selectedDocumentUrl !== initialData?.url) {
+      documentStorage.remove([selectedDocumentUrl]);
+    }
+    onCancel();
+  };
+
+  const handleFormSubmit = async (data: DocumentFormData) => {
     await onSubmit({
-      ...data,
-      url: selectedDocumentUrl || data.url
+      title: data.title,
+      description: data.description,
+      category: data.category,
+      url: selectedDocumentUrl || data.url,
+      change_note: isNewVersion ? data.change_note?.trim() : undefined
     });
   };
 
@@ -68,52 +99,74 @@ const DocumentForm: React.FC<DocumentFormProps> = ({ onSubmit, onCancel, initial
 
       <div>
         <label htmlFor="url" className="block text-sm font-medium text-primary-600 mb-2">
-          Document URL / File
+          {documentId ? `Document File (currently version ${initialData?.version_number || 1})` : 'Document File'}
         </label>
-        <div className="flex space-x-2">
-          <input
-            id="url"
-            type="url"
-            {...register('url', { required: 'URL is required' })}
-            value={selectedDocumentUrl}
-            onChange={(e) => {
-              setSelectedDocumentUrl(e.target.value);
-              setValue('url', e.target.value, { shouldDirty: true });
-            }}
-            className="flex-1 rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
-            placeholder="https://example.com/document.pdf or use Media Manager"
-          />
-          <Button
-            type="button"
-            variant="outline"
-            onClick={() => setShowMediaManager(true)}
-            className="flex items-center px-3"
-          >
-            <Image size={16} className="mr-1" />
-            Browse
-          </Button>
-          {selectedDocumentUrl && (
-            <Button
-              type="button"
-              variant="outline"
-              onClick={() => {
-                setSelectedDocumentUrl('');
-                setValue('url', '', { shouldDirty: true });
-              }}
-              className="flex items-center px-3 text-red-600 hover:text-red-700 border-red-200 hover:border-red-300"
-            >
-              <X size={16} />
-            </Button>
-          )}
-        </div>
+        <input type="hidden" {...register('url', { required: 'Upload a file or paste a link' })} />
+        <DocumentFileInput
+          id="url"
+          value={selectedDocumentUrl}
+          onChange={handleFileChange}
+          folder="documents"
+        />
         {errors.url && (
           <p className="mt-1 text-sm text-red-600">{errors.url.message as string}</p>
         )}
         <p className="mt-1 text-xs text-neutral-500">
-          You can paste a URL directly or use the Media Manager to upload/select files.
+          {documentId
+            ? 'Choose a different file to publish it as a new version. Members can still open the earlier ones.'
+            : 'Uploaded files are kept private to members; pasted links are opened as they are.'}
         </p>
       </div>
 
+      {isNewVersion && (
+        <div>
+          <label htmlFor="change_note" className="block text-sm font-medium text-primary-600">
+            What changed in this version?
+          </label>
+          <textarea
+            id="change_note"
+            {...register('change_note', { validate: value => !!value?.trim() || 'Tell members what changed' })}
+            rows={2}
+            placeholder="e.g. By-law 12 amended at the March meeting"
+            className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+          />
+          {errors.change_note && (
+            <p className="mt-1 text-sm text-red-600">{errors.change_note.message as string}</p>
+          )}
+        </div>
+      )}
+
+      {versions.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-primary-600 mb-2 flex items-center">
+            <History size={16} className="mr-1" />
+            Version History
+          </h4>
+          <ul className="border border-neutral-200 rounded-md divide-y divide-neutral-100 text-sm">
+            {versions.map(version => (
+              <li key={version.id} className="px-3 py-2 flex items-start justify-between gap-3">
+                <div>
+                  <p className="text-neutral-800">
+                    {versionLabel(version)}
+                    {version.id === initialData?.current_version_id && (
+                      <span className="ml-2 text-xs text-secondary-600">Latest</span>
+                    )}
+                  </p>
+                  {version.change_note && <p className="text-neutral-500">{version.change_note}</p>}
+                </div>
+                <DocumentLink
+                  url={version.url}
+                  className="p-1 text-neutral-500 hover:text-primary-600 flex-shrink-0"
+                  title="Open this version"
+                >
+                  <ExternalLink size={14} />
+                </DocumentLink>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div>
         <label htmlFor="category" className="block text-sm font-medium text-primary-600">
           Category
@@ -141,7 +194,7 @@ const DocumentForm: React.FC<DocumentFormProps> = ({ onSubmit, onCancel, initial
       </div>
 
       <div className="flex justify-end space-x-4">
-        <Button type="button" variant="outline" onClick={onCancel}>
+        <Button type="button" variant="outline" onClick={handleCancel}>
           Cancel
         </Button>
         <Button type="submit" disabled={isSubmitting}>
@@ -149,13 +202,6 @@ const DocumentForm: React.FC<DocumentFormProps> = ({ onSubmit, onCancel, initial
         </Button>
       </div>
       </form>
-
-      {/* Media Manager Modal */}
-      <MediaManager
-        isOpen={showMediaManager}
-        onClose={() => setShowMediaManager(false)}
-        onSelectMedia={handleMediaSelect}
-      />
     </>
   );
 };
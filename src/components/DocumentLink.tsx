@@ -0,0 +1,41 @@
+import React from 'react';
+import { documentStorage } from '../lib/documentStorage';
+import { isStoredFile } from '../utils/documentFiles';
+
+interface DocumentLinkProps {
+  url: string;
+  className?: string;
+  title?: string;
+  onOpen?: () => void;
+  children: React.ReactNode;
+}
+
+/**
+ * A link to a document that works for uploaded files as well as pasted links.
+ * Uploaded files are private, so the click fetches a signed URL first.
+ */
+const DocumentLink: React.FC<DocumentLinkProps> = ({ url, className, title, onOpen, children }) => {
+  const stored = isStoredFile(url);
+
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    onOpen?.();
+    if (!stored) return;
+    e.preventDefault();
+    documentStorage.open(url).catch(err => console.error('Error opening document:', err));
+  };
+
+  return (
+    <a
+      href={stored ? '#' : url}
+      target="_blank"
+      rel="noopener noreferrer"
+      onClick={handleClick}
+      className={className}
+      title={title}
+    >
+      {children}
+    </a>
+  );
+};
+
+export default DocumentLink;
@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { Download, ExternalLink, FileText, X } from 'lucide-react';
+import { documentStorage } from '../lib/documentStorage';
+import { documentPreviewKind, renderMarkdown } from '../utils/documentViewer';
+import Button from './Button';
+import LoadingSpinner from './LoadingSpinner';
+import PdfViewer from './PdfViewer';
+
+export interface ViewerDocument {
+  title: string;
+  url: string;
+}
+
+interface DocumentViewerModalProps {
+  document: ViewerDocument | null;
+  onClose: () => void;
+}
+
+type Preview =
+  | { kind: 'pdf'; data: ArrayBuffer }
+  | { kind: 'image'; src: string }
+  | { kind: 'text'; text: string }
+  | { kind: 'markdown'; html: string };
+
+// Fetches with a fresh signed URL each time, as those only last a minute
+async function loadPreview(url: string): Promise<Preview | null> {
+  const kind = documentPreviewKind(url);
+  if (kind === 'other') return null;
+
+  const signedUrl = await documentStorage.resolveUrl(url);
+  if (kind === 'image') return { kind, src: signedUrl };
+
+  const response = await fetch(signedUrl);
+  if (!response.ok) throw new Error(`The document could not be fetched (${response.status})`);
+  if (kind === 'pdf') return { kind, data: await response.arrayBuffer() };
+  const text = await response.text();
+  return kind === 'markdown' ? { kind, html: renderMarkdown(text) } : { kind, text };
+}
+
+/**
+ * Shows a document in the members' area without leaving the page: PDFs a page
+ * at a time, images, and text or Markdown inline. Anything else, or a link to
+ * another site that won't let us fetch it, gets download and open buttons.
+ */
+const DocumentViewerModal: React.FC<DocumentViewerModalProps> = ({ document: viewed, onClose }) => {
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!viewed) return;
+    let cancelled = false;
+
+    setPreview(null);
+    setError(null);
+    setLoading(true);
+    loadPreview(viewed.url)
+      .then(result => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch(err => {
+        console.error('Error loading document preview:', err);
+        if (!cancelled) setError('This document can\'t be shown here. Download it or open it in a new tab instead.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [viewed]);
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    if (viewed) {
+      document.addEventListener('keydown', handleEscape);
+      document.body.style.overflow = 'hidden';
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleEscape);
+      document.body.style.overflow = 'unset';
+    };
+  }, [viewed, onClose]);
+
+  if (!viewed) return null;
+
+  const handleDownload = () => {
+    documentStorage.download(viewed.url).catch(err => {
+      console.error('Error downloading document:', err);
+      setError('The download could not be started. Please try again.');
+    });
+  };
+
+  const handleOpen = () => {
+    documentStorage.open(viewed.url).catch(err => console.error('Error opening document:', err));
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black bg-opacity-50" onClick={onClose} />
+      <div className="relative bg-white rounded-lg shadow-xl max-w-5xl w-full mx-4 h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between gap-4 border-b border-neutral-200 px-6 py-4">
+          <h3 className="text-xl font-heading font-semibold text-primary-600 truncate">{viewed.title}</h3>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <Button variant="outline" size="sm" onClick={handleDownload} className="flex items-center">
+              <Download size={14} className="mr-1" />
+              Download
+            </Button>
+            <button onClick={onClose} className="text-neutral-400 hover:text-neutral-600" title="Close">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-grow min-h-0 overflow-auto">
+          {loading ? (
+            <div className="py-12">
+              <LoadingSpinner />
+            </div>
+          ) : error || !preview ? (
+            <div className="py-12 px-6 text-center">
+              <FileText className="w-12 h-12 mx-auto mb-3 text-neutral-300" />
+              <p className="text-neutral-600 mb-4">
+                {error || 'There is no preview for this type of document. Download it to read it.'}
+              </p>
+              <button
+                onClick={handleOpen}
+                className="inline-flex items-center text-sm font-medium text-primary-600 hover:text-primary-700"
+              >
+                <ExternalLink size={14} className="mr-1" />
+                Open in a new tab
+              </button>
+            </div>
+          ) : preview.kind === 'pdf' ? (
+            <PdfViewer data={preview.data} />
+          ) : preview.kind === 'image' ? (
+            <div className="flex items-center justify-center bg-neutral-100 p-4 min-h-full">
+              <img src={preview.src} alt={viewed.title} className="max-w-full h-auto shadow-soft" />
+            </div>
+          ) : preview.kind === 'markdown' ? (
+            <div className="markdown-document p-6" dangerouslySetInnerHTML={{ __html: preview.html }} />
+          ) : (
+            <pre className="whitespace-pre-wrap break-words p-6 text-sm text-neutral-700 font-mono">{preview.text}</pre>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentViewerModal;
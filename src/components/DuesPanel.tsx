@@ -0,0 +1,641 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { ChevronDown, ChevronRight, Download, PoundSterling, Plus, Receipt, Search, Trash2, X } from 'lucide-react';
+import { api } from '../lib/api';
+import { DuesInvoiceBalance, DuesPayment, FinanceMember, PaymentMethod, SubscriptionRate } from '../types';
+import { downloadCsv } from '../utils/csv';
+import {
+  ARREARS_CSV_HEADERS,
+  INVOICE_STATUS_BADGES,
+  INVOICE_STATUS_LABELS,
+  PAYMENT_METHOD_LABELS,
+  arrearsToCsvRows,
+  formatPounds,
+  invoiceStatus,
+  totalOutstanding
+} from '../utils/dues';
+import Button from './Button';
+import ConfirmDialog from './ConfirmDialog';
+import LoadingSpinner from './LoadingSpinner';
+
+interface PaymentDraft {
+  invoice: DuesInvoiceBalance;
+  amount: string;
+  method: PaymentMethod;
+  paid_on: string;
+  reference: string;
+}
+
+interface InvoiceDraft {
+  user_id: string;
+  rate_id: string;
+  title: string;
+  amount: string;
+  due_date: string;
+}
+
+const inputClass = 'px-3 py-2 border border-neutral-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+const DuesPanel: React.FC = () => {
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [members, setMembers] = useState<FinanceMember[]>([]);
+  const [rates, setRates] = useState<SubscriptionRate[]>([]);
+  const [invoices, setInvoices] = useState<DuesInvoiceBalance[]>([]);
+  const [payments, setPayments] = useState<DuesPayment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [outstandingOnly, setOutstandingOnly] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [rateDraft, setRateDraft] = useState<Partial<SubscriptionRate> | null>(null);
+  const [raising, setRaising] = useState<{ rate: SubscriptionRate; due_date: string } | null>(null);
+  const [invoiceDraft, setInvoiceDraft] = useState<InvoiceDraft | null>(null);
+  const [paymentDraft, setPaymentDraft] = useState<PaymentDraft | null>(null);
+  const [deleting, setDeleting] = useState<{ title: string; message: string; action: () => Promise<void> } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadYear = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [ratesData, invoicesData] = await Promise.all([
+        api.getSubscriptionRates(year),
+        api.getDuesInvoices({ year, includeCancelled: true })
+      ]);
+      setRates(ratesData);
+      setInvoices(invoicesData);
+      setPayments(await api.getDuesPayments(invoicesData.map(invoice => invoice.id)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [year]);
+
+  useEffect(() => {
+    loadYear();
+  }, [loadYear]);
+
+  useEffect(() => {
+    api.getFinanceMembers()
+      .then(setMembers)
+      .catch(err => setError(err instanceof Error ? err.message : 'An error occurred'));
+  }, []);
+
+  // Runs a change, reports it and reloads; errors stay on screen
+  const run = async (action: () => Promise<unknown>, message: string) => {
+    try {
+      setSaving(true);
+      setError(null);
+      await action();
+      setNotice(message);
+      await loadYear();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const visibleInvoices = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return invoices.filter(invoice =>
+      (!outstandingOnly || (!invoice.cancelled && Number(invoice.balance) > 0)) &&
+      (!term || (invoice.member_name || '').toLowerCase().includes(term) || invoice.title.toLowerCase().includes(term))
+    );
+  }, [invoices, search, outstandingOnly]);
+
+  const live = invoices.filter(invoice => !invoice.cancelled);
+  const totals = {
+    invoiced: live.reduce((total, invoice) => total + Number(invoice.amount), 0),
+    paid: live.reduce((total, invoice) => total + Number(invoice.paid), 0),
+    outstanding: totalOutstanding(live)
+  };
+
+  const activeMembers = members
+    .filter(member => member.status === 'active')
+    .sort((a, b) => a.full_name.localeCompare(b.full_name));
+
+  const handleExport = async () => {
+    try {
+      // Arrears from every year, not just the one on screen
+      const outstanding = await api.getDuesInvoices({ outstandingOnly: true });
+      downloadCsv(`dues arrears ${today()}.csv`, ARREARS_CSV_HEADERS, arrearsToCsvRows(outstanding));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleSaveRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rateDraft?.title?.trim()) return;
+    const saved = await run(
+      () => api.saveSubscriptionRate({
+        id: rateDraft.id,
+        year,
+        title: rateDraft.title!.trim(),
+        amount: Number(rateDraft.amount) || 0,
+        is_default: !!rateDraft.is_default
+      }),
+      `${rateDraft.title} rate saved`
+    );
+    if (saved) setRateDraft(null);
+  };
+
+  const handleRaise = async () => {
+    if (!raising) return;
+    try {
+      setSaving(true);
+      setError(null);
+      const count = await api.raiseAnnualInvoices(raising.rate.id, raising.due_date);
+      setNotice(count === 0
+        ? 'Every active member already has a subscription invoice for this year'
+        : `${count} invoice${count === 1 ? '' : 's'} raised at the ${raising.rate.title} rate`);
+      setRaising(null);
+      await loadYear();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreateInvoice = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invoiceDraft) return;
+    const saved = await run(() => api.createDuesInvoice({
+      user_id: invoiceDraft.user_id,
+      year,
+      rate_id: invoiceDraft.rate_id || null,
+      is_subscription: !!invoiceDraft.rate_id,
+      title: invoiceDraft.title.trim(),
+      amount: Number(invoiceDraft.amount),
+      due_date: invoiceDraft.due_date
+    }), 'Invoice raised');
+    if (saved) setInvoiceDraft(null);
+  };
+
+  const handleRecordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!paymentDraft) return;
+    const saved = await run(() => api.recordDuesPayment({
+      invoice_id: paymentDraft.invoice.id,
+      amount: Number(paymentDraft.amount),
+      method: paymentDraft.method,
+      paid_on: paymentDraft.paid_on,
+      reference: paymentDraft.reference.trim() || null
+    }), `Payment of ${formatPounds(Number(paymentDraft.amount))} recorded for ${paymentDraft.invoice.member_name}`);
+    if (saved) setPaymentDraft(null);
+  };
+
+  const pickRate = (rateId: string) => {
+    const rate = rates.find(r => r.id === rateId);
+    setInvoiceDraft(prev => prev && ({
+      ...prev,
+      rate_id: rateId,
+      title: rate ? `${year} Subscription - ${rate.title}` : prev.title,
+      amount: rate ? String(rate.amount) : prev.amount
+    }));
+  };
+
+  const currentYear = new Date().getFullYear();
+  const years = Array.from({ length: 6 }, (_, i) => currentYear + 1 - i);
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-6">
+        <h2 className="text-xl font-heading font-semibold text-primary-600 flex items-center">
+          <PoundSterling size={22} className="mr-2" />
+          Subscriptions &amp; Dues
+        </h2>
+        <div className="flex gap-2">
+          <select value={year} onChange={e => setYear(Number(e.target.value))} className={inputClass}>
+            {years.map(y => <option key={y} value={y}>{y}</option>)}
+          </select>
+          <Button variant="outline" onClick={handleExport} className="flex items-center">
+            <Download size={18} className="mr-2" />
+            Arrears CSV
+          </Button>
+          <Button
+            onClick={() => setInvoiceDraft({ user_id: '', rate_id: '', title: '', amount: '', due_date: today() })}
+            className="flex items-center"
+          >
+            <Plus size={18} className="mr-2" />
+            New Invoice
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3 mb-4">{error}</div>
+      )}
+      {notice && (
+        <div className="bg-green-50 border border-green-200 text-green-700 text-sm rounded-lg p-3 mb-4">{notice}</div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner subtle={true} className="py-8" />
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-4 mb-6">
+            {[
+              ['Invoiced', totals.invoiced],
+              ['Received', totals.paid],
+              ['Outstanding', totals.outstanding]
+            ].map(([label, amount]) => (
+              <div key={label} className="bg-neutral-50 rounded-lg p-4">
+                <p className="text-sm text-neutral-500">{label} in {year}</p>
+                <p className="text-2xl font-semibold text-primary-600">{formatPounds(amount as number)}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-lg border border-neutral-200 p-4 mb-6">
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="font-medium text-primary-600">{year} Subscription Rates</h3>
+              <Button size="sm" variant="outline" onClick={() => setRateDraft({ title: '', amount: 0, is_default: rates.length === 0 })}>
+                Add rate
+              </Button>
+            </div>
+            {rates.length === 0 && !rateDraft && (
+              <p className="text-sm text-neutral-500">No rates set for {year} yet.</p>
+            )}
+            <div className="divide-y divide-neutral-100">
+              {rates.map(rate => (
+                <div key={rate.id} className="py-2 flex items-center justify-between">
+                  <div>
+                    <span className="font-medium text-neutral-800">{rate.title}</span>
+                    {rate.is_default && <span className="ml-2 text-xs text-secondary-600">Default</span>}
+                    <span className="ml-3 text-neutral-600">{formatPounds(Number(rate.amount))}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setRaising({ rate, due_date: `${year}-${format(new Date(), 'MM-dd')}` })}
+                      disabled={Number(rate.amount) <= 0}
+                    >
+                      Invoice members
+                    </Button>
+                    <button className="text-sm text-neutral-500 hover:text-secondary-600" onClick={() => setRateDraft(rate)}>
+                      Edit
+                    </button>
+                    <button
+                      className="p-1 text-neutral-400 hover:text-red-600"
+                      onClick={() => setDeleting({
+                        title: 'Delete Rate',
+                        message: `Delete the ${rate.title} rate? Invoices already raised at it are kept.`,
+                        action: async () => { await run(() => api.deleteSubscriptionRate(rate.id), `${rate.title} rate deleted`); }
+                      })}
+                      title="Delete rate"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+            {rateDraft && (
+              <form onSubmit={handleSaveRate} className="flex flex-wrap items-center gap-2 mt-3">
+                <input
+                  value={rateDraft.title || ''}
+                  onChange={e => setRateDraft({ ...rateDraft, title: e.target.value })}
+                  placeholder="e.g. Full member"
+                  className={inputClass}
+                  required
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={rateDraft.amount ?? ''}
+                  onChange={e => setRateDraft({ ...rateDraft, amount: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  placeholder="Amount (£)"
+                  className={`${inputClass} w-32`}
+                  required
+                />
+                <label className="flex items-center text-sm text-neutral-600">
+                  <input
+                    type="checkbox"
+                    checked={!!rateDraft.is_default}
+                    onChange={e => setRateDraft({ ...rateDraft, is_default: e.target.checked })}
+                    className="mr-1"
+                  />
+                  Default rate
+                </label>
+                <Button size="sm" type="submit" disabled={saving}>Save</Button>
+                <Button size="sm" type="button" variant="outline" onClick={() => setRateDraft(null)}>Cancel</Button>
+              </form>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 mb-3">
+            <div className="relative flex-1 min-w-[200px]">
+              <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-neutral-400" />
+              <input
+                type="text"
+                value={search}
+                onChange={e => setSearch(e.target.value)}
+                placeholder="Search by member or invoice..."
+                className={`${inputClass} w-full pl-9`}
+              />
+            </div>
+            <label className="flex items-center text-sm text-neutral-600">
+              <input
+                type="checkbox"
+                checked={outstandingOnly}
+                onChange={e => setOutstandingOnly(e.target.checked)}
+                className="mr-2"
+              />
+              Outstanding only
+            </label>
+          </div>
+
+          {visibleInvoices.length === 0 ? (
+            <div className="text-center py-8 bg-neutral-50 rounded-lg">
+              <p className="text-neutral-600">No invoices for {year}{outstandingOnly && ' with anything owing'}.</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg border border-neutral-200 divide-y divide-neutral-100">
+              {visibleInvoices.map(invoice => {
+                const status = invoiceStatus(invoice);
+                const invoicePayments = payments.filter(payment => payment.invoice_id === invoice.id);
+                const isExpanded = expanded === invoice.id;
+
+                return (
+                  <div key={invoice.id} className="p-4">
+                    <div className="flex flex-wrap items-center gap-3">
+                      <button
+                        className="text-neutral-400"
+                        onClick={() => setExpanded(isExpanded ? null : invoice.id)}
+                        title="Show payments"
+                      >
+                        {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                      </button>
+                      <div className="flex-1 min-w-[200px]">
+                        <p className="font-medium text-neutral-800">{invoice.member_name || 'Unknown member'}</p>
+                        <p className="text-sm text-neutral-500">
+                          {invoice.title} • due {format(new Date(invoice.due_date), 'd MMM yyyy')}
+                        </p>
+                      </div>
+                      <div className="text-right text-sm">
+                        <p className="text-neutral-800">{formatPounds(Number(invoice.amount))}</p>
+                        {!invoice.cancelled && Number(invoice.paid) > 0 && (
+                          <p className="text-neutral-500">{formatPounds(Number(invoice.balance))} owing</p>
+                        )}
+                      </div>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${INVOICE_STATUS_BADGES[status]}`}>
+                        {INVOICE_STATUS_LABELS[status]}
+                      </span>
+                      {!invoice.cancelled && Number(invoice.balance) > 0 && (
+                        <Button
+                          size="sm"
+                          onClick={() => setPaymentDraft({
+                            invoice,
+                            amount: Number(invoice.balance).toFixed(2),
+                            method: 'bank_transfer',
+                            paid_on: today(),
+                            reference: ''
+                          })}
+                          className="flex items-center"
+                        >
+                          <Receipt size={14} className="mr-1" />
+                          Record payment
+                        </Button>
+                      )}
+                    </div>
+
+                    {isExpanded && (
+                      <div className="mt-3 ml-7 space-y-2">
+                        {invoicePayments.length === 0 ? (
+                          <p className="text-sm text-neutral-500">No payments recorded.</p>
+                        ) : (
+                          invoicePayments.map(payment => (
+                            <div key={payment.id} className="flex items-center justify-between text-sm bg-neutral-50 rounded px-3 py-2">
+                              <span>
+                                {format(new Date(payment.paid_on), 'd MMM yyyy')} • {PAYMENT_METHOD_LABELS[payment.method]}
+                                {payment.reference && ` • ${payment.reference}`}
+                              </span>
+                              <span className="flex items-center gap-2">
+                                {formatPounds(Number(payment.amount))}
+                                <button
+                                  className="p-1 text-neutral-400 hover:text-red-600"
+                                  onClick={() => setDeleting({
+                                    title: 'Delete Payment',
+                                    message: `Delete the ${formatPounds(Number(payment.amount))} payment from ${invoice.member_name}? The invoice will show it as owing again.`,
+                                    action: async () => { await run(() => api.deleteDuesPayment(payment.id), 'Payment deleted'); }
+                                  })}
+                                  title="Delete payment"
+                                >
+                                  <Trash2 size={14} />
+                                </button>
+                              </span>
+                            </div>
+                          ))
+                        )}
+                        <div className="flex gap-3 text-sm">
+                          <button
+                            className="text-neutral-500 hover:text-secondary-600"
+                            onClick={() => run(
+                              () => api.updateDuesInvoice(invoice.id, { cancelled: !invoice.cancelled }),
+                              invoice.cancelled ? 'Invoice reinstated' : 'Invoice cancelled'
+                            )}
+                          >
+                            {invoice.cancelled ? 'Reinstate invoice' : 'Cancel invoice'}
+                          </button>
+                          {invoicePayments.length === 0 && (
+                            <button
+                              className="text-red-500 hover:text-red-700"
+                              onClick={() => setDeleting({
+                                title: 'Delete Invoice',
+                                message: `Delete "${invoice.title}" for ${invoice.member_name}? Cancel it instead to keep a record.`,
+                                action: async () => { await run(() => api.deleteDuesInvoice(invoice.id), 'Invoice deleted'); }
+                              })}
+                            >
+                              Delete invoice
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+
+      {raising && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black bg-opacity-50" onClick={() => setRaising(null)} />
+          <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full mx-4 p-6">
+            <h3 className="text-lg font-heading font-semibold text-primary-600 mb-2">Invoice Members</h3>
+            <p className="text-sm text-neutral-600 mb-4">
+              Raise a {formatPounds(Number(raising.rate.amount))} {raising.rate.title} invoice for every active member
+              who hasn't had a {year} subscription invoice yet. Invoice members on other rates first.
+            </p>
+            <label className="block text-sm font-medium text-primary-600">Due date</label>
+            <input
+              type="date"
+              value={raising.due_date}
+              onChange={e => setRaising({ ...raising, due_date: e.target.value })}
+              className={`${inputClass} w-full mt-1`}
+            />
+            <div className="flex justify-end gap-3 mt-6">
+              <Button variant="outline" onClick={() => setRaising(null)}>Cancel</Button>
+              <Button onClick={handleRaise} disabled={saving || !raising.due_date}>
+                {saving ? 'Raising...' : 'Raise Invoices'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {invoiceDraft && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black bg-opacity-50" onClick={() => setInvoiceDraft(null)} />
+          <form onSubmit={handleCreateInvoice} className="relative bg-white rounded-lg shadow-xl max-w-md w-full mx-4 p-6 space-y-3">
+            <div className="flex justify-between items-start">
+              <h3 className="text-lg font-heading font-semibold text-primary-600">New Invoice</h3>
+              <button type="button" onClick={() => setInvoiceDraft(null)} className="text-neutral-400 hover:text-neutral-600" title="Close">
+                <X size={20} />
+              </button>
+            </div>
+            <select
+              value={invoiceDraft.user_id}
+              onChange={e => setInvoiceDraft({ ...invoiceDraft, user_id: e.target.value })}
+              className={`${inputClass} w-full`}
+              required
+            >
+              <option value="">Member...</option>
+              {activeMembers.map(member => (
+                <option key={member.user_id} value={member.user_id}>{member.full_name}</option>
+              ))}
+            </select>
+            <select value={invoiceDraft.rate_id} onChange={e => pickRate(e.target.value)} className={`${inputClass} w-full`}>
+              <option value="">One-off charge (no rate)</option>
+              {rates.map(rate => (
+                <option key={rate.id} value={rate.id}>{rate.title} - {formatPounds(Number(rate.amount))}</option>
+              ))}
+            </select>
+            <input
+              value={invoiceDraft.title}
+              onChange={e => setInvoiceDraft({ ...invoiceDraft, title: e.target.value })}
+              placeholder="e.g. Ladies' Festival ticket"
+              className={`${inputClass} w-full`}
+              required
+            />
+            <div className="flex gap-3">
+              <input
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={invoiceDraft.amount}
+                onChange={e => setInvoiceDraft({ ...invoiceDraft, amount: e.target.value })}
+                placeholder="Amount (£)"
+                className={`${inputClass} w-full`}
+                required
+              />
+              <input
+                type="date"
+                value={invoiceDraft.due_date}
+                onChange={e => setInvoiceDraft({ ...invoiceDraft, due_date: e.target.value })}
+                className={`${inputClass} w-full`}
+                title="Due date"
+                required
+              />
+            </div>
+            <div className="flex justify-end gap-3 pt-3">
+              <Button type="button" variant="outline" onClick={() => setInvoiceDraft(null)}>Cancel</Button>
+              <Button type="submit" disabled={saving}>{saving ? 'Saving...' : 'Raise Invoice'}</Button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {paymentDraft && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black bg-opacity-50" onClick={() => setPaymentDraft(null)} />
+          <form onSubmit={handleRecordPayment} className="relative bg-white rounded-lg shadow-xl max-w-md w-full mx-4 p-6 space-y-3">
+            <div className="flex justify-between items-start">
+              <div>
+                <h3 className="text-lg font-heading font-semibold text-primary-600">Record Payment</h3>
+                <p className="text-sm text-neutral-500">
+                  {paymentDraft.invoice.member_name} • {paymentDraft.invoice.title}
+                </p>
+              </div>
+              <button type="button" onClick={() => setPaymentDraft(null)} className="text-neutral-400 hover:text-neutral-600" title="Close">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="flex gap-3">
+              <input
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={paymentDraft.amount}
+                onChange={e => setPaymentDraft({ ...paymentDraft, amount: e.target.value })}
+                className={`${inputClass} w-full`}
+                title="Amount (£)"
+                required
+              />
+              <input
+                type="date"
+                value={paymentDraft.paid_on}
+                onChange={e => setPaymentDraft({ ...paymentDraft, paid_on: e.target.value })}
+                className={`${inputClass} w-full`}
+                title="Date received"
+                required
+              />
+            </div>
+            <select
+              value={paymentDraft.method}
+              onChange={e => setPaymentDraft({ ...paymentDraft, method: e.target.value as PaymentMethod })}
+              className={`${inputClass} w-full`}
+            >
+              {Object.entries(PAYMENT_METHOD_LABELS).map(([method, label]) => (
+                <option key={method} value={method}>{label}</option>
+              ))}
+            </select>
+            <input
+              value={paymentDraft.reference}
+              onChange={e => setPaymentDraft({ ...paymentDraft, reference: e.target.value })}
+              placeholder="Cheque number or bank reference (optional)"
+              className={`${inputClass} w-full`}
+            />
+            {Number(paymentDraft.amount) > Number(paymentDraft.invoice.balance) && (
+              <p className="text-sm text-amber-700">
+                This is more than the {formatPounds(Number(paymentDraft.invoice.balance))} owing and will leave the member in credit.
+              </p>
+            )}
+            <div className="flex justify-end gap-3 pt-3">
+              <Button type="button" variant="outline" onClick={() => setPaymentDraft(null)}>Cancel</Button>
+              <Button type="submit" disabled={saving}>{saving ? 'Saving...' : 'Record Payment'}</Button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={!!deleting}
+        title={deleting?.title || ''}
+        message={deleting?.message || ''}
+        onConfirm={async () => {
+          await deleting?.action();
+          setDeleting(null);
+        }}
+        onCancel={() => setDeleting(null)}
+        type="danger"
+        confirmText="Delete"
+      />
+    </div>
+  );
+};
+
+export default DuesPanel;
@@ -0,0 +1,314 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm, useFieldArray } from 'react-hook-form';
+import { format } from 'date-fns';
+import { CheckCircle, Clock, Trash2, UserPlus, Utensils, XCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { api } from '../lib/api';
+import { Event, EventBooking, EventBookingGuest, EventBookingSummary } from '../types';
+import { countBookingSeats } from '../utils/eventBookings';
+import Button from './Button';
+import LoadingSpinner from './LoadingSpinner';
+
+interface EventBookingPanelProps {
+  event: Event;
+}
+
+interface BookingFormValues {
+  attending: 'yes' | 'no';
+  festive_board: boolean;
+  dietary_requirements: string;
+  guests: EventBookingGuest[];
+  notes: string;
+}
+
+const statusStyles: Record<EventBooking['status'], { label: string; className: string; icon: React.ReactNode }> = {
+  confirmed: { label: 'You\'re booked in', className: 'bg-green-50 border-green-200 text-green-800', icon: <CheckCircle size={18} className="mr-2" /> },
+  waitlisted: { label: 'You\'re on the waitlist', className: 'bg-amber-50 border-amber-200 text-amber-800', icon: <Clock size={18} className="mr-2" /> },
+  declined: { label: 'You\'ve sent your apologies', className: 'bg-neutral-50 border-neutral-200 text-neutral-700', icon: <XCircle size={18} className="mr-2" /> }
+};
+
+const EventBookingPanel: React.FC<EventBookingPanelProps> = ({ event }) => {
+  const { user } = useAuth();
+  const [booking, setBooking] = useState<EventBooking | null>(null);
+  const [summary, setSummary] = useState<EventBookingSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const cutoff = new Date(event.bookingCutoff || event.date);
+  const isOpen = cutoff > new Date();
+
+  const { register, control, handleSubmit, reset, watch, formState: { isSubmitting } } = useForm<BookingFormValues>({
+    defaultValues: { attending: 'yes', festive_board: true, dietary_requirements: '', guests: [], notes: '' }
+  });
+  const { fields, append, remove } = useFieldArray({ control, name: 'guests' });
+  const attending = watch('attending') === 'yes';
+
+  const loadBooking = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const [existing, counts] = await Promise.all([
+        api.getMyEventBooking(event.id, user.id),
+        api.getEventBookingSummary(event.id)
+      ]);
+      setBooking(existing);
+      setSummary(counts);
+      setEditing(!existing);
+      reset({
+        attending: existing && !existing.attending ? 'no' : 'yes',
+        festive_board: existing ? existing.festive_board : true,
+        dietary_requirements: existing?.dietary_requirements || '',
+        guests: existing?.guests || [],
+        notes: existing?.notes || ''
+      });
+    } catch (err) {
+      console.error('Error loading booking:', err);
+      setError('Your booking could not be loaded.');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, event.id, reset]);
+
+  useEffect(() => {
+    loadBooking();
+  }, [loadBooking]);
+
+  const onSubmit = async (data: BookingFormValues) => {
+    if (!user) return;
+
+    try {
+      setError(null);
+      const isAttending = data.attending === 'yes';
+      const saved = await api.saveEventBooking({
+        event_id: event.id,
+        user_id: user.id,
+        attending: isAttending,
+        festive_board: isAttending && data.festive_board,
+        dietary_requirements: data.dietary_requirements.trim() || null,
+        guests: isAttending
+          ? data.guests
+              .filter(guest => guest.name.trim())
+              .map(guest => ({ ...guest, name: guest.name.trim(), dietary_requirements: guest.dietary_requirements?.trim() || undefined }))
+          : [],
+        notes: data.notes.trim() || null
+      });
+      setBooking(saved);
+      setEditing(false);
+      setSummary(await api.getEventBookingSummary(event.id));
+    } catch (err) {
+      console.error('Error saving booking:', err);
+      setError(err instanceof Error ? err.message.replace(/^Failed to save booking: /, '') : 'Your booking could not be saved.');
+    }
+  };
+
+  const handleCancelBooking = async () => {
+    if (!booking) return;
+
+    try {
+      setError(null);
+      await api.deleteEventBooking(booking.id);
+      await loadBooking();
+    } catch (err) {
+      console.error('Error cancelling booking:', err);
+      setError('Your booking could not be cancelled.');
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="bg-neutral-50 rounded-lg p-4 mb-6">
+        <h4 className="font-medium text-neutral-800 mb-1">RSVP</h4>
+        <p className="text-sm text-neutral-600">
+          Members can RSVP and book festive board places after <Link to="/login" className="text-secondary-600 hover:underline">logging in</Link>.
+        </p>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return <LoadingSpinner subtle={true} className="py-4" />;
+  }
+
+  const seatsLeft = summary?.capacity != null ? Math.max(summary.capacity - summary.confirmed_seats, 0) : null;
+
+  return (
+    <div className="border border-neutral-200 rounded-lg p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-heading font-semibold text-primary-600 flex items-center">
+          <Utensils size={20} className="mr-2 text-secondary-500" />
+          RSVP &amp; Festive Board
+        </h3>
+        {seatsLeft !== null && (
+          <span className="text-xs font-medium bg-primary-100 text-primary-600 px-2 py-1 rounded">
+            {seatsLeft > 0 ? `${seatsLeft} seat${seatsLeft !== 1 ? 's' : ''} left` : 'Fully booked - waitlist open'}
+          </span>
+        )}
+      </div>
+
+      <p className="text-xs text-neutral-500 mb-4">
+        {isOpen
+          ? `Bookings close ${format(cutoff, "EEEE do MMMM 'at' h:mm a")}.`
+          : `Bookings closed ${format(cutoff, 'do MMMM yyyy')}. Please contact the Secretary to make changes.`}
+      </p>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {booking && !editing && (
+        <div className={`border rounded-lg p-4 ${statusStyles[booking.status].className}`}>
+          <p className="font-medium flex items-center mb-2">
+            {statusStyles[booking.status].icon}
+            {statusStyles[booking.status].label}
+          </p>
+          {booking.attending && (
+            <ul className="text-sm space-y-1">
+              <li>Festive board: {booking.festive_board ? 'Yes' : 'No'}</li>
+              {booking.dietary_requirements && <li>Dietary requirements: {booking.dietary_requirements}</li>}
+              {booking.guests.length > 0 && (
+                <li>Guests: {booking.guests.map(guest => guest.name).join(', ')}</li>
+              )}
+              <li>Seats: {countBookingSeats(booking)}</li>
+            </ul>
+          )}
+          {booking.status === 'waitlisted' && (
+            <p className="text-xs mt-2">We'll confirm your booking automatically if seats become available.</p>
+          )}
+          {isOpen && (
+            <div className="flex gap-2 mt-4">
+              <Button size="sm" variant="outline" onClick={() => setEditing(true)}>
+                Change RSVP
+              </Button>
+              <Button size="sm" variant="outline" onClick={handleCancelBooking}>
+                Withdraw RSVP
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {editing && isOpen && (
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="flex items-center space-x-6">
+            <label className="flex items-center text-sm text-neutral-700">
+              <input type="radio" value="yes" {...register('attending')} className="mr-2" />
+              I'll be attending
+            </label>
+            <label className="flex items-center text-sm text-neutral-700">
+              <input type="radio" value="no" {...register('attending')} className="mr-2" />
+              Sending apologies
+            </label>
+          </div>
+
+          {attending && (
+            <>
+              <label className="flex items-center text-sm text-neutral-700">
+                <input
+                  type="checkbox"
+                  {...register('festive_board')}
+                  className="h-4 w-4 mr-2 text-secondary-600 focus:ring-secondary-500 border-neutral-300 rounded"
+                />
+                Book me a place at the festive board
+              </label>
+
+              <div>
+                <label htmlFor="dietary_requirements" className="block text-sm font-medium text-primary-600">
+                  Dietary Requirements
+                </label>
+                <input
+                  id="dietary_requirements"
+                  {...register('dietary_requirements')}
+                  placeholder="e.g. Vegetarian, nut allergy"
+                  className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+                />
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="block text-sm font-medium text-primary-600">Guests</span>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => append({ name: '', dietary_requirements: '', festive_board: true })}
+                    className="flex items-center"
+                  >
+                    <UserPlus size={14} className="mr-1" />
+                    Add Guest
+                  </Button>
+                </div>
+                {fields.length === 0 && (
+                  <p className="text-xs text-neutral-500">No guests added.</p>
+                )}
+                <div className="space-y-3">
+                  {fields.map((field, index) => (
+                    <div key={field.id} className="bg-neutral-50 rounded-md p-3 grid grid-cols-1 md:grid-cols-2 gap-2">
+                      <input
+                        {...register(`guests.${index}.name` as const, { required: true })}
+                        placeholder="Guest name"
+                        className="rounded-md border border-neutral-300 px-3 py-2 text-sm focus:border-secondary-500 focus:ring-secondary-500"
+                      />
+                      <input
+                        {...register(`guests.${index}.dietary_requirements` as const)}
+                        placeholder="Dietary requirements"
+                        className="rounded-md border border-neutral-300 px-3 py-2 text-sm focus:border-secondary-500 focus:ring-secondary-500"
+                      />
+                      <div className="md:col-span-2 flex items-center justify-between">
+                        <label className="flex items-center text-xs text-neutral-700">
+                          <input
+                            type="checkbox"
+                            {...register(`guests.${index}.festive_board` as const)}
+                            className="h-4 w-4 mr-2 text-secondary-600 focus:ring-secondary-500 border-neutral-300 rounded"
+                          />
+                          Festive board
+                        </label>
+                        <button
+                          type="button"
+                          onClick={() => remove(index)}
+                          className="p-1 text-neutral-500 hover:text-red-500 transition-colors"
+                          title="Remove guest"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+
+          <div>
+            <label htmlFor="notes" className="block text-sm font-medium text-primary-600">
+              Notes for the Secretary
+            </label>
+            <input
+              id="notes"
+              {...register('notes')}
+              className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            {booking && (
+              <Button type="button" size="sm" variant="outline" onClick={() => setEditing(false)}>
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" size="sm" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : booking ? 'Update RSVP' : 'Send RSVP'}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {!booking && !isOpen && (
+        <p className="text-sm text-neutral-600">You didn't RSVP to this event.</p>
+      )}
+    </div>
+  );
+};
+
+export default EventBookingPanel;
@@ -1,8 +1,11 @@
 import React from 'react';
-import { X, Calendar, Clock, MapPin, Lock, Users, ExternalLink } from 'lucide-react';
+import { X, Calendar, CalendarPlus, Clock, MapPin, Lock, Users, ExternalLink } from 'lucide-react';
 import { format } from 'date-fns';
 import { Event } from '../types';
 import Button from './Button';
+import EventBookingPanel from './EventBookingPanel';
+import { downloadCalendarEntry } from '../lib/calendarFeed';
+import { londonTimeFromInstant } from '../utils/icalendar';
 
 interface EventDetailsModalProps {
   isOpen: boolean;
@@ -130,6 +133,9 @@ const EventDetailsModal: React.FC<EventDetailsModalProps> = ({ isOpen, onClose,
             </div>
           </div>
 
+          {/* RSVP and festive board booking */}
+          {event.bookingsEnabled && <EventBookingPanel event={event} />}
+
           {/* Additional Information */}
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
             <h4 className="font-medium text-blue-800 mb-2 flex items-center">
@@ -144,7 +150,7 @@ const EventDetailsModal: React.FC<EventDetailsModalProps> = ({ isOpen, onClose,
               )}
               <p>• Please arrive 15 minutes before the scheduled start time</p>
               <p>• Smart casual dress code applies unless otherwise specified</p>
-              {isUpcoming && (
+              {isUpcoming && !event.bookingsEnabled && (
                 <p>• For any questions or to confirm attendance, please contact the Lodge Secretary</p>
               )}
             </div>
@@ -182,13 +188,18 @@ const EventDetailsModal: React.FC<EventDetailsModalProps> = ({ isOpen, onClose,
               {isUpcoming && (
                 <Button 
                   onClick={() => {
-                    // Add to calendar functionality
-                    const startDate = eventDate.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-                    const endDate = new Date(eventDate.getTime() + 2 * 60 * 60 * 1000).toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-                    const calendarUrl = `https://calendar.google.com/calendar/render?action=TEMPLATE&text=${encodeURIComponent(event.title)}&dates=${startDate}/${endDate}&details=${encodeURIComponent(event.description)}&location=${encodeURIComponent(event.location)}`;
-                    window.open(calendarUrl, '_blank');
+                    // Download a single-event .ics file for any calendar app
+                    downloadCalendarEntry({
+                      uid: `event-${event.id}@radlettlodge6652.org.uk`,
+                      title: event.title,
+                      description: event.description,
+                      location: event.location,
+                      start: londonTimeFromInstant(eventDate)
+                    }, `${format(eventDate, 'yyyy-MM-dd')}-${event.title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.ics`);
                   }}
+                  className="flex items-center"
                 >
+                  <CalendarPlus size={16} className="mr-2" />
                   Add to Calendar
                 </Button>
               )}
@@ -1,7 +1,9 @@
 import React from 'react';
 import { useForm } from 'react-hook-form';
 import Button from './Button';
-import { MemberProfile } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { MemberProfile, MemberRole } from '../types';
+import { ROLE_DESCRIPTIONS, ROLE_LABELS } from '../utils/permissions';
 
 interface MemberProfileAdminFormProps {
   onSubmit: (data: {
@@ -9,7 +11,7 @@ interface MemberProfileAdminFormProps {
     full_name: string;
     status?: 'active' | 'pending' | 'inactive';
     position?: string;
-    role: 'member' | 'admin';
+    role: MemberRole;
     notes?: string;
   }) => Promise<void>;
   onCancel: () => void;
@@ -32,7 +34,11 @@ const MemberProfileAdminForm: React.FC<MemberProfileAdminFormProps> = ({
     }
   });
 
+  const { isAdmin } = useAuth();
   const isEditing = !!initialData;
+  // The database only lets admins hand out the admin role
+  const roles = (Object.keys(ROLE_LABELS) as MemberRole[])
+    .filter(role => role !== 'admin' || isAdmin || initialData?.role === 'admin');
 
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
@@ -105,8 +111,11 @@ const MemberProfileAdminForm: React.FC<MemberProfileAdminFormProps> = ({
           {...register('role', { required: 'Role is required' })}
           className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
         >
-          <option value="member">Member</option>
-          <option value="admin">Admin</option>
+          {roles.map(role => (
+            <option key={role} value={role}>
+              {ROLE_LABELS[role]} - {ROLE_DESCRIPTIONS[role]}
+            </option>
+          ))}
         </select>
         {errors.role && (
           <p className="mt-1 text-sm text-red-600">{errors.role.message as string}</p>
@@ -1,14 +1,17 @@
 import React, { useState } from 'react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
-import { Menu, X, LogOut, User, Settings, Home, FileText, Users, Calendar } from 'lucide-react';
+import { Menu, X, LogOut, User, Settings, Home, FileText, Users, Calendar, Search } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { ADMIN_PAGE_PERMISSIONS, CMS_PAGE_PERMISSIONS } from '../utils/permissions';
 import Button from './Button';
 
 const MembersHeader: React.FC = () => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
-  const { user, profile, signOut } = useAuth();
+  const { user, signOut, hasAnyPermission } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
+  const canUseAdmin = hasAnyPermission(ADMIN_PAGE_PERMISSIONS);
+  const canUseCms = hasAnyPermission(CMS_PAGE_PERMISSIONS);
 
   const handleSignOut = async () => {
     try {
@@ -72,25 +75,31 @@ const MembersHeader: React.FC = () => {
             >
               Directory
             </Link>
-            {profile?.role === 'admin' && (
-              <>
-                <Link 
-                  to="/members/admin" 
-                  className={`text-sm font-medium hover:text-secondary-300 transition-colors ${
-                    location.pathname === '/members/admin' ? 'text-secondary-500' : 'text-neutral-50'
-                  }`}
-                >
-                  Admin
-                </Link>
-                <Link 
-                  to="/members/cms" 
-                  className={`text-sm font-medium hover:text-secondary-300 transition-colors ${
-                    location.pathname === '/members/cms' ? 'text-secondary-500' : 'text-neutral-50'
-                  }`}
-                >
-                  CMS
-                </Link>
-              </>
+            <Link 
+              to="/search" 
+              className="text-sm font-medium text-neutral-50 hover:text-secondary-300 transition-colors"
+            >
+              Search
+            </Link>
+            {canUseAdmin && (
+              <Link 
+                to="/members/admin" 
+                className={`text-sm font-medium hover:text-secondary-300 transition-colors ${
+                  location.pathname === '/members/admin' ? 'text-secondary-500' : 'text-neutral-50'
+                }`}
+              >
+                Admin
+              </Link>
+            )}
+            {canUseCms && (
+              <Link 
+                to="/members/cms" 
+                className={`text-sm font-medium hover:text-secondary-300 transition-colors ${
+                  location.pathname === '/members/cms' ? 'text-secondary-500' : 'text-neutral-50'
+                }`}
+              >
+                CMS
+              </Link>
             )}
             <Link 
               to="/" 
@@ -161,33 +170,41 @@ const MembersHeader: React.FC = () => {
                 <Users size={18} className="mr-3" />
                 Directory
               </Link>
-              {profile?.role === 'admin' && (
-                <>
-                  <Link 
-                    to="/members/admin" 
-                    className={`flex items-center py-2 px-4 rounded-md ${
-                      location.pathname === '/members/admin' 
-                        ? 'bg-primary-700 text-secondary-500' 
-                        : 'text-white hover:bg-primary-700'
-                    }`}
-                    onClick={() => setIsMenuOpen(false)}
-                  >
-                    <FileText size={18} className="mr-3" />
-                    Admin
-                  </Link>
-                  <Link 
-                    to="/members/cms" 
-                    className={`flex items-center py-2 px-4 rounded-md ${
-                      location.pathname === '/members/cms' 
-                        ? 'bg-primary-700 text-secondary-500' 
-                        : 'text-white hover:bg-primary-700'
-                    }`}
-                    onClick={() => setIsMenuOpen(false)}
-                  >
-                    <Settings size={18} className="mr-3" />
-                    CMS
-                  </Link>
-                </>
+              <Link 
+                to="/search" 
+                className="flex items-center py-2 px-4 rounded-md text-white hover:bg-primary-700"
+                onClick={() => setIsMenuOpen(false)}
+              >
+                <Search size={18} className="mr-3" />
+                Search
+              </Link>
+              {canUseAdmin && (
+                <Link 
+                  to="/members/admin" 
+                  className={`flex items-center py-2 px-4 rounded-md ${
+                    location.pathname === '/members/admin' 
+                      ? 'bg-primary-700 text-secondary-500' 
+                      : 'text-white hover:bg-primary-700'
+                  }`}
+                  onClick={() => setIsMenuOpen(false)}
+                >
+                  <FileText size={18} className="mr-3" />
+                  Admin
+                </Link>
+              )}
+              {canUseCms && (
+                <Link 
+                  to="/members/cms" 
+                  className={`flex items-center py-2 px-4 rounded-md ${
+                    location.pathname === '/members/cms' 
+                      ? 'bg-primary-700 text-secondary-500' 
+                      : 'text-white hover:bg-primary-700'
+                  }`}
+                  onClick={() => setIsMenuOpen(false)}
+                >
+                  <Settings size={18} className="mr-3" />
+                  CMS
+                </Link>
               )}
               <Link 
                 to="/" 
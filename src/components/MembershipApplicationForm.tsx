@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { CheckCircle } from 'lucide-react';
+import { api } from '../lib/api';
+import { MembershipApplicationForm as ApplicationFormData } from '../types';
+import Button from './Button';
+import LoadingSpinner from './LoadingSpinner';
+
+interface FormValues extends Required<ApplicationFormData> {
+  confirm_requirements: boolean;
+  // Honeypot - hidden from people, so only bots fill it in
+  website: string;
+}
+
+const inputClass = 'w-full px-4 py-3 border border-neutral-300 rounded-md focus:ring-2 focus:ring-secondary-500 focus:border-secondary-500 transition-colors';
+const labelClass = 'block text-sm font-medium text-primary-600 mb-2';
+
+const MembershipApplicationForm: React.FC = () => {
+  const [submitted, setSubmitted] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<FormValues>();
+
+  const onSubmit = async (form: FormValues) => {
+    try {
+      setSubmitError(null);
+      await api.submitMembershipApplication({
+        full_name: form.full_name.trim(),
+        email: form.email.trim(),
+        phone: form.phone.trim() || undefined,
+        date_of_birth: form.date_of_birth || undefined,
+        town: form.town.trim() || undefined,
+        occupation: form.occupation.trim() || undefined,
+        reason: form.reason.trim(),
+        known_members: form.known_members.trim() || undefined
+      }, form.website);
+      setSubmitted(true);
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to send your application. Please try again.');
+    }
+  };
+
+  if (submitted) {
+    return (
+      <div className="text-center py-8">
+        <CheckCircle className="w-12 h-12 mx-auto mb-4 text-green-600" />
+        <h3 className="text-xl font-heading font-semibold text-primary-600 mb-2">Thank you for your enquiry</h3>
+        <p className="text-neutral-600 max-w-lg mx-auto">
+          We've emailed you a confirmation. Our Secretary will be in touch to arrange an informal meeting,
+          and we'll keep you updated by email at each step.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6" noValidate>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="application_full_name" className={labelClass}>Full Name *</label>
+          <input
+            id="application_full_name"
+            {...register('full_name', {
+              required: 'Please tell us your name',
+              maxLength: { value: 100, message: 'Name must be less than 100 characters' }
+            })}
+            className={inputClass}
+            autoComplete="name"
+          />
+          {errors.full_name && <p className="mt-1 text-sm text-red-600">{errors.full_name.message}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="application_email" className={labelClass}>Email *</label>
+          <input
+            id="application_email"
+            type="email"
+            {...register('email', {
+              required: 'Please tell us your email address',
+              pattern: {
+                value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+                message: 'Please enter a valid email address'
+              }
+            })}
+            className={inputClass}
+            autoComplete="email"
+          />
+          {errors.email && <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="application_phone" className={labelClass}>Phone</label>
+          <input
+            id="application_phone"
+            type="tel"
+            {...register('phone', {
+              pattern: {
+                value: /^[+]?[0-9\s\-()]{10,}$/,
+                message: 'Please enter a valid phone number'
+              }
+            })}
+            className={inputClass}
+            autoComplete="tel"
+          />
+          {errors.phone && <p className="mt-1 text-sm text-red-600">{errors.phone.message}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="application_date_of_birth" className={labelClass}>Date of Birth</label>
+          <input
+            id="application_date_of_birth"
+            type="date"
+            {...register('date_of_birth')}
+            className={inputClass}
+            autoComplete="bday"
+          />
+          <p className="mt-1 text-xs text-neutral-500">Candidates must be at least 21</p>
+        </div>
+
+        <div>
+          <label htmlFor="application_town" className={labelClass}>Town</label>
+          <input
+            id="application_town"
+            {...register('town', { maxLength: { value: 100, message: 'Town must be less than 100 characters' } })}
+            className={inputClass}
+            autoComplete="address-level2"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="application_occupation" className={labelClass}>Occupation</label>
+          <input
+            id="application_occupation"
+            {...register('occupation', { maxLength: { value: 100, message: 'Occupation must be less than 100 characters' } })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="application_known_members" className={labelClass}>Do you know any members of the Lodge?</label>
+        <input
+          id="application_known_members"
+          {...register('known_members', { maxLength: { value: 500, message: 'Please keep this under 500 characters' } })}
+          className={inputClass}
+          placeholder="Their names help us find your proposer and seconder"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="application_reason" className={labelClass}>Why would you like to become a Freemason? *</label>
+        <textarea
+          id="application_reason"
+          rows={5}
+          {...register('reason', {
+            required: 'Please tell us a little about why you would like to join',
+            maxLength: { value: 4000, message: 'Please keep this under 4000 characters' }
+          })}
+          className={inputClass}
+        />
+        {errors.reason && <p className="mt-1 text-sm text-red-600">{errors.reason.message}</p>}
+      </div>
+
+      <div className="absolute -left-[9999px] w-px h-px overflow-hidden" aria-hidden="true">
+        <label htmlFor="application_website">Leave this field empty</label>
+        <input
+          id="application_website"
+          type="text"
+          {...register('website')}
+          tabIndex={-1}
+          autoComplete="off"
+        />
+      </div>
+
+      <div>
+        <label className="flex items-start text-sm text-neutral-700">
+          <input
+            type="checkbox"
+            {...register('confirm_requirements', { required: 'Please confirm you meet the membership requirements' })}
+            className="mt-1 mr-3"
+          />
+          I meet the membership requirements above, and I'm happy for the Lodge to keep these details while my application is considered.
+        </label>
+        {errors.confirm_requirements && (
+          <p className="mt-1 text-sm text-red-600">{errors.confirm_requirements.message}</p>
+        )}
+      </div>
+
+      {submitError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+          {submitError}
+        </div>
+      )}
+
+      <div className="text-center">
+        <Button type="submit" size="lg" disabled={isSubmitting} className="inline-flex items-center">
+          {isSubmitting ? (
+            <>
+              <LoadingSpinner size="sm" className="mr-2" />
+              Sending...
+            </>
+          ) : (
+            'Send My Enquiry'
+          )}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default MembershipApplicationForm;
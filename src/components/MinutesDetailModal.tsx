@@ -0,0 +1,92 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { ExternalLink, X } from 'lucide-react';
+import { MeetingMinutes } from '../types';
+import { BALLOT_KIND_LABELS, BALLOT_RESULT_LABELS, formatAlms } from '../utils/minutes';
+import DocumentLink from './DocumentLink';
+
+interface MinutesDetailModalProps {
+  minute: MeetingMinutes | null;
+  onClose: () => void;
+}
+
+const NameList: React.FC<{ title: string; names?: string[] }> = ({ title, names }) => (
+  <div>
+    <h4 className="text-sm font-semibold text-primary-600 mb-1">
+      {title}{names && names.length > 0 && ` (${names.length})`}
+    </h4>
+    {names && names.length > 0 ? (
+      <ul className="text-sm text-neutral-700 space-y-0.5">
+        {names.map(name => <li key={name}>{name}</li>)}
+      </ul>
+    ) : (
+      <p className="text-sm text-neutral-400">None recorded</p>
+    )}
+  </div>
+);
+
+const MinutesDetailModal: React.FC<MinutesDetailModalProps> = ({ minute, onClose }) => {
+  if (!minute) return null;
+
+  const alms = formatAlms(minute.alms_collected);
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black bg-opacity-50" onClick={onClose} />
+      <div className="relative bg-white rounded-lg shadow-xl max-w-3xl w-full mx-4 p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h3 className="text-xl font-heading font-semibold text-primary-600">{minute.title}</h3>
+            <p className="text-sm text-neutral-500">
+              {format(new Date(minute.meeting_date), 'EEEE d MMMM yyyy')}
+              {minute.confirmed_at_meeting &&
+                ` • Confirmed at the meeting of ${format(new Date(minute.confirmed_at_meeting), 'd MMMM yyyy')}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-neutral-400 hover:text-neutral-600" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <NameList title="Present" names={minute.attendance} />
+          <NameList title="Apologies" names={minute.apologies} />
+          <NameList title="Visitors" names={minute.visitors} />
+        </div>
+
+        <h4 className="text-sm font-semibold text-primary-600 mb-1">Business of the Meeting</h4>
+        <div className="text-sm text-neutral-700 whitespace-pre-wrap mb-6">{minute.content}</div>
+
+        {minute.ballots && minute.ballots.length > 0 && (
+          <div className="mb-6">
+            <h4 className="text-sm font-semibold text-primary-600 mb-1">Ballots</h4>
+            <ul className="text-sm text-neutral-700 space-y-0.5">
+              {minute.ballots.map((ballot, index) => (
+                <li key={`${ballot.candidate}-${index}`}>
+                  {ballot.candidate} ({BALLOT_KIND_LABELS[ballot.kind]}) - {BALLOT_RESULT_LABELS[ballot.result]}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between border-t border-neutral-200 pt-4">
+          <p className="text-sm text-neutral-600">
+            {alms ? <>Alms collected: <span className="font-medium">{alms}</span></> : 'No alms recorded'}
+          </p>
+          {minute.document_url && (
+            <DocumentLink
+              url={minute.document_url}
+              className="flex items-center text-sm font-medium text-primary-600 hover:text-primary-700"
+            >
+              <ExternalLink size={16} className="mr-1" />
+              Open document
+            </DocumentLink>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MinutesDetailModal;
@@ -1,194 +1,310 @@
-import React from 'react';
-import { useState } from 'react';
-import { useForm } from 'react-hook-form';
-import { MeetingMinutes } from '../types';
+import React, { useMemo, useState } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { format } from 'date-fns';
+import { MeetingMinutes, MinutesBallot } from '../types';
+import { useMeetingSchedule } from '../hooks/useMeetingSchedule';
+import { getLodgeMeetingOn, getLodgeMeetingsForYear, toMeetingDateKey } from '../utils/lodgeMeetings';
+import { BALLOT_KIND_LABELS, BALLOT_RESULT_LABELS, linesToList, listToLines } from '../utils/minutes';
+import { isStoredFile } from '../utils/documentFiles';
+import { documentStorage } from '../lib/documentStorage';
 import Button from './Button';
-import MediaManager from './cms/MediaManager';
-import { FileText, X } from 'lucide-react';
+import DocumentFileInput from './DocumentFileInput';
+import { CalendarCheck, Plus, Trash2 } from 'lucide-react';
+
+export type MinutesFormData = Omit<MeetingMinutes, 'id' | 'created_at' | 'updated_at' | 'status'>;
 
 interface MinutesFormProps {
-  onSubmit: (data: Omit<MeetingMinutes, 'id' | 'created_at' | 'updated_at'>) => Promise<void>;
+  onSubmit: (data: MinutesFormData) => Promise<void>;
   onCancel: () => void;
   initialData?: Partial<MeetingMinutes>;
 }
 
+interface FormValues {
+  title: string;
+  meeting_date: string;
+  content: string;
+  attendance: string;
+  apologies: string;
+  visitors: string;
+  ballots: MinutesBallot[];
+  alms_collected: string;
+}
+
+const inputClass = 'mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500';
+
 const MinutesForm: React.FC<MinutesFormProps> = ({ onSubmit, onCancel, initialData }) => {
-  const [showMediaManager, setShowMediaManager] = useState(false);
   const [selectedDocumentUrl, setSelectedDocumentUrl] = useState(initialData?.document_url || '');
+  const { schedule } = useMeetingSchedule();
 
-  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm({
+  const { register, handleSubmit, setValue, watch, control, formState: { errors, isSubmitting } } = useForm<FormValues>({
     defaultValues: {
       title: initialData?.title || '',
       meeting_date: initialData?.meeting_date || '',
       content: initialData?.content || '',
-      document_url: initialData?.document_url || ''
+      attendance: listToLines(initialData?.attendance),
+      apologies: listToLines(initialData?.apologies),
+      visitors: listToLines(initialData?.visitors),
+      ballots: initialData?.ballots || [],
+      alms_collected: initialData?.alms_collected?.toString() ?? ''
     }
   });
+  const { fields: ballotFields, append: addBallot, remove: removeBallot } = useFieldArray({ control, name: 'ballots' });
 
-  const handleMediaSelect = (url: string) => {
-    setSelectedDocumentUrl(url);
-    setValue('document_url', url, { shouldDirty: true });
-    setShowMediaManager(false);
+  const meetingDate = watch('meeting_date');
+  const linkedMeeting = meetingDate ? getLodgeMeetingOn(meetingDate, schedule) : null;
+
+  // Lodge meetings from the last two years, most recent first, to pick from
+  const recentMeetings = useMemo(() => {
+    const now = new Date();
+    const year = now.getFullYear();
+    return [...getLodgeMeetingsForYear(year - 1, schedule), ...getLodgeMeetingsForYear(year, schedule)]
+      .filter(meeting => meeting.date <= now)
+      .reverse();
+  }, [schedule]);
+
+  const handlePickMeeting = (dateKey: string) => {
+    const meeting = recentMeetings.find(m => toMeetingDateKey(m.date) === dateKey);
+    if (!meeting) return;
+    setValue('meeting_date', dateKey, { shouldDirty: true, shouldValidate: true });
+    setValue('title', `${meeting.title} - ${format(meeting.date, 'MMMM yyyy')}`, { shouldDirty: true, shouldValidate: true });
   };
 
-  const handleClearDocument = () => {
-    setSelectedDocumentUrl('');
-    setValue('document_url', '', { shouldDirty: true });
+  // Don't leave behind a file uploaded for minutes that were never saved
+  const handleCancel = () => {
+    if (isStoredFile(selectedDocumentUrl) && selectedDocumentUrl !== initialData?.document_url) {
+      documentStorage.remove([selectedDocumentUrl]);
+    }
+    onCancel();
   };
 
-  const handleFormSubmit = async (data: any) => {
+  const handleFormSubmit = async (data: FormValues) => {
     await onSubmit({
-      ...data,
-      document_url: selectedDocumentUrl || data.document_url
+      title: data.title,
+      meeting_date: data.meeting_date,
+      content: data.content,
+      document_url: selectedDocumentUrl || undefined,
+      attendance: linesToList(data.attendance),
+      apologies: linesToList(data.apologies),
+      visitors: linesToList(data.visitors),
+      ballots: data.ballots.filter(ballot => ballot.candidate.trim()),
+      alms_collected: data.alms_collected === '' ? null : Number(data.alms_collected)
     });
   };
 
   return (
     <>
       <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-6">
-      <div>
-        <label htmlFor="title" className="block text-sm font-medium text-primary-600">
-          Meeting Title
-        </label>
-        <input
-          id="title"
-          {...register('title', { required: 'Title is required' })}
-          className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
-        />
-        {errors.title && (
-          <p className="mt-1 text-sm text-red-600">{errors.title.message as string}</p>
-        )}
+      {recentMeetings.length > 0 && (
+        <div>
+          <label htmlFor="meeting_pick" className="block text-sm font-medium text-primary-600">
+            Lodge Meeting
+          </label>
+          <select
+            id="meeting_pick"
+            value={linkedMeeting ? meetingDate : ''}
+            onChange={(e) => handlePickMeeting(e.target.value)}
+            className={inputClass}
+          >
+            <option value="">Choose a meeting, or enter the date below</option>
+            {recentMeetings.map(meeting => (
+              <option key={meeting.date.toISOString()} value={toMeetingDateKey(meeting.date)}>
+                {format(meeting.date, 'd MMMM yyyy')} - {meeting.title}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="title" className="block text-sm font-medium text-primary-600">
+            Meeting Title
+          </label>
+          <input
+            id="title"
+            {...register('title', { required: 'Title is required' })}
+            className={inputClass}
+          />
+          {errors.title && (
+            <p className="mt-1 text-sm text-red-600">{errors.title.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="meeting_date" className="block text-sm font-medium text-primary-600">
+            Meeting Date
+          </label>
+          <input
+            id="meeting_date"
+            type="date"
+            {...register('meeting_date', { required: 'Meeting date is required' })}
+            className={inputClass}
+          />
+          {errors.meeting_date && (
+            <p className="mt-1 text-sm text-red-600">{errors.meeting_date.message}</p>
+          )}
+          {meetingDate && (
+            <p className="mt-1 text-xs text-neutral-500 flex items-center">
+              {linkedMeeting ? (
+                <>
+                  <CalendarCheck size={12} className="mr-1 text-green-600" />
+                  {linkedMeeting.title}{linkedMeeting.isInstallation && ' (Installation)'}
+                </>
+              ) : (
+                'Not a scheduled Lodge meeting'
+              )}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div>
+          <label htmlFor="attendance" className="block text-sm font-medium text-primary-600">
+            Attendance
+          </label>
+          <textarea
+            id="attendance"
+            {...register('attendance')}
+            rows={6}
+            className={inputClass}
+            placeholder="One name per line"
+          />
+        </div>
+        <div>
+          <label htmlFor="apologies" className="block text-sm font-medium text-primary-600">
+            Apologies
+          </label>
+          <textarea
+            id="apologies"
+            {...register('apologies')}
+            rows={6}
+            className={inputClass}
+            placeholder="One name per line"
+          />
+        </div>
+        <div>
+          <label htmlFor="visitors" className="block text-sm font-medium text-primary-600">
+            Visitors
+          </label>
+          <textarea
+            id="visitors"
+            {...register('visitors')}
+            rows={6}
+            className={inputClass}
+            placeholder="Name and Lodge, one per line"
+          />
+        </div>
       </div>
 
       <div>
-        <label htmlFor="meeting_date" className="block text-sm font-medium text-primary-600">
-          Meeting Date
+        <label htmlFor="content" className="block text-sm font-medium text-primary-600">
+          Business of the Meeting
         </label>
-        <input
-          id="meeting_date"
-          type="date"
-          {...register('meeting_date', { required: 'Meeting date is required' })}
-          className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+        <textarea
+          id="content"
+          {...register('content', { required: 'Business of the meeting is required' })}
+          rows={10}
+          className={inputClass}
         />
-        {errors.meeting_date && (
-          <p className="mt-1 text-sm text-red-600">{errors.meeting_date.message as string}</p>
+        {errors.content && (
+          <p className="mt-1 text-sm text-red-600">{errors.content.message}</p>
         )}
       </div>
 
       <div>
-        <label htmlFor="document_url" className="block text-sm font-medium text-primary-600 mb-2">
-          Meeting Minutes Document (PDF)
-        </label>
-        <div className="mt-1 space-y-3">
-          {/* Document URL Input with Media Manager Button */}
-          <div className="flex space-x-2">
-            <input
-              id="document_url"
-              type="url"
-              {...register('document_url')}
-              value={selectedDocumentUrl}
-              onChange={(e) => {
-                setSelectedDocumentUrl(e.target.value);
-                setValue('document_url', e.target.value, { shouldDirty: true });
-              }}
-              className="flex-1 rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
-              placeholder="https://example.com/minutes.pdf or use Media Manager to upload"
-            />
-            <Button
-              type="button"
-              variant="outline"
-              onClick={() => setShowMediaManager(true)}
-              className="flex items-center px-3"
-            >
-              <FileText size={16} className="mr-1" />
-              Upload PDF
-            </Button>
-            {selectedDocumentUrl && (
-              <Button
-                type="button"
-                variant="outline"
-                onClick={handleClearDocument}
-                className="flex items-center px-3 text-red-600 hover:text-red-700 border-red-200 hover:border-red-300"
-              >
-                <X size={16} />
-              </Button>
-            )}
-          </div>
-
-          {/* Document Preview */}
-          {selectedDocumentUrl && (
-            <div className="mt-3">
-              <p className="text-sm font-medium text-neutral-700 mb-2">Selected Document:</p>
-              <div className="flex items-center p-3 bg-neutral-50 border border-neutral-200 rounded-lg">
-                <FileText className="w-5 h-5 text-primary-600 mr-3" />
-                <div className="flex-1">
-                  <p className="text-sm font-medium text-neutral-700">
-                    {selectedDocumentUrl.split('/').pop() || 'Meeting Minutes Document'}
-                  </p>
-                  <p className="text-xs text-neutral-500 truncate">
-                    {selectedDocumentUrl}
-                  </p>
-                </div>
-                <a
-                  href={selectedDocumentUrl}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="ml-3 text-primary-600 hover:text-primary-700 text-sm font-medium"
-                >
-                  Preview
-                </a>
+        <div className="flex items-center justify-between">
+          <span className="block text-sm font-medium text-primary-600">Ballots</span>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => addBallot({ candidate: '', kind: 'initiation', result: 'elected' })}
+            className="flex items-center"
+          >
+            <Plus size={14} className="mr-1" />
+            Add ballot
+          </Button>
+        </div>
+        {ballotFields.length === 0 ? (
+          <p className="mt-1 text-xs text-neutral-500">No ballots at this meeting.</p>
+        ) : (
+          <div className="mt-2 space-y-2">
+            {ballotFields.map((field, index) => (
+              <div key={field.id} className="grid grid-cols-12 gap-2 items-center">
+                <input
+                  {...register(`ballots.${index}.candidate` as const)}
+                  placeholder="Candidate"
+                  className={`${inputClass} col-span-5 mt-0`}
+                />
+                <select {...register(`ballots.${index}.kind` as const)} className={`${inputClass} col-span-3 mt-0`}>
+                  {Object.entries(BALLOT_KIND_LABELS).map(([kind, label]) => (
+                    <option key={kind} value={kind}>{label}</option>
+                  ))}
+                </select>
+                <select {...register(`ballots.${index}.result` as const)} className={`${inputClass} col-span-3 mt-0`}>
+                  {Object.entries(BALLOT_RESULT_LABELS).map(([result, label]) => (
+                    <option key={result} value={result}>{label}</option>
+                  ))}
+                </select>
                 <button
                   type="button"
-                  onClick={handleClearDocument}
-                  className="ml-2 p-1 text-red-500 hover:text-red-700"
-                  title="Remove document"
+                  onClick={() => removeBallot(index)}
+                  className="col-span-1 p-2 text-neutral-400 hover:text-red-600"
+                  title="Remove ballot"
                 >
-                  <X size={14} />
+                  <Trash2 size={16} />
                 </button>
               </div>
-            </div>
-          )}
+            ))}
+          </div>
+        )}
+      </div>
 
-          <p className="text-xs text-neutral-500">
-            You can paste a PDF URL directly or use the Media Manager to upload PDF files. 
-            The uploaded document will be accessible to all Lodge members.
-          </p>
-        </div>
+      <div className="md:w-1/3">
+        <label htmlFor="alms_collected" className="block text-sm font-medium text-primary-600">
+          Alms Collected (£)
+        </label>
+        <input
+          id="alms_collected"
+          type="number"
+          min="0"
+          step="0.01"
+          {...register('alms_collected', { min: { value: 0, message: "Alms can't be negative" } })}
+          className={inputClass}
+        />
+        {errors.alms_collected && (
+          <p className="mt-1 text-sm text-red-600">{errors.alms_collected.message}</p>
+        )}
       </div>
 
       <div>
-        <label htmlFor="content" className="block text-sm font-medium text-primary-600">
-          Minutes Content
+        <label htmlFor="document_url" className="block text-sm font-medium text-primary-600 mb-2">
+          Meeting Minutes Document
         </label>
-        <textarea
-          id="content"
-          {...register('content', { required: 'Content is required' })}
-          rows={10}
-          className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+        <DocumentFileInput
+          id="document_url"
+          value={selectedDocumentUrl}
+          onChange={setSelectedDocumentUrl}
+          folder="minutes"
+          placeholder="Or paste a link to the minutes held elsewhere"
         />
-        {errors.content && (
-          <p className="mt-1 text-sm text-red-600">{errors.content.message as string}</p>
-        )}
+        <p className="mt-1 text-xs text-neutral-500">
+          Members see the minutes and this document once the Lodge has confirmed them.
+        </p>
       </div>
 
       <div className="flex justify-end space-x-4">
-        <Button type="button" variant="outline" onClick={onCancel}>
+        <Button type="button" variant="outline" onClick={handleCancel}>
           Cancel
         </Button>
         <Button type="submit" disabled={isSubmitting}>
-          {isSubmitting ? 'Saving...' : initialData ? 'Update Minutes' : 'Save Minutes'}
+          {isSubmitting ? 'Saving...' : initialData ? 'Update Minutes' : 'Save Draft'}
         </Button>
       </div>
     </form>
-
-      {/* Media Manager Modal */}
-      <MediaManager
-        isOpen={showMediaManager}
-        onClose={() => setShowMediaManager(false)}
-        onSelectMedia={handleMediaSelect}
-      />
     </>
   );
 };
 
-export default MinutesForm;
\ No newline at end of file
+export default MinutesForm;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { CheckCircle, Send, Undo2, X } from 'lucide-react';
+import { MeetingMinutes, MinutesStatus } from '../types';
+import { getLodgeMeetingAfter, MeetingSchedule, toMeetingDateKey } from '../utils/lodgeMeetings';
+import Button from './Button';
+
+interface MinutesStatusActionsProps {
+  minute: MeetingMinutes;
+  // Used to suggest the next meeting as the one that confirmed the minutes
+  schedule: MeetingSchedule;
+  // Confirming needs the date of the meeting that approved the minutes
+  onTransition: (status: MinutesStatus, confirmedAtMeeting?: string) => Promise<void>;
+}
+
+const MinutesStatusActions: React.FC<MinutesStatusActionsProps> = ({ minute, schedule, onTransition }) => {
+  const [confirming, setConfirming] = useState(false);
+  const [confirmedAtMeeting, setConfirmedAtMeeting] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const run = async (status: MinutesStatus, meetingDate?: string) => {
+    setSaving(true);
+    try {
+      await onTransition(status, meetingDate);
+      setConfirming(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openConfirm = () => {
+    const nextMeeting = getLodgeMeetingAfter(minute.meeting_date, schedule);
+    setConfirmedAtMeeting(nextMeeting ? toMeetingDateKey(nextMeeting.date) : '');
+    setConfirming(true);
+  };
+
+  if (minute.status === 'confirmed') return null;
+
+  const nextMeeting = confirmedAtMeeting ? getLodgeMeetingAfter(minute.meeting_date, schedule) : null;
+  const tooEarly = !!confirmedAtMeeting && confirmedAtMeeting <= minute.meeting_date;
+
+  return (
+    <>
+      {minute.status === 'draft' ? (
+        <Button size="sm" variant="outline" onClick={() => run('circulated')} disabled={saving} className="flex items-center">
+          <Send size={14} className="mr-1" />
+          Circulate
+        </Button>
+      ) : (
+        <>
+          <Button size="sm" variant="outline" onClick={() => run('draft')} disabled={saving} className="flex items-center">
+            <Undo2 size={14} className="mr-1" />
+            Back to draft
+          </Button>
+          <Button size="sm" onClick={openConfirm} disabled={saving} className="flex items-center">
+            <CheckCircle size={14} className="mr-1" />
+            Confirm
+          </Button>
+        </>
+      )}
+
+      {confirming && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black bg-opacity-50" onClick={() => setConfirming(false)} />
+          <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full mx-4 p-6">
+            <div className="flex justify-between items-start mb-4">
+              <h3 className="text-lg font-heading font-semibold text-primary-600">Confirm Minutes</h3>
+              <button onClick={() => setConfirming(false)} className="text-neutral-400 hover:text-neutral-600" title="Close">
+                <X size={20} />
+              </button>
+            </div>
+            <p className="text-sm text-neutral-600 mb-4">
+              Record the meeting at which the Lodge confirmed the minutes of {minute.title}. Once
+              confirmed they are published to members and can no longer be edited.
+            </p>
+            <label htmlFor="confirmed_at_meeting" className="block text-sm font-medium text-primary-600">
+              Confirmed at the meeting on
+            </label>
+            <input
+              id="confirmed_at_meeting"
+              type="date"
+              value={confirmedAtMeeting}
+              min={minute.meeting_date}
+              onChange={(e) => setConfirmedAtMeeting(e.target.value)}
+              className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+            />
+            {tooEarly ? (
+              <p className="mt-1 text-sm text-red-600">Minutes are confirmed at a later meeting.</p>
+            ) : nextMeeting && toMeetingDateKey(nextMeeting.date) === confirmedAtMeeting && (
+              <p className="mt-1 text-xs text-neutral-500">
+                {nextMeeting.title}, {format(nextMeeting.date, 'd MMMM yyyy')}
+              </p>
+            )}
+            <div className="flex justify-end space-x-3 mt-6">
+              <Button variant="outline" onClick={() => setConfirming(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => run('confirmed', confirmedAtMeeting)}
+                disabled={saving || !confirmedAtMeeting || tooEarly}
+              >
+                {saving ? 'Confirming...' : 'Confirm Minutes'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default MinutesStatusActions;
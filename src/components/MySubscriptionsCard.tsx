@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { PoundSterling } from 'lucide-react';
+import { api } from '../lib/api';
+import { DuesInvoiceBalance, DuesPayment } from '../types';
+import {
+  INVOICE_STATUS_BADGES,
+  INVOICE_STATUS_LABELS,
+  PAYMENT_METHOD_LABELS,
+  formatPounds,
+  invoiceStatus,
+  totalOutstanding
+} from '../utils/dues';
+
+interface MySubscriptionsCardProps {
+  userId: string;
+}
+
+const MySubscriptionsCard: React.FC<MySubscriptionsCardProps> = ({ userId }) => {
+  const [invoices, setInvoices] = useState<DuesInvoiceBalance[]>([]);
+  const [payments, setPayments] = useState<DuesPayment[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.getDuesInvoices({ userId })
+      .then(async result => {
+        setInvoices(result);
+        setPayments(await api.getDuesPayments(result.map(invoice => invoice.id)));
+      })
+      .catch(err => {
+        console.error('Error loading subscriptions:', err);
+        setError('Your subscriptions could not be loaded.');
+      })
+      .finally(() => setLoaded(true));
+  }, [userId]);
+
+  const owed = totalOutstanding(invoices);
+
+  return (
+    <div className="bg-white rounded-lg p-6 shadow-soft mt-6">
+      <h4 className="text-lg font-heading font-semibold text-primary-600 mb-4 flex items-center">
+        <PoundSterling className="w-5 h-5 mr-2 text-secondary-500" />
+        My Subscriptions
+      </h4>
+
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : !loaded ? null : invoices.length === 0 ? (
+        <p className="text-sm text-neutral-600">You have no subscriptions or dues on record.</p>
+      ) : (
+        <>
+          <p className={`text-sm mb-4 ${owed > 0 ? 'text-red-700' : 'text-green-700'}`}>
+            {owed > 0
+              ? `You owe ${formatPounds(owed)}. Please pay the Treasurer, who will record it here.`
+              : 'You are up to date with your subscriptions.'}
+          </p>
+          <div className="divide-y divide-neutral-100">
+            {invoices.map(invoice => {
+              const status = invoiceStatus(invoice);
+              const invoicePayments = payments.filter(payment => payment.invoice_id === invoice.id);
+              return (
+                <div key={invoice.id} className="py-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <div>
+                      <p className="font-medium text-neutral-800">{invoice.title}</p>
+                      <p className="text-xs text-neutral-500">Due {format(new Date(invoice.due_date), 'd MMMM yyyy')}</p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className="text-sm text-neutral-800">{formatPounds(Number(invoice.amount))}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${INVOICE_STATUS_BADGES[status]}`}>
+                        {INVOICE_STATUS_LABELS[status]}
+                      </span>
+                    </div>
+                  </div>
+                  {invoicePayments.map(payment => (
+                    <p key={payment.id} className="text-xs text-neutral-500 mt-1">
+                      Paid {formatPounds(Number(payment.amount))} by {PAYMENT_METHOD_LABELS[payment.method].toLowerCase()} on{' '}
+                      {format(new Date(payment.paid_on), 'd MMM yyyy')}
+                    </p>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MySubscriptionsCard;
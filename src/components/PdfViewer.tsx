@@ -0,0 +1,266 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import { ChevronLeft, ChevronRight, Search, ZoomIn, ZoomOut } from 'lucide-react';
+import { getPdfText, loadPdf } from '../lib/pdf';
+import { PdfSearchMatch, PdfTextItem, findPdfMatches, matchHighlightRect } from '../utils/documentViewer';
+import LoadingSpinner from './LoadingSpinner';
+
+interface PdfViewerProps {
+  data: ArrayBuffer;
+}
+
+const ZOOM_STEPS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+
+/**
+ * Renders a PDF a page at a time, sized to the viewer's width at 100%. Search
+ * reads every page's text on first use and marks the matches on the page.
+ */
+const PdfViewer: React.FC<PdfViewerProps> = ({ data }) => {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [zoom, setZoom] = useState(1);
+  const [rendered, setRendered] = useState<{ transform: number[]; scale: number } | null>(null);
+  const [pageText, setPageText] = useState<PdfTextItem[][] | null>(null);
+  const [query, setQuery] = useState('');
+  const [searchedFor, setSearchedFor] = useState('');
+  const [matches, setMatches] = useState<PdfSearchMatch[]>([]);
+  const [currentMatch, setCurrentMatch] = useState(0);
+  const [searching, setSearching] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const currentHighlightRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+
+    loadPdf(data)
+      .then(doc => {
+        // Closed or given another file while this one was loading
+        if (cancelled) {
+          doc.destroy();
+          return;
+        }
+        loaded = doc;
+        setPdf(doc);
+      })
+      .catch(err => {
+        console.error('Error loading PDF:', err);
+        if (!cancelled) setError('This PDF could not be read. Try downloading it instead.');
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [data]);
+
+  useEffect(() => {
+    if (!pdf) return;
+    let cancelled = false;
+    let task: RenderTask | null = null;
+
+    pdf.getPage(pageNumber)
+      .then(page => {
+        const canvas = canvasRef.current;
+        const container = containerRef.current;
+        if (cancelled || !canvas || !container) return;
+
+        const fitWidth = (container.clientWidth - 32) / page.getViewport({ scale: 1 }).width;
+        const viewport = page.getViewport({ scale: fitWidth * zoom });
+        // Draw at the screen's pixel density so text stays sharp
+        const ratio = window.devicePixelRatio || 1;
+        canvas.width = Math.floor(viewport.width * ratio);
+        canvas.height = Math.floor(viewport.height * ratio);
+        canvas.style.width = `${viewport.width}px`;
+        canvas.style.height = `${viewport.height}px`;
+
+        task = page.render({
+          canvas,
+          viewport,
+          transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined
+        });
+        return task.promise.then(() => {
+          if (!cancelled) {
+            setRendered({ transform: viewport.transform, scale: viewport.scale });
+          }
+        });
+      })
+      .catch(err => {
+        if (err?.name === 'RenderingCancelledException') return;
+        console.error('Error rendering PDF page:', err);
+        if (!cancelled) setError(`Page ${pageNumber} could not be shown.`);
+      });
+
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [pdf, pageNumber, zoom]);
+
+  useEffect(() => {
+    currentHighlightRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [currentMatch, rendered]);
+
+  const goToMatch = (index: number) => {
+    const wrapped = (index + matches.length) % matches.length;
+    setCurrentMatch(wrapped);
+    setPageNumber(matches[wrapped].page);
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pdf) return;
+
+    // Enter again on the same words moves on to the next match
+    if (query.trim() && query.trim() === searchedFor && matches.length > 0) {
+      goToMatch(currentMatch + 1);
+      return;
+    }
+
+    try {
+      setSearching(true);
+      const text = pageText || (await getPdfText(pdf));
+      setPageText(text);
+      const found = findPdfMatches(text, query);
+      setMatches(found);
+      setSearchedFor(query.trim());
+      setCurrentMatch(0);
+      if (found.length > 0) setPageNumber(found[0].page);
+    } catch (err) {
+      console.error('Error searching PDF:', err);
+      setError('This PDF could not be searched.');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const zoomIndex = ZOOM_STEPS.indexOf(zoom);
+  const toolbarButton = 'p-1.5 rounded text-neutral-600 hover:bg-neutral-200 disabled:text-neutral-300 disabled:hover:bg-transparent';
+
+  if (error) {
+    return <p className="p-6 text-center text-sm text-red-600">{error}</p>;
+  }
+
+  if (!pdf) {
+    return (
+      <div className="py-12">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b border-neutral-200 bg-neutral-50 px-4 py-2">
+        <div className="flex items-center gap-1 text-sm text-neutral-600">
+          <button
+            onClick={() => setPageNumber(page => page - 1)}
+            disabled={pageNumber <= 1}
+            className={toolbarButton}
+            title="Previous page"
+          >
+            <ChevronLeft size={18} />
+          </button>
+          <span>
+            Page {pageNumber} of {pdf.numPages}
+          </span>
+          <button
+            onClick={() => setPageNumber(page => page + 1)}
+            disabled={pageNumber >= pdf.numPages}
+            className={toolbarButton}
+            title="Next page"
+          >
+            <ChevronRight size={18} />
+          </button>
+          <span className="mx-2 h-5 border-l border-neutral-300" />
+          <button
+            onClick={() => setZoom(ZOOM_STEPS[zoomIndex - 1])}
+            disabled={zoomIndex <= 0}
+            className={toolbarButton}
+            title="Zoom out"
+          >
+            <ZoomOut size={18} />
+          </button>
+          <span className="w-12 text-center">{Math.round(zoom * 100)}%</span>
+          <button
+            onClick={() => setZoom(ZOOM_STEPS[zoomIndex + 1])}
+            disabled={zoomIndex >= ZOOM_STEPS.length - 1}
+            className={toolbarButton}
+            title="Zoom in"
+          >
+            <ZoomIn size={18} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSearch} className="flex items-center gap-1 text-sm">
+          <div className="relative">
+            <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-neutral-400" />
+            <input
+              type="search"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder="Search this document"
+              className="w-48 rounded-md border border-neutral-300 py-1 pl-7 pr-2 text-sm focus:border-secondary-500 focus:ring-secondary-500"
+            />
+          </div>
+          {searching ? (
+            <span className="text-neutral-500">Searching...</span>
+          ) : searchedFor && (
+            <>
+              <span className="text-neutral-500 whitespace-nowrap">
+                {matches.length > 0 ? `${currentMatch + 1} of ${matches.length}` : 'No matches'}
+              </span>
+              <button
+                type="button"
+                onClick={() => goToMatch(currentMatch - 1)}
+                disabled={matches.length < 2}
+                className={toolbarButton}
+                title="Previous match"
+              >
+                <ChevronLeft size={16} />
+              </button>
+              <button
+                type="button"
+                onClick={() => goToMatch(currentMatch + 1)}
+                disabled={matches.length < 2}
+                className={toolbarButton}
+                title="Next match"
+              >
+                <ChevronRight size={16} />
+              </button>
+            </>
+          )}
+        </form>
+      </div>
+
+      <div ref={containerRef} className="flex-grow overflow-auto bg-neutral-100 p-4">
+        <div className="relative mx-auto w-fit bg-white shadow-soft">
+          <canvas ref={canvasRef} className="block" />
+          {rendered && pageText && matches.map((match, index) => {
+            if (match.page !== pageNumber) return null;
+            const rect = matchHighlightRect(
+              rendered.transform,
+              rendered.scale,
+              pageText[match.page - 1][match.item],
+              match.start,
+              searchedFor.length
+            );
+            const isCurrent = index === currentMatch;
+            return (
+              <div
+                key={`${match.item}-${match.start}`}
+                ref={isCurrent ? currentHighlightRef : undefined}
+                className={`absolute pointer-events-none rounded-sm ${isCurrent ? 'bg-orange-400/50' : 'bg-yellow-300/40'}`}
+                style={rect}
+              />
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfViewer;
@@ -2,10 +2,18 @@ import React from 'react';
 import { useForm } from 'react-hook-form';
 import Button from './Button';
 import LoadingSpinner from './LoadingSpinner';
-import { MemberProfile } from '../types';
-import { User, Award, Save, Mail, Phone, Shield, Crown } from 'lucide-react';
+import { FieldVisibility, MemberProfile } from '../types';
+import { isOfficeHolder, roleLabel } from '../utils/permissions';
+import { FIELD_VISIBILITY_LABELS } from '../utils/directory';
+import { User, Award, Save, Mail, Phone, Shield, Crown, Eye } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 
+type VisibilityField =
+  | 'contact_email_visibility'
+  | 'contact_phone_visibility'
+  | 'provincial_rank_visibility'
+  | 'grand_lodge_rank_visibility';
+
 interface ProfileFormProps {
   profile: MemberProfile;
   onSubmit: (data: Partial<MemberProfile>) => Promise<void>;
@@ -22,10 +30,31 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ profile, onSubmit, isUpdating
       contact_email: profile.contact_email || '',
       contact_phone: profile.contact_phone || '',
       masonic_provincial_rank: profile.masonic_provincial_rank || '',
-      grand_lodge_rank: profile.grand_lodge_rank || ''
+      grand_lodge_rank: profile.grand_lodge_rank || '',
+      contact_email_visibility: profile.contact_email_visibility || 'lodge',
+      contact_phone_visibility: profile.contact_phone_visibility || 'lodge',
+      provincial_rank_visibility: profile.provincial_rank_visibility || 'lodge',
+      grand_lodge_rank_visibility: profile.grand_lodge_rank_visibility || 'lodge'
     }
   });
 
+  const visibilitySelect = (field: VisibilityField, label: string) => (
+    <div className="mt-2 flex items-center text-xs text-neutral-600">
+      <Eye size={14} className="mr-1.5 text-neutral-400" />
+      <label htmlFor={field} className="mr-2">{label} visible to</label>
+      <select
+        id={field}
+        {...register(field)}
+        className="px-2 py-1 border border-neutral-300 rounded-md text-xs focus:ring-2 focus:ring-secondary-500 focus:border-secondary-500"
+        disabled={isUpdating}
+      >
+        {(Object.keys(FIELD_VISIBILITY_LABELS) as FieldVisibility[]).map(value => (
+          <option key={value} value={value}>{FIELD_VISIBILITY_LABELS[value]}</option>
+        ))}
+      </select>
+    </div>
+  );
+
   const handleFormSubmit = async (data: any) => {
     // Only submit if there are changes
     if (!isDirty) return;
@@ -36,7 +65,11 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ profile, onSubmit, isUpdating
       contact_email: data.contact_email.trim() || undefined,
       contact_phone: data.contact_phone.trim() || undefined,
       masonic_provincial_rank: data.masonic_provincial_rank.trim() || undefined,
-      grand_lodge_rank: data.grand_lodge_rank.trim() || undefined
+      grand_lodge_rank: data.grand_lodge_rank.trim() || undefined,
+      contact_email_visibility: data.contact_email_visibility,
+      contact_phone_visibility: data.contact_phone_visibility,
+      provincial_rank_visibility: data.provincial_rank_visibility,
+      grand_lodge_rank_visibility: data.grand_lodge_rank_visibility
     });
   };
 
@@ -150,6 +183,7 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ profile, onSubmit, isUpdating
             <p className="mt-1 text-xs text-neutral-500">
               Alternative email for Lodge communications (optional)
             </p>
+            {visibilitySelect('contact_email_visibility', 'Email')}
           </div>
 
           {/* Contact Phone */}
@@ -177,6 +211,7 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ profile, onSubmit, isUpdating
             <p className="mt-1 text-xs text-neutral-500">
               Phone number for Lodge communications (optional)
             </p>
+            {visibilitySelect('contact_phone_visibility', 'Phone')}
           </div>
         </div>
       </div>
@@ -212,6 +247,7 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ profile, onSubmit, isUpdating
             <p className="mt-1 text-xs text-neutral-500">
               Your Provincial Grand Lodge rank or appointment (optional)
             </p>
+            {visibilitySelect('provincial_rank_visibility', 'Provincial rank')}
           </div>
 
           <div>
@@ -237,6 +273,7 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ profile, onSubmit, isUpdating
             <p className="mt-1 text-xs text-neutral-500">
               Your United Grand Lodge rank or appointment (optional)
             </p>
+            {visibilitySelect('grand_lodge_rank_visibility', 'Grand Lodge rank')}
           </div>
         </div>
       </div>
@@ -267,11 +304,11 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ profile, onSubmit, isUpdating
             </label>
             <div className="px-4 py-3 bg-neutral-50 border border-neutral-200 rounded-md">
               <span className={`inline-block text-xs font-medium px-2 py-1 rounded ${
-                profile.role === 'admin' 
+                isOfficeHolder(profile.role)
                   ? 'bg-secondary-100 text-secondary-700' 
                   : 'bg-neutral-100 text-neutral-600'
               }`}>
-                {profile.role === 'admin' ? 'Administrator' : 'Member'}
+                {roleLabel(profile.role)}
               </span>
             </div>
           </div>
@@ -307,7 +344,8 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ profile, onSubmit, isUpdating
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <h4 className="font-medium text-blue-800 mb-2">Profile Information</h4>
         <ul className="text-sm text-blue-700 space-y-1">
-          <li>• Your profile information is visible to other Lodge members</li>
+          <li>• Your name, position and membership date are visible to other Lodge members</li>
+          <li>• Choose who sees your contact details and ranks in the member directory</li>
           <li>• Contact details help with Lodge communications and events</li>
           <li>• Masonic ranks help identify your experience and qualifications</li>
           <li>• Contact the Lodge Secretary if you need help with rank information</li>
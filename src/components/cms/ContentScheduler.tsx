@@ -3,7 +3,7 @@ import { Calendar, Clock, Eye, EyeOff } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import Button from '../Button';
 
-interface ScheduleData {
+export interface ScheduleData {
   publish_date: string;
   publish_time: string;
   unpublish_date?: string;
@@ -0,0 +1,228 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Download, Trash2, Users, X } from 'lucide-react';
+import { cmsApi } from '../../lib/cmsApi';
+import { CMSEvent, EventBooking } from '../../types';
+import { downloadCsv } from '../../utils/csv';
+import {
+  CATERER_CSV_HEADERS,
+  areBookingsOpen,
+  bookingsToCsvRows,
+  countBookingSeats,
+  summariseBookings
+} from '../../utils/eventBookings';
+import Button from '../Button';
+import ConfirmDialog from '../ConfirmDialog';
+import LoadingSpinner from '../LoadingSpinner';
+
+interface EventBookingsPanelProps {
+  event: CMSEvent | null;
+  onClose: () => void;
+}
+
+const statusBadges: Record<EventBooking['status'], string> = {
+  confirmed: 'bg-green-100 text-green-700',
+  waitlisted: 'bg-amber-100 text-amber-700',
+  declined: 'bg-neutral-100 text-neutral-600'
+};
+
+const EventBookingsPanel: React.FC<EventBookingsPanelProps> = ({ event, onClose }) => {
+  const [bookings, setBookings] = useState<EventBooking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [removing, setRemoving] = useState<EventBooking | null>(null);
+
+  const loadBookings = useCallback(async () => {
+    if (!event) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      setBookings(await cmsApi.getEventBookings(event.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [event]);
+
+  useEffect(() => {
+    loadBookings();
+  }, [loadBookings]);
+
+  if (!event) return null;
+
+  const summary = summariseBookings(bookings, event.capacity);
+  const attending = bookings.filter(b => b.status === 'confirmed');
+  const waitlist = bookings.filter(b => b.status === 'waitlisted');
+  const apologies = bookings.filter(b => b.status === 'declined');
+
+  const handleExport = () => {
+    downloadCsv(
+      `${event.title} ${format(new Date(event.event_date), 'yyyy-MM-dd')} festive board.csv`,
+      CATERER_CSV_HEADERS,
+      bookingsToCsvRows(bookings)
+    );
+  };
+
+  const handleRemove = async () => {
+    if (!removing) return;
+
+    try {
+      await cmsApi.deleteEventBooking(removing.id);
+      setRemoving(null);
+      // Removing a confirmed booking may promote someone from the waitlist
+      await loadBookings();
+    } catch (err) {
+      setRemoving(null);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const renderBooking = (booking: EventBooking) => (
+    <li key={booking.id} className="py-3 flex items-start justify-between">
+      <div>
+        <div className="flex items-center gap-2">
+          <span className="font-medium text-primary-600">{booking.member_name || 'Unknown member'}</span>
+          <span className={`text-xs font-medium px-2 py-0.5 rounded ${statusBadges[booking.status]}`}>
+            {booking.status}
+          </span>
+          {booking.attending && (
+            <span className="text-xs text-neutral-500">
+              {countBookingSeats(booking)} seat{countBookingSeats(booking) !== 1 ? 's' : ''}
+            </span>
+          )}
+        </div>
+        {booking.attending && (
+          <div className="text-xs text-neutral-600 mt-1 space-y-0.5">
+            {!booking.festive_board && <p>Not dining</p>}
+            {booking.dietary_requirements && <p>Dietary: {booking.dietary_requirements}</p>}
+            {booking.guests.map((guest, index) => (
+              <p key={index}>
+                Guest: {guest.name}
+                {!guest.festive_board && ' (not dining)'}
+                {guest.dietary_requirements && ` - ${guest.dietary_requirements}`}
+              </p>
+            ))}
+          </div>
+        )}
+        {booking.notes && <p className="text-xs text-neutral-500 italic mt-1">{booking.notes}</p>}
+      </div>
+      <button
+        className="p-2 text-neutral-500 hover:text-red-500 transition-colors"
+        onClick={() => setRemoving(booking)}
+        title="Remove booking"
+      >
+        <Trash2 size={16} />
+      </button>
+    </li>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black bg-opacity-50" onClick={onClose} />
+      <div className="relative bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-start justify-between mb-6">
+            <div className="flex items-center">
+              <Users className="w-6 h-6 text-secondary-500 mr-3" />
+              <div>
+                <h2 className="text-xl font-semibold text-primary-600">Bookings</h2>
+                <p className="text-sm text-neutral-600">
+                  {event.title} - {format(new Date(event.event_date), 'EEEE do MMMM yyyy')}
+                </p>
+              </div>
+            </div>
+            <button onClick={onClose} className="p-2 text-neutral-500 hover:text-neutral-700" title="Close">
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+            <div className="bg-neutral-50 rounded-lg p-3 text-center">
+              <p className="text-2xl font-semibold text-primary-600">
+                {summary.confirmed_seats}{summary.capacity !== null && `/${summary.capacity}`}
+              </p>
+              <p className="text-xs text-neutral-500">Festive board seats</p>
+            </div>
+            <div className="bg-neutral-50 rounded-lg p-3 text-center">
+              <p className="text-2xl font-semibold text-primary-600">{summary.guest_count}</p>
+              <p className="text-xs text-neutral-500">Guests</p>
+            </div>
+            <div className="bg-neutral-50 rounded-lg p-3 text-center">
+              <p className="text-2xl font-semibold text-primary-600">{summary.waitlisted_count}</p>
+              <p className="text-xs text-neutral-500">Waitlisted</p>
+            </div>
+            <div className="bg-neutral-50 rounded-lg p-3 text-center">
+              <p className="text-2xl font-semibold text-primary-600">{summary.declined_count}</p>
+              <p className="text-xs text-neutral-500">Apologies</p>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between mb-4">
+            <p className="text-xs text-neutral-500">
+              {!event.bookings_enabled
+                ? 'Bookings are switched off for this event.'
+                : areBookingsOpen(event)
+                  ? 'Bookings are open.'
+                  : 'Bookings have closed.'}
+            </p>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleExport}
+              disabled={summary.attending_count === 0}
+              className="flex items-center"
+            >
+              <Download size={14} className="mr-1" />
+              Caterer CSV
+            </Button>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3 mb-4">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <LoadingSpinner subtle={true} className="py-8" />
+          ) : bookings.length === 0 ? (
+            <div className="text-center py-8 bg-neutral-50 rounded-lg">
+              <p className="text-neutral-600">No bookings yet.</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {[
+                { title: 'Attending', items: attending },
+                { title: 'Waitlist', items: waitlist },
+                { title: 'Apologies', items: apologies }
+              ].filter(section => section.items.length > 0).map(section => (
+                <div key={section.title}>
+                  <h3 className="font-medium text-primary-600 mb-1">
+                    {section.title} ({section.items.length})
+                  </h3>
+                  <ul className="divide-y divide-neutral-200">
+                    {section.items.map(renderBooking)}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={removing !== null}
+        title="Remove Booking"
+        message={`Remove the booking for ${removing?.member_name || 'this member'}? Any waitlisted members who now fit will be confirmed.`}
+        onConfirm={handleRemove}
+        onCancel={() => setRemoving(null)}
+        type="danger"
+        confirmText="Remove"
+      />
+    </div>
+  );
+};
+
+export default EventBookingsPanel;
@@ -9,22 +9,47 @@ interface EventFormProps {
   initialData?: Partial<CMSEvent>;
 }
 
+// Date and number inputs hold strings; they're converted back on submit
+interface EventFormValues {
+  title: string;
+  description: string;
+  event_date: string;
+  location: string;
+  is_members_only: boolean;
+  is_past_event: boolean;
+  is_published: boolean;
+  bookings_enabled: boolean;
+  booking_cutoff: string;
+  capacity: string;
+}
+
+const toLocalInputValue = (value?: string | null) =>
+  value ? new Date(value).toISOString().slice(0, 16) : '';
+
 const EventForm: React.FC<EventFormProps> = ({ onSubmit, onCancel, initialData }) => {
-  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm({
+  const { register, handleSubmit, watch, formState: { errors, isSubmitting } } = useForm<EventFormValues>({
     defaultValues: {
       title: initialData?.title || '',
       description: initialData?.description || '',
-      event_date: initialData?.event_date ? new Date(initialData.event_date).toISOString().slice(0, 16) : '',
+      event_date: toLocalInputValue(initialData?.event_date),
       location: initialData?.location || '',
       is_members_only: initialData?.is_members_only || false,
-      is_past_event: initialData?.is_past_event || false
+      is_past_event: initialData?.is_past_event || false,
+      is_published: initialData?.is_published !== undefined ? initialData.is_published : false,
+      bookings_enabled: initialData?.bookings_enabled || false,
+      booking_cutoff: toLocalInputValue(initialData?.booking_cutoff),
+      capacity: initialData?.capacity != null ? String(initialData.capacity) : ''
     }
   });
 
-  const onFormSubmit = async (data: any) => {
+  const bookingsEnabled = watch('bookings_enabled');
+
+  const onFormSubmit = async (data: EventFormValues) => {
     await onSubmit({
       ...data,
-      event_date: new Date(data.event_date).toISOString()
+      event_date: new Date(data.event_date).toISOString(),
+      booking_cutoff: data.booking_cutoff ? new Date(data.booking_cutoff).toISOString() : null,
+      capacity: data.capacity.trim() ? Number(data.capacity) : null
     });
   };
 
@@ -112,6 +137,72 @@ const EventForm: React.FC<EventFormProps> = ({ onSubmit, onCancel, initialData }
             Past Event
           </label>
         </div>
+
+        <div className="flex items-center">
+          <input
+            id="is_published"
+            type="checkbox"
+            {...register('is_published')}
+            className="h-4 w-4 text-secondary-600 focus:ring-secondary-500 border-neutral-300 rounded"
+          />
+          <label htmlFor="is_published" className="ml-2 block text-sm text-neutral-700">
+            Published
+          </label>
+        </div>
+      </div>
+      <p className="-mt-4 text-xs text-neutral-500">
+        Leave unpublished to keep the event as a draft, or schedule it to publish later.
+      </p>
+
+      <div className="border-t border-neutral-200 pt-6 space-y-4">
+        <div className="flex items-center">
+          <input
+            id="bookings_enabled"
+            type="checkbox"
+            {...register('bookings_enabled')}
+            className="h-4 w-4 text-secondary-600 focus:ring-secondary-500 border-neutral-300 rounded"
+          />
+          <label htmlFor="bookings_enabled" className="ml-2 block text-sm text-neutral-700">
+            Accept RSVPs and festive board bookings
+          </label>
+        </div>
+
+        {bookingsEnabled && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="booking_cutoff" className="block text-sm font-medium text-primary-600">
+                Booking Cut-off
+              </label>
+              <input
+                id="booking_cutoff"
+                type="datetime-local"
+                {...register('booking_cutoff')}
+                className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+              />
+              <p className="mt-1 text-xs text-neutral-500">Leave blank to accept bookings until the event starts.</p>
+            </div>
+
+            <div>
+              <label htmlFor="capacity" className="block text-sm font-medium text-primary-600">
+                Festive Board Seats
+              </label>
+              <input
+                id="capacity"
+                type="number"
+                min="0"
+                {...register('capacity', {
+                  validate: value => !value.trim() || Number(value) >= 0 || 'Seats must be zero or more'
+                })}
+                className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+              />
+              {errors.capacity ? (
+                <p className="mt-1 text-sm text-red-600">{errors.capacity.message as string}</p>
+              ) : (
+                <p className="mt-1 text-xs text-neutral-500">Leave blank for no limit. Bookings beyond this go on the waitlist.</p>
+              )}
+            </div>
+          </div>
+        )}
       </div>
 
       <div className="flex justify-end space-x-4">
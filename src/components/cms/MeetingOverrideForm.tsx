@@ -0,0 +1,208 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { CMSMeetingOverride } from '../../types';
+import Button from '../Button';
+
+interface MeetingOverrideFormProps {
+  onSubmit: (data: Omit<CMSMeetingOverride, 'id' | 'created_at' | 'updated_at'>) => Promise<void>;
+  onCancel: () => void;
+  initialData?: Partial<CMSMeetingOverride>;
+}
+
+interface MeetingOverrideFormValues {
+  override_type: CMSMeetingOverride['override_type'];
+  meeting_date: string;
+  new_date: string;
+  start_time: string;
+  title: string;
+  location: string;
+  description: string;
+  is_installation: boolean;
+  note: string;
+}
+
+const MeetingOverrideForm: React.FC<MeetingOverrideFormProps> = ({ onSubmit, onCancel, initialData }) => {
+  const { register, handleSubmit, watch, formState: { errors, isSubmitting } } = useForm<MeetingOverrideFormValues>({
+    defaultValues: {
+      override_type: initialData?.override_type || 'cancel',
+      meeting_date: initialData?.meeting_date || '',
+      new_date: initialData?.new_date || '',
+      start_time: initialData?.start_time?.slice(0, 5) || '',
+      title: initialData?.title || '',
+      location: initialData?.location || '',
+      description: initialData?.description || '',
+      is_installation: initialData?.is_installation || false,
+      note: initialData?.note || ''
+    }
+  });
+
+  const overrideType = watch('override_type');
+
+  const onFormSubmit = async (data: MeetingOverrideFormValues) => {
+    // Blank fields mean "keep the regular meeting's value"
+    const valueOrNull = (value: string) => value.trim() || null;
+
+    await onSubmit({
+      override_type: data.override_type,
+      meeting_date: data.meeting_date,
+      new_date: data.override_type === 'change' ? valueOrNull(data.new_date) : null,
+      start_time: data.override_type === 'cancel' ? null : valueOrNull(data.start_time),
+      title: data.override_type === 'cancel' ? null : valueOrNull(data.title),
+      location: data.override_type === 'cancel' ? null : valueOrNull(data.location),
+      description: data.override_type === 'cancel' ? null : valueOrNull(data.description),
+      is_installation: data.override_type === 'add' ? data.is_installation : null,
+      note: valueOrNull(data.note)
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onFormSubmit)} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="override_type" className="block text-sm font-medium text-primary-600">
+            Type
+          </label>
+          <select
+            id="override_type"
+            {...register('override_type')}
+            className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+          >
+            <option value="cancel">Cancel a regular meeting</option>
+            <option value="change">Move or change a regular meeting</option>
+            <option value="add">Add an extra meeting</option>
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="meeting_date" className="block text-sm font-medium text-primary-600">
+            {overrideType === 'add' ? 'Meeting Date' : 'Date of Regular Meeting'}
+          </label>
+          <input
+            id="meeting_date"
+            type="date"
+            {...register('meeting_date', { required: 'Date is required' })}
+            className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+          />
+          {errors.meeting_date && (
+            <p className="mt-1 text-sm text-red-600">{errors.meeting_date.message as string}</p>
+          )}
+        </div>
+      </div>
+
+      {overrideType !== 'cancel' && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {overrideType === 'change' && (
+              <div>
+                <label htmlFor="new_date" className="block text-sm font-medium text-primary-600">
+                  New Date
+                </label>
+                <input
+                  id="new_date"
+                  type="date"
+                  {...register('new_date')}
+                  className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+                />
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="start_time" className="block text-sm font-medium text-primary-600">
+                Start Time
+              </label>
+              <input
+                id="start_time"
+                type="time"
+                {...register('start_time', { required: overrideType === 'add' ? 'Start time is required' : false })}
+                className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+              />
+              {errors.start_time && (
+                <p className="mt-1 text-sm text-red-600">{errors.start_time.message as string}</p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="title" className="block text-sm font-medium text-primary-600">
+              Title
+            </label>
+            <input
+              id="title"
+              {...register('title', { required: overrideType === 'add' ? 'Title is required' : false })}
+              className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+            />
+            {errors.title && (
+              <p className="mt-1 text-sm text-red-600">{errors.title.message as string}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="location" className="block text-sm font-medium text-primary-600">
+              Location
+            </label>
+            <input
+              id="location"
+              {...register('location')}
+              className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="description" className="block text-sm font-medium text-primary-600">
+              Description
+            </label>
+            <textarea
+              id="description"
+              {...register('description')}
+              rows={3}
+              className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+            />
+          </div>
+
+          {overrideType === 'change' && (
+            <p className="text-xs text-neutral-500">
+              Leave any field blank to keep the value from the regular meeting.
+            </p>
+          )}
+
+          {overrideType === 'add' && (
+            <div className="flex items-center">
+              <input
+                id="is_installation"
+                type="checkbox"
+                {...register('is_installation')}
+                className="h-4 w-4 text-secondary-600 focus:ring-secondary-500 border-neutral-300 rounded"
+              />
+              <label htmlFor="is_installation" className="ml-2 block text-sm text-neutral-700">
+                Installation Meeting
+              </label>
+            </div>
+          )}
+        </>
+      )}
+
+      <div>
+        <label htmlFor="note" className="block text-sm font-medium text-primary-600">
+          Note
+        </label>
+        <input
+          id="note"
+          {...register('note')}
+          placeholder="e.g. Moved due to the Provincial meeting"
+          className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+        />
+      </div>
+
+      <div className="flex justify-end space-x-4">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? 'Saving...' : 'Save Override'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default MeetingOverrideForm;
@@ -0,0 +1,191 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { CMSMeetingRule } from '../../types';
+import {
+  DEFAULT_MEETING_LOCATION,
+  MEETING_MONTH_NAMES,
+  MEETING_OCCURRENCE_NAMES,
+  MEETING_WEEKDAY_NAMES
+} from '../../utils/lodgeMeetings';
+import Button from '../Button';
+
+interface MeetingRuleFormProps {
+  onSubmit: (data: Omit<CMSMeetingRule, 'id' | 'created_at' | 'updated_at'>) => Promise<void>;
+  onCancel: () => void;
+  initialData?: Partial<CMSMeetingRule>;
+}
+
+// Selects hold strings; they're converted back to numbers on submit
+interface MeetingRuleFormValues extends Omit<CMSMeetingRule, 'id' | 'created_at' | 'updated_at' | 'week_of_month' | 'weekday' | 'month'> {
+  week_of_month: string;
+  weekday: string;
+  month: string;
+}
+
+const MeetingRuleForm: React.FC<MeetingRuleFormProps> = ({ onSubmit, onCancel, initialData }) => {
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<MeetingRuleFormValues>({
+    defaultValues: {
+      title: initialData?.title || 'Regular Lodge Meeting',
+      description: initialData?.description || '',
+      week_of_month: String(initialData?.week_of_month ?? 2),
+      weekday: String(initialData?.weekday ?? 6),
+      month: String(initialData?.month ?? 1),
+      start_time: initialData?.start_time?.slice(0, 5) || '18:00',
+      location: initialData?.location || DEFAULT_MEETING_LOCATION,
+      is_installation: initialData?.is_installation || false,
+      is_active: initialData?.is_active !== undefined ? initialData.is_active : true
+    }
+  });
+
+  const onFormSubmit = async (data: MeetingRuleFormValues) => {
+    await onSubmit({
+      ...data,
+      week_of_month: Number(data.week_of_month),
+      weekday: Number(data.weekday),
+      month: Number(data.month)
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onFormSubmit)} className="space-y-6">
+      <div>
+        <label htmlFor="title" className="block text-sm font-medium text-primary-600">
+          Meeting Title
+        </label>
+        <input
+          id="title"
+          {...register('title', { required: 'Title is required' })}
+          className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+        />
+        {errors.title && (
+          <p className="mt-1 text-sm text-red-600">{errors.title.message as string}</p>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="description" className="block text-sm font-medium text-primary-600">
+          Description
+        </label>
+        <textarea
+          id="description"
+          {...register('description')}
+          rows={3}
+          className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label htmlFor="week_of_month" className="block text-sm font-medium text-primary-600">
+            Occurrence
+          </label>
+          <select
+            id="week_of_month"
+            {...register('week_of_month')}
+            className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+          >
+            {[1, 2, 3, 4, 5, -1].map(occurrence => (
+              <option key={occurrence} value={occurrence}>{MEETING_OCCURRENCE_NAMES[occurrence]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="weekday" className="block text-sm font-medium text-primary-600">
+            Day
+          </label>
+          <select
+            id="weekday"
+            {...register('weekday')}
+            className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+          >
+            {MEETING_WEEKDAY_NAMES.map((name, index) => (
+              <option key={name} value={index}>{name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="month" className="block text-sm font-medium text-primary-600">
+            Month
+          </label>
+          <select
+            id="month"
+            {...register('month')}
+            className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+          >
+            {MEETING_MONTH_NAMES.map((name, index) => (
+              <option key={name} value={index + 1}>{name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="start_time" className="block text-sm font-medium text-primary-600">
+            Start Time
+          </label>
+          <input
+            id="start_time"
+            type="time"
+            {...register('start_time', { required: 'Start time is required' })}
+            className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+          />
+          {errors.start_time && (
+            <p className="mt-1 text-sm text-red-600">{errors.start_time.message as string}</p>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="location" className="block text-sm font-medium text-primary-600">
+          Location
+        </label>
+        <input
+          id="location"
+          {...register('location', { required: 'Location is required' })}
+          className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+        />
+        {errors.location && (
+          <p className="mt-1 text-sm text-red-600">{errors.location.message as string}</p>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-6">
+        <div className="flex items-center">
+          <input
+            id="is_installation"
+            type="checkbox"
+            {...register('is_installation')}
+            className="h-4 w-4 text-secondary-600 focus:ring-secondary-500 border-neutral-300 rounded"
+          />
+          <label htmlFor="is_installation" className="ml-2 block text-sm text-neutral-700">
+            Installation Meeting
+          </label>
+        </div>
+
+        <div className="flex items-center">
+          <input
+            id="is_active"
+            type="checkbox"
+            {...register('is_active')}
+            className="h-4 w-4 text-secondary-600 focus:ring-secondary-500 border-neutral-300 rounded"
+          />
+          <label htmlFor="is_active" className="ml-2 block text-sm text-neutral-700">
+            Active
+          </label>
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-4">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? 'Saving...' : 'Save Meeting Rule'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default MeetingRuleForm;
@@ -0,0 +1,220 @@
+import React from 'react';
+import { CalendarDays, CalendarX, Crown, Pencil, Repeat, Trash2, Utensils } from 'lucide-react';
+import { CMSMeetingOverride, CMSMeetingRule } from '../../types';
+import { LodgeMeeting, describeMeetingRule, getUpcomingLodgeMeetings, toMeetingDateKey } from '../../utils/lodgeMeetings';
+
+interface MeetingScheduleListProps {
+  rules: CMSMeetingRule[];
+  overrides: CMSMeetingOverride[];
+  onEditRule: (rule: CMSMeetingRule) => void;
+  onDeleteRule: (rule: CMSMeetingRule) => void;
+  onEditOverride: (override: CMSMeetingOverride) => void;
+  onDeleteOverride: (override: CMSMeetingOverride) => void;
+  // Dates (YYYY-MM-DD) that already have an event, and so their own RSVPs
+  eventDays: Set<string>;
+  onOpenBookings: (meeting: LodgeMeeting) => void;
+}
+
+const overrideLabels: Record<CMSMeetingOverride['override_type'], { label: string; className: string }> = {
+  cancel: { label: 'Cancelled', className: 'bg-red-100 text-red-700' },
+  change: { label: 'Changed', className: 'bg-amber-100 text-amber-700' },
+  add: { label: 'Extra Meeting', className: 'bg-green-100 text-green-700' }
+};
+
+// Dates are stored as YYYY-MM-DD; parse them as local dates, not UTC midnight
+const formatMeetingDate = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-GB', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric'
+  });
+};
+
+const describeOverride = (override: CMSMeetingOverride) => {
+  const details = [
+    override.new_date && `Moved to ${formatMeetingDate(override.new_date)}`,
+    override.start_time && `at ${override.start_time.slice(0, 5)}`,
+    override.title,
+    override.location
+  ].filter(Boolean);
+  return details.join(' • ');
+};
+
+const MeetingScheduleList: React.FC<MeetingScheduleListProps> = ({
+  rules,
+  overrides,
+  onEditRule,
+  onDeleteRule,
+  onEditOverride,
+  onDeleteOverride,
+  eventDays,
+  onOpenBookings
+}) => {
+  const upcoming = getUpcomingLodgeMeetings(5, { rules, overrides });
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h3 className="text-lg font-semibold text-primary-600 mb-4 flex items-center">
+          <Repeat size={18} className="mr-2 text-secondary-500" />
+          Regular Meetings ({rules.length})
+        </h3>
+        {rules.length === 0 ? (
+          <div className="text-center py-8 bg-neutral-50 rounded-lg">
+            <CalendarDays className="w-12 h-12 mx-auto mb-3 text-neutral-300" />
+            <p className="text-neutral-600">No regular meetings configured.</p>
+            <p className="text-sm text-neutral-500 mt-2">Click "Add Rule" to set up the Lodge's meeting schedule.</p>
+          </div>
+        ) : (
+          <div className="grid gap-4">
+            {rules.map(rule => (
+              <div
+                key={rule.id}
+                className="bg-white rounded-lg border border-neutral-200 p-4 hover:shadow-soft transition-shadow"
+              >
+                <div className="flex items-start justify-between">
+                  <div className="flex-grow">
+                    <div className="flex items-center gap-3 mb-2">
+                      <h4 className="font-medium text-primary-600">{rule.title}</h4>
+                      {rule.is_installation && (
+                        <span className="text-xs font-medium bg-secondary-100 text-secondary-700 px-2 py-1 rounded">
+                          Installation
+                        </span>
+                      )}
+                      {!rule.is_active && (
+                        <span className="text-xs font-medium bg-neutral-100 text-neutral-600 px-2 py-1 rounded">
+                          Inactive
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center text-xs text-neutral-500 mb-2">
+                      <span>{describeMeetingRule(rule)}</span>
+                      <span className="mx-2">•</span>
+                      <span>{rule.location}</span>
+                    </div>
+                    {rule.description && (
+                      <p className="text-sm text-neutral-600 line-clamp-2">{rule.description}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2 ml-4">
+                    <button
+                      className="p-2 text-neutral-500 hover:text-secondary-500 transition-colors"
+                      onClick={() => onEditRule(rule)}
+                      title="Edit meeting rule"
+                    >
+                      <Pencil size={18} />
+                    </button>
+                    <button
+                      className="p-2 text-neutral-500 hover:text-red-500 transition-colors"
+                      onClick={() => onDeleteRule(rule)}
+                      title="Delete meeting rule"
+                    >
+                      <Trash2 size={18} />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h3 className="text-lg font-semibold text-primary-600 mb-4 flex items-center">
+          <CalendarX size={18} className="mr-2 text-secondary-500" />
+          One-off Changes ({overrides.length})
+        </h3>
+        {overrides.length === 0 ? (
+          <div className="text-center py-8 bg-neutral-50 rounded-lg">
+            <p className="text-neutral-600">No cancellations or changes.</p>
+            <p className="text-sm text-neutral-500 mt-2">Click "Add Override" to cancel, move or add a meeting.</p>
+          </div>
+        ) : (
+          <div className="grid gap-4">
+            {overrides.map(override => (
+              <div
+                key={override.id}
+                className="bg-white rounded-lg border border-neutral-200 p-4 hover:shadow-soft transition-shadow"
+              >
+                <div className="flex items-start justify-between">
+                  <div className="flex-grow">
+                    <div className="flex items-center gap-3 mb-2">
+                      <h4 className="font-medium text-primary-600">{formatMeetingDate(override.meeting_date)}</h4>
+                      <span className={`text-xs font-medium px-2 py-1 rounded ${overrideLabels[override.override_type].className}`}>
+                        {overrideLabels[override.override_type].label}
+                      </span>
+                    </div>
+                    {describeOverride(override) && (
+                      <div className="text-xs text-neutral-500 mb-2">{describeOverride(override)}</div>
+                    )}
+                    {override.note && (
+                      <p className="text-sm text-neutral-600">{override.note}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2 ml-4">
+                    <button
+                      className="p-2 text-neutral-500 hover:text-secondary-500 transition-colors"
+                      onClick={() => onEditOverride(override)}
+                      title="Edit override"
+                    >
+                      <Pencil size={18} />
+                    </button>
+                    <button
+                      className="p-2 text-neutral-500 hover:text-red-500 transition-colors"
+                      onClick={() => onDeleteOverride(override)}
+                      title="Delete override"
+                    >
+                      <Trash2 size={18} />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-neutral-50 rounded-lg p-6">
+        <h3 className="text-lg font-semibold text-primary-600 mb-4">Next Meetings</h3>
+        {upcoming.length === 0 ? (
+          <p className="text-sm text-neutral-600">No upcoming meetings with the current schedule.</p>
+        ) : (
+          <ul className="space-y-2">
+            {upcoming.map(meeting => (
+              <li key={meeting.date.toISOString()} className="flex items-center text-sm text-neutral-700">
+                {meeting.isInstallation ? (
+                  <Crown size={16} className="mr-2 text-secondary-500" />
+                ) : (
+                  <CalendarDays size={16} className="mr-2 text-secondary-500" />
+                )}
+                <span className="font-medium mr-2">
+                  {meeting.date.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })}
+                  {' '}
+                  {meeting.date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}
+                </span>
+                <span className="flex-grow">{meeting.title}</span>
+                {!eventDays.has(toMeetingDateKey(meeting.date)) && (
+                  <button
+                    className="flex items-center text-xs text-neutral-500 hover:text-secondary-600 transition-colors"
+                    onClick={() => onOpenBookings(meeting)}
+                    title="Create an event for this meeting so members can RSVP"
+                  >
+                    <Utensils size={14} className="mr-1" />
+                    Open RSVPs
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="text-xs text-neutral-500 mt-4">
+          Generated from the rules and changes above, as shown on the Events page and in the calendar feed.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default MeetingScheduleList;
@@ -0,0 +1,241 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { History, RotateCcw, X } from 'lucide-react';
+import { cmsApi } from '../../lib/cmsApi';
+import { CMSContentRevision, RevisionedContentTable } from '../../types';
+import { diffSnapshots, FieldDiff, LineDiff } from '../../utils/revisionDiff';
+import Button from '../Button';
+import ConfirmDialog from '../ConfirmDialog';
+import LoadingSpinner from '../LoadingSpinner';
+
+export interface RevisionTarget {
+  table: RevisionedContentTable;
+  id: string;
+  title: string;
+}
+
+interface RevisionHistoryProps {
+  target: RevisionTarget | null;
+  onClose: () => void;
+  // Called after a restore so the caller can reload the restored record
+  onRestored: (table: RevisionedContentTable) => void;
+}
+
+const changeTypeBadges: Record<CMSContentRevision['change_type'], string> = {
+  create: 'bg-blue-100 text-blue-700',
+  update: 'bg-neutral-100 text-neutral-600',
+  restore: 'bg-amber-100 text-amber-700'
+};
+
+const lineStyles: Record<LineDiff['type'], string> = {
+  same: 'text-neutral-600',
+  removed: 'bg-red-50 text-red-700',
+  added: 'bg-green-50 text-green-700'
+};
+
+const describeRevision = (revision: CMSContentRevision) =>
+  `${revision.author_name || (revision.changed_by ? 'Unknown member' : 'Scheduled change')} - ${format(new Date(revision.changed_at), 'd MMM yyyy, HH:mm')}`;
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ target, onClose, onRestored }) => {
+  const [revisions, setRevisions] = useState<CMSContentRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [changedOnly, setChangedOnly] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmRestore, setConfirmRestore] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const loadRevisions = useCallback(async () => {
+    if (!target) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await cmsApi.getContentRevisions(target.table, target.id);
+      setRevisions(data);
+      // Default to the revision before the current one - the usual thing to undo
+      setSelectedId(data.length > 1 ? data[1].id : data[0]?.id || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [target]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  // Newest first, so the first revision is what's live now
+  const current = revisions[0];
+  const selected = revisions.find(r => r.id === selectedId) || null;
+
+  const fields = useMemo<FieldDiff[]>(() => {
+    if (!selected || !current) return [];
+    const diff = diffSnapshots(selected.snapshot, current.snapshot);
+    return changedOnly ? diff.filter(field => field.changed) : diff;
+  }, [selected, current, changedOnly]);
+
+  if (!target) return null;
+
+  const handleRestore = async () => {
+    if (!selected) return;
+
+    try {
+      setRestoring(true);
+      setConfirmRestore(false);
+      await cmsApi.restoreContentRevision(selected);
+      onRestored(target.table);
+      await loadRevisions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const renderLines = (lines: LineDiff[], side: 'before' | 'after') => (
+    <pre className="whitespace-pre-wrap font-sans text-sm">
+      {lines
+        .filter(line => line.type === 'same' || line.type === (side === 'before' ? 'removed' : 'added'))
+        .map((line, index) => (
+          <div key={index} className={`px-1 ${lineStyles[line.type]}`}>
+            {line.text || ' '}
+          </div>
+        ))}
+    </pre>
+  );
+
+  const renderValue = (field: FieldDiff, side: 'before' | 'after') => {
+    if (field.lines) return renderLines(field.lines, side);
+
+    const value = side === 'before' ? field.before : field.after;
+    const highlight = field.changed ? (side === 'before' ? lineStyles.removed : lineStyles.added) : 'text-neutral-600';
+    return (
+      <p className={`text-sm whitespace-pre-wrap break-words px-1 ${highlight}`}>
+        {value || <span className="italic text-neutral-400">empty</span>}
+      </p>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black bg-opacity-50" onClick={onClose} />
+      <div className="relative bg-white rounded-lg shadow-xl max-w-6xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-neutral-200 flex items-start justify-between">
+          <div className="flex items-center">
+            <History className="w-6 h-6 text-secondary-500 mr-3" />
+            <div>
+              <h2 className="text-xl font-semibold text-primary-600">Revision History</h2>
+              <p className="text-sm text-neutral-600">{target.title}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-neutral-500 hover:text-neutral-700" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3 mx-6 mt-4">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <LoadingSpinner subtle={true} className="py-12" />
+        ) : revisions.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-neutral-600">No revisions have been recorded for this item yet.</p>
+          </div>
+        ) : (
+          <div className="flex flex-1 min-h-0">
+            <ul className="w-64 border-r border-neutral-200 overflow-y-auto divide-y divide-neutral-100">
+              {revisions.map((revision, index) => (
+                <li key={revision.id}>
+                  <button
+                    className={`w-full text-left p-3 transition-colors ${
+                      revision.id === selectedId ? 'bg-primary-50' : 'hover:bg-neutral-50'
+                    }`}
+                    onClick={() => setSelectedId(revision.id)}
+                  >
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="font-medium text-primary-600">#{revision.revision_number}</span>
+                      <span className={`text-xs font-medium px-2 py-0.5 rounded ${changeTypeBadges[revision.change_type]}`}>
+                        {revision.change_type === 'restore' && revision.restored_from
+                          ? `restored #${revision.restored_from}`
+                          : revision.change_type}
+                      </span>
+                      {index === 0 && <span className="text-xs text-green-600">current</span>}
+                    </div>
+                    <p className="text-xs text-neutral-500">{describeRevision(revision)}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex-1 overflow-y-auto p-6">
+              {selected && current && (
+                <>
+                  <div className="flex items-center justify-between mb-4">
+                    <label className="flex items-center text-sm text-neutral-600">
+                      <input
+                        type="checkbox"
+                        checked={changedOnly}
+                        onChange={e => setChangedOnly(e.target.checked)}
+                        className="mr-2"
+                      />
+                      Only show changed fields
+                    </label>
+                    <Button
+                      size="sm"
+                      onClick={() => setConfirmRestore(true)}
+                      disabled={selected.id === current.id || restoring}
+                      className="flex items-center"
+                    >
+                      <RotateCcw size={14} className="mr-1" />
+                      {restoring ? 'Restoring...' : `Restore #${selected.revision_number}`}
+                    </Button>
+                  </div>
+
+                  <div className="grid grid-cols-[10rem_1fr_1fr] gap-x-4 text-xs font-medium text-neutral-500 uppercase border-b border-neutral-200 pb-2 mb-2">
+                    <span>Field</span>
+                    <span>Revision #{selected.revision_number}</span>
+                    <span>Current (#{current.revision_number})</span>
+                  </div>
+
+                  {selected.id === current.id ? (
+                    <p className="text-sm text-neutral-600 py-4">This is the current version. Pick an earlier revision to compare.</p>
+                  ) : fields.length === 0 ? (
+                    <p className="text-sm text-neutral-600 py-4">No differences from the current version.</p>
+                  ) : (
+                    <div className="divide-y divide-neutral-100">
+                      {fields.map(field => (
+                        <div key={field.field} className="grid grid-cols-[10rem_1fr_1fr] gap-x-4 py-2">
+                          <span className="text-sm font-medium text-neutral-700">{field.label}</span>
+                          <div>{renderValue(field, 'before')}</div>
+                          <div>{renderValue(field, 'after')}</div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={confirmRestore}
+        title="Restore Revision"
+        message={`Replace the current version with revision #${selected?.revision_number}? The current version stays in the history, so this can be undone.`}
+        onConfirm={handleRestore}
+        onCancel={() => setConfirmRestore(false)}
+        type="warning"
+        confirmText="Restore"
+      />
+    </div>
+  );
+};
+
+export default RevisionHistory;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Clock, Eye, EyeOff, Pencil, Trash2 } from 'lucide-react';
+import { CMSContentSchedule, ScheduledContentTable } from '../../types';
+import { getPendingChanges } from '../../utils/contentSchedule';
+
+interface ScheduledChangesListProps {
+  schedules: CMSContentSchedule[];
+  onEdit: (schedule: CMSContentSchedule) => void;
+  onCancel: (schedule: CMSContentSchedule) => void;
+}
+
+const contentTypeLabels: Record<ScheduledContentTable, string> = {
+  events: 'Event',
+  blog_posts: 'Article',
+  testimonials: 'Testimonial',
+  faq_items: 'FAQ'
+};
+
+const ScheduledChangesList: React.FC<ScheduledChangesListProps> = ({
+  schedules,
+  onEdit,
+  onCancel
+}) => {
+  const changes = getPendingChanges(schedules);
+
+  if (changes.length === 0) {
+    return (
+      <div className="text-center py-8 bg-neutral-50 rounded-lg">
+        <Clock className="w-12 h-12 mx-auto mb-3 text-neutral-300" />
+        <p className="text-neutral-600">No scheduled changes.</p>
+        <p className="text-sm text-neutral-500 mt-2">Use the clock button on an event, article, testimonial or FAQ to schedule it.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-4">
+      {changes.map(({ schedule, action, at }) => (
+        <div
+          key={`${schedule.id}-${action}`}
+          className="bg-white rounded-lg border border-neutral-200 p-4 hover:shadow-soft transition-shadow"
+        >
+          <div className="flex items-start justify-between">
+            <div className="flex items-start space-x-3 flex-grow">
+              {action === 'publish' ? (
+                <Eye className="w-5 h-5 mt-0.5 text-green-600 flex-shrink-0" />
+              ) : (
+                <EyeOff className="w-5 h-5 mt-0.5 text-neutral-500 flex-shrink-0" />
+              )}
+              <div className="flex-grow">
+                <div className="flex items-center gap-3 mb-2">
+                  <h3 className="font-medium text-primary-600">{schedule.content_title || 'Untitled'}</h3>
+                  <span className="text-xs font-medium bg-primary-100 text-primary-600 px-2 py-1 rounded">
+                    {contentTypeLabels[schedule.content_table]}
+                  </span>
+                </div>
+                <div className="flex items-center text-xs text-neutral-500">
+                  <span>{action === 'publish' ? 'Publishes' : 'Unpublishes'}: {at.toLocaleString()}</span>
+                  {at.getTime() <= Date.now() && (
+                    <>
+                      <span className="mx-2">•</span>
+                      <span className="text-amber-600">Due - will apply within a minute</span>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2 ml-4">
+              <button
+                className="p-2 text-neutral-500 hover:text-secondary-500 transition-colors"
+                onClick={() => onEdit(schedule)}
+                title="Edit schedule"
+              >
+                <Pencil size={18} />
+              </button>
+              <button
+                className="p-2 text-neutral-500 hover:text-red-500 transition-colors"
+                onClick={() => onCancel(schedule)}
+                title="Cancel schedule"
+              >
+                <Trash2 size={18} />
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ScheduledChangesList;
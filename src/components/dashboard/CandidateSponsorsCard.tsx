@@ -0,0 +1,124 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { UserPlus } from 'lucide-react';
+import { api } from '../../lib/api';
+import { ApplicationSponsor, OpenApplication } from '../../types';
+import { APPLICATION_STAGE_LABELS } from '../../utils/applications';
+import DashboardCard from '../DashboardCard';
+import Button from '../Button';
+
+interface CandidateSponsorsCardProps {
+  userId: string;
+  className?: string;
+}
+
+/**
+ * Candidates still looking for a proposer or seconder. Hidden when there are none.
+ */
+const CandidateSponsorsCard: React.FC<CandidateSponsorsCardProps> = ({ userId, className = '' }) => {
+  const [applications, setApplications] = useState<OpenApplication[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadApplications = useCallback(async () => {
+    try {
+      setApplications(await api.getOpenApplications());
+    } catch (err) {
+      console.error('Error loading open applications:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadApplications();
+  }, [loadApplications]);
+
+  const run = async (id: string, action: () => Promise<void>) => {
+    try {
+      setBusyId(id);
+      setError(null);
+      await action();
+      await loadApplications();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (applications.length === 0) return null;
+
+  const renderSponsor = (application: OpenApplication, sponsor: ApplicationSponsor) => {
+    const sponsorId = sponsor === 'proposer' ? application.proposer_id : application.seconder_id;
+    const sponsorName = sponsor === 'proposer' ? application.proposer_name : application.seconder_name;
+    const isSponsoring = userId === application.proposer_id || userId === application.seconder_id;
+    const label = sponsor === 'proposer' ? 'Proposer' : 'Seconder';
+
+    if (sponsorId) {
+      return (
+        <p className="text-xs text-neutral-600">
+          {label}: <span className="font-medium">{sponsorId === userId ? 'You' : sponsorName || 'A member'}</span>
+        </p>
+      );
+    }
+
+    return (
+      <Button
+        size="sm"
+        variant="outline"
+        className="text-xs"
+        onClick={() => run(application.id, () => api.nominateForApplication(application.id, sponsor))}
+        disabled={isSponsoring || busyId === application.id}
+      >
+        {sponsor === 'proposer' ? 'Propose' : 'Second'}
+      </Button>
+    );
+  };
+
+  return (
+    <DashboardCard title="Candidates Seeking Sponsors" icon={UserPlus} className={className}>
+      <p className="text-sm text-neutral-500 mb-4">
+        Each candidate needs a proposer and a seconder before the Lodge can ballot. Only sponsor someone you know well.
+      </p>
+
+      {error && (
+        <p className="text-sm text-red-600 mb-3">{error}</p>
+      )}
+
+      <div className="space-y-3">
+        {applications.map(application => {
+          const isSponsoring = userId === application.proposer_id || userId === application.seconder_id;
+          return (
+            <div
+              key={application.id}
+              className="p-3 bg-neutral-50 rounded-lg border border-neutral-200 flex flex-wrap items-center justify-between gap-3"
+            >
+              <div>
+                <h4 className="font-medium text-primary-600 text-sm">{application.full_name}</h4>
+                <p className="text-xs text-neutral-500 mt-1">
+                  {APPLICATION_STAGE_LABELS[application.stage]}
+                  {application.town && ` • ${application.town}`}
+                  {` • Enquired ${new Date(application.created_at).toLocaleDateString('en-GB')}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                {renderSponsor(application, 'proposer')}
+                {renderSponsor(application, 'seconder')}
+                {isSponsoring && (
+                  <button
+                    type="button"
+                    onClick={() => run(application.id, () => api.withdrawNomination(application.id))}
+                    disabled={busyId === application.id}
+                    className="text-xs text-neutral-500 hover:text-red-600 underline"
+                  >
+                    Withdraw
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </DashboardCard>
+  );
+};
+
+export default CandidateSponsorsCard;
@@ -1,6 +1,7 @@
 import React from 'react';
 import { UserCheck, Shield, Calendar } from 'lucide-react';
 import { MemberProfile } from '../../types';
+import { isOfficeHolder, roleLabel } from '../../utils/permissions';
 import DashboardCard from '../DashboardCard';
 
 interface ProfileSummaryCardProps {
@@ -38,11 +39,11 @@ const ProfileSummaryCard: React.FC<ProfileSummaryCardProps> = ({ profile, userEm
         {profile?.role && (
           <div className="mt-3">
             <span className={`inline-block text-xs font-medium px-3 py-1 rounded-full ${
-              profile.role === 'admin' 
+              isOfficeHolder(profile.role)
                 ? 'bg-secondary-100 text-secondary-700 border border-secondary-200' 
                 : 'bg-neutral-100 text-neutral-600 border border-neutral-200'
             }`}>
-              {profile.role === 'admin' ? 'Administrator' : 'Member'}
+              {roleLabel(profile.role)}
               {profile.status && profile.status !== 'active' && (
                 <span className="ml-1">({profile.status})</span>
               )}
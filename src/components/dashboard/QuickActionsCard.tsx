@@ -5,11 +5,12 @@ import DashboardCard from '../DashboardCard';
 import Button from '../Button';
 
 interface QuickActionsCardProps {
-  isAdmin: boolean;
+  canUseAdmin: boolean;
+  canUseCms: boolean;
   onSelectMinutes: () => void;
 }
 
-const QuickActionsCard: React.FC<QuickActionsCardProps> = ({ isAdmin, onSelectMinutes }) => {
+const QuickActionsCard: React.FC<QuickActionsCardProps> = ({ canUseAdmin, canUseCms, onSelectMinutes }) => {
   const navigate = useNavigate();
 
   return (
@@ -59,30 +60,34 @@ const QuickActionsCard: React.FC<QuickActionsCardProps> = ({ isAdmin, onSelectMi
           Meeting Minutes
         </Button>
         
-        {isAdmin && (
+        {(canUseAdmin || canUseCms) && (
           <>
             <div className="border-t border-neutral-200 my-2"></div>
-            <Button 
-              variant="primary" 
-              fullWidth 
-              size="sm" 
-              className="flex items-center justify-start" 
-              onClick={() => navigate('/members/cms')}
-            >
-              <Edit size={14} className="mr-2" />
-              Content Management
-            </Button>
+            {canUseCms && (
+              <Button 
+                variant="primary" 
+                fullWidth 
+                size="sm" 
+                className="flex items-center justify-start" 
+                onClick={() => navigate('/members/cms')}
+              >
+                <Edit size={14} className="mr-2" />
+                Content Management
+              </Button>
+            )}
             
-            <Button 
-              variant="outline" 
-              fullWidth 
-              size="sm" 
-              className="flex items-center justify-start" 
-              onClick={() => navigate('/members/admin')}
-            >
-              <Settings size={14} className="mr-2" />
-              Admin Dashboard
-            </Button>
+            {canUseAdmin && (
+              <Button 
+                variant="outline" 
+                fullWidth 
+                size="sm" 
+                className="flex items-center justify-start" 
+                onClick={() => navigate('/members/admin')}
+              >
+                <Settings size={14} className="mr-2" />
+                Admin Dashboard
+              </Button>
+            )}
           </>
         )}
       </div>
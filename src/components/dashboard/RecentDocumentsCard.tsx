@@ -1,15 +1,16 @@
 import React from 'react';
-import { FileText, ExternalLink, ArrowRight } from 'lucide-react';
+import { FileText, Eye, ArrowRight } from 'lucide-react';
 import { LodgeDocument } from '../../types';
 import DashboardCard from '../DashboardCard';
 import Button from '../Button';
 
 interface RecentDocumentsCardProps {
   documents: LodgeDocument[];
+  onOpenDocument: (doc: LodgeDocument) => void;
   onViewAllDocuments: () => void;
 }
 
-const RecentDocumentsCard: React.FC<RecentDocumentsCardProps> = ({ documents, onViewAllDocuments }) => {
+const RecentDocumentsCard: React.FC<RecentDocumentsCardProps> = ({ documents, onOpenDocument, onViewAllDocuments }) => {
   const recentDocuments = documents
     .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
     .slice(0, 3);
@@ -49,15 +50,13 @@ const RecentDocumentsCard: React.FC<RecentDocumentsCardProps> = ({ documents, on
                     </span>
                   </div>
                 </div>
-                <a
-                  href={doc.url}
-                  target="_blank"
-                  rel="noopener noreferrer"
+                <button
+                  onClick={() => onOpenDocument(doc)}
                   className="ml-2 p-1 text-neutral-500 hover:text-primary-600 transition-colors flex-shrink-0"
-                  title="Open document"
+                  title="View document"
                 >
-                  <ExternalLink size={14} />
-                </a>
+                  <Eye size={14} />
+                </button>
               </div>
             </div>
           ))}
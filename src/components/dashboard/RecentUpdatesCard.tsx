@@ -3,6 +3,7 @@ import { Clock, ExternalLink, ArrowRight } from 'lucide-react';
 import { MeetingMinutes } from '../../types';
 import DashboardCard from '../DashboardCard';
 import Button from '../Button';
+import DocumentLink from '../DocumentLink';
 
 interface RecentUpdatesCardProps {
   minutes: MeetingMinutes[];
@@ -45,15 +46,13 @@ const RecentUpdatesCard: React.FC<RecentUpdatesCardProps> = ({ minutes, onViewAl
                   </p>
                 </div>
                 {minute.document_url && (
-                  <a
-                    href={minute.document_url}
-                    target="_blank"
-                    rel="noopener noreferrer"
+                  <DocumentLink
+                    url={minute.document_url}
                     className="ml-2 p-1 text-neutral-500 hover:text-primary-600 transition-colors flex-shrink-0"
                     title="View document"
                   >
                     <ExternalLink size={14} />
-                  </a>
+                  </DocumentLink>
                 )}
               </div>
             </div>
@@ -1,8 +1,10 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
 import { User } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
-import { MemberProfile } from '../types';
-import { optimizedApi as api } from '../lib/optimizedApi';
+import { MemberProfile, Permission } from '../types';
+import { api } from '../lib/api';
+import { dataCache } from '../lib/dataCache';
+import { ALL_PERMISSIONS } from '../utils/permissions';
 
 interface AuthContextType {
   user: User | null;
@@ -10,6 +12,9 @@ interface AuthContextType {
   loading: boolean;
   signOut: () => Promise<void>;
   isAdmin: boolean;
+  permissions: Permission[];
+  hasPermission: (permission: Permission) => boolean;
+  hasAnyPermission: (permissions: Permission[]) => boolean;
   error: string | null;
   refreshProfile: () => Promise<void>;
   needsPasswordReset: boolean;
@@ -21,6 +26,9 @@ const AuthContext = createContext<AuthContextType>({
   loading: true,
   signOut: async () => {},
   isAdmin: false,
+  permissions: [],
+  hasPermission: () => false,
+  hasAnyPermission: () => false,
   error: null,
   refreshProfile: async () => {},
   needsPasswordReset: false,
@@ -31,24 +39,39 @@ export const useAuth = () => {
   return context;
 };
 
+async function loadPermissions(userProfile: MemberProfile): Promise<Permission[]> {
+  try {
+    return await api.getMyPermissions();
+  } catch (error) {
+    // Without the permissions tables (e.g. demo data) admins still get everything
+    console.warn('Could not load permissions:', error);
+    return userProfile.role === 'admin' ? ALL_PERMISSIONS : [];
+  }
+}
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<MemberProfile | null>(null);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const loadProfile = async (currentUser: User) => {
+  const loadProfile = useCallback(async (currentUser: User) => {
     try {
       setError(null);
       
       const userProfile = await api.getMemberProfile(currentUser.id);
+      // Set together so pages never see the profile without its permissions
+      const userPermissions = userProfile ? await loadPermissions(userProfile) : [];
       setProfile(userProfile);
+      setPermissions(userPermissions);
     } catch (error) {
       console.error('Error in loadProfile:', error);
       setError('Failed to load user profile');
       setProfile(null);
+      setPermissions([]);
     }
-  };
+  }, []);
 
   const refreshProfile = async () => {
     if (user) {
@@ -67,9 +90,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         if (error) {
           console.error('Error getting session:', error);
           setError('Authentication error');
-        } else if (session?.user && mounted) {
-          setUser(session.user);
-          await loadProfile(session.user);
+        } else {
+          dataCache.setScope(session?.user?.id || 'anonymous');
+          if (session?.user && mounted) {
+            setUser(session.user);
+            await loadProfile(session.user);
+          }
         }
       } catch (err) {
         console.error('Unexpected error getting session:', err);
@@ -92,11 +118,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         setError(null);
         
         if (event === 'SIGNED_IN' && session?.user) {
+          dataCache.setScope(session.user.id);
           setUser(session.user);
           await loadProfile(session.user);
         } else if (event === 'SIGNED_OUT') {
+          dataCache.setScope('anonymous');
           setUser(null);
           setProfile(null);
+          setPermissions([]);
         } else if (event === 'TOKEN_REFRESHED' && session?.user) {
           // Don't reload profile on token refresh, just update user
           setUser(session.user);
@@ -111,7 +140,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       mounted = false;
       subscription.unsubscribe();
     };
-  }, []);
+  }, [loadProfile]);
 
   const signOut = async () => {
     try {
@@ -120,6 +149,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       if (error) throw error;
       setUser(null);
       setProfile(null);
+      setPermissions([]);
     } catch (error) {
       console.error('Error signing out:', error);
       setError('Failed to sign out');
@@ -129,6 +159,16 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const isAdmin = profile?.role === 'admin';
 
+  const hasPermission = useCallback(
+    (permission: Permission) => permissions.includes(permission),
+    [permissions]
+  );
+
+  const hasAnyPermission = useCallback(
+    (required: Permission[]) => required.some(permission => permissions.includes(permission)),
+    [permissions]
+  );
+
   const needsPasswordReset = profile?.needs_password_reset === true;
 
   const contextValue = { 
@@ -137,6 +177,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     loading, 
     signOut, 
     isAdmin, 
+    permissions,
+    hasPermission,
+    hasAnyPermission,
     error,
     refreshProfile,
     needsPasswordReset
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { cacheEventMatches, dataCache } from '../lib/dataCache';
+
+/**
+ * Bumps a counter whenever cached data under one of the given CACHE_KEYS
+ * prefixes is refreshed in the background or invalidated - including by an
+ * admin editing in another tab. Add the counter to a loading effect's deps to
+ * re-read from the cache.
+ */
+export const useCacheRefresh = (prefixes: string[]): number => {
+  const [refreshKey, setRefreshKey] = useState(0);
+  const prefixList = prefixes.join('|');
+
+  useEffect(() => {
+    const watched = prefixList.split('|');
+    return dataCache.subscribe(event => {
+      if (cacheEventMatches(event, watched)) {
+        setRefreshKey(key => key + 1);
+      }
+    });
+  }, [prefixList]);
+
+  return refreshKey;
+};
@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { ContentChange, onContentChange, RealtimeContentTable } from '../lib/realtime';
+
+export interface OpenRecord {
+  table: RealtimeContentTable;
+  // The record being edited, or null for forms that edit the whole table (e.g. site settings)
+  id: string | null;
+  // How to describe the record in the warning, e.g. "officer"
+  label: string;
+}
+
+/**
+ * Call onConflict when someone else changes or deletes a record that's open
+ * in one of our forms (pass only the forms that are currently open). Changes made by the signed-in user (their own saves)
+ * are ignored.
+ */
+export const useConcurrentEditWarning = (
+  openRecords: OpenRecord[],
+  onConflict: (open: OpenRecord, change: ContentChange) => void
+) => {
+  const { user } = useAuth();
+  const openRef = useRef(openRecords);
+  const conflictRef = useRef(onConflict);
+  openRef.current = openRecords;
+  conflictRef.current = onConflict;
+
+  useEffect(() => {
+    return onContentChange(change => {
+      if (change.eventType === 'INSERT') return;
+      if (change.updatedBy && change.updatedBy === user?.id) return;
+
+      const open = openRef.current.find(item =>
+        item.table === change.table && (item.id === null || item.id === change.id)
+      );
+      if (open) {
+        conflictRef.current(open, change);
+      }
+    });
+  }, [user?.id]);
+};
@@ -0,0 +1,36 @@
+import { useState, useEffect } from 'react';
+import { cmsApi } from '../lib/cmsApi';
+import { CACHE_KEYS } from '../lib/dataCache';
+import { useCacheRefresh } from './useCacheRefresh';
+import { DEFAULT_MEETING_SCHEDULE, MeetingSchedule } from '../utils/lodgeMeetings';
+
+/**
+ * Load the Lodge meeting rules and overrides from the CMS. Falls back to the
+ * built-in schedule if the database can't be reached, so the site still shows meetings.
+ */
+export const useMeetingSchedule = () => {
+  const [schedule, setSchedule] = useState<MeetingSchedule>(DEFAULT_MEETING_SCHEDULE);
+  const [loading, setLoading] = useState(true);
+  const refreshKey = useCacheRefresh([CACHE_KEYS.MEETING_RULES, CACHE_KEYS.MEETING_OVERRIDES]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    cmsApi.getMeetingSchedule()
+      .then(data => {
+        if (!cancelled) setSchedule(data);
+      })
+      .catch(err => {
+        console.warn('Meeting schedule unavailable, using default schedule:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  return { schedule, loading };
+};
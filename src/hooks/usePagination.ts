@@ -98,5 +98,5 @@ export const usePagination = ({
     canGoPrev
   }), [setPage, handleSetPageSize, handleSetTotalItems, nextPage, prevPage, goToFirstPage, goToLastPage, canGoNext, canGoPrev]);
 
-  return [state, actions];
+  return [state, actions] as const;
 };
\ No newline at end of file
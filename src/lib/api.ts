@@ -1,162 +1,208 @@
 import { supabase } from './supabase';
-import { MemberProfile, LodgeDocument, MeetingMinutes } from '../types';
-
-// Helper function to add timeout to promises
-const withTimeout = <T>(promise: Promise<T>, timeoutMs: number = 90000): Promise<T> => {
-  return Promise.race([
-    promise,
-    new Promise<T>((_, reject) => 
-      setTimeout(() => reject(new Error(`Request timeout after ${timeoutMs}ms`)), timeoutMs)
-    )
-  ]);
+import { callFunction, Filter, OrderBy, repositories, where } from './data';
+import { documentStorage } from './documentStorage';
+import {
+  AttendanceEntry,
+  AttendanceRegister,
+  AttendanceRegisterForm,
+  AttendanceVisitor,
+  CharityRecord,
+  CharityYearTotal,
+  MemberProfile,
+  LodgeDocument,
+  MeetingMinutes,
+  EventBooking,
+  EventBookingSummary,
+  AuditLogEntry,
+  AuditLogFilters,
+  ContactSubmission,
+  ContactSubmissionFilters,
+  DuesInvoice,
+  DuesInvoiceBalance,
+  DuesInvoiceFilters,
+  DuesPayment,
+  FinanceMember,
+  DocumentRead,
+  DocumentVersion,
+  ApplicationSponsor,
+  ApplicationStageChange,
+  DirectoryQuery,
+  MemberDirectoryEntry,
+  MemberRole,
+  MembershipApplication,
+  MembershipApplicationForm,
+  OpenApplication,
+  Permission,
+  SearchFacets,
+  SearchFilters,
+  SearchResult,
+  SubscriptionRate
+} from '../types';
+
+const {
+  memberProfiles,
+  memberDirectory,
+  lodgeDocuments,
+  documentVersions,
+  documentReads,
+  meetingMinutes,
+  attendanceRegisters,
+  attendanceEntries,
+  attendanceVisitors,
+  subscriptionRates,
+  duesInvoices,
+  duesInvoiceBalances,
+  duesPayments,
+  charityRecords,
+  calendarFeedTokens,
+  eventBookings,
+  auditLog,
+  membershipApplications,
+  contactSubmissions
+} = repositories;
+
+// Exports cover everything matching the filters, up to a sane limit
+const AUDIT_EXPORT_LIMIT = 5000;
+
+const auditLogFilters = (filters: AuditLogFilters): Filter<AuditLogEntry>[] => {
+  const result: Filter<AuditLogEntry>[] = [];
+  if (filters.table) result.push(where.eq<AuditLogEntry>('table_name', filters.table));
+  if (filters.action) result.push(where.eq<AuditLogEntry>('action', filters.action));
+  if (filters.actorId) result.push(where.eq<AuditLogEntry>('actor_id', filters.actorId));
+  if (filters.search?.trim()) result.push(where.ilike<AuditLogEntry>('record_label', `%${filters.search.trim()}%`));
+  // Dates are local days, so compare against local midnight
+  if (filters.from) result.push(where.gte<AuditLogEntry>('occurred_at', new Date(`${filters.from}T00:00`).toISOString()));
+  if (filters.to) {
+    const end = new Date(`${filters.to}T00:00`);
+    end.setDate(end.getDate() + 1);
+    result.push(where.lt<AuditLogEntry>('occurred_at', end.toISOString()));
+  }
+  return result;
 };
 
+const contactSubmissionFilters = (filters: ContactSubmissionFilters): Filter<ContactSubmission>[] => {
+  const result: Filter<ContactSubmission>[] = [where.eq<ContactSubmission>('quarantined', !!filters.quarantined)];
+  if (filters.status) result.push(where.eq<ContactSubmission>('status', filters.status));
+  if (filters.unreadOnly) result.push(where.eq<ContactSubmission>('is_read', false));
+  if (filters.assignedTo) result.push(where.eq<ContactSubmission>('assigned_to', filters.assignedTo));
+  if (filters.search?.trim()) {
+    result.push(where.ilike<ContactSubmission>('search_text', `%${filters.search.trim().toLowerCase()}%`));
+  }
+  return result;
+};
+
+const duesInvoiceFilters = (filters: DuesInvoiceFilters): Filter<DuesInvoiceBalance>[] => {
+  const result: Filter<DuesInvoiceBalance>[] = [];
+  if (filters.year) result.push(where.eq<DuesInvoiceBalance>('year', filters.year));
+  if (filters.userId) result.push(where.eq<DuesInvoiceBalance>('user_id', filters.userId));
+  if (filters.outstandingOnly) result.push(where.gt<DuesInvoiceBalance>('balance', 0));
+  if (!filters.includeCancelled) result.push(where.eq<DuesInvoiceBalance>('cancelled', false));
+  return result;
+};
+
+const directoryFilters = (query: DirectoryQuery): Filter<MemberDirectoryEntry>[] => {
+  const result: Filter<MemberDirectoryEntry>[] = [];
+  if (query.search?.trim()) {
+    result.push(where.ilike<MemberDirectoryEntry>('search_text', `%${query.search.trim().toLowerCase()}%`));
+  }
+  if (query.status) result.push(where.eq<MemberDirectoryEntry>('status', query.status));
+  switch (query.rank) {
+    case 'grand': result.push(where.eq<MemberDirectoryEntry>('rank_level', 2)); break;
+    case 'provincial': result.push(where.eq<MemberDirectoryEntry>('rank_level', 1)); break;
+    case 'any': result.push(where.gte<MemberDirectoryEntry>('rank_level', 1)); break;
+    case 'none': result.push(where.eq<MemberDirectoryEntry>('rank_level', 0)); break;
+  }
+  return result;
+};
+
+// Name breaks ties so paging is stable. Rank sorts highest first unless ascending.
+const directoryOrder = (query: DirectoryQuery): OrderBy<MemberDirectoryEntry>[] => {
+  const ascending = query.ascending ?? query.sort !== 'rank';
+  switch (query.sort) {
+    case 'join_date': return [{ column: 'join_date', ascending }, { column: 'full_name' }, { column: 'id' }];
+    case 'rank': return [{ column: 'rank_level', ascending }, { column: 'full_name' }, { column: 'id' }];
+    default: return [{ column: 'full_name', ascending }, { column: 'id' }];
+  }
+};
+
+type SearchRow = SearchResult & { total_count: number };
+
+const searchArgs = (query: string, filters: SearchFilters) => ({
+  query: query.trim(),
+  content_types: filters.types?.length ? filters.types : null,
+  categories: filters.categories?.length ? filters.categories : null,
+  from_date: filters.from || null,
+  to_date: filters.to || null
+});
+
 export const api = {
   // Member Profiles
-  getMemberProfile: async (userId: string): Promise<MemberProfile | null> => {
-    try {
-      const query = supabase
-        .from('member_profiles')
-        .select('*')
-        .eq('user_id', userId)
-        .limit(1);
-      
-      const { data, error } = await withTimeout(query, 60000);
-      
-      if (error) {
-        console.error('Error fetching member profile:', error);
-        throw new Error(`Failed to fetch profile: ${error.message}`);
-      }
-      
-      const profile = data && data.length > 0 ? data[0] as MemberProfile : null;
-      return profile;
-    } catch (error) {
-      console.error('API Error - getMemberProfile:', error);
-      throw error;
-    }
-  },
+  getMemberProfile: (userId: string): Promise<MemberProfile | null> =>
+    memberProfiles.get(userId),
 
-  createMemberProfile: async (userId: string, fullName: string): Promise<MemberProfile> => {
-    try {
-      const query = supabase
-        .from('member_profiles')
-        .insert({
-          user_id: userId,
-          full_name: fullName.trim(),
-          role: 'member',
-          status: 'pending',
-          registration_date: new Date().toISOString(),
-          email_verified: false
-        })
-        .select()
-        .single();
-      
-      const { data, error } = await withTimeout(query, 60000);
-      
-      if (error) {
-        console.error('Error creating member profile:', error);
-        throw new Error(`Failed to create profile: ${error.message}`);
-      }
-      
-      return data as MemberProfile;
-    } catch (error) {
-      console.error('API Error - createMemberProfile:', error);
-      throw error;
-    }
-  },
+  createMemberProfile: (userId: string, fullName: string): Promise<MemberProfile> =>
+    memberProfiles.create({
+      user_id: userId,
+      full_name: fullName.trim(),
+      role: 'member',
+      status: 'pending',
+      registration_date: new Date().toISOString(),
+      email_verified: false
+    }),
 
-  adminCreateMemberProfile: async (profile: {
+  adminCreateMemberProfile: (profile: {
     user_id: string;
     full_name: string;
     position?: string;
-    role: 'member' | 'admin';
-  }): Promise<MemberProfile> => {
-    try {
-      const query = supabase
-        .from('member_profiles')
-        .insert(profile)
-        .select()
-        .single();
-      
-      const { data, error } = await withTimeout(query, 60000);
-      
-      if (error) {
-        console.error('Error creating member profile (admin):', error);
-        throw new Error(`Failed to create profile: ${error.message}`);
-      }
-      
-      return data as MemberProfile;
-    } catch (error) {
-      console.error('API Error - adminCreateMemberProfile:', error);
-      throw error;
-    }
-  },
+    role: MemberRole;
+  }): Promise<MemberProfile> =>
+    memberProfiles.create(profile),
 
-  getAllMembers: async (): Promise<MemberProfile[]> => {
-    try {
-      const query = supabase
-        .from('member_profiles')
-        .select('*')
-        .order('full_name', { ascending: true });
-      
-      const { data, error } = await withTimeout(query, 90000);
-      
-      if (error) {
-        console.error('Error fetching all members:', error);
-        throw new Error(`Failed to fetch members: ${error.message}`);
-      }
-      
-      return data as MemberProfile[];
-    } catch (error) {
-      console.error('API Error - getAllMembers:', error);
-      throw error;
-    }
-  },
+  // Everything the signed-in member may do, from their role
+  getMyPermissions: async (): Promise<Permission[]> =>
+    (await callFunction<Permission[]>('get_my_permissions', {}, 'permissions')) || [],
 
-  updateMemberProfile: async (userId: string, profile: Partial<MemberProfile>): Promise<MemberProfile> => {
-    try {
-      const query = supabase
-        .from('member_profiles')
-        .update(profile)
-        .eq('user_id', userId)
-        .select()
-        .single();
-      
-      const { data, error } = await withTimeout(query, 60000);
-      
-      if (error) {
-        console.error('Error updating member profile:', error);
-        throw new Error(`Failed to update profile: ${error.message}`);
-      }
-      
-      return data as MemberProfile;
-    } catch (error) {
-      console.error('API Error - updateMemberProfile:', error);
-      throw error;
-    }
-  },
+  getAllMembers: (): Promise<MemberProfile[]> =>
+    memberProfiles.list(),
 
-  deleteMemberProfile: async (userId: string): Promise<void> => {
-    try {
-      const query = supabase
-        .from('member_profiles')
-        .delete()
-        .eq('user_id', userId);
-      
-      const { data, error } = await withTimeout(query, 60000);
-      
-      if (error) {
-        console.error('Error deleting member profile:', error);
-        throw new Error(`Failed to delete profile: ${error.message}`);
-      }
-    } catch (error) {
-      console.error('API Error - deleteMemberProfile:', error);
-      throw error;
-    }
+  getMemberDirectory: async (
+    query: DirectoryQuery = {},
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ members: MemberDirectoryEntry[], total: number, hasMore: boolean }> => {
+    const offset = (page - 1) * limit;
+    const { rows, total } = await memberDirectory.page({
+      filters: directoryFilters(query),
+      order: directoryOrder(query),
+      limit,
+      offset,
+      count: true
+    });
+    return {
+      members: rows,
+      total: total || 0,
+      hasMore: offset + limit < (total || 0)
+    };
   },
 
+  // Every matching entry, unpaged, for the vCard export and printed directory
+  getFullMemberDirectory: (query: DirectoryQuery = {}): Promise<MemberDirectoryEntry[]> =>
+    memberDirectory.list({
+      filters: directoryFilters(query),
+      order: directoryOrder(query)
+    }),
+
+  updateMemberProfile: (userId: string, profile: Partial<MemberProfile>): Promise<MemberProfile> =>
+    memberProfiles.update(userId, profile),
+
+  deleteMemberProfile: (userId: string): Promise<void> =>
+    memberProfiles.remove(userId),
+
+  batchUpdateMembers: (updates: Array<{ userId: string, data: Partial<MemberProfile> }>) =>
+    Promise.allSettled(updates.map(({ userId, data }) => memberProfiles.update(userId, data))),
+
   // Secure user deletion via Edge Function
-  deleteUserAndProfile: async (userId: string): Promise<any> => {
+  deleteUserAndProfile: async (userId: string): Promise<{ success: boolean; message?: string }> => {
     try {
       const { data: { session } } = await supabase.auth.getSession();
       if (!session) {
@@ -177,6 +223,7 @@ export const api = {
         throw new Error(errorData.error || 'Failed to delete user');
       }
 
+      memberProfiles.invalidate();
       return await response.json();
     } catch (error) {
       console.error('API Error - deleteUserAndProfile:', error);
@@ -184,98 +231,440 @@ export const api = {
     }
   },
 
-  // Lodge Documents
-  getLodgeDocuments: async (category?: string): Promise<LodgeDocument[]> => {
-    try {
-      // Create the query
-      let query = supabase
-        .from('lodge_documents')
-        .select('*')
-        .order('created_at', { ascending: false });
-      
-      // Add category filter if provided
-      if (category) {
-        query = query.eq('category', category);
-      }
-      
-      // Execute the query with timeout
-      const { data, error } = await withTimeout(query, 60000);
-      
-      if (error) {
-        console.error('Error fetching lodge documents:', error);
-        throw new Error(`Failed to fetch documents: ${error.message}`);
-      }
-      
-      return data as LodgeDocument[];
-    } catch (error) {
-      console.error('API Error - getLodgeDocuments:', error);
-      throw error;
+  // Membership applications. Candidates apply without signing in, so the
+  // anon key authorises the submission. `website` is the form's honeypot.
+  submitMembershipApplication: async (
+    form: MembershipApplicationForm,
+    website: string = ''
+  ): Promise<{ id: string | null; emailed: boolean }> => {
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/membership-application`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ action: 'submit', application: form, website }),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to send your application');
     }
+    return result;
   },
 
-  createDocument: async (document: Omit<LodgeDocument, 'id' | 'created_at' | 'updated_at'>): Promise<LodgeDocument> => {
-    try {
-      const query = supabase
-        .from('lodge_documents')
-        .insert(document)
-        .select()
-        .single();
-      
-      const { data, error } = await withTimeout(query, 60000);
-      
-      if (error) {
-        console.error('Error creating document:', error);
-        throw new Error(`Failed to create document: ${error.message}`);
-      }
-      
-      return data as LodgeDocument;
-    } catch (error) {
-      console.error('API Error - createDocument:', error);
-      throw error;
+  getMembershipApplications: (): Promise<MembershipApplication[]> =>
+    membershipApplications.list(),
+
+  // Notes and sponsors; stage changes go through moveMembershipApplication
+  updateMembershipApplication: (id: string, data: Partial<MembershipApplication>): Promise<MembershipApplication> =>
+    membershipApplications.update(id, data),
+
+  deleteMembershipApplication: (id: string): Promise<void> =>
+    membershipApplications.remove(id),
+
+  // Moves go through the edge function so the candidate is emailed
+  moveMembershipApplication: async (
+    id: string,
+    change: ApplicationStageChange
+  ): Promise<{ application: MembershipApplication; emailed: boolean }> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/membership-application`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ action: 'move', application_id: id, ...change }),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to move the application');
     }
+
+    membershipApplications.invalidate();
+    return result;
+  },
+
+  getOpenApplications: async (): Promise<OpenApplication[]> =>
+    (await callFunction<OpenApplication[]>('get_open_applications', {}, 'open applications')) || [],
+
+  nominateForApplication: async (id: string, sponsor: ApplicationSponsor): Promise<void> => {
+    await callFunction('nominate_application', { application_id: id, sponsor }, 'nomination', 'create');
+    membershipApplications.invalidate();
+  },
+
+  withdrawNomination: async (id: string): Promise<void> => {
+    await callFunction('withdraw_nomination', { application_id: id }, 'nomination', 'delete');
+    membershipApplications.invalidate();
+  },
+
+  // Contact form inbox. send-contact-email stores each message before emailing it.
+  getContactSubmissions: async (
+    filters: ContactSubmissionFilters = {},
+    page: number = 1,
+    limit: number = 25
+  ): Promise<{ submissions: ContactSubmission[], total: number, hasMore: boolean }> => {
+    const offset = (page - 1) * limit;
+    const { rows, total } = await contactSubmissions.page({
+      filters: contactSubmissionFilters(filters),
+      limit,
+      offset,
+      count: true
+    });
+
+    return {
+      submissions: rows,
+      total: total || 0,
+      hasMore: offset + limit < (total || 0)
+    };
+  },
+
+  updateContactSubmission: (id: string, data: Partial<ContactSubmission>): Promise<ContactSubmission> =>
+    contactSubmissions.update(id, data),
+
+  deleteContactSubmission: (id: string): Promise<void> =>
+    contactSubmissions.remove(id),
+
+  // Finds the sender's open application, or starts one at the enquiry stage
+  linkContactSubmission: async (id: string): Promise<string> => {
+    const applicationId = await callFunction<string>('link_contact_submission', { submission_id: id }, 'membership application', 'create');
+    membershipApplications.invalidate();
+    return applicationId;
+  },
+
+  // Lodge Documents
+  getLodgeDocuments: (category?: string): Promise<LodgeDocument[]> =>
+    lodgeDocuments.list(category ? { filters: [where.eq<LodgeDocument>('category', category)] } : undefined),
+
+  getLodgeDocumentsPaginated: async (
+    page: number = 1,
+    limit: number = 20,
+    category?: string
+  ): Promise<{ documents: LodgeDocument[], total: number, hasMore: boolean }> => {
+    const offset = (page - 1) * limit;
+    const { rows, total } = await lodgeDocuments.page({
+      filters: category ? [where.eq<LodgeDocument>('category', category)] : undefined,
+      limit,
+      offset,
+      count: true
+    });
+
+    return {
+      documents: rows,
+      total: total || 0,
+      hasMore: offset + limit < (total || 0)
+    };
+  },
+
+  // The database records the file as version 1
+  createDocument: (document: Pick<LodgeDocument, 'title' | 'description' | 'url' | 'category'>): Promise<LodgeDocument> =>
+    lodgeDocuments.create(document),
+
+  // Details only; the file changes through publishDocumentVersion
+  updateDocument: (id: string, document: Partial<Pick<LodgeDocument, 'title' | 'description' | 'category'>>): Promise<LodgeDocument> =>
+    lodgeDocuments.update(id, document),
+
+  getDocumentVersions: (documentIds: string[]): Promise<DocumentVersion[]> =>
+    documentIds.length > 0
+      ? documentVersions.list({ filters: [where.in<DocumentVersion>('document_id', documentIds)] })
+      : Promise.resolve([]),
+
+  // Numbered by the database, which also points the document at the new file
+  publishDocumentVersion: (version: Pick<DocumentVersion, 'document_id' | 'url' | 'change_note'>): Promise<DocumentVersion> =>
+    documentVersions.create(version),
+
+  getMyDocumentReads: (userId: string): Promise<DocumentRead[]> =>
+    documentReads.list({ filters: [where.eq<DocumentRead>('user_id', userId)] }),
+
+  recordDocumentRead: (userId: string, documentId: string, versionNumber: number): Promise<DocumentRead> =>
+    documentReads.upsert(
+      { user_id: userId, document_id: documentId, version_number: versionNumber, read_at: new Date().toISOString() },
+      'user_id,document_id'
+    ),
+
+  // Every version's file goes too, once the row is gone
+  deleteDocument: async (id: string): Promise<void> => {
+    const versions = await documentVersions.list({ filters: [where.eq<DocumentVersion>('document_id', id)] });
+    await lodgeDocuments.remove(id);
+    await documentStorage.remove(versions.map(version => version.url));
   },
 
   // Meeting Minutes
-  getMeetingMinutes: async (): Promise<MeetingMinutes[]> => {
-    try {
-      const query = supabase
-        .from('meeting_minutes')
-        .select('*')
-        .order('meeting_date', { ascending: false });
-      
-      const { data, error } = await withTimeout(query, 60000);
-      
-      if (error) {
-        console.error('Error fetching meeting minutes:', error);
-        throw new Error(`Failed to fetch meeting minutes: ${error.message}`);
-      }
-      
-      return data as MeetingMinutes[];
-    } catch (error) {
-      console.error('API Error - getMeetingMinutes:', error);
-      throw error;
+  getMeetingMinutes: (): Promise<MeetingMinutes[]> =>
+    meetingMinutes.list(),
+
+  // What members read. Editors can see drafts too, so filter rather than rely on RLS.
+  getConfirmedMinutes: (): Promise<MeetingMinutes[]> =>
+    meetingMinutes.list({ filters: [where.eq<MeetingMinutes>('status', 'confirmed')] }),
+
+  // New minutes always start as drafts
+  createMinutes: (minutes: Omit<MeetingMinutes, 'id' | 'created_at' | 'updated_at' | 'status'>): Promise<MeetingMinutes> =>
+    meetingMinutes.create({ ...minutes, status: 'draft' }),
+
+  // Minutes keep no history, so a replaced file is removed
+  updateMinutes: async (id: string, minutes: Partial<MeetingMinutes>): Promise<MeetingMinutes> => {
+    const previous = 'document_url' in minutes ? await meetingMinutes.get(id) : null;
+    const updated = await meetingMinutes.update(id, minutes);
+    if (previous?.document_url && previous.document_url !== updated.document_url) {
+      await documentStorage.remove([previous.document_url]);
     }
+    return updated;
   },
 
-  createMinutes: async (minutes: Omit<MeetingMinutes, 'id' | 'created_at' | 'updated_at'>): Promise<MeetingMinutes> => {
-    try {
-      const query = supabase
-        .from('meeting_minutes')
-        .insert(minutes)
-        .select()
-        .single();
-      
-      const { data, error } = await withTimeout(query, 60000);
-      
-      if (error) {
-        console.error('Error creating meeting minutes:', error);
-        throw new Error(`Failed to create meeting minutes: ${error.message}`);
-      }
-      
-      return data as MeetingMinutes;
-    } catch (error) {
-      console.error('API Error - createMinutes:', error);
-      throw error;
+  deleteMinutes: async (id: string): Promise<void> => {
+    const previous = await meetingMinutes.get(id);
+    await meetingMinutes.remove(id);
+    await documentStorage.remove([previous?.document_url]);
+  },
+
+  // The database checks each move and stamps the dates
+  circulateMinutes: (id: string): Promise<MeetingMinutes> =>
+    meetingMinutes.update(id, { status: 'circulated' }),
+
+  returnMinutesToDraft: (id: string): Promise<MeetingMinutes> =>
+    meetingMinutes.update(id, { status: 'draft' }),
+
+  confirmMinutes: (id: string, confirmedAtMeeting: string): Promise<MeetingMinutes> =>
+    meetingMinutes.update(id, { status: 'confirmed', confirmed_at_meeting: confirmedAtMeeting }),
+
+  // Attendance Register
+  // Every register in a calendar year, with all its entries and visitors, for the admin view and report
+  getAttendanceYear: async (year: number): Promise<{
+    registers: AttendanceRegister[];
+    entries: AttendanceEntry[];
+    visitors: AttendanceVisitor[];
+  }> => {
+    const registers = await attendanceRegisters.list({
+      filters: [
+        where.gte<AttendanceRegister>('meeting_date', `${year}-01-01`),
+        where.lte<AttendanceRegister>('meeting_date', `${year}-12-31`)
+      ],
+      order: [{ column: 'meeting_date' }]
+    });
+    if (registers.length === 0) {
+      return { registers, entries: [], visitors: [] };
+    }
+
+    const ids = registers.map(register => register.id);
+    const [entries, visitors] = await Promise.all([
+      attendanceEntries.list({ filters: [where.in<AttendanceEntry>('register_id', ids)] }),
+      attendanceVisitors.list({ filters: [where.in<AttendanceVisitor>('register_id', ids)] })
+    ]);
+    return { registers, entries, visitors };
+  },
+
+  // One member's history: the meetings held since they joined and their own entries
+  getMemberAttendance: async (userId: string, since?: string): Promise<{
+    registers: AttendanceRegister[];
+    entries: AttendanceEntry[];
+  }> => {
+    const [registers, entries] = await Promise.all([
+      attendanceRegisters.list(since ? { filters: [where.gte<AttendanceRegister>('meeting_date', since)] } : {}),
+      attendanceEntries.list({ filters: [where.eq<AttendanceEntry>('user_id', userId)] })
+    ]);
+    return { registers, entries };
+  },
+
+  // Replaces the meeting's whole register, so members can be unticked
+  saveAttendanceRegister: (register: AttendanceRegisterForm): Promise<string> =>
+    callFunction<string>('save_attendance_register', {
+      target_date: register.meeting_date,
+      register_title: register.title,
+      register_notes: register.notes ?? null,
+      present: register.present,
+      apologies: register.apologies,
+      visitors: register.visitors
+    }, 'attendance register', 'save'),
+
+  deleteAttendanceRegister: (id: string): Promise<void> =>
+    attendanceRegisters.remove(id),
+
+  // Subscriptions and Dues
+  getSubscriptionRates: (year?: number): Promise<SubscriptionRate[]> =>
+    subscriptionRates.list(year ? { filters: [where.eq<SubscriptionRate>('year', year)] } : {}),
+
+  // Only one rate a year can be the default, so saving a new default clears the old one
+  saveSubscriptionRate: async (
+    rate: Pick<SubscriptionRate, 'year' | 'title' | 'amount' | 'is_default'> & { id?: string }
+  ): Promise<SubscriptionRate> => {
+    const { id, ...values } = rate;
+    if (values.is_default) {
+      const previous = (await subscriptionRates.list({ filters: [where.eq<SubscriptionRate>('year', values.year)] }))
+        .filter(existing => existing.is_default && existing.id !== id);
+      await Promise.all(previous.map(existing => subscriptionRates.update(existing.id, { is_default: false })));
     }
+    return id ? subscriptionRates.update(id, values) : subscriptionRates.create(values);
+  },
+
+  deleteSubscriptionRate: (id: string): Promise<void> =>
+    subscriptionRates.remove(id),
+
+  getFinanceMembers: async (): Promise<FinanceMember[]> =>
+    (await callFunction<FinanceMember[]>('get_finance_members', {}, 'members')) || [],
+
+  // Invoices every active member not yet invoiced a subscription that year; returns how many
+  raiseAnnualInvoices: async (rateId: string, dueDate: string): Promise<number> =>
+    (await callFunction<number>('raise_annual_invoices', { rate_id: rateId, due_date: dueDate }, 'invoices', 'create')) || 0,
+
+  getDuesInvoices: (filters: DuesInvoiceFilters = {}): Promise<DuesInvoiceBalance[]> =>
+    duesInvoiceBalances.list({ filters: duesInvoiceFilters(filters) }),
+
+  createDuesInvoice: (invoice: Omit<DuesInvoice, 'id' | 'created_at' | 'updated_at' | 'cancelled'>): Promise<DuesInvoice> =>
+    duesInvoices.create(invoice),
+
+  updateDuesInvoice: (id: string, invoice: Partial<DuesInvoice>): Promise<DuesInvoice> =>
+    duesInvoices.update(id, invoice),
+
+  deleteDuesInvoice: (id: string): Promise<void> =>
+    duesInvoices.remove(id),
+
+  getDuesPayments: (invoiceIds: string[]): Promise<DuesPayment[]> =>
+    invoiceIds.length > 0
+      ? duesPayments.list({ filters: [where.in<DuesPayment>('invoice_id', invoiceIds)] })
+      : Promise.resolve([]),
+
+  recordDuesPayment: (payment: Omit<DuesPayment, 'id' | 'created_at' | 'recorded_by'>): Promise<DuesPayment> =>
+    duesPayments.create(payment),
+
+  deleteDuesPayment: (id: string): Promise<void> =>
+    duesPayments.remove(id),
+
+  // Charity
+  getCharityRecords: (year: number): Promise<CharityRecord[]> =>
+    charityRecords.list({
+      filters: [
+        where.gte<CharityRecord>('record_date', `${year}-01-01`),
+        where.lte<CharityRecord>('record_date', `${year}-12-31`)
+      ]
+    }),
+
+  saveCharityRecord: (
+    record: Pick<CharityRecord, 'kind' | 'record_date' | 'title' | 'charity_name' | 'amount' | 'notes'> & { id?: string }
+  ): Promise<CharityRecord> => {
+    const { id, ...values } = record;
+    return id ? charityRecords.update(id, values) : charityRecords.create(values);
+  },
+
+  deleteCharityRecord: (id: string): Promise<void> =>
+    charityRecords.remove(id),
+
+  // Totals only, newest year first; visitors can read these too
+  getCharityTotals: async (): Promise<CharityYearTotal[]> =>
+    (await callFunction<CharityYearTotal[]>('charity_yearly_totals', {}, 'charity totals')) || [],
+
+  // Calendar feed token for the members' .ics subscription
+  getCalendarFeedToken: async (userId: string): Promise<string> => {
+    const existing = await calendarFeedTokens.get(userId);
+    if (existing) {
+      return existing.token;
+    }
+
+    // First visit - create a token for this member
+    const created = await calendarFeedTokens.create({ user_id: userId });
+    return created.token;
+  },
+
+  // The database picks the new token; members can't set one themselves
+  resetCalendarFeedToken: (): Promise<string> =>
+    callFunction<string>('reset_calendar_feed_token', {}, 'calendar feed token', 'save'),
+
+  // Event RSVPs - RLS only returns the signed-in member's own booking
+  getMyEventBooking: (eventId: string, userId: string): Promise<EventBooking | null> =>
+    eventBookings.first({
+      filters: [where.eq<EventBooking>('event_id', eventId), where.eq<EventBooking>('user_id', userId)]
+    }),
+
+  // Status is worked out by the database (confirmed, waitlisted or declined)
+  saveEventBooking: (
+    booking: Pick<EventBooking, 'event_id' | 'user_id' | 'attending' | 'festive_board' | 'dietary_requirements' | 'guests' | 'notes'>
+  ): Promise<EventBooking> =>
+    eventBookings.upsert(booking, 'event_id,user_id'),
+
+  deleteEventBooking: (id: string): Promise<void> =>
+    eventBookings.remove(id),
+
+  getEventBookingSummary: async (eventId: string): Promise<EventBookingSummary | null> => {
+    const rows = await callFunction<EventBookingSummary[]>(
+      'get_event_booking_summary',
+      { target_event: eventId },
+      'booking summary'
+    );
+    return rows && rows.length > 0 ? rows[0] : null;
+  },
+
+  // Full-text search over documents, minutes and blog posts. What comes back
+  // depends on who's asking - visitors only see public blog posts.
+  searchContent: async (
+    query: string,
+    filters: SearchFilters = {},
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ results: SearchResult[], total: number, hasMore: boolean }> => {
+    if (!query.trim()) return { results: [], total: 0, hasMore: false };
+
+    const rows = await callFunction<SearchRow[]>(
+      'search_content',
+      { ...searchArgs(query, filters), result_limit: limit, result_offset: (page - 1) * limit },
+      'search results'
+    ) || [];
+    const total = rows.length > 0 ? Number(rows[0].total_count) : 0;
+
+    return {
+      results: rows,
+      total,
+      hasMore: page * limit < total
+    };
+  },
+
+  getSearchFacets: async (query: string, filters: SearchFilters = {}): Promise<SearchFacets> => {
+    const facets: SearchFacets = { type: {}, category: {}, year: {} };
+    if (!query.trim()) return facets;
+
+    const rows = await callFunction<Array<{ facet: keyof SearchFacets; value: string; match_count: number }>>(
+      'search_content_facets',
+      searchArgs(query, filters),
+      'search facets'
+    ) || [];
+    rows.forEach(({ facet, value, match_count }) => {
+      if (facets[facet]) facets[facet][value] = Number(match_count);
+    });
+    return facets;
+  },
+
+  // Audit log (admins only)
+  getAuditLog: async (
+    filters: AuditLogFilters = {},
+    page: number = 1,
+    limit: number = 50
+  ): Promise<{ entries: AuditLogEntry[], total: number, hasMore: boolean }> => {
+    const offset = (page - 1) * limit;
+    const { rows, total } = await auditLog.page({
+      filters: auditLogFilters(filters),
+      limit,
+      offset,
+      count: true
+    });
+
+    return {
+      entries: rows,
+      total: total || 0,
+      hasMore: offset + limit < (total || 0)
+    };
+  },
+
+  getAuditLogForExport: (filters: AuditLogFilters = {}): Promise<AuditLogEntry[]> =>
+    auditLog.list({ filters: auditLogFilters(filters), limit: AUDIT_EXPORT_LIMIT }),
+
+  // Cache invalidation for callers that change data outside these methods
+  invalidateCache: {
+    memberProfile: () => memberProfiles.invalidate(),
+    documents: () => lodgeDocuments.invalidate(),
+    meetingMinutes: () => meetingMinutes.invalidate()
   }
-};
\ No newline at end of file
+};
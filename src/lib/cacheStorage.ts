@@ -0,0 +1,135 @@
+/**
+ * Persistence tiers for dataCache. IndexedDB is preferred (async, no size
+ * worries); localStorage is the fallback for browsers where IndexedDB is blocked
+ * (e.g. some private browsing modes). Failures are logged and otherwise ignored -
+ * persistence is only ever a head start on the network.
+ */
+
+export interface PersistedEntry {
+  data: unknown;
+  timestamp: number;
+  ttl: number;
+}
+
+export interface CacheStorage {
+  readonly name: string;
+  loadAll(): Promise<Record<string, PersistedEntry>>;
+  save(key: string, entry: PersistedEntry): Promise<void>;
+  remove(keys: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const DB_NAME = 'radlett-lodge-cache';
+const STORE_NAME = 'entries';
+const LOCAL_STORAGE_PREFIX = 'radlett-cache:';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const createIndexedDBStorage = (): CacheStorage => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!database) {
+      database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return database;
+  };
+
+  const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await open();
+    return requestToPromise(action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  };
+
+  return {
+    name: 'IndexedDB',
+
+    loadAll: async () => {
+      const db = await open();
+      const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      const [keys, values] = await Promise.all([
+        requestToPromise(store.getAllKeys()),
+        requestToPromise(store.getAll())
+      ]);
+      return Object.fromEntries(keys.map((key, index) => [String(key), values[index] as PersistedEntry]));
+    },
+
+    save: async (key, entry) => {
+      await withStore('readwrite', store => store.put(entry, key));
+    },
+
+    remove: async keys => {
+      const db = await open();
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      keys.forEach(key => transaction.objectStore(STORE_NAME).delete(key));
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    },
+
+    clear: async () => {
+      await withStore('readwrite', store => store.clear());
+    }
+  };
+};
+
+export const createLocalStorageStorage = (): CacheStorage => {
+  const storageKeys = () =>
+    Object.keys(localStorage).filter(key => key.startsWith(LOCAL_STORAGE_PREFIX));
+
+  return {
+    name: 'localStorage',
+
+    loadAll: async () => {
+      const entries: Record<string, PersistedEntry> = {};
+      for (const storageKey of storageKeys()) {
+        try {
+          entries[storageKey.slice(LOCAL_STORAGE_PREFIX.length)] = JSON.parse(localStorage.getItem(storageKey) || '');
+        } catch {
+          localStorage.removeItem(storageKey);
+        }
+      }
+      return entries;
+    },
+
+    save: async (key, entry) => {
+      localStorage.setItem(LOCAL_STORAGE_PREFIX + key, JSON.stringify(entry));
+    },
+
+    remove: async keys => {
+      keys.forEach(key => localStorage.removeItem(LOCAL_STORAGE_PREFIX + key));
+    },
+
+    clear: async () => {
+      storageKeys().forEach(key => localStorage.removeItem(key));
+    }
+  };
+};
+
+/**
+ * The best persistence tier this browser offers, or null (e.g. during SSR/tests)
+ */
+export const createCacheStorage = (): CacheStorage | null => {
+  if (typeof window === 'undefined') return null;
+
+  if (typeof indexedDB !== 'undefined') {
+    return createIndexedDBStorage();
+  }
+
+  try {
+    localStorage.setItem(`${LOCAL_STORAGE_PREFIX}probe`, '1');
+    localStorage.removeItem(`${LOCAL_STORAGE_PREFIX}probe`);
+    return createLocalStorageStorage();
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,16 @@
+import { buildCalendar, CalendarEntry } from '../utils/icalendar';
+import { downloadFile } from '../utils/download';
+
+// Public .ics feed served by the calendar-feed edge function
+export const getCalendarFeedUrl = (token?: string): string => {
+  const url = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed`;
+  return token ? `${url}?token=${encodeURIComponent(token)}` : url;
+};
+
+// webcal:// links open the subscribe dialog in Apple Calendar and Outlook
+export const toWebcalUrl = (url: string): string => url.replace(/^https?:\/\//, 'webcal://');
+
+// Download a single event as an .ics file
+export const downloadCalendarEntry = (entry: CalendarEntry, filename: string = 'event.ics'): void => {
+  downloadFile(buildCalendar([entry], entry.title), filename, 'text/calendar;charset=utf-8');
+};
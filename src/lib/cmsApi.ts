@@ -1,676 +1,242 @@
-import { supabase } from './supabase';
-import { 
-  CMSEvent, 
-  CMSNewsArticle, 
-  CMSOfficer, 
-  CMSTestimonial, 
-  CMSFAQItem, 
-  CMSSiteSetting, 
-  CMSPageContent 
+import { callFunction, NewRow, repositories, where } from './data';
+import {
+  CMSEvent,
+  CMSBlogPost,
+  CMSOfficer,
+  CMSTestimonial,
+  CMSFAQItem,
+  CMSSiteSetting,
+  CMSPageContent,
+  CMSContentSchedule,
+  CMSContentRevision,
+  RevisionedContentTable,
+  CMSMeetingRule,
+  CMSMeetingOverride,
+  EventBooking
 } from '../types';
-
-// Helper function to add timeout to promises
-const withTimeout = <T>(promise: Promise<T>, timeoutMs: number = 60000): Promise<T> => {
-  return Promise.race([
-    promise,
-    new Promise<T>((_, reject) => 
-      setTimeout(() => reject(new Error(`Request timeout after ${timeoutMs}ms`)), timeoutMs)
-    )
-  ]);
+import { MeetingSchedule } from '../utils/lodgeMeetings';
+
+const {
+  events,
+  eventBookings,
+  memberDirectory,
+  blogPosts,
+  officers,
+  testimonials,
+  faqItems,
+  siteSettings,
+  pageContent,
+  contentSchedules,
+  contentRevisions,
+  meetingRules,
+  meetingOverrides
+} = repositories;
+
+const revisionedRepositories = {
+  blog_posts: blogPosts,
+  events,
+  page_content: pageContent,
+  site_settings: siteSettings
 };
 
+const today = () => new Date().toISOString().split('T')[0];
+
+const postsInCategory = (category: string) =>
+  blogPosts.list({ filters: [where.eq<CMSBlogPost>('category', category)] });
+
 export const cmsApi = {
   // Events
-  getEvents: async (): Promise<CMSEvent[]> => {
-    try {
-      const query = supabase
-        .from('events')
-        .select('*')
-        .order('event_date', { ascending: true });
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error fetching events:', error);
-        throw new Error(`Failed to fetch events: ${error.message}`);
-      }
-      
-      return data as CMSEvent[];
-    } catch (error) {
-      console.error('CMS API Error - getEvents:', error);
-      throw error;
-    }
-  },
+  getEvents: (): Promise<CMSEvent[]> =>
+    events.list(),
 
-  getNextUpcomingEvent: async (): Promise<CMSEvent | null> => {
-    try {
-      const now = new Date().toISOString();
-      const query = supabase
-        .from('events')
-        .select('*')
-        .eq('is_past_event', false)
-        .gte('event_date', now)
-        .order('event_date', { ascending: true })
-        .limit(1);
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error fetching next upcoming event:', error);
-        throw new Error(`Failed to fetch next upcoming event: ${error.message}`);
-      }
-      
-      return data && data.length > 0 ? data[0] as CMSEvent : null;
-    } catch (error) {
-      console.error('CMS API Error - getNextUpcomingEvent:', error);
-      throw error;
-    }
-  },
+  // Relative to now, so not worth caching
+  getNextUpcomingEvent: (): Promise<CMSEvent | null> =>
+    events.first({
+      filters: [
+        where.eq<CMSEvent>('is_published', true),
+        where.eq<CMSEvent>('is_past_event', false),
+        where.gte<CMSEvent>('event_date', new Date().toISOString())
+      ]
+    }, { cache: false }),
 
-  createEvent: async (event: Omit<CMSEvent, 'id' | 'created_at' | 'updated_at'>): Promise<CMSEvent> => {
-    try {
-      const query = supabase
-        .from('events')
-        .insert(event)
-        .select()
-        .single();
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error creating event:', error);
-        throw new Error(`Failed to create event: ${error.message}`);
-      }
-      
-      return data as CMSEvent;
-    } catch (error) {
-      console.error('CMS API Error - createEvent:', error);
-      throw error;
-    }
-  },
+  createEvent: (event: NewRow<CMSEvent>): Promise<CMSEvent> =>
+    events.create(event),
 
-  updateEvent: async (id: string, event: Partial<CMSEvent>): Promise<CMSEvent> => {
-    try {
-      const query = supabase
-        .from('events')
-        .update(event)
-        .eq('id', id)
-        .select()
-        .single();
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error updating event:', error);
-        throw new Error(`Failed to update event: ${error.message}`);
-      }
-      
-      return data as CMSEvent;
-    } catch (error) {
-      console.error('CMS API Error - updateEvent:', error);
-      throw error;
-    }
-  },
+  updateEvent: (id: string, event: Partial<CMSEvent>): Promise<CMSEvent> =>
+    events.update(id, event),
 
-  deleteEvent: async (id: string): Promise<void> => {
-    try {
-      const query = supabase
-        .from('events')
-        .delete()
-        .eq('id', id);
-      
-      const { error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error deleting event:', error);
-        throw new Error(`Failed to delete event: ${error.message}`);
-      }
-    } catch (error) {
-      console.error('CMS API Error - deleteEvent:', error);
-      throw error;
-    }
-  },
+  deleteEvent: (id: string): Promise<void> =>
+    events.remove(id),
 
-  // News Articles
-  getNewsArticles: async (): Promise<CMSBlogPost[]> => {
-    try {
-      const query = supabase
-        .from('blog_posts')
-        .select('*')
-        .eq('category', 'news')
-        .order('publish_date', { ascending: false });
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error fetching blog posts:', error);
-        throw new Error(`Failed to fetch blog posts: ${error.message}`);
-      }
-      
-      return data as CMSBlogPost[];
-    } catch (error) {
-      console.error('CMS API Error - getNewsArticles:', error);
-      throw error;
-    }
-  },
+  // Event bookings for the attendee list and caterer export
+  getEventBookings: async (eventId: string): Promise<EventBooking[]> => {
+    const bookings = await eventBookings.list({ filters: [where.eq<EventBooking>('event_id', eventId)] });
+    if (bookings.length === 0) return bookings;
 
-  getBlogPosts: async (): Promise<CMSBlogPost[]> => {
-    try {
-      const query = supabase
-        .from('blog_posts')
-        .select('*')
-        .eq('category', 'blog')
-        .order('publish_date', { ascending: false });
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error fetching blog posts:', error);
-        throw new Error(`Failed to fetch blog posts: ${error.message}`);
-      }
-      
-      return data as CMSBlogPost[];
-    } catch (error) {
-      console.error('CMS API Error - getBlogPosts:', error);
-      throw error;
-    }
+    // Bookings reference auth.users, so look up names separately
+    const members = await memberDirectory.list();
+    const names = new Map(members.map(member => [member.user_id, member.full_name]));
+    return bookings.map(b => ({ ...b, member_name: names.get(b.user_id) }));
   },
 
-  getSnippets: async (): Promise<CMSBlogPost[]> => {
-    try {
-      const query = supabase
-        .from('blog_posts')
-        .select('*')
-        .eq('category', 'snippet')
-        .order('publish_date', { ascending: false });
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error fetching snippets:', error);
-        throw new Error(`Failed to fetch snippets: ${error.message}`);
-      }
-      
-      return data as CMSBlogPost[];
-    } catch (error) {
-      console.error('CMS API Error - getSnippets:', error);
-      throw error;
-    }
-  },
+  deleteEventBooking: (id: string): Promise<void> =>
+    eventBookings.remove(id),
 
-  getLatestSnippet: async (): Promise<CMSBlogPost | null> => {
-    try {
-      const query = supabase
-        .from('blog_posts')
-        .select('*')
-        .eq('category', 'snippet')
-        .eq('is_published', true)
-        .order('publish_date', { ascending: false })
-        .limit(1);
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error fetching latest snippet:', error);
-        throw new Error(`Failed to fetch latest snippet: ${error.message}`);
-      }
-      
-      return data && data.length > 0 ? data[0] as CMSBlogPost : null;
-    } catch (error) {
-      console.error('CMS API Error - getLatestSnippet:', error);
-      throw error;
-    }
-  },
+  // Blog posts (news, blog and snippets share the blog_posts table)
+  getNewsArticles: (): Promise<CMSBlogPost[]> =>
+    postsInCategory('news'),
 
-  createNewsArticle: async (article: Omit<CMSBlogPost, 'id' | 'created_at' | 'updated_at'>): Promise<CMSBlogPost> => {
-    try {
-      // Ensure publish_date is properly formatted
-      const formattedArticle = {
-        ...article,
-        publish_date: article.publish_date || new Date().toISOString().split('T')[0]
-      };
-      
-      const query = supabase
-        .from('blog_posts')
-        .insert(formattedArticle)
-        .select()
-        .single();
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error creating blog post:', error);
-        throw new Error(`Failed to create blog post: ${error.message}`);
-      }
-      
-      return data as CMSBlogPost;
-    } catch (error) {
-      console.error('CMS API Error - createNewsArticle:', error);
-      throw error;
-    }
-  },
+  getBlogPosts: (): Promise<CMSBlogPost[]> =>
+    postsInCategory('blog'),
 
-  updateNewsArticle: async (id: string, article: Partial<CMSBlogPost>): Promise<CMSBlogPost> => {
-    try {
-      const query = supabase
-        .from('blog_posts')
-        .update(article)
-        .eq('id', id)
-        .select()
-        .single();
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error updating blog post:', error);
-        throw new Error(`Failed to update blog post: ${error.message}`);
-      }
-      
-      return data as CMSBlogPost;
-    } catch (error) {
-      console.error('CMS API Error - updateNewsArticle:', error);
-      throw error;
-    }
-  },
+  getSnippets: (): Promise<CMSBlogPost[]> =>
+    postsInCategory('snippet'),
 
-  deleteNewsArticle: async (id: string): Promise<void> => {
-    try {
-      const query = supabase
-        .from('blog_posts')
-        .delete()
-        .eq('id', id);
-      
-      const { error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error deleting blog post:', error);
-        throw new Error(`Failed to delete blog post: ${error.message}`);
-      }
-    } catch (error) {
-      console.error('CMS API Error - deleteNewsArticle:', error);
-      throw error;
-    }
-  },
+  getLatestSnippet: (): Promise<CMSBlogPost | null> =>
+    blogPosts.first({
+      filters: [where.eq<CMSBlogPost>('category', 'snippet'), where.eq<CMSBlogPost>('is_published', true)]
+    }),
+
+  // publish_date is NOT NULL, so default it to today rather than failing
+  createBlogPost: (post: NewRow<CMSBlogPost>): Promise<CMSBlogPost> =>
+    blogPosts.create({ ...post, publish_date: post.publish_date || today() }),
+
+  updateBlogPost: (id: string, post: Partial<CMSBlogPost>): Promise<CMSBlogPost> =>
+    blogPosts.update(id, 'publish_date' in post && !post.publish_date ? { ...post, publish_date: today() } : post),
+
+  deleteBlogPost: (id: string): Promise<void> =>
+    blogPosts.remove(id),
 
   // Officers
-  getOfficers: async (): Promise<CMSOfficer[]> => {
-    try {
-      const query = supabase
-        .from('officers')
-        .select('*')
-        .eq('is_active', true)
-        .order('sort_order', { ascending: true });
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error fetching officers:', error);
-        throw new Error(`Failed to fetch officers: ${error.message}`);
-      }
-      
-      return data as CMSOfficer[];
-    } catch (error) {
-      console.error('CMS API Error - getOfficers:', error);
-      throw error;
-    }
-  },
+  getOfficers: (): Promise<CMSOfficer[]> =>
+    officers.list(),
 
-  createOfficer: async (officer: Omit<CMSOfficer, 'id' | 'created_at' | 'updated_at'>): Promise<CMSOfficer> => {
-    try {
-      const query = supabase
-        .from('officers')
-        .insert(officer)
-        .select()
-        .single();
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error creating officer:', error);
-        throw new Error(`Failed to create officer: ${error.message}`);
-      }
-      
-      return data as CMSOfficer;
-    } catch (error) {
-      console.error('CMS API Error - createOfficer:', error);
-      throw error;
-    }
-  },
+  createOfficer: (officer: NewRow<CMSOfficer>): Promise<CMSOfficer> =>
+    officers.create(officer),
 
-  updateOfficer: async (id: string, officer: Partial<CMSOfficer>): Promise<CMSOfficer> => {
-    try {
-      const query = supabase
-        .from('officers')
-        .update(officer)
-        .eq('id', id)
-        .select()
-        .single();
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error updating officer:', error);
-        throw new Error(`Failed to update officer: ${error.message}`);
-      }
-      
-      return data as CMSOfficer;
-    } catch (error) {
-      console.error('CMS API Error - updateOfficer:', error);
-      throw error;
-    }
-  },
+  updateOfficer: (id: string, officer: Partial<CMSOfficer>): Promise<CMSOfficer> =>
+    officers.update(id, officer),
 
-  deleteOfficer: async (id: string): Promise<void> => {
-    try {
-      const query = supabase
-        .from('officers')
-        .delete()
-        .eq('id', id);
-      
-      const { error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error deleting officer:', error);
-        throw new Error(`Failed to delete officer: ${error.message}`);
-      }
-    } catch (error) {
-      console.error('CMS API Error - deleteOfficer:', error);
-      throw error;
-    }
-  },
+  deleteOfficer: (id: string): Promise<void> =>
+    officers.remove(id),
 
   // Testimonials
-  getTestimonials: async (): Promise<CMSTestimonial[]> => {
-    try {
-      const query = supabase
-        .from('testimonials')
-        .select('*')
-        .eq('is_published', true)
-        .order('sort_order', { ascending: true });
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error fetching testimonials:', error);
-        throw new Error(`Failed to fetch testimonials: ${error.message}`);
-      }
-      
-      return data as CMSTestimonial[];
-    } catch (error) {
-      console.error('CMS API Error - getTestimonials:', error);
-      throw error;
-    }
-  },
+  getTestimonials: (): Promise<CMSTestimonial[]> =>
+    testimonials.list(),
 
-  createTestimonial: async (testimonial: Omit<CMSTestimonial, 'id' | 'created_at' | 'updated_at'>): Promise<CMSTestimonial> => {
-    try {
-      const query = supabase
-        .from('testimonials')
-        .insert(testimonial)
-        .select()
-        .single();
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error creating testimonial:', error);
-        throw new Error(`Failed to create testimonial: ${error.message}`);
-      }
-      
-      return data as CMSTestimonial;
-    } catch (error) {
-      console.error('CMS API Error - createTestimonial:', error);
-      throw error;
-    }
-  },
+  createTestimonial: (testimonial: NewRow<CMSTestimonial>): Promise<CMSTestimonial> =>
+    testimonials.create(testimonial),
 
-  updateTestimonial: async (id: string, testimonial: Partial<CMSTestimonial>): Promise<CMSTestimonial> => {
-    try {
-      const query = supabase
-        .from('testimonials')
-        .update(testimonial)
-        .eq('id', id)
-        .select()
-        .single();
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error updating testimonial:', error);
-        throw new Error(`Failed to update testimonial: ${error.message}`);
-      }
-      
-      return data as CMSTestimonial;
-    } catch (error) {
-      console.error('CMS API Error - updateTestimonial:', error);
-      throw error;
-    }
-  },
+  updateTestimonial: (id: string, testimonial: Partial<CMSTestimonial>): Promise<CMSTestimonial> =>
+    testimonials.update(id, testimonial),
 
-  deleteTestimonial: async (id: string): Promise<void> => {
-    try {
-      const query = supabase
-        .from('testimonials')
-        .delete()
-        .eq('id', id);
-      
-      const { error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error deleting testimonial:', error);
-        throw new Error(`Failed to delete testimonial: ${error.message}`);
-      }
-    } catch (error) {
-      console.error('CMS API Error - deleteTestimonial:', error);
-      throw error;
-    }
-  },
+  deleteTestimonial: (id: string): Promise<void> =>
+    testimonials.remove(id),
 
   // FAQ Items
-  getFAQItems: async (): Promise<CMSFAQItem[]> => {
-    try {
-      const query = supabase
-        .from('faq_items')
-        .select('*')
-        .eq('is_published', true)
-        .order('sort_order', { ascending: true });
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error fetching FAQ items:', error);
-        throw new Error(`Failed to fetch FAQ items: ${error.message}`);
-      }
-      
-      return data as CMSFAQItem[];
-    } catch (error) {
-      console.error('CMS API Error - getFAQItems:', error);
-      throw error;
-    }
-  },
+  getFAQItems: (): Promise<CMSFAQItem[]> =>
+    faqItems.list(),
 
-  createFAQItem: async (faq: Omit<CMSFAQItem, 'id' | 'created_at' | 'updated_at'>): Promise<CMSFAQItem> => {
-    try {
-      const query = supabase
-        .from('faq_items')
-        .insert(faq)
-        .select()
-        .single();
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error creating FAQ item:', error);
-        throw new Error(`Failed to create FAQ item: ${error.message}`);
-      }
-      
-      return data as CMSFAQItem;
-    } catch (error) {
-      console.error('CMS API Error - createFAQItem:', error);
-      throw error;
-    }
-  },
+  createFAQItem: (faq: NewRow<CMSFAQItem>): Promise<CMSFAQItem> =>
+    faqItems.create(faq),
 
-  updateFAQItem: async (id: string, faq: Partial<CMSFAQItem>): Promise<CMSFAQItem> => {
-    try {
-      const query = supabase
-        .from('faq_items')
-        .update(faq)
-        .eq('id', id)
-        .select()
-        .single();
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error updating FAQ item:', error);
-        throw new Error(`Failed to update FAQ item: ${error.message}`);
-      }
-      
-      return data as CMSFAQItem;
-    } catch (error) {
-      console.error('CMS API Error - updateFAQItem:', error);
-      throw error;
-    }
-  },
+  updateFAQItem: (id: string, faq: Partial<CMSFAQItem>): Promise<CMSFAQItem> =>
+    faqItems.update(id, faq),
 
-  deleteFAQItem: async (id: string): Promise<void> => {
-    try {
-      const query = supabase
-        .from('faq_items')
-        .delete()
-        .eq('id', id);
-      
-      const { error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error deleting FAQ item:', error);
-        throw new Error(`Failed to delete FAQ item: ${error.message}`);
-      }
-    } catch (error) {
-      console.error('CMS API Error - deleteFAQItem:', error);
-      throw error;
-    }
-  },
+  deleteFAQItem: (id: string): Promise<void> =>
+    faqItems.remove(id),
 
   // Site Settings
-  getSiteSettings: async (): Promise<CMSSiteSetting[]> => {
-    try {
-      const query = supabase
-        .from('site_settings')
-        .select('*')
-        .order('setting_key', { ascending: true });
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error fetching site settings:', error);
-        throw new Error(`Failed to fetch site settings: ${error.message}`);
-      }
-      
-      return data as CMSSiteSetting[];
-    } catch (error) {
-      console.error('CMS API Error - getSiteSettings:', error);
-      throw error;
-    }
-  },
+  getSiteSettings: (): Promise<CMSSiteSetting[]> =>
+    siteSettings.list(),
 
-  updateSiteSetting: async (key: string, value: string): Promise<CMSSiteSetting> => {
-    try {
-      const query = supabase
-        .from('site_settings')
-        .update({ setting_value: value })
-        .eq('setting_key', key)
-        .select()
-        .single();
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error updating site setting:', error);
-        throw new Error(`Failed to update site setting: ${error.message}`);
-      }
-      
-      return data as CMSSiteSetting;
-    } catch (error) {
-      console.error('CMS API Error - updateSiteSetting:', error);
-      throw error;
-    }
-  },
+  updateSiteSetting: (key: string, value: string): Promise<CMSSiteSetting> =>
+    siteSettings.update(key, { setting_value: value }),
 
   // Page Content
-  getPageContent: async (pageName?: string): Promise<CMSPageContent[]> => {
-    try {
-      let query = supabase
-        .from('page_content')
-        .select('*');
-      
-      if (pageName) {
-        query = query.eq('page_name', pageName);
-      }
-      
-      query = query.order('page_name', { ascending: true });
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error fetching page content:', error);
-        throw new Error(`Failed to fetch page content: ${error.message}`);
-      }
-      
-      return data as CMSPageContent[];
-    } catch (error) {
-      console.error('CMS API Error - getPageContent:', error);
-      throw error;
-    }
-  },
-
-  updatePageContent: async (pageName: string, sectionName: string, content: string): Promise<CMSPageContent> => {
-    try {
-      const query = supabase
-        .from('page_content')
-        .upsert({ 
-          page_name: pageName, 
-          section_name: sectionName, 
-          content: content,
-          content_type: 'text'
-        })
-        .select()
-        .single();
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error updating page content:', error);
-        throw new Error(`Failed to update page content: ${error.message}`);
-      }
-      
-      return data as CMSPageContent;
-    } catch (error) {
-      console.error('CMS API Error - updatePageContent:', error);
-      throw error;
-    }
-  },
-
-  createPageContent: async (pageContent: Omit<CMSPageContent, 'id' | 'updated_at'>): Promise<CMSPageContent> => {
-    try {
-      const query = supabase
-        .from('page_content')
-        .insert(pageContent)
-        .select()
-        .single();
-      
-      const { data, error } = await withTimeout(query);
-      
-      if (error) {
-        console.error('Error creating page content:', error);
-        throw new Error(`Failed to create page content: ${error.message}`);
-      }
-      
-      return data as CMSPageContent;
-    } catch (error) {
-      console.error('CMS API Error - createPageContent:', error);
-      throw error;
-    }
+  getPageContent: (pageName?: string): Promise<CMSPageContent[]> =>
+    pageContent.list(pageName ? { filters: [where.eq<CMSPageContent>('page_name', pageName)] } : undefined),
+
+  updatePageContent: (pageName: string, sectionName: string, content: string): Promise<CMSPageContent> =>
+    pageContent.upsert({
+      page_name: pageName,
+      section_name: sectionName,
+      content: content,
+      content_type: 'text'
+    }, 'page_name,section_name'),
+
+  createPageContent: (item: Omit<CMSPageContent, 'id' | 'updated_at'>): Promise<CMSPageContent> =>
+    pageContent.create(item),
+
+  // Content Schedules
+  getContentSchedules: (): Promise<CMSContentSchedule[]> =>
+    contentSchedules.list(),
+
+  // Saving a schedule re-arms it, so clear any previous execution markers
+  saveContentSchedule: (
+    schedule: Pick<CMSContentSchedule, 'content_table' | 'content_id' | 'content_title' | 'auto_publish' | 'publish_at' | 'auto_unpublish' | 'unpublish_at'>
+  ): Promise<CMSContentSchedule> =>
+    contentSchedules.upsert({
+      ...schedule,
+      publish_executed_at: null,
+      unpublish_executed_at: null
+    }, 'content_table,content_id'),
+
+  deleteContentSchedule: (id: string): Promise<void> =>
+    contentSchedules.remove(id),
+
+  // Revision history (recorded by a trigger on every change)
+  getContentRevisions: async (table: RevisionedContentTable, contentId: string): Promise<CMSContentRevision[]> => {
+    const revisions = await contentRevisions.list({
+      filters: [
+        where.eq<CMSContentRevision>('content_table', table),
+        where.eq<CMSContentRevision>('content_id', contentId)
+      ]
+    });
+    if (revisions.length === 0) return revisions;
+
+    const members = await memberDirectory.list();
+    const names = new Map(members.map(member => [member.user_id, member.full_name]));
+    return revisions.map(r => ({ ...r, author_name: r.changed_by ? names.get(r.changed_by) : undefined }));
+  },
+
+  // Restoring writes a new revision, so a restore can itself be undone
+  restoreContentRevision: async (revision: CMSContentRevision): Promise<void> => {
+    await callFunction('restore_content_revision', { revision_id: revision.id }, 'revision', 'restore');
+    revisionedRepositories[revision.content_table].invalidate();
+  },
+
+  // Meeting Schedule
+  getMeetingRules: (): Promise<CMSMeetingRule[]> =>
+    meetingRules.list(),
+
+  createMeetingRule: (item: NewRow<CMSMeetingRule>): Promise<CMSMeetingRule> =>
+    meetingRules.create(item),
+
+  updateMeetingRule: (id: string, item: Partial<CMSMeetingRule>): Promise<CMSMeetingRule> =>
+    meetingRules.update(id, item),
+
+  deleteMeetingRule: (id: string): Promise<void> =>
+    meetingRules.remove(id),
+
+  getMeetingOverrides: (): Promise<CMSMeetingOverride[]> =>
+    meetingOverrides.list(),
+
+  createMeetingOverride: (item: NewRow<CMSMeetingOverride>): Promise<CMSMeetingOverride> =>
+    meetingOverrides.create(item),
+
+  updateMeetingOverride: (id: string, item: Partial<CMSMeetingOverride>): Promise<CMSMeetingOverride> =>
+    meetingOverrides.update(id, item),
+
+  deleteMeetingOverride: (id: string): Promise<void> =>
+    meetingOverrides.remove(id),
+
+  // Active rules and one-off overrides, shared by the countdown and events calendar
+  getMeetingSchedule: async (): Promise<MeetingSchedule> => {
+    const [rules, overrides] = await Promise.all([
+      meetingRules.list({ filters: [where.eq<CMSMeetingRule>('is_active', true)] }),
+      meetingOverrides.list()
+    ]);
+    return { rules, overrides };
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,71 @@
+import { DataOperation } from './types';
+
+export type DataErrorCode =
+  | 'not_found'
+  | 'conflict'
+  | 'permission_denied'
+  | 'validation'
+  | 'timeout'
+  | 'unknown';
+
+/**
+ * The single error type thrown by repositories, whichever backend is in use.
+ * The message keeps the "Failed to <operation> <thing>: <reason>" wording the
+ * pages already show to admins.
+ */
+export class DataAccessError extends Error {
+  readonly code: DataErrorCode;
+  readonly table: string;
+  readonly operation: DataOperation;
+  readonly reason: string;
+
+  constructor(options: {
+    code: DataErrorCode;
+    table: string;
+    operation: DataOperation;
+    reason: string;
+    label?: string;
+  }) {
+    super(`Failed to ${options.operation} ${options.label || options.table}: ${options.reason}`);
+    this.name = 'DataAccessError';
+    this.code = options.code;
+    this.table = options.table;
+    this.operation = options.operation;
+    this.reason = options.reason;
+  }
+}
+
+export const isDataAccessError = (error: unknown): error is DataAccessError =>
+  error instanceof DataAccessError;
+
+// PostgreSQL / PostgREST error codes we can say something useful about
+const POSTGRES_ERROR_CODES: Record<string, DataErrorCode> = {
+  PGRST116: 'not_found',
+  '23505': 'conflict',
+  '42501': 'permission_denied',
+  '23502': 'validation',
+  '23503': 'validation',
+  '23514': 'validation',
+  '22P02': 'validation',
+  // RAISE EXCEPTION in triggers, e.g. "Bookings for this event are closed"
+  P0001: 'validation'
+};
+
+export const classifyError = (error: unknown): { code: DataErrorCode; reason: string } => {
+  if (error instanceof DataAccessError) {
+    return { code: error.code, reason: error.reason };
+  }
+
+  const details = error as { code?: string; message?: string } | null;
+  const reason = details?.message || String(error);
+
+  if (details?.code && POSTGRES_ERROR_CODES[details.code]) {
+    return { code: POSTGRES_ERROR_CODES[details.code], reason };
+  }
+
+  if (/timeout/i.test(reason)) {
+    return { code: 'timeout', reason };
+  }
+
+  return { code: 'unknown', reason };
+};
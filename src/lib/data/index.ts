@@ -0,0 +1,17 @@
+import { setDataBackend } from './repository';
+import { createSupabaseBackend } from './supabaseBackend';
+
+// The app talks to Supabase; tests import './repositories' and set their own backend
+setDataBackend(createSupabaseBackend());
+
+export { repositories } from './repositories';
+export type { Repositories } from './repositories';
+export { callFunction, createRepository, getDataBackend, setDataBackend } from './repository';
+export type { ReadOptions, Repository, RepositoryConfig } from './repository';
+export { createMemoryBackend } from './memoryBackend';
+export type { MemoryBackend } from './memoryBackend';
+export { DataAccessError, isDataAccessError } from './errors';
+export type { DataErrorCode } from './errors';
+export { withTimeout } from './supabaseBackend';
+export { where } from './types';
+export type { DataBackend, Filter, ListQuery, ListResult, NewRow, OrderBy } from './types';
@@ -0,0 +1,136 @@
+import { DataAccessError } from './errors';
+import { DataBackend, Filter, ListQuery } from './types';
+
+type Row = Record<string, unknown>;
+type RpcHandler = (args: Record<string, unknown>, tables: Map<string, Row[]>) => unknown;
+
+export interface MemoryBackend extends DataBackend {
+  // Direct access to the stored rows, for assertions in tests
+  rows<T>(table: string): T[];
+  // Stand-ins for database functions called through call()
+  registerFunction(fn: string, handler: RpcHandler): void;
+  reset(seed?: Record<string, Row[]>): void;
+}
+
+const compare = (a: unknown, b: unknown): number => {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  return (a as string | number) < (b as string | number) ? -1 : 1;
+};
+
+// SQL LIKE pattern -> case-insensitive regex
+const likePattern = (pattern: string): RegExp => {
+  const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/%/g, '.*').replace(/_/g, '.')}$`, 'i');
+};
+
+const matches = (row: Row, filters: Filter[] = []): boolean =>
+  filters.every(({ column, operator, value }) => {
+    const actual = row[column];
+    switch (operator) {
+      case 'eq': return actual === value;
+      case 'neq': return actual !== value;
+      case 'gt': return compare(actual, value) > 0;
+      case 'gte': return compare(actual, value) >= 0;
+      case 'lt': return compare(actual, value) < 0;
+      case 'lte': return compare(actual, value) <= 0;
+      case 'in': return (value as unknown[]).includes(actual);
+      case 'ilike': return likePattern(String(value)).test(String(actual ?? ''));
+    }
+  });
+
+const notFound = (table: string, operation: 'update' | 'fetch') =>
+  new DataAccessError({ code: 'not_found', table, operation, reason: 'No matching row' });
+
+/**
+ * In-memory backend for tests and demo data. Behaves like the Supabase backend
+ * for the queries repositories make, without RLS, triggers or column defaults
+ * beyond id and timestamps.
+ */
+export const createMemoryBackend = (seed: Record<string, Row[]> = {}): MemoryBackend => {
+  const tables = new Map<string, Row[]>();
+  const functions = new Map<string, RpcHandler>();
+
+  const tableRows = (table: string): Row[] => {
+    if (!tables.has(table)) tables.set(table, []);
+    return tables.get(table)!;
+  };
+
+  const reset = (data: Record<string, Row[]> = {}) => {
+    tables.clear();
+    Object.entries(data).forEach(([table, rows]) => tables.set(table, rows.map(row => ({ ...row }))));
+  };
+
+  const insertRow = (table: string, values: Row): Row => {
+    const now = new Date().toISOString();
+    const row = { id: crypto.randomUUID(), created_at: now, updated_at: now, ...values };
+    tableRows(table).push(row);
+    return { ...row };
+  };
+
+  reset(seed);
+
+  return {
+    rows: <T>(table: string) => tableRows(table).map(row => ({ ...row }) as T),
+
+    registerFunction: (fn, handler) => {
+      functions.set(fn, handler);
+    },
+
+    reset,
+
+    list: async <T>(table: string, query: ListQuery<T>) => {
+      const filtered = tableRows(table).filter(row => matches(row, query.filters as Filter[]));
+
+      const sorted = [...filtered].sort((a, b) => {
+        for (const { column, ascending = true } of query.order || []) {
+          const result = compare(a[column], b[column]);
+          if (result !== 0) return ascending ? result : -result;
+        }
+        return 0;
+      });
+
+      const offset = query.offset || 0;
+      const rows = sorted.slice(offset, query.limit !== undefined ? offset + query.limit : undefined);
+
+      return {
+        rows: rows.map(row => ({ ...row }) as T),
+        total: query.count ? filtered.length : null
+      };
+    },
+
+    insert: async <T>(table: string, values: Partial<T>) => insertRow(table, values as Row) as T,
+
+    update: async <T>(table: string, match: Filter<T>[], values: Partial<T>) => {
+      const row = tableRows(table).find(candidate => matches(candidate, match as Filter[]));
+      if (!row) throw notFound(table, 'update');
+
+      Object.assign(row, values, { updated_at: new Date().toISOString() });
+      return { ...row } as T;
+    },
+
+    upsert: async <T>(table: string, values: Partial<T>, onConflict = 'id') => {
+      const columns = onConflict.split(',').map(column => column.trim());
+      const data = values as Row;
+      const existing = tableRows(table).find(row => columns.every(column => row[column] === data[column]));
+
+      if (!existing) return insertRow(table, data) as T;
+
+      Object.assign(existing, data, { updated_at: new Date().toISOString() });
+      return { ...existing } as T;
+    },
+
+    remove: async <T>(table: string, match: Filter<T>[]) => {
+      tables.set(table, tableRows(table).filter(row => !matches(row, match as Filter[])));
+    },
+
+    call: async <T>(fn: string, args: Record<string, unknown>) => {
+      const handler = functions.get(fn);
+      if (!handler) {
+        throw new DataAccessError({ code: 'not_found', table: fn, operation: 'call', reason: 'Function not registered' });
+      }
+      return handler(args, tables) as T;
+    }
+  };
+};
@@ -0,0 +1,269 @@
+import { CACHE_KEYS } from '../dataCache';
+import {
+  AttendanceEntry,
+  AttendanceRegister,
+  AttendanceVisitor,
+  AuditLogEntry,
+  CalendarFeedToken,
+  CharityRecord,
+  CMSBlogPost,
+  CMSContentRevision,
+  CMSContentSchedule,
+  CMSEvent,
+  CMSFAQItem,
+  CMSMeetingOverride,
+  CMSMeetingRule,
+  CMSOfficer,
+  CMSPageContent,
+  CMSSiteSetting,
+  CMSTestimonial,
+  ContactSubmission,
+  DocumentRead,
+  DocumentVersion,
+  DuesInvoice,
+  DuesInvoiceBalance,
+  DuesPayment,
+  EventBooking,
+  LodgeDocument,
+  MeetingMinutes,
+  MemberDirectoryEntry,
+  MemberProfile,
+  MembershipApplication,
+  SubscriptionRate
+} from '../../types';
+import { createRepository } from './repository';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * One repository per table. Everything that reads or writes these tables goes
+ * through here, so caching and invalidation stay in one place.
+ */
+export const repositories = {
+  // Members
+  memberProfiles: createRepository<MemberProfile>({
+    table: 'member_profiles',
+    label: 'profile',
+    key: 'user_id',
+    cacheKey: CACHE_KEYS.MEMBERS,
+    ttl: 15 * MINUTE,
+    order: [{ column: 'full_name' }],
+    invalidates: [CACHE_KEYS.MEMBER_DIRECTORY]
+  }),
+
+  // Read-only view over member_profiles for the paged directory
+  memberDirectory: createRepository<MemberDirectoryEntry>({
+    table: 'member_directory',
+    label: 'member directory',
+    key: 'user_id',
+    cacheKey: CACHE_KEYS.MEMBER_DIRECTORY,
+    ttl: 15 * MINUTE,
+    order: [{ column: 'full_name' }]
+  }),
+
+  // Not persisted, so candidates' personal details stay out of localStorage
+  membershipApplications: createRepository<MembershipApplication>({
+    table: 'membership_applications',
+    label: 'membership application',
+    cacheKey: CACHE_KEYS.MEMBERSHIP_APPLICATIONS,
+    ttl: 5 * MINUTE,
+    order: [{ column: 'stage_changed_at', ascending: false }]
+  }),
+
+  // Read fresh so a new enquiry shows up straight away
+  contactSubmissions: createRepository<ContactSubmission>({
+    table: 'contact_submissions',
+    label: 'enquiry',
+    order: [{ column: 'created_at', ascending: false }]
+  }),
+
+  lodgeDocuments: createRepository<LodgeDocument>({
+    table: 'lodge_documents',
+    label: 'document',
+    cacheKey: CACHE_KEYS.DOCUMENTS,
+    ttl: 10 * MINUTE,
+    order: [{ column: 'created_at', ascending: false }]
+  }),
+
+  // Publishing a version moves the document on to it
+  documentVersions: createRepository<DocumentVersion>({
+    table: 'document_versions',
+    label: 'document version',
+    order: [{ column: 'version_number', ascending: false }],
+    invalidates: [CACHE_KEYS.DOCUMENTS]
+  }),
+
+  meetingMinutes: createRepository<MeetingMinutes>({
+    table: 'meeting_minutes',
+    label: 'meeting minutes',
+    cacheKey: CACHE_KEYS.MEETING_MINUTES,
+    ttl: 10 * MINUTE,
+    order: [{ column: 'meeting_date', ascending: false }]
+  }),
+
+  // The register changes on meeting nights, so it is always read fresh
+  attendanceRegisters: createRepository<AttendanceRegister>({
+    table: 'attendance_registers',
+    label: 'attendance register',
+    order: [{ column: 'meeting_date', ascending: false }]
+  }),
+
+  attendanceEntries: createRepository<AttendanceEntry>({
+    table: 'attendance_entries',
+    label: 'attendance'
+  }),
+
+  attendanceVisitors: createRepository<AttendanceVisitor>({
+    table: 'attendance_visitors',
+    label: 'visitor',
+    order: [{ column: 'name' }]
+  }),
+
+  // Finances are always read fresh so balances are never stale
+  subscriptionRates: createRepository<SubscriptionRate>({
+    table: 'subscription_rates',
+    label: 'subscription rate',
+    order: [{ column: 'year', ascending: false }, { column: 'title' }]
+  }),
+
+  duesInvoices: createRepository<DuesInvoice>({
+    table: 'dues_invoices',
+    label: 'invoice'
+  }),
+
+  // Read-only view over dues_invoices with the amount paid and balance
+  duesInvoiceBalances: createRepository<DuesInvoiceBalance>({
+    table: 'dues_invoice_balances',
+    label: 'invoice',
+    order: [{ column: 'year', ascending: false }, { column: 'member_name' }]
+  }),
+
+  duesPayments: createRepository<DuesPayment>({
+    table: 'dues_payments',
+    label: 'payment',
+    order: [{ column: 'paid_on', ascending: false }]
+  }),
+
+  charityRecords: createRepository<CharityRecord>({
+    table: 'charity_records',
+    label: 'charity record',
+    order: [{ column: 'record_date', ascending: false }]
+  }),
+
+  // Per-member data is never cached
+  calendarFeedTokens: createRepository<CalendarFeedToken>({
+    table: 'calendar_feed_tokens',
+    label: 'calendar feed token',
+    key: 'user_id'
+  }),
+
+  documentReads: createRepository<DocumentRead>({
+    table: 'document_reads',
+    label: 'document read'
+  }),
+
+  eventBookings: createRepository<EventBooking>({
+    table: 'event_bookings',
+    label: 'booking',
+    order: [{ column: 'created_at' }]
+  }),
+
+  // Append-only; always read fresh so the Secretary sees the latest actions
+  auditLog: createRepository<AuditLogEntry>({
+    table: 'audit_log',
+    label: 'audit log',
+    order: [{ column: 'occurred_at', ascending: false }]
+  }),
+
+  // Content - persisted between visits so pages render before the network answers
+  events: createRepository<CMSEvent>({
+    table: 'events',
+    label: 'event',
+    cacheKey: CACHE_KEYS.EVENTS,
+    persist: true,
+    order: [{ column: 'event_date' }]
+  }),
+
+  blogPosts: createRepository<CMSBlogPost>({
+    table: 'blog_posts',
+    label: 'blog post',
+    cacheKey: CACHE_KEYS.BLOG_POSTS,
+    persist: true,
+    order: [{ column: 'publish_date', ascending: false }]
+  }),
+
+  officers: createRepository<CMSOfficer>({
+    table: 'officers',
+    label: 'officer',
+    cacheKey: CACHE_KEYS.OFFICERS,
+    persist: true,
+    order: [{ column: 'sort_order' }]
+  }),
+
+  testimonials: createRepository<CMSTestimonial>({
+    table: 'testimonials',
+    label: 'testimonial',
+    cacheKey: CACHE_KEYS.TESTIMONIALS,
+    persist: true,
+    order: [{ column: 'sort_order' }]
+  }),
+
+  faqItems: createRepository<CMSFAQItem>({
+    table: 'faq_items',
+    label: 'FAQ item',
+    cacheKey: CACHE_KEYS.FAQ_ITEMS,
+    persist: true,
+    order: [{ column: 'sort_order' }]
+  }),
+
+  siteSettings: createRepository<CMSSiteSetting>({
+    table: 'site_settings',
+    label: 'site setting',
+    key: 'setting_key',
+    cacheKey: CACHE_KEYS.SITE_SETTINGS,
+    persist: true,
+    order: [{ column: 'setting_key' }]
+  }),
+
+  pageContent: createRepository<CMSPageContent>({
+    table: 'page_content',
+    label: 'page content',
+    cacheKey: CACHE_KEYS.PAGE_CONTENT,
+    persist: true,
+    order: [{ column: 'page_name' }]
+  }),
+
+  // Schedules are what the pg_cron job acts on, so admins always see them fresh
+  contentSchedules: createRepository<CMSContentSchedule>({
+    table: 'content_schedules',
+    label: 'content schedule',
+    order: [{ column: 'updated_at', ascending: false }]
+  }),
+
+  // Written only by database triggers; read when an admin opens a record's history
+  contentRevisions: createRepository<CMSContentRevision>({
+    table: 'content_revisions',
+    label: 'revision',
+    order: [{ column: 'revision_number', ascending: false }]
+  }),
+
+  meetingRules: createRepository<CMSMeetingRule>({
+    table: 'meeting_rules',
+    label: 'meeting rule',
+    cacheKey: CACHE_KEYS.MEETING_RULES,
+    persist: true,
+    ttl: 30 * MINUTE,
+    order: [{ column: 'month' }, { column: 'week_of_month' }]
+  }),
+
+  meetingOverrides: createRepository<CMSMeetingOverride>({
+    table: 'meeting_overrides',
+    label: 'meeting override',
+    cacheKey: CACHE_KEYS.MEETING_OVERRIDES,
+    persist: true,
+    ttl: 30 * MINUTE,
+    order: [{ column: 'meeting_date' }]
+  })
+};
+
+export type Repositories = typeof repositories;
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { MemberProfile } from '../../types';
+import { isDataAccessError } from './errors';
+import { createMemoryBackend, MemoryBackend } from './memoryBackend';
+import { repositories } from './repositories';
+import { callFunction, setDataBackend } from './repository';
+import { where } from './types';
+
+const profile = (user_id: string, full_name: string, status: MemberProfile['status'] = 'active') =>
+  ({ id: user_id, user_id, full_name, status, role: 'member' as const });
+
+describe('repositories on the in-memory backend', () => {
+  let backend: MemoryBackend;
+
+  beforeEach(() => {
+    backend = createMemoryBackend({
+      member_profiles: [
+        profile('u3', 'Charles Carter'),
+        profile('u1', 'Arthur Abbott'),
+        profile('u2', 'Bernard Baker', 'pending')
+      ]
+    });
+    setDataBackend(backend);
+  });
+
+  it('lists rows in the repository order and applies filters', async () => {
+    const everyone = await repositories.memberProfiles.list();
+    expect(everyone.map(member => member.full_name)).toEqual(['Arthur Abbott', 'Bernard Baker', 'Charles Carter']);
+
+    const active = await repositories.memberProfiles.list({ filters: [where.eq<MemberProfile>('status', 'active')] });
+    expect(active.map(member => member.user_id)).toEqual(['u1', 'u3']);
+  });
+
+  it('pages with a limit, an offset and a total', async () => {
+    const result = await repositories.memberProfiles.page({ limit: 1, offset: 1, count: true });
+    expect(result.rows.map(member => member.user_id)).toEqual(['u2']);
+    expect(result.total).toBe(3);
+
+    const rest = await repositories.memberProfiles.page({ offset: 2 });
+    expect(rest.rows.map(member => member.user_id)).toEqual(['u3']);
+  });
+
+  it('looks rows up by the repository key and serves later reads from the cache', async () => {
+    expect((await repositories.memberProfiles.get('u2'))?.full_name).toBe('Bernard Baker');
+
+    // Written behind the repository's back, so only a fresh read sees it
+    backend.reset({ member_profiles: [profile('u2', 'Bernard Barker', 'pending')] });
+    expect((await repositories.memberProfiles.get('u2'))?.full_name).toBe('Bernard Baker');
+    expect((await repositories.memberProfiles.get('u2', { cache: false }))?.full_name).toBe('Bernard Barker');
+  });
+
+  it('drops cached reads when the repository writes', async () => {
+    await repositories.memberProfiles.list();
+
+    await repositories.memberProfiles.create(profile('u4', 'David Dawson'));
+    await repositories.memberProfiles.update('u1', { full_name: 'Arthur Abbot' });
+    await repositories.memberProfiles.remove('u3');
+
+    const names = (await repositories.memberProfiles.list()).map(member => member.full_name);
+    expect(names).toEqual(['Arthur Abbot', 'Bernard Baker', 'David Dawson']);
+    expect(backend.rows<MemberProfile>('member_profiles')).toHaveLength(3);
+  });
+
+  it('reports a missing row as a DataAccessError naming the operation', async () => {
+    const error = await repositories.memberProfiles.update('nobody', { full_name: 'X' }).catch(err => err);
+
+    expect(isDataAccessError(error)).toBe(true);
+    expect(error.code).toBe('not_found');
+    expect(error.message).toBe('Failed to update profile: No matching row');
+  });
+
+  it('calls registered database functions', async () => {
+    backend.registerFunction('count_members', (args, tables) =>
+      (tables.get('member_profiles') || []).filter(row => row.status === args.status).length
+    );
+
+    expect(await callFunction<number>('count_members', { status: 'active' })).toBe(2);
+    await expect(callFunction('missing_function', {})).rejects.toThrow('Function not registered');
+  });
+});
@@ -0,0 +1,149 @@
+import { dataCache, deduplicateRequest } from '../dataCache';
+import { DataAccessError, classifyError } from './errors';
+import { DataBackend, DataOperation, Filter, ListQuery, ListResult, OrderBy } from './types';
+
+let activeBackend: DataBackend | null = null;
+
+/**
+ * Swap the store every repository talks to (e.g. an in-memory backend in tests).
+ * Clears the cache so rows from the previous backend aren't served.
+ */
+export const setDataBackend = (backend: DataBackend): void => {
+  activeBackend = backend;
+  dataCache.clear();
+};
+
+export const getDataBackend = (): DataBackend => {
+  if (!activeBackend) {
+    throw new Error('No data backend configured - import from lib/data or call setDataBackend() first');
+  }
+  return activeBackend;
+};
+
+export interface RepositoryConfig<T> {
+  table: string;
+  // Singular noun used in error messages, e.g. "Failed to create event"
+  label: string;
+  // Column that identifies a row for get/update/remove (defaults to id)
+  key?: keyof T & string;
+  // Prefix for cached reads; leave unset for data that must always be fresh
+  cacheKey?: string;
+  ttl?: number;
+  // Keep cached reads between visits; they're wiped when the signed-in user changes
+  persist?: boolean;
+  order?: OrderBy<T>[];
+  // Other cache keys built from this table that must be dropped on writes
+  invalidates?: string[];
+}
+
+export interface ReadOptions {
+  // Skip the cache for one-off queries (e.g. anything relative to "now")
+  cache?: boolean;
+}
+
+export interface Repository<T> {
+  readonly table: string;
+  list(query?: ListQuery<T>, options?: ReadOptions): Promise<T[]>;
+  page(query: ListQuery<T>, options?: ReadOptions): Promise<ListResult<T>>;
+  first(query?: ListQuery<T>, options?: ReadOptions): Promise<T | null>;
+  get(key: string, options?: ReadOptions): Promise<T | null>;
+  create(values: Partial<T>): Promise<T>;
+  update(key: string, values: Partial<T>): Promise<T>;
+  upsert(values: Partial<T>, onConflict?: string): Promise<T>;
+  remove(key: string): Promise<void>;
+  removeWhere(filters: Filter<T>[]): Promise<void>;
+  invalidate(): void;
+}
+
+export const createRepository = <T>(config: RepositoryConfig<T>): Repository<T> => {
+  const key = config.key || ('id' as keyof T & string);
+
+  const run = async <R>(operation: DataOperation, action: (backend: DataBackend) => Promise<R>): Promise<R> => {
+    try {
+      return await action(getDataBackend());
+    } catch (error) {
+      const { code, reason } = classifyError(error);
+      console.error(`Data Error - ${config.table}.${operation}:`, error);
+      throw new DataAccessError({ code, table: config.table, operation, reason, label: config.label });
+    }
+  };
+
+  const cached = <R>(suffix: string, options: ReadOptions | undefined, fetcher: () => Promise<R>): Promise<R> => {
+    if (!config.cacheKey || options?.cache === false) {
+      return fetcher();
+    }
+
+    const cacheKey = suffix ? `${config.cacheKey}:${suffix}` : config.cacheKey;
+    return deduplicateRequest(cacheKey, () => dataCache.get(cacheKey, fetcher, config.ttl, { persist: config.persist }));
+  };
+
+  const page = (query: ListQuery<T> = {}, options?: ReadOptions) => {
+    const fullQuery = { ...query, order: query.order || config.order };
+    const isDefault = !query.filters && !query.order && query.limit === undefined && query.offset === undefined && !query.count;
+
+    return cached(isDefault ? '' : JSON.stringify(fullQuery), options, () =>
+      run('fetch', backend => backend.list<T>(config.table, fullQuery))
+    );
+  };
+
+  const invalidate = () => {
+    if (config.cacheKey) {
+      dataCache.invalidatePattern(`^${config.cacheKey}(:|$)`);
+    }
+    config.invalidates?.forEach(related => dataCache.invalidatePattern(`^${related}(:|$)`));
+  };
+
+  const write = async <R>(operation: DataOperation, action: (backend: DataBackend) => Promise<R>): Promise<R> => {
+    const result = await run(operation, action);
+    invalidate();
+    return result;
+  };
+
+  const matchKey = (value: string): Filter<T>[] => [{ column: key, operator: 'eq', value }];
+
+  return {
+    table: config.table,
+
+    list: async (query, options) => (await page(query, options)).rows,
+
+    page,
+
+    first: async (query = {}, options) => (await page({ ...query, limit: 1 }, options)).rows[0] || null,
+
+    get: (value, options) =>
+      cached(`${key}=${value}`, options, async () =>
+        (await run('fetch', backend => backend.list<T>(config.table, { filters: matchKey(value), limit: 1 }))).rows[0] || null
+      ),
+
+    create: values => write('create', backend => backend.insert<T>(config.table, values)),
+
+    update: (value, values) => write('update', backend => backend.update<T>(config.table, matchKey(value), values)),
+
+    upsert: (values, onConflict) => write('save', backend => backend.upsert<T>(config.table, values, onConflict)),
+
+    remove: value => write('delete', backend => backend.remove<T>(config.table, matchKey(value))),
+
+    removeWhere: filters => write('delete', backend => backend.remove<T>(config.table, filters)),
+
+    invalidate
+  };
+};
+
+/**
+ * Calls a database function with the same error handling as repositories.
+ * operation only shapes the error message, e.g. "Failed to restore revision: ..."
+ */
+export const callFunction = async <T>(
+  fn: string,
+  args: Record<string, unknown>,
+  label: string = fn,
+  operation: DataOperation = 'fetch'
+): Promise<T> => {
+  try {
+    return await getDataBackend().call<T>(fn, args);
+  } catch (error) {
+    const { code, reason } = classifyError(error);
+    console.error(`Data Error - ${fn}:`, error);
+    throw new DataAccessError({ code, table: fn, operation, reason, label });
+  }
+};
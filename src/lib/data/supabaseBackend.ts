@@ -0,0 +1,88 @@
+import { supabase } from '../supabase';
+import { DataBackend, Filter, ListQuery } from './types';
+
+const DEFAULT_TIMEOUT = 60000;
+
+// Supabase query builders are thenables rather than promises, so accept PromiseLike
+export const withTimeout = <T>(promise: PromiseLike<T>, timeoutMs: number = DEFAULT_TIMEOUT): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  return Promise.race([
+    Promise.resolve(promise),
+    new Promise<T>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Request timeout after ${timeoutMs}ms`)), timeoutMs);
+    })
+  ]).finally(() => clearTimeout(timer));
+};
+
+// The filter methods shared by Supabase's select, update and delete builders
+interface FilterableQuery {
+  eq(column: string, value: unknown): this;
+  neq(column: string, value: unknown): this;
+  gt(column: string, value: unknown): this;
+  gte(column: string, value: unknown): this;
+  lt(column: string, value: unknown): this;
+  lte(column: string, value: unknown): this;
+  in(column: string, values: readonly unknown[]): this;
+  ilike(column: string, pattern: string): this;
+}
+
+const applyFilters = <Q extends FilterableQuery, T>(query: Q, filters: Filter<T>[] = []): Q =>
+  filters.reduce<Q>((current, filter) => {
+    if (filter.operator === 'in') {
+      return current.in(filter.column, filter.value as unknown[]);
+    }
+    if (filter.operator === 'ilike') {
+      return current.ilike(filter.column, String(filter.value));
+    }
+    return current[filter.operator](filter.column, filter.value);
+  }, query);
+
+const unwrap = <T>({ data, error }: { data: unknown; error: unknown }): T => {
+  if (error) throw error;
+  return data as T;
+};
+
+export const createSupabaseBackend = (timeoutMs: number = DEFAULT_TIMEOUT): DataBackend => ({
+  list: async <T>(table: string, query: ListQuery<T>) => {
+    const select = supabase.from(table).select('*', { count: query.count ? 'exact' : undefined });
+    let request = applyFilters(select, query.filters);
+
+    for (const order of query.order || []) {
+      request = request.order(order.column, { ascending: order.ascending ?? true });
+    }
+
+    if (query.limit !== undefined) {
+      const offset = query.offset || 0;
+      request = request.range(offset, offset + query.limit - 1);
+    }
+
+    const { data, error, count } = await withTimeout(request, timeoutMs);
+    if (error) throw error;
+
+    return { rows: (data || []) as T[], total: count ?? null };
+  },
+
+  insert: async <T>(table: string, values: Partial<T>) =>
+    unwrap<T>(await withTimeout(supabase.from(table).insert(values).select().single(), timeoutMs)),
+
+  update: async <T>(table: string, match: Filter<T>[], values: Partial<T>) =>
+    unwrap<T>(await withTimeout(
+      applyFilters(supabase.from(table).update(values), match).select().single(),
+      timeoutMs
+    )),
+
+  upsert: async <T>(table: string, values: Partial<T>, onConflict?: string) =>
+    unwrap<T>(await withTimeout(
+      supabase.from(table).upsert(values, onConflict ? { onConflict } : undefined).select().single(),
+      timeoutMs
+    )),
+
+  remove: async <T>(table: string, match: Filter<T>[]) => {
+    const { error } = await withTimeout(applyFilters(supabase.from(table).delete(), match), timeoutMs);
+    if (error) throw error;
+  },
+
+  call: async <T>(fn: string, args: Record<string, unknown>) =>
+    unwrap<T>(await withTimeout(supabase.rpc(fn, args), timeoutMs))
+});
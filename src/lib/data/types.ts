@@ -0,0 +1,62 @@
+/**
+ * Data Access Types
+ * Shared by every repository and backend. Backends only see plain table names
+ * and these query descriptions, so the same repository calls can run against
+ * Supabase in the app or an in-memory store in tests.
+ */
+
+// ilike is a case-insensitive SQL LIKE pattern (% = any run of characters, _ = one character)
+export type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'ilike';
+
+export interface Filter<T = Record<string, unknown>> {
+  column: keyof T & string;
+  operator: FilterOperator;
+  value: unknown;
+}
+
+export interface OrderBy<T = Record<string, unknown>> {
+  column: keyof T & string;
+  ascending?: boolean;
+}
+
+export interface ListQuery<T = Record<string, unknown>> {
+  filters?: Filter<T>[];
+  order?: OrderBy<T>[];
+  limit?: number;
+  offset?: number;
+  // Ask the backend for the total number of matching rows (ignores limit/offset)
+  count?: boolean;
+}
+
+export interface ListResult<T> {
+  rows: T[];
+  total: number | null;
+}
+
+export type DataOperation = 'fetch' | 'create' | 'update' | 'save' | 'delete' | 'restore' | 'call';
+
+export interface DataBackend {
+  list<T>(table: string, query: ListQuery<T>): Promise<ListResult<T>>;
+  insert<T>(table: string, values: Partial<T>): Promise<T>;
+  // Updates exactly one row and returns it
+  update<T>(table: string, match: Filter<T>[], values: Partial<T>): Promise<T>;
+  // Inserts, or updates the row that clashes on the onConflict columns
+  upsert<T>(table: string, values: Partial<T>, onConflict?: string): Promise<T>;
+  remove<T>(table: string, match: Filter<T>[]): Promise<void>;
+  // Database functions (Supabase RPC)
+  call<T>(fn: string, args: Record<string, unknown>): Promise<T>;
+}
+
+// Rows as they're inserted - the database fills in the id and timestamps
+export type NewRow<T> = Omit<T, 'id' | 'created_at' | 'updated_at'>;
+
+export const where = {
+  eq: <T>(column: keyof T & string, value: unknown): Filter<T> => ({ column, operator: 'eq', value }),
+  neq: <T>(column: keyof T & string, value: unknown): Filter<T> => ({ column, operator: 'neq', value }),
+  gt: <T>(column: keyof T & string, value: unknown): Filter<T> => ({ column, operator: 'gt', value }),
+  gte: <T>(column: keyof T & string, value: unknown): Filter<T> => ({ column, operator: 'gte', value }),
+  lt: <T>(column: keyof T & string, value: unknown): Filter<T> => ({ column, operator: 'lt', value }),
+  lte: <T>(column: keyof T & string, value: unknown): Filter<T> => ({ column, operator: 'lte', value }),
+  in: <T>(column: keyof T & string, values: unknown[]): Filter<T> => ({ column, operator: 'in', value: values }),
+  ilike: <T>(column: keyof T & string, pattern: string): Filter<T> => ({ column, operator: 'ilike', value: pattern })
+};
@@ -1,58 +1,112 @@
+import { CacheStorage, createCacheStorage, createLocalStorageStorage } from './cacheStorage';
+
 interface CacheEntry<T> {
   data: T;
   timestamp: number;
   ttl: number;
+  persist: boolean;
 }
 
 interface CacheOptions {
   ttl?: number; // Time to live in milliseconds
   maxSize?: number; // Maximum cache size
+  maxStale?: number; // How long past its TTL an entry may still be served while refreshing
+  persist?: boolean; // Keep persistable entries in IndexedDB/localStorage between visits
+  channelName?: string; // BroadcastChannel used to share invalidations between tabs
+}
+
+export interface CacheReadOptions {
+  // Write the entry through to the persistence tier. Entries can hold members-only
+  // rows, so they're wiped whenever the signed-in user changes (see setScope)
+  persist?: boolean;
 }
 
+export interface CacheEvent {
+  type: 'updated' | 'invalidated';
+  keys: string[];
+  // Set for pattern invalidations, which may cover keys this tab never loaded
+  pattern?: string;
+  // Came from another tab
+  remote: boolean;
+}
+
+type CacheMessage =
+  | { type: 'invalidate'; key: string }
+  | { type: 'invalidatePattern'; pattern: string }
+  | { type: 'clear' };
+
+const SCOPE_STORAGE_KEY = 'radlett-cache-scope';
+
 class DataCache {
-  private cache = new Map<string, CacheEntry<any>>();
+  // Map iteration order doubles as recency order: first key = least recently used
+  private cache = new Map<string, CacheEntry<unknown>>();
+  private revalidating = new Map<string, Promise<unknown>>();
+  private listeners = new Set<(event: CacheEvent) => void>();
   private defaultTTL = 5 * 60 * 1000; // 5 minutes
   private maxSize = 100; // Maximum cache entries
+  private maxStale = 24 * 60 * 60 * 1000; // 24 hours
+  private storage: CacheStorage | null = null;
+  private channel: BroadcastChannel | null = null;
+  private hydrated: Promise<void> = Promise.resolve();
+  private scope: string | null = null;
+  // Bumped on every clear, so a hydrate that started before one can tell
+  private generation = 0;
 
   constructor(options: CacheOptions = {}) {
     this.defaultTTL = options.ttl || this.defaultTTL;
     this.maxSize = options.maxSize || this.maxSize;
+    this.maxStale = options.maxStale ?? this.maxStale;
+
+    if (options.persist) {
+      this.storage = createCacheStorage();
+      this.hydrated = this.hydrate();
+    }
+
+    if (options.channelName && typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(options.channelName);
+      this.channel.onmessage = (event: MessageEvent<CacheMessage>) => this.applyMessage(event.data);
+    }
   }
 
-  async get<T>(key: string, fetcher: () => Promise<T>, ttl?: number): Promise<T> {
-    const cached = this.cache.get(key);
+  /**
+   * Stale-while-revalidate read: fresh entries are returned as-is, stale ones
+   * are returned immediately and refreshed in the background (subscribers hear
+   * an 'updated' event when the new data lands), and missing or long-expired
+   * entries are fetched.
+   */
+  async get<T>(key: string, fetcher: () => Promise<T>, ttl?: number, options: CacheReadOptions = {}): Promise<T> {
+    await this.hydrated;
+
+    const cached = this.cache.get(key) as CacheEntry<T> | undefined;
     const now = Date.now();
     const entryTTL = ttl || this.defaultTTL;
 
-    // Return cached data if valid
-    if (cached && (now - cached.timestamp) < cached.ttl) {
-      console.log(`Cache hit for key: ${key}`);
-      return cached.data;
-    }
-
-    // Remove expired entry
     if (cached) {
+      const age = now - cached.timestamp;
+
+      // Return cached data if valid
+      if (age < cached.ttl) {
+        console.log(`Cache hit for key: ${key}`);
+        this.touch(key, cached);
+        return cached.data;
+      }
+
+      if (age < cached.ttl + this.maxStale) {
+        console.log(`Cache stale for key: ${key}, revalidating in background...`);
+        this.touch(key, cached);
+        this.revalidate(key, fetcher, entryTTL, options);
+        return cached.data;
+      }
+
+      // Remove expired entry
       this.cache.delete(key);
     }
 
     console.log(`Cache miss for key: ${key}, fetching data...`);
-    
+
     try {
       const data = await fetcher();
-      
-      // Ensure cache doesn't exceed max size
-      if (this.cache.size >= this.maxSize) {
-        const oldestKey = this.cache.keys().next().value;
-        this.cache.delete(oldestKey);
-      }
-
-      // Store in cache
-      this.cache.set(key, {
-        data,
-        timestamp: now,
-        ttl: entryTTL
-      });
-
+      this.set(key, data, entryTTL, options);
       return data;
     } catch (error) {
       console.error(`Failed to fetch data for key: ${key}`, error);
@@ -60,39 +114,247 @@ class DataCache {
     }
   }
 
-  invalidate(key: string): void {
+  set<T>(key: string, data: T, ttl?: number, options: CacheReadOptions = {}): void {
+    const entry: CacheEntry<T> = {
+      data,
+      timestamp: Date.now(),
+      ttl: ttl || this.defaultTTL,
+      persist: !!options.persist
+    };
+
     this.cache.delete(key);
+
+    // Evict the least recently used entries
+    while (this.cache.size >= this.maxSize) {
+      const oldestKey = this.cache.keys().next().value as string;
+      this.cache.delete(oldestKey);
+      this.storage?.remove([oldestKey]).catch(() => {});
+    }
+
+    this.cache.set(key, entry);
+
+    if (entry.persist && this.storage) {
+      this.storage
+        .save(key, { data: entry.data, timestamp: entry.timestamp, ttl: entry.ttl })
+        .catch(error => console.warn(`Failed to persist cache entry ${key}:`, error));
+    }
+  }
+
+  invalidate(key: string): void {
+    this.removeKeys([key], { type: 'invalidated', keys: [key], remote: false });
+    this.broadcast({ type: 'invalidate', key });
     console.log(`Cache invalidated for key: ${key}`);
   }
 
   invalidatePattern(pattern: string): void {
     const regex = new RegExp(pattern);
-    for (const key of this.cache.keys()) {
-      if (regex.test(key)) {
-        this.cache.delete(key);
-      }
-    }
+    const keys = Array.from(this.cache.keys()).filter(key => regex.test(key));
+    this.removeKeys(keys, { type: 'invalidated', keys, pattern, remote: false });
+    this.broadcast({ type: 'invalidatePattern', pattern });
     console.log(`Cache invalidated for pattern: ${pattern}`);
   }
 
   clear(): void {
-    this.cache.clear();
+    this.clearLocal(false);
+    this.broadcast({ type: 'clear' });
     console.log('Cache cleared');
   }
 
+  /**
+   * Cached reads depend on who is signed in (RLS hides members-only rows), so
+   * drop everything when the signed-in user changes. The stored scope only
+   * matters on a fresh page load, to catch persisted entries left over from a
+   * previous visit; after that each tab compares against its own scope.
+   */
+  setScope(scope: string): void {
+    let stored: string | null = null;
+    try {
+      stored = localStorage.getItem(SCOPE_STORAGE_KEY);
+      localStorage.setItem(SCOPE_STORAGE_KEY, scope);
+    } catch {
+      // Private browsing; fall back on this tab's own scope
+    }
+
+    const previous = this.scope ?? stored;
+    this.scope = scope;
+
+    // Other tabs may still hold the old user's rows in memory, and the first tab
+    // to notice has already overwritten the stored scope, so tell them directly
+    if (previous !== null && previous !== scope) {
+      this.clearLocal(false);
+      this.broadcast({ type: 'clear' });
+      console.log('Cache cleared for new user scope');
+    }
+  }
+
+  /**
+   * Listen for background refreshes and invalidations (including ones from other tabs)
+   */
+  subscribe(listener: (event: CacheEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
   getStats() {
     return {
       size: this.cache.size,
       maxSize: this.maxSize,
-      keys: Array.from(this.cache.keys())
+      keys: Array.from(this.cache.keys()),
+      storage: this.storage?.name || null
     };
   }
+
+  private touch(key: string, entry: CacheEntry<unknown>): void {
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+  }
+
+  private revalidate<T>(key: string, fetcher: () => Promise<T>, ttl: number, options: CacheReadOptions): void {
+    if (this.revalidating.has(key)) return;
+
+    const refresh = fetcher()
+      .then(data => {
+        this.set(key, data, ttl, options);
+        this.emit({ type: 'updated', keys: [key], remote: false });
+      })
+      .catch(error => console.warn(`Background refresh failed for key: ${key}`, error))
+      .finally(() => this.revalidating.delete(key));
+
+    this.revalidating.set(key, refresh);
+  }
+
+  private removeKeys(keys: string[], event: CacheEvent): void {
+    keys.forEach(key => this.cache.delete(key));
+    this.removePersisted(event.pattern ? new RegExp(event.pattern) : null, keys);
+    this.emit(event);
+  }
+
+  private removePersisted(regex: RegExp | null, keys: string[]): void {
+    if (!this.storage) return;
+
+    const storage = this.storage;
+    // Persisted entries may not have been hydrated into memory yet
+    const matching = regex
+      ? storage.loadAll().then(entries => Object.keys(entries).filter(key => regex.test(key)))
+      : Promise.resolve(keys);
+
+    matching
+      .then(found => storage.remove(Array.from(new Set([...found, ...keys]))))
+      .catch(error => console.warn('Failed to remove persisted cache entries:', error));
+  }
+
+  private clearLocal(remote: boolean): void {
+    this.generation++;
+    const keys = Array.from(this.cache.keys());
+    this.cache.clear();
+    this.storage?.clear().catch(error => console.warn('Failed to clear persisted cache:', error));
+    this.emit({ type: 'invalidated', keys, pattern: '.*', remote });
+  }
+
+  private applyMessage(message: CacheMessage): void {
+    if (message.type === 'clear') {
+      this.clearLocal(true);
+      return;
+    }
+
+    const pattern = message.type === 'invalidatePattern' ? message.pattern : undefined;
+    const keys = pattern
+      ? Array.from(this.cache.keys()).filter(key => new RegExp(pattern).test(key))
+      : [(message as { key: string }).key];
+
+    // The sending tab has already updated the shared persistence tier
+    keys.forEach(key => this.cache.delete(key));
+    this.emit({ type: 'invalidated', keys, pattern, remote: true });
+  }
+
+  private broadcast(message: CacheMessage): void {
+    try {
+      this.channel?.postMessage(message);
+    } catch (error) {
+      console.warn('Failed to broadcast cache invalidation:', error);
+    }
+  }
+
+  private emit(event: CacheEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Cache listener failed:', error);
+      }
+    });
+  }
+
+  private async hydrate(): Promise<void> {
+    if (!this.storage) return;
+    const generation = this.generation;
+
+    let entries: Record<string, { data: unknown; timestamp: number; ttl: number }>;
+    try {
+      entries = await this.storage.loadAll();
+    } catch (error) {
+      console.warn(`Cache persistence via ${this.storage.name} unavailable:`, error);
+      this.storage = this.storage.name === 'localStorage' ? null : createLocalStorageStorage();
+      try {
+        entries = this.storage ? await this.storage.loadAll() : {};
+      } catch {
+        this.storage = null;
+        return;
+      }
+    }
+
+    // The cache was cleared while loading (e.g. a different user signed in), so
+    // these entries may belong to someone else and are being deleted anyway
+    if (generation !== this.generation) return;
+
+    const now = Date.now();
+    const expired: string[] = [];
+
+    Object.entries(entries)
+      .sort(([, a], [, b]) => a.timestamp - b.timestamp)
+      .forEach(([key, entry]) => {
+        if (now - entry.timestamp >= entry.ttl + this.maxStale) {
+          expired.push(key);
+        } else if (!this.cache.has(key)) {
+          this.cache.set(key, { ...entry, persist: true });
+        }
+      });
+
+    while (this.cache.size > this.maxSize) {
+      const oldestKey = this.cache.keys().next().value as string;
+      this.cache.delete(oldestKey);
+      expired.push(oldestKey);
+    }
+
+    if (expired.length > 0) {
+      this.storage?.remove(expired).catch(() => {});
+    }
+  }
 }
 
+/**
+ * Whether a cache event touches any key under one of the given prefixes
+ * (prefixes are the CACHE_KEYS values, e.g. 'events' covers 'events:...')
+ */
+export const cacheEventMatches = (event: CacheEvent, prefixes: string[]): boolean => {
+  const matchesPrefix = (key: string) =>
+    prefixes.some(prefix => key === prefix || key.startsWith(`${prefix}:`));
+
+  if (event.keys.some(matchesPrefix)) return true;
+  if (!event.pattern) return false;
+
+  const regex = new RegExp(event.pattern);
+  return prefixes.some(prefix => regex.test(prefix));
+};
+
 // Create singleton instance
 export const dataCache = new DataCache({
   ttl: 5 * 60 * 1000, // 5 minutes
-  maxSize: 100
+  maxSize: 100,
+  persist: true,
+  channelName: 'radlett-lodge-data-cache'
 });
 
 // Request deduplication utility
@@ -122,17 +384,20 @@ export const deduplicateRequest = async <T>(
   }
 };
 
-// Cache keys constants
+// Cache keys constants - each is the prefix for one repository's cached reads
 export const CACHE_KEYS = {
   DOCUMENTS: 'documents',
-  DOCUMENTS_BY_CATEGORY: (category: string) => `documents:${category}`,
   MEETING_MINUTES: 'meeting_minutes',
   MEMBERS: 'members',
+  MEMBER_DIRECTORY: 'member_directory',
+  MEMBERSHIP_APPLICATIONS: 'membership_applications',
   EVENTS: 'events',
-  NEWS_ARTICLES: 'news_articles',
+  BLOG_POSTS: 'blog_posts',
   OFFICERS: 'officers',
   TESTIMONIALS: 'testimonials',
   FAQ_ITEMS: 'faq_items',
   SITE_SETTINGS: 'site_settings',
-  PAGE_CONTENT: (page: string) => `page_content:${page}`
-};
\ No newline at end of file
+  MEETING_RULES: 'meeting_rules',
+  MEETING_OVERRIDES: 'meeting_overrides',
+  PAGE_CONTENT: 'page_content'
+};
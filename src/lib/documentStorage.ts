@@ -0,0 +1,116 @@
+import { supabase } from './supabase';
+import {
+  DOCUMENTS_BUCKET,
+  DocumentFolder,
+  documentFileType,
+  documentStoragePath,
+  isStoredFile,
+  storedFilePath,
+  toStoredFile,
+  validateDocumentFile
+} from '../utils/documentFiles';
+
+// Long enough to start a download, short enough that a shared link soon stops working
+const SIGNED_URL_SECONDS = 60;
+
+/**
+ * Files in the private lodge-documents bucket. Uploads go to a signed upload
+ * URL over XHR, which unlike fetch reports progress.
+ */
+export const documentStorage = {
+  // Resolves to the `storage:` reference to save on the row
+  upload: async (file: File, folder: DocumentFolder, onProgress?: (percent: number) => void): Promise<string> => {
+    const problem = validateDocumentFile(file);
+    if (problem) throw new Error(problem);
+
+    const path = documentStoragePath(folder, file.name);
+    const { data, error } = await supabase.storage.from(DOCUMENTS_BUCKET).createSignedUploadUrl(path);
+    if (error || !data) {
+      throw new Error(`Could not start the upload: ${error?.message || 'no upload URL'}`);
+    }
+
+    // Give the file its type if the browser didn't, or the bucket will refuse it
+    const type = documentFileType(file)!;
+    const body = new FormData();
+    body.append('cacheControl', '3600');
+    body.append('', file.type === type ? file : new File([file], file.name, { type }));
+
+    await new Promise<void>((resolve, reject) => {
+      const request = new XMLHttpRequest();
+      request.open('PUT', data.signedUrl);
+      request.setRequestHeader('x-upsert', 'false');
+      request.upload.onprogress = event => {
+        if (event.lengthComputable) onProgress?.(Math.round((event.loaded / event.total) * 100));
+      };
+      request.onload = () => {
+        if (request.status >= 200 && request.status < 300) {
+          onProgress?.(100);
+          resolve();
+        } else {
+          let message = request.statusText;
+          try {
+            message = JSON.parse(request.responseText).message || message;
+          } catch {
+            // Not JSON; the status text will do
+          }
+          reject(new Error(`Upload of "${file.name}" failed: ${message}`));
+        }
+      };
+      request.onerror = () => reject(new Error(`Upload of "${file.name}" failed - check your connection`));
+      request.send(body);
+    });
+
+    return toStoredFile(path);
+  },
+
+  // Stored files get a short-lived signed URL; links elsewhere are returned unchanged
+  resolveUrl: async (url: string, download: boolean = false): Promise<string> => {
+    if (!isStoredFile(url)) return url;
+    const { data, error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .createSignedUrl(storedFilePath(url), SIGNED_URL_SECONDS, download ? { download: true } : undefined);
+    if (error || !data) {
+      throw new Error(`This document could not be opened: ${error?.message || 'no signed URL'}`);
+    }
+    return data.signedUrl;
+  },
+
+  // Opens the tab straight away, so pop-up blockers allow it, then points it at the signed URL
+  open: async (url: string): Promise<void> => {
+    if (!isStoredFile(url)) {
+      window.open(url, '_blank', 'noopener,noreferrer');
+      return;
+    }
+
+    const tab = window.open('', '_blank');
+    try {
+      const signedUrl = await documentStorage.resolveUrl(url);
+      if (tab) {
+        tab.opener = null;
+        tab.location.href = signedUrl;
+      } else {
+        window.location.href = signedUrl;
+      }
+    } catch (err) {
+      if (tab) tab.document.body.textContent = err instanceof Error ? err.message : 'This document could not be opened.';
+      throw err;
+    }
+  },
+
+  // The signed URL asks for an attachment, so the page stays put. Links elsewhere open in a tab.
+  download: async (url: string): Promise<void> => {
+    if (!isStoredFile(url)) {
+      window.open(url, '_blank', 'noopener,noreferrer');
+      return;
+    }
+    window.location.href = await documentStorage.resolveUrl(url, true);
+  },
+
+  // Best effort: a file left behind is untidy, not harmful, so failures are only logged
+  remove: async (urls: (string | null | undefined)[]): Promise<void> => {
+    const paths = Array.from(new Set(urls.filter(isStoredFile).map(storedFilePath)));
+    if (paths.length === 0) return;
+    const { error } = await supabase.storage.from(DOCUMENTS_BUCKET).remove(paths);
+    if (error) console.warn('Could not remove document files:', error);
+  }
+};
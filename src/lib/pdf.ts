@@ -0,0 +1,23 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { PdfTextItem } from '../utils/documentViewer';
+
+// pdf.js is large, so it is only fetched the first time someone opens a PDF
+export async function loadPdf(data: ArrayBuffer): Promise<PDFDocumentProxy> {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  // pdf.js hands the bytes over to its worker, so give it a copy and keep ours usable
+  return pdfjs.getDocument({ data: new Uint8Array(data.slice(0)) }).promise;
+}
+
+export async function getPdfText(pdf: PDFDocumentProxy): Promise<PdfTextItem[][]> {
+  const pages: PdfTextItem[][] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    pages.push(
+      content.items.flatMap(item => ('str' in item ? [{ str: item.str, transform: item.transform, width: item.width }] : []))
+    );
+  }
+  return pages;
+}
@@ -0,0 +1,105 @@
+import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { repositories } from './data';
+
+/**
+ * Live updates for CMS content. While running, every change to a content table
+ * invalidates that table's cached reads - pages using useCacheRefresh re-read
+ * straight away - and is passed on to change listeners (e.g. the CMS's
+ * concurrent edit warnings).
+ */
+
+const CONTENT_TABLES = {
+  events: repositories.events,
+  blog_posts: repositories.blogPosts,
+  officers: repositories.officers,
+  testimonials: repositories.testimonials,
+  faq_items: repositories.faqItems,
+  site_settings: repositories.siteSettings,
+  page_content: repositories.pageContent
+};
+
+export type RealtimeContentTable = keyof typeof CONTENT_TABLES;
+
+type ContentRow = Record<string, unknown>;
+
+export interface ContentChange {
+  table: RealtimeContentTable;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  id: string | null;
+  // The new row for inserts and updates, null for deletes
+  record: ContentRow | null;
+  // Who made the change (null for deletes and changes made by the database itself)
+  updatedBy: string | null;
+}
+
+const listeners = new Set<(change: ContentChange) => void>();
+let channel: RealtimeChannel | null = null;
+let activeUsers = 0;
+
+const handleChange = (table: RealtimeContentTable, payload: RealtimePostgresChangesPayload<ContentRow>) => {
+  CONTENT_TABLES[table].invalidate();
+
+  const record = payload.eventType === 'DELETE' ? null : payload.new;
+  const row = (record || payload.old) as ContentRow | null;
+  const change: ContentChange = {
+    table,
+    eventType: payload.eventType,
+    id: typeof row?.id === 'string' ? row.id : null,
+    record,
+    updatedBy: typeof record?.updated_by === 'string' ? record.updated_by : null
+  };
+
+  listeners.forEach(listener => {
+    try {
+      listener(change);
+    } catch (error) {
+      console.error('Realtime listener failed:', error);
+    }
+  });
+};
+
+/**
+ * Start listening for content changes. Calls are counted, so each caller
+ * stops its own subscription and the channel closes once nobody needs it.
+ */
+export const startRealtimeSync = (): (() => void) => {
+  activeUsers++;
+
+  if (!channel) {
+    channel = (Object.keys(CONTENT_TABLES) as RealtimeContentTable[]).reduce(
+      (current, table) => current.on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table },
+        (payload: RealtimePostgresChangesPayload<ContentRow>) => handleChange(table, payload)
+      ),
+      supabase.channel('cms-content-changes')
+    );
+
+    channel.subscribe((status, err) => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        // Not fatal - content still refreshes when the cache expires
+        console.warn(`Realtime content updates unavailable (${status}):`, err);
+      }
+    });
+  }
+
+  let stopped = false;
+  return () => {
+    if (stopped) return;
+    stopped = true;
+    activeUsers--;
+
+    if (activeUsers === 0 && channel) {
+      supabase.removeChannel(channel);
+      channel = null;
+    }
+  };
+};
+
+export const onContentChange = (listener: (change: ContentChange) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
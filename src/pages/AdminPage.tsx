@@ -1,23 +1,54 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { optimizedApi as api } from '../lib/optimizedApi';
+import { api } from '../lib/api';
 import { dataCache } from '../lib/dataCache';
-import { LodgeDocument, MeetingMinutes, MemberProfile } from '../types';
+import { LodgeDocument, MeetingMinutes, MemberProfile, MemberRole, MinutesStatus, Permission } from '../types';
+import { ADMIN_PAGE_PERMISSIONS, isOfficeHolder, roleLabel } from '../utils/permissions';
+import { getLodgeMeetingOn } from '../utils/lodgeMeetings';
+import { MINUTES_STATUS_BADGES, MINUTES_STATUS_LABELS } from '../utils/minutes';
 import Button from '../components/Button';
 import LoadingSpinner from '../components/LoadingSpinner';
 import ConfirmDialog from '../components/ConfirmDialog';
 import Toast from '../components/Toast';
 import { useToast } from '../hooks/useToast';
 import { usePagination } from '../hooks/usePagination';
+import { useMeetingSchedule } from '../hooks/useMeetingSchedule';
 import PaginationControls from '../components/PaginationControls';
 import VirtualizedList from '../components/VirtualizedList';
-import { Plus, FileText, Clock, Pencil, Trash2, ExternalLink, Building2, Landmark, Users, AlertTriangle, BookOpen, ScrollText, Archive, LogOut } from 'lucide-react';
-import DocumentForm from '../components/DocumentForm';
-import MinutesForm from '../components/MinutesForm';
+import { Plus, FileText, Clock, Pencil, Trash2, ExternalLink, Building2, Landmark, Users, AlertTriangle, BookOpen, ScrollText, Archive, LogOut, ShieldCheck, UserPlus, Inbox, ClipboardCheck, PoundSterling, Heart } from 'lucide-react';
+import DocumentForm, { DocumentFormData } from '../components/DocumentForm';
+import DocumentLink from '../components/DocumentLink';
+import MinutesForm, { MinutesFormData } from '../components/MinutesForm';
+import MinutesStatusActions from '../components/MinutesStatusActions';
 import MemberProfileAdminForm from '../components/MemberProfileAdminForm';
+import AuditLogPanel from '../components/AuditLogPanel';
+import ApplicationsBoard from '../components/ApplicationsBoard';
+import ContactInboxPanel from '../components/ContactInboxPanel';
+import AttendancePanel from '../components/AttendancePanel';
+import DuesPanel from '../components/DuesPanel';
+import CharityPanel from '../components/CharityPanel';
 
-type TabType = 'members' | 'documents' | 'grand_lodge' | 'provincial' | 'summons' | 'lodge_instruction' | 'resources' | 'minutes' | 'gpc_minutes';
+type TabType = 'members' | 'applications' | 'inbox' | 'documents' | 'grand_lodge' | 'provincial' | 'summons' | 'lodge_instruction' | 'resources' | 'minutes' | 'attendance' | 'gpc_minutes' | 'dues' | 'charity' | 'audit';
+
+// Tabs are shown to anyone holding one of these
+const tabPermissions: Record<TabType, Permission[]> = {
+  members: ['approve_members', 'manage_members'],
+  applications: ['approve_members'],
+  inbox: ['manage_enquiries'],
+  documents: ['manage_documents'],
+  grand_lodge: ['manage_documents'],
+  provincial: ['manage_documents'],
+  summons: ['manage_documents'],
+  lodge_instruction: ['manage_documents'],
+  resources: ['manage_documents'],
+  minutes: ['edit_minutes'],
+  attendance: ['edit_minutes'],
+  gpc_minutes: ['manage_documents'],
+  dues: ['manage_finances'],
+  charity: ['manage_charity'],
+  audit: ['view_audit_log']
+};
 
 // Demo data for when database is not connected
 const demoDocuments: LodgeDocument[] = [
@@ -27,6 +58,7 @@ const demoDocuments: LodgeDocument[] = [
     description: 'Latest quarterly communication from the United Grand Lodge of England',
     url: 'https://example.com/grand-lodge-quarterly-q4-2024.pdf',
     category: 'grand_lodge',
+    version_number: 1,
     created_at: '2024-12-01T00:00:00Z',
     updated_at: '2024-12-01T00:00:00Z'
   },
@@ -36,6 +68,7 @@ const demoDocuments: LodgeDocument[] = [
     description: 'Annual report from the United Grand Lodge of England',
     url: 'https://example.com/grand-lodge-annual-2024.pdf',
     category: 'grand_lodge',
+    version_number: 1,
     created_at: '2024-11-01T00:00:00Z',
     updated_at: '2024-11-01T00:00:00Z'
   },
@@ -45,6 +78,7 @@ const demoDocuments: LodgeDocument[] = [
     description: 'Monthly circular from UGLE with important updates',
     url: 'https://example.com/grand-lodge-circular-dec-2024.pdf',
     category: 'grand_lodge',
+    version_number: 1,
     created_at: '2024-12-15T00:00:00Z',
     updated_at: '2024-12-15T00:00:00Z'
   },
@@ -54,6 +88,7 @@ const demoDocuments: LodgeDocument[] = [
     description: 'Hertfordshire Provincial Grand Lodge quarterly newsletter',
     url: 'https://example.com/provincial-newsletter-winter-2024.pdf',
     category: 'provincial',
+    version_number: 1,
     created_at: '2024-11-15T00:00:00Z',
     updated_at: '2024-11-15T00:00:00Z'
   },
@@ -63,6 +98,7 @@ const demoDocuments: LodgeDocument[] = [
     description: 'Details of the upcoming Provincial installation ceremony',
     url: 'https://example.com/provincial-installation-2024.pdf',
     category: 'provincial',
+    version_number: 1,
     created_at: '2024-10-20T00:00:00Z',
     updated_at: '2024-10-20T00:00:00Z'
   },
@@ -72,6 +108,7 @@ const demoDocuments: LodgeDocument[] = [
     description: 'Information about the annual provincial charity appeal',
     url: 'https://example.com/provincial-charity-appeal-2024.pdf',
     category: 'provincial',
+    version_number: 1,
     created_at: '2024-09-30T00:00:00Z',
     updated_at: '2024-09-30T00:00:00Z'
   },
@@ -81,6 +118,7 @@ const demoDocuments: LodgeDocument[] = [
     description: 'Official summons for the December regular meeting',
     url: 'https://example.com/summons-december-2024.pdf',
     category: 'summons',
+    version_number: 1,
     created_at: '2024-11-25T00:00:00Z',
     updated_at: '2024-11-25T00:00:00Z'
   },
@@ -90,6 +128,7 @@ const demoDocuments: LodgeDocument[] = [
     description: 'Official summons for the October regular meeting',
     url: 'https://example.com/summons-october-2024.pdf',
     category: 'summons',
+    version_number: 1,
     created_at: '2024-09-25T00:00:00Z',
     updated_at: '2024-09-25T00:00:00Z'
   },
@@ -99,6 +138,7 @@ const demoDocuments: LodgeDocument[] = [
     description: 'Minutes from Lodge of Instruction meeting - Week 48, 2024',
     url: 'https://example.com/loi-week-48-2024.pdf',
     category: 'lodge_instruction',
+    version_number: 1,
     created_at: '2024-11-28T00:00:00Z',
     updated_at: '2024-11-28T00:00:00Z'
   },
@@ -108,6 +148,7 @@ const demoDocuments: LodgeDocument[] = [
     description: 'Minutes from Lodge of Instruction meeting - Week 47, 2024',
     url: 'https://example.com/loi-week-47-2024.pdf',
     category: 'lodge_instruction',
+    version_number: 1,
     created_at: '2024-11-21T00:00:00Z',
     updated_at: '2024-11-21T00:00:00Z'
   },
@@ -117,6 +158,7 @@ const demoDocuments: LodgeDocument[] = [
     description: 'Updated lodge bylaws and regulations',
     url: 'https://example.com/bylaws-2024.pdf',
     category: 'resources',
+    version_number: 1,
     created_at: '2024-10-01T00:00:00Z',
     updated_at: '2024-10-01T00:00:00Z'
   },
@@ -126,6 +168,7 @@ const demoDocuments: LodgeDocument[] = [
     description: 'Guide for the Entered Apprentice degree ceremony',
     url: 'https://example.com/ea-ritual.pdf',
     category: 'resources',
+    version_number: 1,
     created_at: '2024-08-01T00:00:00Z',
     updated_at: '2024-08-01T00:00:00Z'
   },
@@ -135,6 +178,7 @@ const demoDocuments: LodgeDocument[] = [
     description: 'Form for new membership applications',
     url: 'https://example.com/membership-form.pdf',
     category: 'resources',
+    version_number: 1,
     created_at: '2024-07-15T00:00:00Z',
     updated_at: '2024-07-15T00:00:00Z'
   },
@@ -144,6 +188,7 @@ const demoDocuments: LodgeDocument[] = [
     description: 'Form for submitting charity funding requests',
     url: 'https://example.com/charity-form.pdf',
     category: 'forms',
+    version_number: 1,
     created_at: '2024-09-15T00:00:00Z',
     updated_at: '2024-09-15T00:00:00Z'
   }
@@ -155,6 +200,7 @@ const demoMinutes: MeetingMinutes[] = [
     meeting_date: '2024-12-10',
     title: 'December Regular Meeting',
     content: 'The Lodge was opened in due form by the Worshipful Master. Present were 24 members and 3 visitors. The minutes of the previous meeting were read and approved. The Treasurer reported a healthy balance. Three candidates were proposed for initiation. The charity steward announced successful fundraising efforts totaling £2,500 for local charities. The Lodge was closed in harmony at 9:30 PM.',
+    status: 'circulated',
     created_at: '2024-12-11T00:00:00Z',
     updated_at: '2024-12-11T00:00:00Z'
   },
@@ -163,6 +209,8 @@ const demoMinutes: MeetingMinutes[] = [
     meeting_date: '2024-10-15',
     title: 'October Regular Meeting',
     content: 'The Lodge was opened by the Worshipful Master with 28 members in attendance. The charity steward reported successful fundraising efforts totaling £1,800. Two new members were initiated in a beautiful ceremony. Discussion of the upcoming installation ceremony and annual dinner. The Lodge voted to support three local charities. The meeting concluded at 9:45 PM.',
+    status: 'confirmed',
+    confirmed_at_meeting: '2024-12-10',
     created_at: '2024-10-16T00:00:00Z',
     updated_at: '2024-10-16T00:00:00Z'
   },
@@ -171,6 +219,8 @@ const demoMinutes: MeetingMinutes[] = [
     meeting_date: '2024-08-20',
     title: 'August Regular Meeting',
     content: 'Summer meeting held with 22 members present. The Secretary read correspondence from the Provincial Grand Lodge. A motion was passed to donate £500 to the local children\'s hospital. Two candidates were passed to the degree of Fellow Craft. Plans for the autumn social event were discussed and approved. The Lodge closed at 9:15 PM.',
+    status: 'confirmed',
+    confirmed_at_meeting: '2024-10-15',
     created_at: '2024-08-21T00:00:00Z',
     updated_at: '2024-08-21T00:00:00Z'
   }
@@ -232,7 +282,7 @@ const demoMembers: MemberProfile[] = [
 const AdminPage: React.FC = () => {
   // ALL HOOKS MUST BE DECLARED FIRST - BEFORE ANY CONDITIONAL RETURNS
   const navigate = useNavigate();
-  const { user, isAdmin, loading: authLoading, signOut, needsPasswordReset } = useAuth();
+  const { user, loading: authLoading, signOut, needsPasswordReset, hasPermission, hasAnyPermission } = useAuth();
   const { toasts, removeToast, success, error: showError } = useToast();
   const [activeTab, setActiveTab] = useState<TabType>('members');
   const [showDocumentForm, setShowDocumentForm] = useState(false);
@@ -281,7 +331,7 @@ const AdminPage: React.FC = () => {
 
   // Load paginated documents when tab or pagination changes
   const loadPaginatedDocuments = useCallback(async () => {
-    if (activeTab === 'members' || activeTab === 'minutes') return;
+    if (activeTab === 'members' || activeTab === 'applications' || activeTab === 'inbox' || activeTab === 'minutes' || activeTab === 'attendance' || activeTab === 'dues' || activeTab === 'charity' || activeTab === 'audit') return;
     
     try {
       setLoading(true);
@@ -353,9 +403,32 @@ const AdminPage: React.FC = () => {
     return counts;
   }, [allDocuments.length, minutes.length, members.length]);
 
-  // Handle navigation for non-admin users
+  // Which Lodge meeting each set of minutes belongs to
+  const { schedule } = useMeetingSchedule();
+  const minutesMeetingTitles = useMemo(() => {
+    const titles: Record<string, string> = {};
+    minutes.forEach(minute => {
+      const meeting = getLodgeMeetingOn(minute.meeting_date, schedule);
+      if (meeting) titles[minute.id] = meeting.title;
+    });
+    return titles;
+  }, [minutes, schedule]);
+
+  const canAccess = hasAnyPermission(ADMIN_PAGE_PERMISSIONS);
+  const canManageMembers = hasPermission('manage_members');
+  const canApproveMembers = canManageMembers || hasPermission('approve_members');
+  const canViewTab = useCallback((tab: TabType) => hasAnyPermission(tabPermissions[tab]), [hasAnyPermission]);
+
+  // Open on the first tab the user is allowed to see
+  useEffect(() => {
+    if (canViewTab(activeTab)) return;
+    const firstTab = (Object.keys(tabPermissions) as TabType[]).find(canViewTab);
+    if (firstTab) setActiveTab(firstTab);
+  }, [activeTab, canViewTab]);
+
+  // Handle navigation for users without admin permissions
   useEffect(() => {
-    if (!authLoading && (!user || !isAdmin)) {
+    if (!authLoading && (!user || !canAccess)) {
       navigate('/members', { replace: true });
     }
     
@@ -363,7 +436,7 @@ const AdminPage: React.FC = () => {
     if (!authLoading && user && needsPasswordReset) {
       navigate('/password-reset', { replace: true });
     }
-  }, [authLoading, user, isAdmin, navigate]);
+  }, [authLoading, user, canAccess, navigate]);
 
   const handleSignOut = async () => {
     try {
@@ -438,20 +511,27 @@ const AdminPage: React.FC = () => {
     loadData();
   }, [user, authLoading, dataLoaded, showError]);
 
-  const handleDocumentSubmit = async (document: Omit<LodgeDocument, 'id' | 'created_at' | 'updated_at'>) => {
+  const handleDocumentSubmit = async (data: DocumentFormData) => {
+    const { change_note, ...document } = data;
+    const replacesFile = !!editingDocument && document.url !== editingDocument.url;
     try {
       if (usingDemoData) {
         if (editingDocument) {
           // Simulate updating demo data
           const updatedDocs = allDocuments.map(doc => 
             doc.id === editingDocument.id 
-              ? { ...doc, ...document, updated_at: new Date().toISOString() }
+              ? {
+                  ...doc,
+                  ...document,
+                  version_number: replacesFile ? doc.version_number + 1 : doc.version_number,
+                  updated_at: new Date().toISOString()
+                }
               : doc
           );
           setAllDocuments(updatedDocs);
           
           // Invalidate cache and reload paginated view
-          api.invalidateCache.documents(document.category);
+          api.invalidateCache.documents();
           loadPaginatedDocuments();
           
           success('Document updated successfully (demo mode)');
@@ -460,32 +540,31 @@ const AdminPage: React.FC = () => {
           const newDoc: LodgeDocument = {
             ...document,
             id: `demo-${Date.now()}`,
+            version_number: 1,
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString()
           };
           setAllDocuments(prev => [newDoc, ...prev]);
           
           // Invalidate cache and reload paginated view
-          api.invalidateCache.documents(document.category);
+          api.invalidateCache.documents();
           loadPaginatedDocuments();
           success('Document added successfully (demo mode)');
         }
       } else {
         if (editingDocument) {
-          // Update existing document
-          // Note: This would need to be implemented in the API
-          // await api.updateDocument(editingDocument.id, document);
-          await api.updateDocument(editingDocument.id, document);
-          success('Document updated successfully');
-          // Invalidate cache and reload
-          api.invalidateCache.documents(document.category);
+          // A new file is published as the next version before the details are saved
+          const { url, ...details } = document;
+          if (replacesFile) {
+            await api.publishDocumentVersion({ document_id: editingDocument.id, url, change_note: change_note || null });
+          }
+          await api.updateDocument(editingDocument.id, details);
+          success(replacesFile ? 'New version published' : 'Document updated successfully');
           loadPaginatedDocuments();
         } else {
           // Create new document
           await api.createDocument(document);
           success('Document added successfully');
-          // Invalidate cache and reload
-          api.invalidateCache.documents(document.category);
           loadPaginatedDocuments();
         }
       }
@@ -497,22 +576,22 @@ const AdminPage: React.FC = () => {
     }
   };
 
-  const handleMinutesSubmit = async (minutes: Omit<MeetingMinutes, 'id' | 'created_at' | 'updated_at'>) => {
+  const handleMinutesSubmit = async (data: MinutesFormData) => {
     try {
       if (usingDemoData) {
         if (editingMinute) {
           // Simulate updating demo data
-          const updatedMinutes = minutes.map(m => 
-            m.id === editingMinute.id 
-              ? { ...m, ...minutes, updated_at: new Date().toISOString() }
+          setMinutes(prev => prev.map(m =>
+            m.id === editingMinute.id
+              ? { ...m, ...data, updated_at: new Date().toISOString() }
               : m
-          );
-          setMinutes(updatedMinutes);
+          ));
           success('Meeting minutes updated successfully (demo mode)');
         } else {
           // Simulate adding to demo data
           const newMinutes: MeetingMinutes = {
-            ...minutes,
+            ...data,
+            status: 'draft',
             id: `demo-${Date.now()}`,
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString()
@@ -522,10 +601,10 @@ const AdminPage: React.FC = () => {
         }
       } else {
         if (editingMinute) {
-          await api.updateMinutes(editingMinute.id, minutes);
+          await api.updateMinutes(editingMinute.id, data);
           success('Meeting minutes updated successfully');
         } else {
-          await api.createMinutes(minutes);
+          await api.createMinutes(data);
           success('Meeting minutes added successfully');
         }
         const updatedMinutes = await api.getMeetingMinutes();
@@ -539,11 +618,39 @@ const AdminPage: React.FC = () => {
     }
   };
 
+  const handleMinutesTransition = async (minute: MeetingMinutes, status: MinutesStatus, confirmedAtMeeting?: string) => {
+    const messages: Record<MinutesStatus, string> = {
+      circulated: `${minute.title} circulated to the officers`,
+      draft: `${minute.title} returned to draft`,
+      confirmed: `${minute.title} confirmed and published to members`
+    };
+    try {
+      if (usingDemoData) {
+        setMinutes(prev => prev.map(m =>
+          m.id === minute.id ? { ...m, status, confirmed_at_meeting: confirmedAtMeeting ?? null } : m
+        ));
+        success(`${messages[status]} (demo mode)`);
+        return;
+      }
+      if (status === 'circulated') {
+        await api.circulateMinutes(minute.id);
+      } else if (status === 'draft') {
+        await api.returnMinutesToDraft(minute.id);
+      } else {
+        await api.confirmMinutes(minute.id, confirmedAtMeeting!);
+      }
+      setMinutes(await api.getMeetingMinutes());
+      success(messages[status]);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to update the minutes');
+    }
+  };
+
   const handleMemberSubmit = async (data: {
     user_id: string;
     full_name: string;
     position?: string;
-    role: 'member' | 'admin';
+    role: MemberRole;
   }) => {
     try {
       if (usingDemoData) {
@@ -614,7 +721,6 @@ const AdminPage: React.FC = () => {
             // Delete document via API
             // await api.deleteDocument(id);
             await api.deleteDocument(id);
-            api.invalidateCache.documents();
             loadPaginatedDocuments();
             success('Document deleted successfully');
           }
@@ -812,18 +918,19 @@ const AdminPage: React.FC = () => {
               <span className="text-xs text-neutral-500 ml-4">
                 Added {new Date(doc.created_at).toLocaleDateString()}
               </span>
+              {doc.version_number > 1 && (
+                <span className="text-xs text-neutral-500 ml-4">Version {doc.version_number}</span>
+              )}
             </div>
           </div>
           <div className="flex items-center space-x-2 ml-4">
-            <a
-              href={doc.url}
-              target="_blank"
-              rel="noopener noreferrer"
+            <DocumentLink
+              url={doc.url}
               className="p-2 text-neutral-500 hover:text-primary-600 transition-colors"
               title="Open document"
             >
               <ExternalLink size={18} />
-            </a>
+            </DocumentLink>
             <button 
               className="p-2 text-neutral-500 hover:text-secondary-500 transition-colors"
               title="Edit document"
@@ -856,7 +963,7 @@ const AdminPage: React.FC = () => {
   }
 
   // Don't render anything if redirecting
-  if (!user || !isAdmin) {
+  if (!user || !canAccess) {
     return null;
   }
 
@@ -916,78 +1023,156 @@ const AdminPage: React.FC = () => {
         )}
 
         <div className="flex flex-wrap gap-4 mb-8">
-          <Button
-            variant={activeTab === 'members' ? 'primary' : 'outline'}
-            onClick={() => setActiveTab('members')}
-            className="flex items-center"
-          >
-            <Users size={18} className="mr-2" />
-            Members ({documentCounts.members})
-          </Button>
-          <Button
-            variant={activeTab === 'documents' ? 'primary' : 'outline'}
-            onClick={() => setActiveTab('documents')}
-            className="flex items-center"
-          >
-            <FileText size={18} className="mr-2" />
-            All Documents ({documentCounts.all})
-          </Button>
-          <Button
-            variant={activeTab === 'grand_lodge' ? 'primary' : 'outline'}
-            onClick={() => setActiveTab('grand_lodge')}
-            className="flex items-center"
-          >
-            <Landmark size={18} className="mr-2" />
-            Grand Lodge ({documentCounts.grand_lodge})
-          </Button>
-          <Button
-            variant={activeTab === 'provincial' ? 'primary' : 'outline'}
-            onClick={() => setActiveTab('provincial')}
-            className="flex items-center"
-          >
-            <Building2 size={18} className="mr-2" />
-            Provincial ({documentCounts.provincial})
-          </Button>
-          <Button
-            variant={activeTab === 'summons' ? 'primary' : 'outline'}
-            onClick={() => setActiveTab('summons')}
-            className="flex items-center"
-          >
-            <ScrollText size={18} className="mr-2" />
-            Summons ({documentCounts.summons})
-          </Button>
-          <Button
-            variant={activeTab === 'lodge_instruction' ? 'primary' : 'outline'}
-            onClick={() => setActiveTab('lodge_instruction')}
-            className="flex items-center"
-          >
-            <BookOpen size={18} className="mr-2" />
-            Lodge of Instruction ({documentCounts.lodge_instruction})
-          </Button>
-          <Button
-            variant={activeTab === 'resources' ? 'primary' : 'outline'}
-            onClick={() => setActiveTab('resources')}
-            className="flex items-center"
-          >
-            <Archive size={18} className="mr-2" />
-            Resources ({documentCounts.resources})
-          </Button>
-          <Button
-            variant={activeTab === 'minutes' ? 'primary' : 'outline'}
-            onClick={() => setActiveTab('minutes')}
-            className="flex items-center"
-          >
-            <Clock size={18} className="mr-2" />
-            Minutes ({documentCounts.minutes})
-          </Button>
-          <Button
-            variant={activeTab === 'gpc_minutes' ? 'primary' : 'outline'}
-            onClick={() => setActiveTab('gpc_minutes')}
-            className="flex items-center"
-          >
-            <Clock size={18} className="mr-2" />
-            GPC Minutes ({documentCounts.gpc_minutes})
-          </Button>
+          {canViewTab('members') && (
+            <Button
+              variant={activeTab === 'members' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('members')}
+              className="flex items-center"
+            >
+              <Users size={18} className="mr-2" />
+              Members ({documentCounts.members})
+            </Button>
+          )}
+          {canViewTab('applications') && (
+            <Button
+              variant={activeTab === 'applications' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('applications')}
+              className="flex items-center"
+            >
+              <UserPlus size={18} className="mr-2" />
+              Applications
+            </Button>
+          )}
+          {canViewTab('inbox') && (
+            <Button
+              variant={activeTab === 'inbox' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('inbox')}
+              className="flex items-center"
+            >
+              <Inbox size={18} className="mr-2" />
+              Enquiries
+            </Button>
+          )}
+          {canViewTab('documents') && (
+            <Button
+              variant={activeTab === 'documents' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('documents')}
+              className="flex items-center"
+            >
+              <FileText size={18} className="mr-2" />
+              All Documents ({documentCounts.all})
+            </Button>
+          )}
+          {canViewTab('grand_lodge') && (
+            <Button
+              variant={activeTab === 'grand_lodge' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('grand_lodge')}
+              className="flex items-center"
+            >
+              <Landmark size={18} className="mr-2" />
+              Grand Lodge ({documentCounts.grand_lodge})
+            </Button>
+          )}
+          {canViewTab('provincial') && (
+            <Button
+              variant={activeTab === 'provincial' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('provincial')}
+              className="flex items-center"
+            >
+              <Building2 size={18} className="mr-2" />
+              Provincial ({documentCounts.provincial})
+            </Button>
+          )}
+          {canViewTab('summons') && (
+            <Button
+              variant={activeTab === 'summons' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('summons')}
+              className="flex items-center"
+            >
+              <ScrollText size={18} className="mr-2" />
+              Summons ({documentCounts.summons})
+            </Button>
+          )}
+          {canViewTab('lodge_instruction') && (
+            <Button
+              variant={activeTab === 'lodge_instruction' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('lodge_instruction')}
+              className="flex items-center"
+            >
+              <BookOpen size={18} className="mr-2" />
+              Lodge of Instruction ({documentCounts.lodge_instruction})
+            </Button>
+          )}
+          {canViewTab('resources') && (
+            <Button
+              variant={activeTab === 'resources' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('resources')}
+              className="flex items-center"
+            >
+              <Archive size={18} className="mr-2" />
+              Resources ({documentCounts.resources})
+            </Button>
+          )}
+          {canViewTab('minutes') && (
+            <Button
+              variant={activeTab === 'minutes' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('minutes')}
+              className="flex items-center"
+            >
+              <Clock size={18} className="mr-2" />
+              Minutes ({documentCounts.minutes})
+            </Button>
+          )}
+          {canViewTab('attendance') && (
+            <Button
+              variant={activeTab === 'attendance' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('attendance')}
+              className="flex items-center"
+            >
+              <ClipboardCheck size={18} className="mr-2" />
+              Attendance
+            </Button>
+          )}
+          {canViewTab('gpc_minutes') && (
+            <Button
+              variant={activeTab === 'gpc_minutes' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('gpc_minutes')}
+              className="flex items-center"
+            >
+              <Clock size={18} className="mr-2" />
+              GPC Minutes ({documentCounts.gpc_minutes})
+            </Button>
+          )}
+          {canViewTab('dues') && (
+            <Button
+              variant={activeTab === 'dues' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('dues')}
+              className="flex items-center"
+            >
+              <PoundSterling size={18} className="mr-2" />
+              Dues
+            </Button>
+          )}
+          {canViewTab('charity') && (
+            <Button
+              variant={activeTab === 'charity' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('charity')}
+              className="flex items-center"
+            >
+              <Heart size={18} className="mr-2" />
+              Charity
+            </Button>
+          )}
+          {canViewTab('audit') && (
+            <Button
+              variant={activeTab === 'audit' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('audit')}
+              className="flex items-center"
+            >
+              <ShieldCheck size={18} className="mr-2" />
+              Audit Log
+            </Button>
+          )}
         </div>
 
         {activeTab === 'members' ? (
@@ -996,13 +1181,15 @@ const AdminPage: React.FC = () => {
               <h2 className="text-xl font-heading font-semibold text-primary-600">
                 Member Profiles ({members.length})
               </h2>
-              <Button
-                onClick={() => setShowMemberForm(true)}
-                className="flex items-center"
-              >
-                <Plus size={18} className="mr-2" />
-                Add Member
-              </Button>
+              {canManageMembers && (
+                <Button
+                  onClick={() => setShowMemberForm(true)}
+                  className="flex items-center"
+                >
+                  <Plus size={18} className="mr-2" />
+                  Add Member
+                </Button>
+              )}
             </div>
 
             {showMemberForm && (
@@ -1035,7 +1222,7 @@ const AdminPage: React.FC = () => {
                       <div className="flex items-center gap-3">
                         <h3 className="font-medium text-primary-600">{member.full_name}</h3>
                         <span className={`text-xs font-medium px-2 py-1 rounded ${
-                          member.role === 'admin'
+                          isOfficeHolder(member.role)
                             ? 'bg-secondary-100 text-secondary-700'
                             : member.status === 'pending'
                               ? 'bg-yellow-100 text-yellow-700'
@@ -1043,7 +1230,7 @@ const AdminPage: React.FC = () => {
                                 ? 'bg-red-100 text-red-700'
                                 : 'bg-green-100 text-green-700'
                         }`}>
-                          {member.role === 'admin' ? 'Admin' : 'Member'} - {member.status || 'pending'}
+                          {roleLabel(member.role)} - {member.status || 'pending'}
                         </span>
                       </div>
                       {member.position && (
@@ -1060,7 +1247,7 @@ const AdminPage: React.FC = () => {
                           </>
                         )}
                       </div>
-                      {member.status === 'pending' && (
+                      {canApproveMembers && member.status === 'pending' && (
                         <div className="mt-2">
                           <button
                             onClick={() => handleApproveMember(member.user_id, member.full_name)}
@@ -1076,7 +1263,7 @@ const AdminPage: React.FC = () => {
                           </button>
                         </div>
                       )}
-                      {member.status === 'active' && member.role !== 'admin' && (
+                      {canApproveMembers && member.status === 'active' && member.role !== 'admin' && (
                         <div className="mt-2">
                           <button
                             onClick={() => handleDeactivateMember(member.user_id, member.full_name)}
@@ -1086,7 +1273,7 @@ const AdminPage: React.FC = () => {
                           </button>
                         </div>
                       )}
-                      {member.status === 'inactive' && (
+                      {canApproveMembers && member.status === 'inactive' && (
                         <div className="mt-2">
                           <button
                             onClick={() => handleReactivateMember(member.user_id, member.full_name)}
@@ -1097,36 +1284,50 @@ const AdminPage: React.FC = () => {
                         </div>
                       )}
                     </div>
-                    <div className="flex items-center space-x-2 ml-4">
-                      <button 
-                        className="p-2 text-neutral-500 hover:text-secondary-500 transition-colors"
-                        onClick={() => handleEditMember(member)}
-                        title="Edit member"
-                      >
-                        <Pencil size={18} />
-                      </button>
-                      <button
-                        className={`p-2 transition-colors ${
-                          deletingUserId === member.user_id
-                            ? 'text-neutral-400 cursor-not-allowed'
-                            : 'text-neutral-500 hover:text-red-500'
-                        }`}
-                        onClick={() => handleDeleteMember(member.user_id, member.full_name)}
-                        disabled={deletingUserId === member.user_id}
-                        title="Delete member"
-                      >
-                        {deletingUserId === member.user_id ? (
-                          <LoadingSpinner size="sm" />
-                        ) : (
-                          <Trash2 size={18} />
-                        )}
-                      </button>
-                    </div>
+                    {canManageMembers && (
+                      <div className="flex items-center space-x-2 ml-4">
+                        <button 
+                          className="p-2 text-neutral-500 hover:text-secondary-500 transition-colors"
+                          onClick={() => handleEditMember(member)}
+                          title="Edit member"
+                        >
+                          <Pencil size={18} />
+                        </button>
+                        <button
+                          className={`p-2 transition-colors ${
+                            deletingUserId === member.user_id
+                              ? 'text-neutral-400 cursor-not-allowed'
+                              : 'text-neutral-500 hover:text-red-500'
+                          }`}
+                          onClick={() => handleDeleteMember(member.user_id, member.full_name)}
+                          disabled={deletingUserId === member.user_id}
+                          title="Delete member"
+                        >
+                          {deletingUserId === member.user_id ? (
+                            <LoadingSpinner size="sm" />
+                          ) : (
+                            <Trash2 size={18} />
+                          )}
+                        </button>
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
             )}
           </div>
+        ) : activeTab === 'applications' ? (
+          <ApplicationsBoard members={members} />
+        ) : activeTab === 'inbox' ? (
+          <ContactInboxPanel members={members} />
+        ) : activeTab === 'attendance' ? (
+          <AttendancePanel members={members} />
+        ) : activeTab === 'dues' ? (
+          <DuesPanel />
+        ) : activeTab === 'charity' ? (
+          <CharityPanel />
+        ) : activeTab === 'audit' ? (
+          <AuditLogPanel members={members} />
         ) : activeTab !== 'minutes' ? (
           <div>
             <div className="flex justify-between items-center mb-6">
@@ -1244,30 +1445,43 @@ const AdminPage: React.FC = () => {
                   >
                     <div className="flex justify-between items-start">
                       <div>
-                        <h3 className="font-medium text-primary-600">{minute.title}</h3>
+                        <div className="flex items-center gap-2">
+                          <h3 className="font-medium text-primary-600">{minute.title}</h3>
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${MINUTES_STATUS_BADGES[minute.status]}`}>
+                            {MINUTES_STATUS_LABELS[minute.status]}
+                          </span>
+                        </div>
                         <p className="text-sm text-neutral-500 mt-1">
                           {new Date(minute.meeting_date).toLocaleDateString('en-GB')}
+                          {minutesMeetingTitles[minute.id] && ` • ${minutesMeetingTitles[minute.id]}`}
+                          {minute.status === 'confirmed' && minute.confirmed_at_meeting &&
+                            ` • Confirmed ${new Date(minute.confirmed_at_meeting).toLocaleDateString('en-GB')}`}
                         </p>
                       </div>
                       <div className="flex items-center space-x-2">
+                        <MinutesStatusActions
+                          minute={minute}
+                          schedule={schedule}
+                          onTransition={(status, confirmedAtMeeting) => handleMinutesTransition(minute, status, confirmedAtMeeting)}
+                        />
                         {minute.document_url && (
-                          <a
-                            href={minute.document_url}
-                            target="_blank"
-                            rel="noopener noreferrer"
+                          <DocumentLink
+                            url={minute.document_url}
                             className="p-2 text-neutral-500 hover:text-primary-600 transition-colors"
                             title="Open document"
                           >
                             <ExternalLink size={18} />
-                          </a>
+                          </DocumentLink>
+                        )}
+                        {minute.status !== 'confirmed' && (
+                          <button
+                            className="p-2 text-neutral-500 hover:text-secondary-500 transition-colors"
+                            onClick={() => handleEditMinute(minute)}
+                            title="Edit minutes"
+                          >
+                            <Pencil size={18} />
+                          </button>
                         )}
-                        <button 
-                          className="p-2 text-neutral-500 hover:text-secondary-500 transition-colors"
-                          onClick={() => handleEditMinute(minute)}
-                          title="Edit minutes"
-                        >
-                          <Pencil size={18} />
-                        </button>
                         <button 
                           className="p-2 text-neutral-500 hover:text-red-500 transition-colors"
                           onClick={() => handleDeleteMinute(minute.id, minute.title)}
@@ -6,7 +6,7 @@ import DashboardCard from '../components/DashboardCard';
 import Button from '../components/Button';
 import LoadingSpinner from '../components/LoadingSpinner';
 import ConfirmDialog from '../components/ConfirmDialog';
-import { optimizedApi as api } from '../lib/optimizedApi';
+import { cmsApi } from '../lib/cmsApi';
 import { useToast } from '../hooks/useToast';
 import { CMSBlogPost } from '../types';
 import BlogForm from '../components/cms/BlogForm';
@@ -44,7 +44,7 @@ const BlogAdminPage: React.FC = () => {
     try {
       setLoading(true);
       setError(null);
-      const data = await api.getBlogPosts();
+      const data = await cmsApi.getBlogPosts();
       setBlogPosts(data);
     } catch (err) {
       console.error('Error loading blog posts:', err);
@@ -77,7 +77,7 @@ const BlogAdminPage: React.FC = () => {
   const handleConfirmDelete = async () => {
     if (postToDelete) {
       try {
-        await api.deleteBlogPost(postToDelete);
+        await cmsApi.deleteBlogPost(postToDelete);
         success('Blog post deleted successfully!');
         loadBlogPosts();
       } catch (err) {
@@ -93,10 +93,10 @@ const BlogAdminPage: React.FC = () => {
   const handleFormSubmit = async (data: Omit<CMSBlogPost, 'id' | 'created_at' | 'updated_at'>) => {
     try {
       if (editingPost) {
-        await api.updateBlogPost(editingPost.id, data);
+        await cmsApi.updateBlogPost(editingPost.id, data);
         success('Blog post updated successfully!');
       } else {
-        await api.createBlogPost(data);
+        await cmsApi.createBlogPost(data);
         success('Blog post created successfully!');
       }
       setShowForm(false);
@@ -110,7 +110,7 @@ const BlogAdminPage: React.FC = () => {
 
   const handleTogglePublish = async (post: CMSBlogPost) => {
     try {
-      await api.updateBlogPost(post.id, { is_published: !post.is_published });
+      await cmsApi.updateBlogPost(post.id, { is_published: !post.is_published });
       success(`Blog post ${post.is_published ? 'unpublished' : 'published'} successfully!`);
       loadBlogPosts();
     } catch (err) {
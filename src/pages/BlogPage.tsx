@@ -6,7 +6,9 @@ import SectionHeading from '../components/SectionHeading';
 import NewsCard from '../components/NewsCard';
 import LoadingSpinner from '../components/LoadingSpinner';
 import Button from '../components/Button';
-import { optimizedApi as cmsApi } from '../lib/optimizedApi';
+import { cmsApi } from '../lib/cmsApi';
+import { CACHE_KEYS } from '../lib/dataCache';
+import { useCacheRefresh } from '../hooks/useCacheRefresh';
 import { CMSBlogPost, BlogItem } from '../types';
 
 const BlogPage: React.FC = () => {
@@ -16,6 +18,7 @@ const BlogPage: React.FC = () => {
   const [featuredArticle, setFeaturedArticle] = useState<CMSBlogPost | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const refreshKey = useCacheRefresh([CACHE_KEYS.BLOG_POSTS]);
 
   const categories = [
     { key: 'all', label: 'All Posts', count: 0 },
@@ -26,7 +29,6 @@ const BlogPage: React.FC = () => {
   useEffect(() => {
     const loadBlogPosts = async () => {
       try {
-        setLoading(true);
         setError(null);
         const blogData = await cmsApi.getBlogPosts();
         const publishedBlogPosts = blogData.filter(post => post.is_published);
@@ -46,7 +48,7 @@ const BlogPage: React.FC = () => {
     };
 
     loadBlogPosts();
-  }, []);
+  }, [refreshKey]);
 
   // Convert CMS blog post to component format
   const convertBlogPostData = (cmsBlogPost: CMSBlogPost): BlogItem => ({
@@ -146,6 +148,14 @@ const BlogPage: React.FC = () => {
                     </div>
                   )}
                 </div>
+                {searchTerm.trim() && (
+                  <Link
+                    to={`/search?q=${encodeURIComponent(searchTerm.trim())}&type=blog`}
+                    className="inline-block mt-3 text-sm text-secondary-300 hover:text-secondary-500"
+                  >
+                    Search the full text of every post &rarr;
+                  </Link>
+                )}
               </div>
 
               {/* Category Navigation */}
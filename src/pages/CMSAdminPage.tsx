@@ -2,6 +2,8 @@ import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { cmsApi } from '../lib/cmsApi';
+import { api } from '../lib/api';
+import { onContentChange, ContentChange, RealtimeContentTable } from '../lib/realtime';
 import { 
   CMSEvent, 
   CMSNewsArticle, 
@@ -9,13 +11,20 @@ import {
   CMSTestimonial, 
   CMSFAQItem, 
   CMSSiteSetting,
-  CMSPageContent
+  CMSPageContent,
+  CMSContentSchedule,
+  ScheduledContentTable,
+  RevisionedContentTable,
+  CMSMeetingRule,
+  CMSMeetingOverride,
+  Permission
 } from '../types';
 import Button from '../components/Button';
 import LoadingSpinner from '../components/LoadingSpinner';
 import ConfirmDialog from '../components/ConfirmDialog';
 import Toast from '../components/Toast';
 import { useToast } from '../hooks/useToast';
+import { useConcurrentEditWarning, OpenRecord } from '../hooks/useConcurrentEditWarning';
 import { 
   Plus, 
   Calendar, 
@@ -35,7 +44,9 @@ import {
   CheckSquare,
   Square,
   LogOut,
-  BookOpen
+  BookOpen,
+  CalendarDays,
+  History
 } from 'lucide-react';
 
 // Import all the forms
@@ -50,9 +61,33 @@ import PageContentForm from '../components/cms/PageContentForm';
 import BulkActions from '../components/cms/BulkActions';
 import ContentPreview from '../components/cms/ContentPreview';
 import MediaManager from '../components/cms/MediaManager';
-import ContentScheduler from '../components/cms/ContentScheduler';
-
-type TabType = 'events' | 'news' | 'blog' | 'officers' | 'testimonials' | 'faq' | 'settings' | 'pages' | 'media';
+import ContentScheduler, { ScheduleData } from '../components/cms/ContentScheduler';
+import ScheduledChangesList from '../components/cms/ScheduledChangesList';
+import MeetingRuleForm from '../components/cms/MeetingRuleForm';
+import MeetingOverrideForm from '../components/cms/MeetingOverrideForm';
+import MeetingScheduleList from '../components/cms/MeetingScheduleList';
+import EventBookingsPanel from '../components/cms/EventBookingsPanel';
+import RevisionHistory, { RevisionTarget } from '../components/cms/RevisionHistory';
+import { DEFAULT_MEETING_SCHEDULE, LodgeMeeting, describeMeetingRule, toMeetingDateKey } from '../utils/lodgeMeetings';
+import { scheduleFromFormData, formDataFromSchedule, findPendingSchedule, getPendingChanges } from '../utils/contentSchedule';
+import { CMS_PAGE_PERMISSIONS } from '../utils/permissions';
+
+type TabType = 'events' | 'news' | 'blog' | 'officers' | 'testimonials' | 'faq' | 'settings' | 'pages' | 'media' | 'schedule' | 'meetings';
+
+// Match the RLS policies: events, posts and the rest of the site are separate permissions
+const tabPermissions: Record<TabType, Permission[]> = {
+  events: ['manage_events'],
+  news: ['publish_content'],
+  blog: ['publish_content'],
+  officers: ['manage_site'],
+  testimonials: ['manage_site'],
+  faq: ['manage_site'],
+  settings: ['manage_site'],
+  pages: ['manage_site'],
+  media: ['manage_site', 'publish_content'],
+  schedule: ['manage_events', 'publish_content', 'manage_site'],
+  meetings: ['manage_events']
+};
 
 // Demo data for when database is not connected
 const demoEvents: CMSEvent[] = [
@@ -205,11 +240,19 @@ const demoPageContent: CMSPageContent[] = [
   }
 ];
 
+const demoMeetingRules: CMSMeetingRule[] = DEFAULT_MEETING_SCHEDULE.rules.map((rule, index) => ({
+  ...rule,
+  id: String(index + 1),
+  is_active: true,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z'
+}));
+
 const CMSAdminPage: React.FC = () => {
   // ALL HOOKS MUST BE DECLARED FIRST - BEFORE ANY CONDITIONAL RETURNS
   const navigate = useNavigate();
-  const { user, isAdmin, loading: authLoading, signOut } = useAuth();
-  const { toasts, removeToast, success, error: showError } = useToast();
+  const { user, loading: authLoading, signOut, hasAnyPermission } = useAuth();
+  const { toasts, removeToast, success, error: showError, warning } = useToast();
   
   // Core state
   const [activeTab, setActiveTab] = useState<TabType>('officers'); // Start with officers tab
@@ -227,6 +270,9 @@ const CMSAdminPage: React.FC = () => {
   const [faqItems, setFaqItems] = useState<CMSFAQItem[]>([]);
   const [siteSettings, setSiteSettings] = useState<CMSSiteSetting[]>([]);
   const [pageContent, setPageContent] = useState<CMSPageContent[]>([]);
+  const [schedules, setSchedules] = useState<CMSContentSchedule[]>([]);
+  const [meetingRules, setMeetingRules] = useState<CMSMeetingRule[]>([]);
+  const [meetingOverrides, setMeetingOverrides] = useState<CMSMeetingOverride[]>([]);
   
   // Form states
   const [showEventForm, setShowEventForm] = useState(false);
@@ -239,14 +285,21 @@ const CMSAdminPage: React.FC = () => {
   const [showPageContentForm, setShowPageContentForm] = useState(false);
   const [showMediaManager, setShowMediaManager] = useState(false);
   const [showContentScheduler, setShowContentScheduler] = useState(false);
+  const [showMeetingRuleForm, setShowMeetingRuleForm] = useState(false);
+  const [showMeetingOverrideForm, setShowMeetingOverrideForm] = useState(false);
   
   // Editing states
   const [editingEvent, setEditingEvent] = useState<CMSEvent | null>(null);
+  const [eventDraft, setEventDraft] = useState<Partial<CMSEvent> | null>(null);
   const [editingNews, setEditingNews] = useState<CMSNewsArticle | null>(null);
   const [editingOfficer, setEditingOfficer] = useState<CMSOfficer | null>(null);
   const [editingTestimonial, setEditingTestimonial] = useState<CMSTestimonial | null>(null);
   const [editingFAQ, setEditingFAQ] = useState<CMSFAQItem | null>(null);
   const [editingPageContent, setEditingPageContent] = useState<CMSPageContent | null>(null);
+  const [editingMeetingRule, setEditingMeetingRule] = useState<CMSMeetingRule | null>(null);
+  const [editingMeetingOverride, setEditingMeetingOverride] = useState<CMSMeetingOverride | null>(null);
+  const [bookingsEvent, setBookingsEvent] = useState<CMSEvent | null>(null);
+  const [revisionTarget, setRevisionTarget] = useState<RevisionTarget | null>(null);
   
   // Selection states for bulk operations
   const [selectedEvents, setSelectedEvents] = useState<string[]>([]);
@@ -261,7 +314,11 @@ const CMSAdminPage: React.FC = () => {
   const [showPreview, setShowPreview] = useState(false);
   
   // Scheduler states
-  const [schedulingContent, setSchedulingContent] = useState<any>(null);
+  const [schedulingContent, setSchedulingContent] = useState<{
+    table: ScheduledContentTable;
+    id: string;
+    title: string;
+  } | null>(null);
 
   // Confirmation dialog state
   const [confirmDialog, setConfirmDialog] = useState<{
@@ -283,15 +340,27 @@ const CMSAdminPage: React.FC = () => {
     officers: officers.length,
     testimonials: testimonials.length,
     faq: faqItems.length,
-    pages: pageContent.length
-  }), [events.length, news.length, officers.length, testimonials.length, faqItems.length, pageContent.length]);
+    pages: pageContent.length,
+    schedule: getPendingChanges(schedules).length,
+    meetings: meetingRules.length
+  }), [events.length, news.length, officers.length, testimonials.length, faqItems.length, pageContent.length, schedules, meetingRules.length]);
 
-  // Handle navigation for non-admin users
+  const canAccess = hasAnyPermission(CMS_PAGE_PERMISSIONS);
+  const canViewTab = useCallback((tab: TabType) => hasAnyPermission(tabPermissions[tab]), [hasAnyPermission]);
+
+  // Editors don't see officers, so fall back to the first tab they can use
+  useEffect(() => {
+    if (canViewTab(activeTab)) return;
+    const firstTab = (Object.keys(tabPermissions) as TabType[]).find(canViewTab);
+    if (firstTab) setActiveTab(firstTab);
+  }, [activeTab, canViewTab]);
+
+  // Handle navigation for users without content permissions
   useEffect(() => {
-    if (!authLoading && (!user || !isAdmin)) {
+    if (!authLoading && (!user || !canAccess)) {
       navigate('/members', { replace: true });
     }
-  }, [authLoading, user, isAdmin, navigate]);
+  }, [authLoading, user, canAccess, navigate]);
 
   const handleSignOut = useCallback(async () => {
     try {
@@ -338,6 +407,7 @@ const CMSAdminPage: React.FC = () => {
       
       setShowEventForm(false);
       setEditingEvent(null);
+      setEventDraft(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
       showError('Failed to save event');
@@ -387,10 +457,10 @@ const CMSAdminPage: React.FC = () => {
         }
       } else {
         if (editingNews) {
-          await cmsApi.updateNewsArticle(editingNews.id, newsData);
+          await cmsApi.updateBlogPost(editingNews.id, newsData);
           success('News article updated successfully');
         } else {
-          await cmsApi.createNewsArticle(newsData);
+          await cmsApi.createBlogPost(newsData);
           success('News article created successfully');
         }
         
@@ -417,7 +487,7 @@ const CMSAdminPage: React.FC = () => {
             setNews(prev => prev.filter(n => n.id !== id));
             success('News article deleted successfully (demo mode)');
           } else {
-            await cmsApi.deleteNewsArticle(id);
+            await cmsApi.deleteBlogPost(id);
             const updatedNews = await cmsApi.getNewsArticles();
             setNews(updatedNews);
             success('News article deleted successfully');
@@ -672,6 +742,28 @@ const CMSAdminPage: React.FC = () => {
         setSiteSettings(settingsData);
         setPageContent(pageContentData);
         setUsingDemoData(false);
+
+        // Schedules are optional - the CMS still works if they can't be loaded
+        try {
+          setSchedules(await cmsApi.getContentSchedules());
+        } catch (scheduleError) {
+          console.warn('Content schedules unavailable:', scheduleError);
+          setSchedules([]);
+        }
+
+        // Meeting rules fall back to the built-in schedule until the migration has run
+        try {
+          const [rulesData, overridesData] = await Promise.all([
+            cmsApi.getMeetingRules(),
+            cmsApi.getMeetingOverrides()
+          ]);
+          setMeetingRules(rulesData);
+          setMeetingOverrides(overridesData);
+        } catch (meetingError) {
+          console.warn('Meeting schedule unavailable:', meetingError);
+          setMeetingRules([]);
+          setMeetingOverrides([]);
+        }
         
       } catch (dbError) {
         console.warn('Database not connected, using demo data:', dbError);
@@ -684,6 +776,8 @@ const CMSAdminPage: React.FC = () => {
         setFaqItems(demoFAQItems);
         setSiteSettings(demoSiteSettings);
         setPageContent(demoPageContent);
+        setMeetingRules(demoMeetingRules);
+        setMeetingOverrides([]);
         setUsingDemoData(true);
       }
       
@@ -702,6 +796,8 @@ const CMSAdminPage: React.FC = () => {
       setFaqItems(demoFAQItems);
       setSiteSettings(demoSiteSettings);
       setPageContent(demoPageContent);
+      setMeetingRules(demoMeetingRules);
+      setMeetingOverrides([]);
       setUsingDemoData(true);
       setDataLoaded(true);
     } finally {
@@ -713,6 +809,71 @@ const CMSAdminPage: React.FC = () => {
     loadData();
   }, [loadData]);
 
+  // Keep the lists live when content changes elsewhere (another admin, or the schedule job)
+  useEffect(() => {
+    if (!dataLoaded || usingDemoData) return;
+
+    const reloaders: Record<RealtimeContentTable, () => Promise<void>> = {
+      events: async () => setEvents(await cmsApi.getEvents()),
+      blog_posts: async () => setNews(await cmsApi.getNewsArticles()),
+      officers: async () => setOfficers(await cmsApi.getOfficers()),
+      testimonials: async () => setTestimonials(await cmsApi.getTestimonials()),
+      faq_items: async () => setFaqItems(await cmsApi.getFAQItems()),
+      site_settings: async () => setSiteSettings(await cmsApi.getSiteSettings()),
+      page_content: async () => setPageContent(await cmsApi.getPageContent())
+    };
+
+    return onContentChange(change => {
+      reloaders[change.table]().catch(err => console.warn(`Failed to refresh ${change.table}:`, err));
+    });
+  }, [dataLoaded, usingDemoData]);
+
+  // Warn when a record open in a form is changed by someone else before it's saved
+  const openRecords = useMemo(() => {
+    const open: OpenRecord[] = [];
+    if (editingEvent) open.push({ table: 'events', id: editingEvent.id, label: 'event' });
+    if (editingNews) open.push({ table: 'blog_posts', id: editingNews.id, label: 'article' });
+    if (editingOfficer) open.push({ table: 'officers', id: editingOfficer.id, label: 'officer' });
+    if (editingTestimonial) open.push({ table: 'testimonials', id: editingTestimonial.id, label: 'testimonial' });
+    if (editingFAQ) open.push({ table: 'faq_items', id: editingFAQ.id, label: 'FAQ' });
+    if (editingPageContent) open.push({ table: 'page_content', id: editingPageContent.id, label: 'page section' });
+    if (showSettingsForm) open.push({ table: 'site_settings', id: null, label: 'site settings' });
+    return open;
+  }, [editingEvent, editingNews, editingOfficer, editingTestimonial, editingFAQ, editingPageContent, showSettingsForm]);
+
+  const handleConcurrentEdit = useCallback(async (open: OpenRecord, change: ContentChange) => {
+    if (change.eventType === 'DELETE') {
+      warning(`This ${open.label} was deleted by someone else while you were editing it`);
+      return;
+    }
+
+    const editor = change.updatedBy
+      ? await api.getMemberProfile(change.updatedBy).catch(() => null)
+      : null;
+    const who = editor?.full_name || (change.updatedBy ? 'Another admin' : 'A scheduled update');
+    warning(`${who} just changed this ${open.label}. Saving now will overwrite their changes.`);
+  }, [warning]);
+
+  useConcurrentEditWarning(openRecords, handleConcurrentEdit);
+
+  const handleRevisionRestored = useCallback(async (table: RevisionedContentTable) => {
+    try {
+      if (table === 'events') {
+        setEvents(await cmsApi.getEvents());
+      } else if (table === 'blog_posts') {
+        setNews(await cmsApi.getNewsArticles());
+      } else if (table === 'page_content') {
+        setPageContent(await cmsApi.getPageContent());
+      } else {
+        setSiteSettings(await cmsApi.getSiteSettings());
+      }
+      success('Revision restored successfully');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      showError('Revision restored, but the list could not be refreshed');
+    }
+  }, [success, showError]);
+
   // Officer handlers with useCallback
   const handleOfficerSubmit = useCallback(async (officerData: Omit<CMSOfficer, 'id' | 'created_at' | 'updated_at'>) => {
     try {
@@ -878,19 +1039,227 @@ const CMSAdminPage: React.FC = () => {
   }, []);
 
   // Scheduler handlers with useCallback
-  const handleScheduleContent = useCallback((content: any) => {
-    setSchedulingContent(content);
+  const handleScheduleContent = useCallback((table: ScheduledContentTable, id: string, title: string) => {
+    setSchedulingContent({ table, id, title });
     setShowContentScheduler(true);
   }, []);
 
-  const handleScheduleSubmit = useCallback(async (scheduleData: any) => {
+  const handleScheduleSubmit = useCallback(async (scheduleData: ScheduleData) => {
+    if (!schedulingContent) return;
+
+    const existing = schedules.find(s =>
+      s.content_table === schedulingContent.table && s.content_id === schedulingContent.id
+    );
+
     try {
-      // In a real implementation, this would save the schedule to the database
-      success(`Content scheduled successfully for ${scheduleData.publish_date} at ${scheduleData.publish_time}`);
+      // Unticking both options cancels the schedule
+      if (!scheduleData.auto_publish && !scheduleData.auto_unpublish) {
+        if (existing) {
+          if (!usingDemoData) {
+            await cmsApi.deleteContentSchedule(existing.id);
+          }
+          setSchedules(prev => prev.filter(s => s.id !== existing.id));
+          success('Schedule cancelled');
+        }
+        return;
+      }
+
+      const schedule = scheduleFromFormData(
+        schedulingContent.table,
+        schedulingContent.id,
+        schedulingContent.title,
+        scheduleData
+      );
+
+      if (usingDemoData) {
+        const now = new Date().toISOString();
+        const saved: CMSContentSchedule = {
+          ...schedule,
+          id: existing?.id || `demo-${Date.now()}`,
+          created_at: existing?.created_at || now,
+          updated_at: now
+        };
+        setSchedules(prev => [saved, ...prev.filter(s => s.id !== saved.id)]);
+        success('Content scheduled successfully (demo mode)');
+      } else {
+        const saved = await cmsApi.saveContentSchedule(schedule);
+        setSchedules(prev => [saved, ...prev.filter(s => s.id !== saved.id)]);
+        success('Content scheduled successfully');
+      }
     } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
       showError('Failed to schedule content');
     }
-  }, [success, showError]);
+  }, [schedulingContent, schedules, usingDemoData, success, showError]);
+
+  const handleCancelSchedule = useCallback((schedule: CMSContentSchedule) => {
+    setConfirmDialog({
+      isOpen: true,
+      title: 'Cancel Schedule',
+      message: `Are you sure you want to cancel the scheduled changes for "${schedule.content_title}"?`,
+      onConfirm: async () => {
+        try {
+          if (!usingDemoData) {
+            await cmsApi.deleteContentSchedule(schedule.id);
+          }
+          setSchedules(prev => prev.filter(s => s.id !== schedule.id));
+          success(`Schedule cancelled successfully${usingDemoData ? ' (demo mode)' : ''}`);
+        } catch (err) {
+          setError(err instanceof Error ? err.message : 'An error occurred');
+          showError('Failed to cancel schedule');
+        }
+        setConfirmDialog(prev => ({ ...prev, isOpen: false }));
+      }
+    });
+  }, [usingDemoData, success, showError]);
+
+  // Meeting schedule handlers with useCallback
+  const handleMeetingRuleSubmit = useCallback(async (ruleData: Omit<CMSMeetingRule, 'id' | 'created_at' | 'updated_at'>) => {
+    try {
+      if (usingDemoData) {
+        const newRule: CMSMeetingRule = {
+          ...ruleData,
+          id: `demo-${Date.now()}`,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        };
+        
+        if (editingMeetingRule) {
+          setMeetingRules(prev => prev.map(r => r.id === editingMeetingRule.id ? { ...newRule, id: editingMeetingRule.id } : r));
+          success('Meeting rule updated successfully (demo mode)');
+        } else {
+          setMeetingRules(prev => [...prev, newRule]);
+          success('Meeting rule created successfully (demo mode)');
+        }
+      } else {
+        if (editingMeetingRule) {
+          await cmsApi.updateMeetingRule(editingMeetingRule.id, ruleData);
+          success('Meeting rule updated successfully');
+        } else {
+          await cmsApi.createMeetingRule(ruleData);
+          success('Meeting rule created successfully');
+        }
+        
+        const updatedRules = await cmsApi.getMeetingRules();
+        setMeetingRules(updatedRules);
+      }
+      
+      setShowMeetingRuleForm(false);
+      setEditingMeetingRule(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      showError('Failed to save meeting rule');
+    }
+  }, [usingDemoData, editingMeetingRule, success, showError]);
+
+  const handleDeleteMeetingRule = useCallback((rule: CMSMeetingRule) => {
+    setConfirmDialog({
+      isOpen: true,
+      title: 'Delete Meeting Rule',
+      message: `Are you sure you want to delete "${rule.title}" (${describeMeetingRule(rule)})? Meetings will no longer be generated from it. To pause it instead, edit the rule and untick "Active".`,
+      onConfirm: async () => {
+        try {
+          if (usingDemoData) {
+            setMeetingRules(prev => prev.filter(r => r.id !== rule.id));
+            success('Meeting rule deleted successfully (demo mode)');
+          } else {
+            await cmsApi.deleteMeetingRule(rule.id);
+            const updatedRules = await cmsApi.getMeetingRules();
+            setMeetingRules(updatedRules);
+            success('Meeting rule deleted successfully');
+          }
+        } catch (err) {
+          setError(err instanceof Error ? err.message : 'An error occurred');
+          showError('Failed to delete meeting rule');
+        }
+        setConfirmDialog(prev => ({ ...prev, isOpen: false }));
+      }
+    });
+  }, [usingDemoData, success, showError]);
+
+  const handleMeetingOverrideSubmit = useCallback(async (overrideData: Omit<CMSMeetingOverride, 'id' | 'created_at' | 'updated_at'>) => {
+    try {
+      if (usingDemoData) {
+        const newOverride: CMSMeetingOverride = {
+          ...overrideData,
+          id: `demo-${Date.now()}`,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        };
+        
+        if (editingMeetingOverride) {
+          setMeetingOverrides(prev => prev.map(o => o.id === editingMeetingOverride.id ? { ...newOverride, id: editingMeetingOverride.id } : o));
+          success('Meeting override updated successfully (demo mode)');
+        } else {
+          setMeetingOverrides(prev => [...prev, newOverride].sort((a, b) => a.meeting_date.localeCompare(b.meeting_date)));
+          success('Meeting override created successfully (demo mode)');
+        }
+      } else {
+        if (editingMeetingOverride) {
+          await cmsApi.updateMeetingOverride(editingMeetingOverride.id, overrideData);
+          success('Meeting override updated successfully');
+        } else {
+          await cmsApi.createMeetingOverride(overrideData);
+          success('Meeting override created successfully');
+        }
+        
+        const updatedOverrides = await cmsApi.getMeetingOverrides();
+        setMeetingOverrides(updatedOverrides);
+      }
+      
+      setShowMeetingOverrideForm(false);
+      setEditingMeetingOverride(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      showError('Failed to save meeting override');
+    }
+  }, [usingDemoData, editingMeetingOverride, success, showError]);
+
+  const handleDeleteMeetingOverride = useCallback((override: CMSMeetingOverride) => {
+    setConfirmDialog({
+      isOpen: true,
+      title: 'Delete Meeting Override',
+      message: `Are you sure you want to delete the override for ${override.meeting_date}? The regular schedule will apply again on that date.`,
+      onConfirm: async () => {
+        try {
+          if (usingDemoData) {
+            setMeetingOverrides(prev => prev.filter(o => o.id !== override.id));
+            success('Meeting override deleted successfully (demo mode)');
+          } else {
+            await cmsApi.deleteMeetingOverride(override.id);
+            const updatedOverrides = await cmsApi.getMeetingOverrides();
+            setMeetingOverrides(updatedOverrides);
+            success('Meeting override deleted successfully');
+          }
+        } catch (err) {
+          setError(err instanceof Error ? err.message : 'An error occurred');
+          showError('Failed to delete meeting override');
+        }
+        setConfirmDialog(prev => ({ ...prev, isOpen: false }));
+      }
+    });
+  }, [usingDemoData, success, showError]);
+
+  const eventDays = useMemo(
+    () => new Set(events.map(event => toMeetingDateKey(new Date(event.event_date)))),
+    [events]
+  );
+
+  // Generated meetings have no event row, so start one pre-filled from the schedule
+  const handleOpenMeetingBookings = useCallback((meeting: LodgeMeeting) => {
+    setEditingEvent(null);
+    setEventDraft({
+      title: meeting.title,
+      description: meeting.description,
+      event_date: meeting.date.toISOString(),
+      location: meeting.location,
+      is_members_only: false,
+      is_past_event: false,
+      bookings_enabled: true
+    });
+    setShowEventForm(true);
+    setActiveTab('events');
+  }, []);
 
   // Show loading while auth is loading
   if (authLoading) {
@@ -915,7 +1284,7 @@ const CMSAdminPage: React.FC = () => {
   }
 
   // Don't render anything if redirecting
-  if (!user || !isAdmin) {
+  if (!user || !canAccess) {
     return null;
   }
 
@@ -976,78 +1345,116 @@ const CMSAdminPage: React.FC = () => {
 
         {/* Tab Navigation */}
         <div className="flex flex-wrap gap-4 mb-8">
-          <Button
-            variant={activeTab === 'events' ? 'primary' : 'outline'}
-            onClick={() => setActiveTab('events')}
-            className="flex items-center"
-          >
-            <Calendar size={18} className="mr-2" />
-            Events ({counts.events})
-          </Button>
-          <Button
-            variant={activeTab === 'news' ? 'primary' : 'outline'}
-            onClick={() => setActiveTab('news')}
-            className="flex items-center"
-          >
-            <Newspaper size={18} className="mr-2" />
-            News ({counts.news})
-          </Button>
-          <Button
-            variant={activeTab === 'blog' ? 'primary' : 'outline'}
-            onClick={() => setActiveTab('blog')}
-            className="flex items-center"
-          >
-            <BookOpen size={18} className="mr-2" />
-            Blog Posts
-          </Button>
-          <Button
-            variant={activeTab === 'officers' ? 'primary' : 'outline'}
-            onClick={() => setActiveTab('officers')}
-            className="flex items-center"
-          >
-            <Users size={18} className="mr-2" />
-            Officers ({counts.officers})
-          </Button>
-          <Button
-            variant={activeTab === 'testimonials' ? 'primary' : 'outline'}
-            onClick={() => setActiveTab('testimonials')}
-            className="flex items-center"
-          >
-            <MessageSquare size={18} className="mr-2" />
-            Testimonials ({counts.testimonials})
-          </Button>
-          <Button
-            variant={activeTab === 'faq' ? 'primary' : 'outline'}
-            onClick={() => setActiveTab('faq')}
-            className="flex items-center"
-          >
-            <HelpCircle size={18} className="mr-2" />
-            FAQ ({counts.faq})
-          </Button>
-          <Button
-            variant={activeTab === 'pages' ? 'primary' : 'outline'}
-            onClick={() => setActiveTab('pages')}
-            className="flex items-center"
-          >
-            <FileText size={18} className="mr-2" />
-            Pages ({counts.pages})
-          </Button>
-          <Button
-            variant={activeTab === 'media' ? 'primary' : 'outline'}
-            onClick={() => setActiveTab('media')}
-            className="flex items-center"
-          >
-            <Image size={18} className="mr-2" />
-            Media
-          </Button>
-          <Button
-            variant={activeTab === 'settings' ? 'primary' : 'outline'}
-            onClick={() => setActiveTab('settings')}
-            className="flex items-center"
-          >
-            <Settings size={18} className="mr-2" />
-            Settings
-          </Button>
+          {canViewTab('events') && (
+            <Button
+              variant={activeTab === 'events' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('events')}
+              className="flex items-center"
+            >
+              <Calendar size={18} className="mr-2" />
+              Events ({counts.events})
+            </Button>
+          )}
+          {canViewTab('news') && (
+            <Button
+              variant={activeTab === 'news' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('news')}
+              className="flex items-center"
+            >
+              <Newspaper size={18} className="mr-2" />
+              News ({counts.news})
+            </Button>
+          )}
+          {canViewTab('blog') && (
+            <Button
+              variant={activeTab === 'blog' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('blog')}
+              className="flex items-center"
+            >
+              <BookOpen size={18} className="mr-2" />
+              Blog Posts
+            </Button>
+          )}
+          {canViewTab('officers') && (
+            <Button
+              variant={activeTab === 'officers' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('officers')}
+              className="flex items-center"
+            >
+              <Users size={18} className="mr-2" />
+              Officers ({counts.officers})
+            </Button>
+          )}
+          {canViewTab('testimonials') && (
+            <Button
+              variant={activeTab === 'testimonials' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('testimonials')}
+              className="flex items-center"
+            >
+              <MessageSquare size={18} className="mr-2" />
+              Testimonials ({counts.testimonials})
+            </Button>
+          )}
+          {canViewTab('faq') && (
+            <Button
+              variant={activeTab === 'faq' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('faq')}
+              className="flex items-center"
+            >
+              <HelpCircle size={18} className="mr-2" />
+              FAQ ({counts.faq})
+            </Button>
+          )}
+          {canViewTab('pages') && (
+            <Button
+              variant={activeTab === 'pages' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('pages')}
+              className="flex items-center"
+            >
+              <FileText size={18} className="mr-2" />
+              Pages ({counts.pages})
+            </Button>
+          )}
+          {canViewTab('media') && (
+            <Button
+              variant={activeTab === 'media' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('media')}
+              className="flex items-center"
+            >
+              <Image size={18} className="mr-2" />
+              Media
+            </Button>
+          )}
+          {canViewTab('schedule') && (
+            <Button
+              variant={activeTab === 'schedule' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('schedule')}
+              className="flex items-center"
+            >
+              <Clock size={18} className="mr-2" />
+              Scheduled ({counts.schedule})
+            </Button>
+          )}
+          {canViewTab('meetings') && (
+            <Button
+              variant={activeTab === 'meetings' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('meetings')}
+              className="flex items-center"
+            >
+              <CalendarDays size={18} className="mr-2" />
+              Meetings ({counts.meetings})
+            </Button>
+          )}
+          {canViewTab('settings') && (
+            <Button
+              variant={activeTab === 'settings' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('settings')}
+              className="flex items-center"
+            >
+              <Settings size={18} className="mr-2" />
+              Settings
+            </Button>
+          )}
         </div>
 
         {/* Officers Tab */}
@@ -1160,13 +1567,6 @@ const CMSAdminPage: React.FC = () => {
                         >
                           <Eye size={18} />
                         </button>
-                        <button 
-                          className="p-2 text-neutral-500 hover:text-green-500 transition-colors"
-                          onClick={() => handleScheduleContent(officer)}
-                          title="Schedule officer"
-                        >
-                          <Clock size={18} />
-                        </button>
                         <button 
                           className="p-2 text-neutral-500 hover:text-secondary-500 transition-colors"
                           onClick={() => {
@@ -1237,11 +1637,13 @@ const CMSAdminPage: React.FC = () => {
                 </h3>
                 <EventForm
                   onSubmit={handleEventSubmit}
+                  key={editingEvent?.id || eventDraft?.event_date || 'new'}
                   onCancel={() => {
                     setShowEventForm(false);
                     setEditingEvent(null);
+                    setEventDraft(null);
                   }}
-                  initialData={editingEvent || undefined}
+                  initialData={editingEvent || eventDraft || undefined}
                 />
               </div>
             )}
@@ -1286,6 +1688,21 @@ const CMSAdminPage: React.FC = () => {
                                 Past Event
                               </span>
                             )}
+                            {event.is_published === false && (
+                              <span className="text-xs font-medium bg-neutral-100 text-neutral-600 px-2 py-1 rounded">
+                                Unpublished
+                              </span>
+                            )}
+                            {event.bookings_enabled && (
+                              <span className="text-xs font-medium bg-secondary-100 text-secondary-700 px-2 py-1 rounded">
+                                RSVPs{event.capacity != null && ` (${event.capacity} seats)`}
+                              </span>
+                            )}
+                            {findPendingSchedule(schedules, 'events', event.id) && (
+                              <span className="text-xs font-medium bg-green-100 text-green-700 px-2 py-1 rounded">
+                                Scheduled
+                              </span>
+                            )}
                           </div>
                           <div className="flex items-center text-xs text-neutral-500 mb-2">
                             <span>Date: {new Date(event.event_date).toLocaleString()}</span>
@@ -1303,13 +1720,31 @@ const CMSAdminPage: React.FC = () => {
                         >
                           <Eye size={18} />
                         </button>
+                        {event.bookings_enabled && (
+                          <button
+                            className="p-2 text-neutral-500 hover:text-primary-500 transition-colors"
+                            onClick={() => setBookingsEvent(event)}
+                            title="View bookings"
+                          >
+                            <Users size={18} />
+                          </button>
+                        )}
                         <button 
                           className="p-2 text-neutral-500 hover:text-green-500 transition-colors"
-                          onClick={() => handleScheduleContent(event)}
+                          onClick={() => handleScheduleContent('events', event.id, event.title)}
                           title="Schedule event"
                         >
                           <Clock size={18} />
                         </button>
+                        {!usingDemoData && (
+                          <button
+                            className="p-2 text-neutral-500 hover:text-primary-500 transition-colors"
+                            onClick={() => setRevisionTarget({ table: 'events', id: event.id, title: event.title })}
+                            title="Revision history"
+                          >
+                            <History size={18} />
+                          </button>
+                        )}
                         <button 
                           className="p-2 text-neutral-500 hover:text-secondary-500 transition-colors"
                           onClick={() => {
@@ -1430,6 +1865,11 @@ const CMSAdminPage: React.FC = () => {
                                 Unpublished
                               </span>
                             )}
+                            {findPendingSchedule(schedules, 'blog_posts', article.id) && (
+                              <span className="text-xs font-medium bg-green-100 text-green-700 px-2 py-1 rounded">
+                                Scheduled
+                              </span>
+                            )}
                           </div>
                           <div className="flex items-center text-xs text-neutral-500 mb-2">
                             <span>Published: {new Date(article.publish_date).toLocaleDateString()}</span>
@@ -1453,11 +1893,20 @@ const CMSAdminPage: React.FC = () => {
                         </button>
                         <button 
                           className="p-2 text-neutral-500 hover:text-green-500 transition-colors"
-                          onClick={() => handleScheduleContent(article)}
+                          onClick={() => handleScheduleContent('blog_posts', article.id, article.title)}
                           title="Schedule article"
                         >
                           <Clock size={18} />
                         </button>
+                        {!usingDemoData && (
+                          <button
+                            className="p-2 text-neutral-500 hover:text-primary-500 transition-colors"
+                            onClick={() => setRevisionTarget({ table: 'blog_posts', id: article.id, title: article.title })}
+                            title="Revision history"
+                          >
+                            <History size={18} />
+                          </button>
+                        )}
                         <button 
                           className="p-2 text-neutral-500 hover:text-secondary-500 transition-colors"
                           onClick={() => {
@@ -1630,6 +2079,11 @@ const CMSAdminPage: React.FC = () => {
                                 Unpublished
                               </span>
                             )}
+                            {findPendingSchedule(schedules, 'testimonials', testimonial.id) && (
+                              <span className="text-xs font-medium bg-green-100 text-green-700 px-2 py-1 rounded">
+                                Scheduled
+                              </span>
+                            )}
                           </div>
                           <div className="flex items-center text-xs text-neutral-500 mb-2">
                             <span>Sort Order: {testimonial.sort_order}</span>
@@ -1651,6 +2105,13 @@ const CMSAdminPage: React.FC = () => {
                         >
                           <Eye size={18} />
                         </button>
+                        <button 
+                          className="p-2 text-neutral-500 hover:text-green-500 transition-colors"
+                          onClick={() => handleScheduleContent('testimonials', testimonial.id, testimonial.member_name)}
+                          title="Schedule testimonial"
+                        >
+                          <Clock size={18} />
+                        </button>
                         <button 
                           className="p-2 text-neutral-500 hover:text-secondary-500 transition-colors"
                           onClick={() => {
@@ -1754,6 +2215,11 @@ const CMSAdminPage: React.FC = () => {
                                 Unpublished
                               </span>
                             )}
+                            {findPendingSchedule(schedules, 'faq_items', faq.id) && (
+                              <span className="text-xs font-medium bg-green-100 text-green-700 px-2 py-1 rounded">
+                                Scheduled
+                              </span>
+                            )}
                           </div>
                           <div className="flex items-center text-xs text-neutral-500 mb-2">
                             <span>Sort Order: {faq.sort_order}</span>
@@ -1769,6 +2235,13 @@ const CMSAdminPage: React.FC = () => {
                         >
                           <Eye size={18} />
                         </button>
+                        <button 
+                          className="p-2 text-neutral-500 hover:text-green-500 transition-colors"
+                          onClick={() => handleScheduleContent('faq_items', faq.id, faq.question)}
+                          title="Schedule FAQ"
+                        >
+                          <Clock size={18} />
+                        </button>
                         <button 
                           className="p-2 text-neutral-500 hover:text-secondary-500 transition-colors"
                           onClick={() => {
@@ -1865,6 +2338,15 @@ const CMSAdminPage: React.FC = () => {
                         >
                           <Eye size={18} />
                         </button>
+                        {!usingDemoData && (
+                          <button
+                            className="p-2 text-neutral-500 hover:text-primary-500 transition-colors"
+                            onClick={() => setRevisionTarget({ table: 'page_content', id: content.id, title: `${content.page_name} / ${content.section_name}` })}
+                            title="Revision history"
+                          >
+                            <History size={18} />
+                          </button>
+                        )}
                         <button 
                           className="p-2 text-neutral-500 hover:text-secondary-500 transition-colors"
                           onClick={() => {
@@ -1917,6 +2399,108 @@ const CMSAdminPage: React.FC = () => {
           </div>
         )}
 
+        {/* Scheduled Changes Tab */}
+        {activeTab === 'schedule' && (
+          <div>
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-xl font-heading font-semibold text-primary-600">
+                Upcoming Scheduled Changes ({counts.schedule})
+              </h2>
+            </div>
+
+            <ScheduledChangesList
+              schedules={schedules}
+              onEdit={(schedule) => handleScheduleContent(schedule.content_table, schedule.content_id, schedule.content_title)}
+              onCancel={handleCancelSchedule}
+            />
+          </div>
+        )}
+
+        {/* Meeting Schedule Tab */}
+        {activeTab === 'meetings' && (
+          <div>
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-xl font-heading font-semibold text-primary-600">
+                Meeting Schedule
+              </h2>
+              <div className="flex items-center space-x-3">
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setEditingMeetingOverride(null);
+                    setShowMeetingOverrideForm(true);
+                  }}
+                  className="flex items-center"
+                >
+                  <Plus size={18} className="mr-2" />
+                  Add Override
+                </Button>
+                <Button
+                  onClick={() => {
+                    setEditingMeetingRule(null);
+                    setShowMeetingRuleForm(true);
+                  }}
+                  className="flex items-center"
+                >
+                  <Plus size={18} className="mr-2" />
+                  Add Rule
+                </Button>
+              </div>
+            </div>
+
+            {showMeetingRuleForm && (
+              <div className="bg-neutral-50 rounded-lg p-6 mb-8">
+                <h3 className="text-lg font-semibold text-primary-600 mb-4">
+                  {editingMeetingRule ? 'Edit Meeting Rule' : 'Add New Meeting Rule'}
+                </h3>
+                <MeetingRuleForm
+                  key={editingMeetingRule?.id || 'new'}
+                  onSubmit={handleMeetingRuleSubmit}
+                  onCancel={() => {
+                    setShowMeetingRuleForm(false);
+                    setEditingMeetingRule(null);
+                  }}
+                  initialData={editingMeetingRule || undefined}
+                />
+              </div>
+            )}
+
+            {showMeetingOverrideForm && (
+              <div className="bg-neutral-50 rounded-lg p-6 mb-8">
+                <h3 className="text-lg font-semibold text-primary-600 mb-4">
+                  {editingMeetingOverride ? 'Edit Meeting Override' : 'Add Meeting Override'}
+                </h3>
+                <MeetingOverrideForm
+                  key={editingMeetingOverride?.id || 'new'}
+                  onSubmit={handleMeetingOverrideSubmit}
+                  onCancel={() => {
+                    setShowMeetingOverrideForm(false);
+                    setEditingMeetingOverride(null);
+                  }}
+                  initialData={editingMeetingOverride || undefined}
+                />
+              </div>
+            )}
+
+            <MeetingScheduleList
+              rules={meetingRules}
+              overrides={meetingOverrides}
+              onEditRule={(rule) => {
+                setEditingMeetingRule({...rule});
+                setShowMeetingRuleForm(true);
+              }}
+              onDeleteRule={handleDeleteMeetingRule}
+              onEditOverride={(override) => {
+                setEditingMeetingOverride({...override});
+                setShowMeetingOverrideForm(true);
+              }}
+              onDeleteOverride={handleDeleteMeetingOverride}
+              eventDays={eventDays}
+              onOpenBookings={handleOpenMeetingBookings}
+            />
+          </div>
+        )}
+
         {/* Settings Tab */}
         {activeTab === 'settings' && (
           <div>
@@ -1968,7 +2552,18 @@ const CMSAdminPage: React.FC = () => {
                             <span className="font-medium text-neutral-700">
                               {setting.setting_key.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}:
                             </span>
-                            <span className="text-neutral-600">{setting.setting_value}</span>
+                            <span className="flex items-center text-neutral-600">
+                              {setting.setting_value}
+                              {!usingDemoData && (
+                                <button
+                                  className="ml-2 p-1 text-neutral-400 hover:text-primary-500 transition-colors"
+                                  onClick={() => setRevisionTarget({ table: 'site_settings', id: setting.id, title: setting.setting_key })}
+                                  title="Revision history"
+                                >
+                                  <History size={14} />
+                                </button>
+                              )}
+                            </span>
                           </div>
                         ))
                       }
@@ -1987,7 +2582,18 @@ const CMSAdminPage: React.FC = () => {
                             <span className="font-medium text-neutral-700">
                               {setting.setting_key.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()).replace('Url', 'URL')}:
                             </span>
-                            <span className="text-neutral-600">{setting.setting_value}</span>
+                            <span className="flex items-center text-neutral-600">
+                              {setting.setting_value}
+                              {!usingDemoData && (
+                                <button
+                                  className="ml-2 p-1 text-neutral-400 hover:text-primary-500 transition-colors"
+                                  onClick={() => setRevisionTarget({ table: 'site_settings', id: setting.id, title: setting.setting_key })}
+                                  title="Revision history"
+                                >
+                                  <History size={14} />
+                                </button>
+                              )}
+                            </span>
                           </div>
                         ))
                       }
@@ -2018,6 +2624,8 @@ const CMSAdminPage: React.FC = () => {
          activeTab !== 'faq' && 
          activeTab !== 'pages' && 
          activeTab !== 'media' && 
+         activeTab !== 'schedule' && 
+         activeTab !== 'meetings' && 
          activeTab !== 'settings' && (
           <div className="text-center py-12 bg-neutral-50 rounded-lg">
             <h3 className="text-lg font-semibold text-primary-600 mb-2">
@@ -2049,12 +2657,33 @@ const CMSAdminPage: React.FC = () => {
       />
 
       <ContentScheduler
+        key={schedulingContent ? `${schedulingContent.table}:${schedulingContent.id}:${showContentScheduler}` : 'none'}
         isOpen={showContentScheduler}
         onClose={() => setShowContentScheduler(false)}
         onSchedule={handleScheduleSubmit}
-        contentTitle={schedulingContent?.full_name || schedulingContent?.title || schedulingContent?.question || 'Content'}
+        initialData={schedulingContent ? formDataFromSchedule(schedules.find(s =>
+          s.content_table === schedulingContent.table && s.content_id === schedulingContent.id
+        )) : undefined}
+        contentTitle={schedulingContent?.title || 'Content'}
       />
 
+      {bookingsEvent && (
+        <EventBookingsPanel
+          key={bookingsEvent.id}
+          event={bookingsEvent}
+          onClose={() => setBookingsEvent(null)}
+        />
+      )}
+
+      {revisionTarget && (
+        <RevisionHistory
+          key={`${revisionTarget.table}:${revisionTarget.id}`}
+          target={revisionTarget}
+          onClose={() => setRevisionTarget(null)}
+          onRestored={handleRevisionRestored}
+        />
+      )}
+
       {/* Confirmation Dialog */}
       <ConfirmDialog
         isOpen={confirmDialog.isOpen}
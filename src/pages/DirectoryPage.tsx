@@ -1,46 +1,130 @@
-import React, { useEffect, useState } from 'react';
-import { Navigate } from 'react-router-dom';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, Navigate, useSearchParams } from 'react-router-dom';
+import { ArrowDown, ArrowUp, Download, Mail, Phone, Printer, Search, X } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { usePagination } from '../hooks/usePagination';
 import { api } from '../lib/api';
-import { MemberProfile } from '../types';
+import { DirectoryQuery, DirectoryRankFilter, DirectorySort, MemberDirectoryEntry } from '../types';
+import { downloadVCards, vCardFilename } from '../utils/vcard';
+import {
+  DEFAULT_DIRECTORY_PAGE_SIZE,
+  DIRECTORY_SORT_LABELS,
+  RANK_FILTER_LABELS,
+  STATUS_FILTER_LABELS,
+  defaultSortAscending,
+  directoryParams,
+  directoryStateFromParams
+} from '../utils/directory';
 import SectionHeading from '../components/SectionHeading';
-import { Search } from 'lucide-react';
+import LoadingSpinner from '../components/LoadingSpinner';
+import PaginationControls from '../components/PaginationControls';
+import Button from '../components/Button';
+
+const SEARCH_DELAY = 300;
+
+const selectClass = 'px-3 py-2 border border-neutral-300 rounded-md text-sm focus:ring-2 focus:ring-secondary-500 focus:border-secondary-500';
 
 const DirectoryPage: React.FC = () => {
-  const { user, needsPasswordReset } = useAuth();
-  const [members, setMembers] = useState<MemberProfile[]>([]);
+  const { user, needsPasswordReset, hasPermission } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Re-parsed only when the URL changes, so effects don't loop
+  const paramString = searchParams.toString();
+  const urlState = useMemo(() => directoryStateFromParams(new URLSearchParams(paramString)), [paramString]);
+  const { query, page, pageSize } = urlState;
+
+  const [pagination, paginationActions] = usePagination({ initialPage: page, initialPageSize: pageSize });
+  // The actions object changes with every page count; these callbacks only change when they must
+  const { setPage, setPageSize, setTotalItems } = paginationActions;
+  const [members, setMembers] = useState<MemberDirectoryEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
+  const [searchInput, setSearchInput] = useState(query.search || '');
+  const [exporting, setExporting] = useState(false);
+
+  const update = useCallback((changes: Partial<DirectoryQuery>, nextPage: number = 1, nextPageSize: number = pageSize, replace = false) => {
+    setSearchParams(
+      directoryParams({ query: { ...query, ...changes }, page: nextPage, pageSize: nextPageSize }),
+      { replace }
+    );
+  }, [query, pageSize, setSearchParams]);
+
+  // Back/forward navigation changes the search under the input
+  useEffect(() => {
+    setSearchInput(query.search || '');
+  }, [query.search]);
+
+  // Typing replaces the current history entry rather than adding one per keystroke
+  useEffect(() => {
+    const search = searchInput.trim() || undefined;
+    if (search === query.search) return;
+
+    const timer = setTimeout(() => update({ search }, 1, pageSize, true), SEARCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [searchInput, query.search, pageSize, update]);
 
+  // The URL is the source of truth; the pagination hook follows it
   useEffect(() => {
+    if (pagination.pageSize !== pageSize) setPageSize(pageSize);
+    if (pagination.currentPage !== page) setPage(page);
+  }, [page, pageSize, pagination.pageSize, pagination.currentPage, setPage, setPageSize]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
     const loadMembers = async () => {
       try {
-        const data = await api.getAllMembers();
-        setMembers(data);
+        setLoading(true);
+        setError(null);
+        const result = await api.getMemberDirectory(query, page, pageSize);
+        if (cancelled) return;
+        setMembers(result.members);
+        setTotalItems(result.total);
       } catch (err) {
+        if (cancelled) return;
         setError(err instanceof Error ? err.message : 'An error occurred');
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
 
     loadMembers();
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [user, query, page, pageSize, setTotalItems]);
 
   if (!user) {
-    return <Navigate to="/login\" replace />;
+    return <Navigate to="/login" replace />;
   }
-  
+
   // Redirect to password reset if needed
   if (needsPasswordReset) {
     return <Navigate to="/password-reset" replace />;
   }
 
-  const filteredMembers = members.filter(member =>
-    member.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    (member.position && member.position.toLowerCase().includes(searchTerm.toLowerCase()))
-  );
+  const sort = query.sort || 'name';
+  const ascending = query.ascending ?? defaultSortAscending(sort);
+  const hasFilters = !!(query.search || query.status || query.rank);
+  // The directory only lists pending and inactive members to those who look after membership
+  const canSeeAllStatuses = hasPermission('manage_members') || hasPermission('approve_members');
+
+  // Exports everyone matching the filters, not just this page
+  const handleExportAll = async () => {
+    try {
+      setExporting(true);
+      const everyone = await api.getFullMemberDirectory(query);
+      downloadVCards(everyone, 'radlett-lodge-directory.vcf');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export the directory');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const printParams = directoryParams({ query, page: 1, pageSize: DEFAULT_DIRECTORY_PAGE_SIZE }).toString();
+
+  const goToPage = (nextPage: number) => update({}, Math.max(1, Math.min(nextPage, pagination.totalPages || 1)));
 
   return (
     <div className="min-h-screen pb-20 bg-white">
@@ -56,41 +140,187 @@ const DirectoryPage: React.FC = () => {
           </div>
         )}
 
-        <div className="max-w-4xl mx-auto">
-          <div className="mb-8 relative">
+        <div className="max-w-5xl mx-auto">
+          <div className="mb-4 relative">
             <input
               type="text"
-              placeholder="Search members..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search by name or position..."
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
               className="w-full px-4 py-2 pl-10 border border-neutral-300 rounded-md focus:ring-2 focus:ring-secondary-500 focus:border-secondary-500"
             />
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-neutral-400" size={20} />
           </div>
 
+          <div className="flex flex-wrap items-center gap-3 mb-8">
+            {canSeeAllStatuses && (
+              <select
+                value={query.status || ''}
+                onChange={(e) => update({ status: (e.target.value || undefined) as DirectoryQuery['status'] })}
+                className={selectClass}
+                title="Status"
+              >
+                <option value="">All statuses</option>
+                {Object.entries(STATUS_FILTER_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            )}
+
+            <select
+              value={query.rank || ''}
+              onChange={(e) => update({ rank: (e.target.value || undefined) as DirectoryRankFilter | undefined })}
+              className={selectClass}
+              title="Rank"
+            >
+              <option value="">All members</option>
+              {Object.entries(RANK_FILTER_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+
+            <div className="flex items-center gap-1 ml-auto">
+              <label htmlFor="directory-sort" className="text-sm text-neutral-600 mr-1">Sort by</label>
+              <select
+                id="directory-sort"
+                value={sort}
+                // A new sort starts in its own natural direction
+                onChange={(e) => update({ sort: e.target.value as DirectorySort, ascending: undefined })}
+                className={selectClass}
+              >
+                {Object.entries(DIRECTORY_SORT_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => update({ ascending: !ascending })}
+                className="p-2 border border-neutral-300 rounded-md text-neutral-600 hover:bg-neutral-50"
+                title={ascending ? 'Ascending' : 'Descending'}
+              >
+                {ascending ? <ArrowUp size={16} /> : <ArrowDown size={16} />}
+              </button>
+            </div>
+
+            {hasFilters && (
+              <button
+                type="button"
+                onClick={() => update({ search: undefined, status: undefined, rank: undefined })}
+                className="text-sm text-secondary-600 hover:text-secondary-700 flex items-center"
+              >
+                <X size={14} className="mr-1" />
+                Clear filters
+              </button>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center justify-end gap-2 mb-4">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleExportAll}
+              disabled={exporting || pagination.totalItems === 0}
+            >
+              <Download size={16} className="mr-2" />
+              {exporting ? 'Exporting...' : 'Export all (.vcf)'}
+            </Button>
+            <Link
+              to={`/members/directory/print${printParams ? `?${printParams}` : ''}`}
+              className="inline-flex items-center px-3 py-1.5 text-sm border border-neutral-300 rounded-md text-primary-600 hover:bg-neutral-50"
+            >
+              <Printer size={16} className="mr-2" />
+              Printable directory
+            </Link>
+          </div>
+
+          <p className="text-xs text-neutral-500 mb-4">
+            Members choose who can see their contact details and ranks.{' '}
+            <Link to="/members/profile" className="text-secondary-600 hover:text-secondary-700">Change yours</Link>
+          </p>
+
           {loading ? (
-            <p className="text-center">Loading...</p>
+            <LoadingSpinner subtle={true} className="py-12" />
+          ) : members.length === 0 ? (
+            <div className="text-center py-12 bg-neutral-50 rounded-lg">
+              <p className="text-neutral-600">
+                {hasFilters ? 'No members match these filters.' : 'No members found.'}
+              </p>
+            </div>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {filteredMembers.map(member => (
+              {members.map(member => (
                 <div key={member.id} className="bg-white rounded-lg p-6 shadow-soft">
-                  <h3 className="font-heading font-semibold text-primary-600">
-                    {member.full_name}
-                  </h3>
+                  <div className="flex items-start justify-between gap-2">
+                    <h3 className="font-heading font-semibold text-primary-600">
+                      {member.full_name}
+                    </h3>
+                    {member.status && member.status !== 'active' && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-neutral-100 text-neutral-600">
+                        {STATUS_FILTER_LABELS[member.status]}
+                      </span>
+                    )}
+                  </div>
                   {member.position && (
                     <p className="text-neutral-600 mt-1">{member.position}</p>
                   )}
+                  {(member.grand_lodge_rank || member.masonic_provincial_rank) && (
+                    <p className="text-sm text-secondary-600 mt-1">
+                      {member.grand_lodge_rank || member.masonic_provincial_rank}
+                    </p>
+                  )}
                   <p className="text-sm text-neutral-500 mt-2">
                     Member since {new Date(member.join_date).getFullYear()}
                   </p>
+                  {(member.contact_email || member.contact_phone) && (
+                    <div className="mt-3 pt-3 border-t border-neutral-100 space-y-1 text-sm">
+                      {member.contact_email && (
+                        <a href={`mailto:${member.contact_email}`} className="flex items-center text-neutral-600 hover:text-secondary-600 break-all">
+                          <Mail size={14} className="mr-2 flex-shrink-0" />
+                          {member.contact_email}
+                        </a>
+                      )}
+                      {member.contact_phone && (
+                        <a href={`tel:${member.contact_phone.replace(/\s/g, '')}`} className="flex items-center text-neutral-600 hover:text-secondary-600">
+                          <Phone size={14} className="mr-2 flex-shrink-0" />
+                          {member.contact_phone}
+                        </a>
+                      )}
+                    </div>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => downloadVCards([member], vCardFilename(member))}
+                    className="mt-3 flex items-center text-xs text-secondary-600 hover:text-secondary-700"
+                  >
+                    <Download size={12} className="mr-1" />
+                    Download vCard
+                  </button>
                 </div>
               ))}
             </div>
           )}
+
+          {pagination.totalItems > 0 && (
+            <PaginationControls
+              currentPage={pagination.currentPage}
+              totalPages={pagination.totalPages}
+              pageSize={pagination.pageSize}
+              totalItems={pagination.totalItems}
+              onPageChange={goToPage}
+              onPageSizeChange={(size) => update({}, 1, size)}
+              canGoNext={paginationActions.canGoNext}
+              canGoPrev={paginationActions.canGoPrev}
+              onFirstPage={() => goToPage(1)}
+              onLastPage={() => goToPage(pagination.totalPages)}
+              onNextPage={() => goToPage(pagination.currentPage + 1)}
+              onPrevPage={() => goToPage(pagination.currentPage - 1)}
+              className="mt-8"
+            />
+          )}
         </div>
       </div>
     </div>
   );
 };
 
-export default DirectoryPage;
\ No newline at end of file
+export default DirectoryPage;
@@ -0,0 +1,147 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, Navigate, useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, Printer } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { api } from '../lib/api';
+import { MemberDirectoryEntry } from '../types';
+import {
+  DEFAULT_DIRECTORY_PAGE_SIZE,
+  RANK_FILTER_LABELS,
+  STATUS_FILTER_LABELS,
+  directoryParams,
+  directoryStateFromParams
+} from '../utils/directory';
+import LoadingSpinner from '../components/LoadingSpinner';
+import Button from '../components/Button';
+
+/**
+ * The member directory laid out for A4 paper. Rendered outside the site layout
+ * so the browser's "Save as PDF" gives a clean document.
+ */
+const DirectoryPrintPage: React.FC = () => {
+  const { user, needsPasswordReset } = useAuth();
+  const [searchParams] = useSearchParams();
+  const paramString = searchParams.toString();
+  const { query } = useMemo(() => directoryStateFromParams(new URLSearchParams(paramString)), [paramString]);
+
+  const [members, setMembers] = useState<MemberDirectoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadMembers = async () => {
+      try {
+        setMembers(await api.getFullMemberDirectory(query));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadMembers();
+  }, [user, query]);
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  if (needsPasswordReset) {
+    return <Navigate to="/password-reset" replace />;
+  }
+
+  const filterSummary = [
+    query.search && `matching "${query.search}"`,
+    query.status && STATUS_FILTER_LABELS[query.status].toLowerCase(),
+    query.rank && RANK_FILTER_LABELS[query.rank].toLowerCase()
+  ].filter(Boolean).join(', ');
+
+  const backParams = directoryParams({ query, page: 1, pageSize: DEFAULT_DIRECTORY_PAGE_SIZE }).toString();
+
+  return (
+    <div className="min-h-screen bg-white text-neutral-900">
+      <div className="print:hidden border-b border-neutral-200 bg-neutral-50">
+        <div className="max-w-5xl mx-auto px-6 py-3 flex items-center justify-between">
+          <Link
+            to={`/members/directory${backParams ? `?${backParams}` : ''}`}
+            className="flex items-center text-sm text-primary-600 hover:text-secondary-600"
+          >
+            <ArrowLeft size={16} className="mr-1" />
+            Back to directory
+          </Link>
+          <Button size="sm" onClick={() => window.print()} disabled={loading || members.length === 0}>
+            <Printer size={16} className="mr-2" />
+            Print or save as PDF
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-6 py-8 print:p-0 print:max-w-none">
+        <header className="mb-6 border-b-2 border-primary-600 pb-3">
+          <h1 className="text-2xl font-heading font-bold text-primary-600">Radlett Lodge No. 6652</h1>
+          <p className="text-neutral-700">
+            Member Directory{filterSummary ? ` (${filterSummary})` : ''}
+          </p>
+          <p className="text-xs text-neutral-500 mt-1">
+            Printed {format(new Date(), 'd MMMM yyyy')}. Private to members of the Lodge; please do not share.
+          </p>
+        </header>
+
+        {error && (
+          <div className="bg-red-50 text-red-600 p-4 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <LoadingSpinner subtle={true} className="py-12" />
+        ) : members.length === 0 ? (
+          <p className="text-neutral-600">No members match these filters.</p>
+        ) : (
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="text-left text-xs uppercase text-neutral-500 border-b border-neutral-300">
+                <th className="py-2 pr-3 font-medium">Name</th>
+                <th className="py-2 pr-3 font-medium">Position and ranks</th>
+                <th className="py-2 pr-3 font-medium">Contact</th>
+                <th className="py-2 font-medium text-right">Joined</th>
+              </tr>
+            </thead>
+            <tbody>
+              {members.map(member => (
+                <tr key={member.id} className="border-b border-neutral-200 align-top break-inside-avoid">
+                  <td className="py-2 pr-3 font-semibold text-primary-600">{member.full_name}</td>
+                  <td className="py-2 pr-3">
+                    {member.position && <div>{member.position}</div>}
+                    {member.masonic_provincial_rank && (
+                      <div className="text-neutral-600">{member.masonic_provincial_rank}</div>
+                    )}
+                    {member.grand_lodge_rank && (
+                      <div className="text-neutral-600">{member.grand_lodge_rank}</div>
+                    )}
+                  </td>
+                  <td className="py-2 pr-3 break-all">
+                    {member.contact_email && <div>{member.contact_email}</div>}
+                    {member.contact_phone && <div>{member.contact_phone}</div>}
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    {new Date(member.join_date).getFullYear()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <p className="text-xs text-neutral-500 mt-6">
+          {members.length} {members.length === 1 ? 'member' : 'members'}. Contact details and ranks appear only where members have chosen to share them.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default DirectoryPrintPage;
@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { Calendar as CalendarIcon, Filter } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Calendar as CalendarIcon, CalendarPlus, Filter } from 'lucide-react';
 import Calendar from 'react-calendar';
 import HeroSection from '../components/HeroSection';
 import SectionHeading from '../components/SectionHeading';
@@ -7,7 +7,12 @@ import EventCard from '../components/EventCard';
 import EventDetailsModal from '../components/EventDetailsModal';
 import Button from '../components/Button';
 import LoadingSpinner from '../components/LoadingSpinner';
-import { optimizedApi as cmsApi } from '../lib/optimizedApi';
+import { cmsApi } from '../lib/cmsApi';
+import { CACHE_KEYS } from '../lib/dataCache';
+import { useCacheRefresh } from '../hooks/useCacheRefresh';
+import { getCalendarFeedUrl, toWebcalUrl } from '../lib/calendarFeed';
+import { useMeetingSchedule } from '../hooks/useMeetingSchedule';
+import { getLodgeMeetingsForYear, isLodgeMeetingDay, toMeetingDateKey } from '../utils/lodgeMeetings';
 import { CMSEvent, Event } from '../types';
 import 'react-calendar/dist/Calendar.css';
 
@@ -22,14 +27,17 @@ const EventsPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
   const [showModal, setShowModal] = useState(false);
+  const { schedule } = useMeetingSchedule();
+  // Re-read when an admin edits events, here or in another tab (no spinner - the cache answers instantly)
+  const refreshKey = useCacheRefresh([CACHE_KEYS.EVENTS]);
   
   useEffect(() => {
     const loadEvents = async () => {
       try {
-        setLoading(true);
         setError(null);
         const eventsData = await cmsApi.getEvents();
-        setEvents(eventsData);
+        // Event managers can read drafts too; they don't belong on the public page
+        setEvents(eventsData.filter(event => event.is_published));
       } catch (err) {
         console.error('Error loading events:', err);
         setError('Failed to load events. Please try again later.');
@@ -40,7 +48,7 @@ const EventsPage: React.FC = () => {
     };
 
     loadEvents();
-  }, []);
+  }, [refreshKey]);
 
   // Convert CMS event to component format
   const convertEventData = (cmsEvent: CMSEvent) => ({
@@ -49,11 +57,33 @@ const EventsPage: React.FC = () => {
     date: new Date(cmsEvent.event_date),
     description: cmsEvent.description,
     location: cmsEvent.location,
-    isMembers: cmsEvent.is_members_only
+    isMembers: cmsEvent.is_members_only,
+    bookingsEnabled: cmsEvent.bookings_enabled,
+    bookingCutoff: cmsEvent.booking_cutoff || undefined
   });
   
+  // Upcoming regular meetings from the meeting rules, unless the CMS already has an event that day
+  const lodgeMeetingEvents = useMemo<CMSEvent[]>(() => {
+    const now = new Date();
+    const eventDays = new Set(events.map(event => toMeetingDateKey(new Date(event.event_date))));
+    return [now.getFullYear(), now.getFullYear() + 1]
+      .flatMap(year => getLodgeMeetingsForYear(year, schedule))
+      .filter(meeting => meeting.date > now && !eventDays.has(toMeetingDateKey(meeting.date)))
+      .map(meeting => ({
+        id: `lodge-meeting-${toMeetingDateKey(meeting.date)}`,
+        title: meeting.title,
+        description: meeting.description,
+        event_date: meeting.date.toISOString(),
+        location: meeting.location,
+        is_members_only: false,
+        is_past_event: false,
+        created_at: '',
+        updated_at: ''
+      }));
+  }, [events, schedule]);
+  
   // Filter events based on selections
-  const filteredEvents = events.filter(event => {
+  const filteredEvents = [...events, ...lodgeMeetingEvents].filter(event => {
     // Filter by public/members
     if (showPublicOnly && event.is_members_only) {
       return false;
@@ -169,12 +199,34 @@ const EventsPage: React.FC = () => {
                           date.getDate() === eventDate.getDate() &&
                           date.getMonth() === eventDate.getMonth() &&
                           date.getFullYear() === eventDate.getFullYear()
-                        ) ? 'has-event' : null
+                        ) || isLodgeMeetingDay(date, schedule) ? 'has-event' : null
                       }
                       className="border-0 shadow-none"
                     />
                   </div>
                 </div>
+
+                <div className="mt-6 pt-6 border-t border-neutral-200">
+                  <h3 className="text-xl font-heading font-semibold text-primary-600 mb-3 flex items-center">
+                    <CalendarPlus size={20} className="mr-2 text-secondary-500" />
+                    Subscribe
+                  </h3>
+                  <p className="text-sm text-neutral-600 mb-4">
+                    Add all Lodge meetings and public events to your phone or computer calendar. It updates automatically.
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      window.location.href = toWebcalUrl(getCalendarFeedUrl());
+                    }}
+                  >
+                    Subscribe to Calendar
+                  </Button>
+                  <p className="text-xs text-neutral-500 mt-3">
+                    Members can find a personal feed that includes members-only events on their Profile page.
+                  </p>
+                </div>
               </div>
             </div>
             
@@ -17,8 +17,11 @@ import EventDetailsModal from '../components/EventDetailsModal';
 import NewsCard from '../components/NewsCard';
 import TestimonialCard from '../components/TestimonialCard';
 import StatsSection from '../components/StatsSection';
+import CharityWorkSection from '../components/CharityWorkSection';
 import CountdownTimer from '../components/CountdownTimer';
 import { cmsApi } from '../lib/cmsApi';
+import { CACHE_KEYS } from '../lib/dataCache';
+import { useCacheRefresh } from '../hooks/useCacheRefresh';
 import {
   CMSEvent,
   CMSNewsArticle,
@@ -35,11 +38,11 @@ const HomePage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
   const [showModal, setShowModal] = useState(false);
+  const refreshKey = useCacheRefresh([CACHE_KEYS.EVENTS, CACHE_KEYS.BLOG_POSTS, CACHE_KEYS.TESTIMONIALS]);
 
   useEffect(() => {
     const loadHomePageData = async () => {
       try {
-        setDataLoading(true);
         setError(null);
 
         const [eventsData, newsData, testimonialsData, latestSnippetData] =
@@ -54,7 +57,7 @@ const HomePage: React.FC = () => {
         const upcomingEvents = eventsData
           .filter(
             (event) =>
-              new Date(event.event_date) > now && !event.is_past_event
+              event.is_published && new Date(event.event_date) > now && !event.is_past_event
           )
           .sort(
             (a, b) =>
@@ -93,7 +96,7 @@ const HomePage: React.FC = () => {
     };
 
     loadHomePageData();
-  }, []);
+  }, [refreshKey]);
 
   const convertEventData = (cmsEvent: CMSEvent) => ({
     id: cmsEvent.id,
@@ -101,7 +104,9 @@ const HomePage: React.FC = () => {
     date: new Date(cmsEvent.event_date),
     description: cmsEvent.description,
     location: cmsEvent.location,
-    isMembers: cmsEvent.is_members_only
+    isMembers: cmsEvent.is_members_only,
+    bookingsEnabled: cmsEvent.bookings_enabled,
+    bookingCutoff: cmsEvent.booking_cutoff || undefined
   });
 
   const convertNewsData = (cmsNews: CMSNewsArticle) => ({
@@ -321,8 +326,9 @@ const HomePage: React.FC = () => {
         </div>
       </section>
 
-      {/* Stats, Countdown, Snippets, Events, News, Testimonials, CTA */}
+      {/* Stats, Charity, Countdown, Snippets, Events, News, Testimonials, CTA */}
       <StatsSection />
+      <CharityWorkSection />
       <CountdownTimer useSchedule={true} />
 
       {latestSnippet && (
@@ -6,6 +6,7 @@ import SectionHeading from '../components/SectionHeading';
 import Button from '../components/Button';
 import FaqItem from '../components/FaqItem';
 import LoadingSpinner from '../components/LoadingSpinner';
+import MembershipApplicationForm from '../components/MembershipApplicationForm';
 import { cmsApi } from '../lib/cmsApi';
 import { CMSFAQItem } from '../types';
 import { HelpCircle } from 'lucide-react';
@@ -116,7 +117,7 @@ const JoinPage: React.FC = () => {
               <div className="absolute -top-4 -left-4 w-10 h-10 bg-secondary-500 rounded-full flex items-center justify-center text-neutral-900 font-bold">1</div>
               <h3 className="text-xl font-heading font-semibold text-primary-600 mt-2 mb-3">Initial Contact</h3>
               <p className="text-neutral-600">
-                Express your interest through our website or by contacting a current member. We'll arrange an informal meeting to discuss your interest in Freemasonry.
+                Send us an enquiry using the form below or speak to a current member. We'll arrange an informal meeting to discuss your interest in Freemasonry.
               </p>
             </div>
             
@@ -162,11 +163,26 @@ const JoinPage: React.FC = () => {
           </div>
           
           <div className="text-center mt-12">
-            <Link to="/contact">
+            <a href="#apply">
               <Button variant="primary" size="lg">
-                Inquire About Membership
+                Start Your Enquiry
               </Button>
-            </Link>
+            </a>
+          </div>
+        </div>
+      </section>
+
+      {/* Online Enquiry */}
+      <section id="apply" className="py-20 bg-neutral-50 scroll-mt-32">
+        <div className="container mx-auto px-4 md:px-6">
+          <SectionHeading
+            title="Enquire About Membership"
+            subtitle="Tell us a little about yourself. We'll be in touch to arrange an informal meeting, and email you as your application moves through each step."
+            centered
+          />
+
+          <div className="max-w-3xl mx-auto mt-12 bg-white rounded-lg shadow-medium p-6 md:p-8">
+            <MembershipApplicationForm />
           </div>
         </div>
       </section>
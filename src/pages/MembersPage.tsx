@@ -1,8 +1,9 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { optimizedApi as api } from '../lib/optimizedApi';
-import { LodgeDocument, MeetingMinutes, MemberProfile } from '../types';
+import { api } from '../lib/api';
+import { cmsApi } from '../lib/cmsApi';
+import { DocumentVersion, LodgeDocument, MeetingMinutes, MemberProfile } from '../types';
 import Button from '../components/Button';
 import LoadingSpinner from '../components/LoadingSpinner';
 import VirtualizedList from '../components/VirtualizedList';
@@ -12,7 +13,12 @@ import ProfileSummaryCard from '../components/dashboard/ProfileSummaryCard';
 import RecentUpdatesCard from '../components/dashboard/RecentUpdatesCard';
 import RecentDocumentsCard from '../components/dashboard/RecentDocumentsCard';
 import QuickActionsCard from '../components/dashboard/QuickActionsCard';
-import { FileText, Clock, Users, AlertTriangle, BookOpen, ScrollText, Archive, LogOut, Search, Filter, X, ExternalLink } from 'lucide-react';
+import CandidateSponsorsCard from '../components/dashboard/CandidateSponsorsCard';
+import MinutesDetailModal from '../components/MinutesDetailModal';
+import DocumentViewerModal, { ViewerDocument } from '../components/DocumentViewerModal';
+import { ADMIN_PAGE_PERMISSIONS, CMS_PAGE_PERMISSIONS } from '../utils/permissions';
+import { hasNewerVersion, readVersions, versionLabel, versionsByDocument } from '../utils/documents';
+import { FileText, Clock, Users, AlertTriangle, BookOpen, ScrollText, Archive, LogOut, Search, Filter, X, Eye } from 'lucide-react';
 
 // Document categories with their display information
 const DOCUMENT_CATEGORIES = [
@@ -35,11 +41,16 @@ const DOCUMENT_CATEGORIES = [
 
 const MembersPage: React.FC = () => {
   const navigate = useNavigate();
-  const { user, isAdmin, signOut, profile: userProfile, loading: authLoading, needsPasswordReset } = useAuth();
+  const { user, signOut, profile: userProfile, loading: authLoading, needsPasswordReset, hasAnyPermission } = useAuth();
   
   // Basic state
   const [allDocuments, setAllDocuments] = useState<LodgeDocument[]>([]);
   const [minutes, setMinutes] = useState<MeetingMinutes[]>([]);
+  const [selectedMinute, setSelectedMinute] = useState<MeetingMinutes | null>(null);
+  const [viewingDocument, setViewingDocument] = useState<ViewerDocument | null>(null);
+  const [documentVersions, setDocumentVersions] = useState<Record<string, DocumentVersion[]>>({});
+  const [readVersionByDocument, setReadVersionByDocument] = useState<Record<string, number>>({});
+  const [chosenVersions, setChosenVersions] = useState<Record<string, string>>({});
   const [dataLoading, setDataLoading] = useState(true);
   const [isSigningOut, setIsSigningOut] = useState(false);
   const [pageContent, setPageContent] = useState<Record<string, string>>({});
@@ -94,7 +105,7 @@ const MembersPage: React.FC = () => {
         // Load page content (optional)
         try {
           console.log('📄 MembersPage: Loading page content...');
-          const content = await api.getPageContent('members');
+          const content = await cmsApi.getPageContent('members');
           const contentMap: Record<string, string> = {};
           content.forEach(item => {
             contentMap[item.section_name] = item.content;
@@ -111,14 +122,27 @@ const MembersPage: React.FC = () => {
         // Load only essential data initially - use smaller limits for faster loading
         const [documentsData, minutesData] = await Promise.all([
           api.getLodgeDocumentsPaginated(1, 50), // Load first 50 documents only
-          api.getMeetingMinutes()
+          api.getConfirmedMinutes()
         ]);
         
         const dataLoadTime = Date.now() - dataStartTime;
         console.log(`📊 MembersPage: Data loaded in ${dataLoadTime}ms`);
 
-        setAllDocuments(documentsData.documents || []);
+        const documents = documentsData.documents || [];
+        setAllDocuments(documents);
         setMinutes(minutesData);
+
+        // Earlier versions and what this member has already opened; the page works without them
+        try {
+          const [versionsData, readsData] = await Promise.all([
+            api.getDocumentVersions(documents.filter(doc => doc.version_number > 1).map(doc => doc.id)),
+            api.getMyDocumentReads(user.id)
+          ]);
+          setDocumentVersions(versionsByDocument(versionsData));
+          setReadVersionByDocument(readVersions(readsData));
+        } catch (versionError) {
+          console.warn('Could not load document versions:', versionError);
+        }
         
         console.log('📊 MembersPage: Documents loaded:', documentsData.documents?.length || 0);
         console.log('📊 MembersPage: Minutes loaded:', minutesData.length);
@@ -236,10 +260,29 @@ const MembersPage: React.FC = () => {
     setCurrentPage(1);
   };
 
+  // Shows the chosen version (the latest unless another is picked) in the viewer and remembers it was seen
+  const openDocument = (doc: LodgeDocument) => {
+    const version = (documentVersions[doc.id] || []).find(v => v.id === chosenVersions[doc.id]);
+    const versionNumber = version?.version_number || doc.version_number || 1;
+    setViewingDocument({
+      title: version && version.version_number !== doc.version_number ? `${doc.title} (${versionLabel(version)})` : doc.title,
+      url: version?.url || doc.url
+    });
+
+    if (user && versionNumber > (readVersionByDocument[doc.id] || 0)) {
+      setReadVersionByDocument(prev => ({ ...prev, [doc.id]: versionNumber }));
+      api.recordDocumentRead(user.id, doc.id, versionNumber)
+        .catch(err => console.warn('Could not record document read:', err));
+    }
+  };
+
+  const closeDocumentViewer = useCallback(() => setViewingDocument(null), []);
+
   // Document row renderer for virtualized list
   const DocumentRow = ({ index, style, data }: { index: number; style: React.CSSProperties; data: (LodgeDocument | MeetingMinutes)[] }) => {
     const doc = data[index];
     const isMinute = 'meeting_date' in doc;
+    const versions = isMinute ? [] : documentVersions[doc.id] || [];
     
     return (
       <div style={style} className="px-4">
@@ -270,20 +313,52 @@ const MembersPage: React.FC = () => {
                   <span className="text-xs text-neutral-500 ml-4">
                     Added {new Date(doc.created_at).toLocaleDateString('en-GB')}
                   </span>
+                  {hasNewerVersion(doc, readVersionByDocument[doc.id]) && (
+                    <span
+                      className="text-xs font-medium bg-secondary-100 text-secondary-700 px-2 py-1 rounded ml-4"
+                      title={versions[0]?.change_note || undefined}
+                    >
+                      New version available
+                    </span>
+                  )}
                 </div>
               </>
             )}
           </div>
           <div className="flex items-center space-x-2 ml-4">
-            <a
-              href={isMinute ? (doc as any).document_url || '#' : doc.url}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="p-2 text-neutral-500 hover:text-primary-600 transition-colors"
-              title={isMinute ? "View meeting minutes" : "Open document"}
-            >
-              <ExternalLink size={18} />
-            </a>
+            {isMinute ? (
+              <button
+                onClick={() => setSelectedMinute(doc)}
+                className="p-2 text-neutral-500 hover:text-primary-600 transition-colors"
+                title="View meeting minutes"
+              >
+                <Eye size={18} />
+              </button>
+            ) : (
+              <>
+                {versions.length > 1 && (
+                  <select
+                    value={chosenVersions[doc.id] || doc.current_version_id || versions[0].id}
+                    onChange={e => setChosenVersions(prev => ({ ...prev, [doc.id]: e.target.value }))}
+                    className="text-xs border border-neutral-300 rounded-md px-2 py-1 max-w-[180px]"
+                    title={versions.find(v => v.id === chosenVersions[doc.id])?.change_note || 'Choose a version'}
+                  >
+                    {versions.map(version => (
+                      <option key={version.id} value={version.id}>
+                        {versionLabel(version)}{version.version_number === doc.version_number ? ' (latest)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  onClick={() => openDocument(doc)}
+                  className="p-2 text-neutral-500 hover:text-primary-600 transition-colors"
+                  title="View document"
+                >
+                  <Eye size={18} />
+                </button>
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -428,13 +503,19 @@ const MembersPage: React.FC = () => {
               {/* Recent Documents Card */}
               <RecentDocumentsCard 
                 documents={allDocuments}
+                onOpenDocument={openDocument}
                 onViewAllDocuments={() => setSelectedCategories(['grand_lodge', 'provincial', 'summons', 'resources'])}
               />
               
+              {user && (
+                <CandidateSponsorsCard userId={user.id} className="md:col-span-2 lg:col-span-3" />
+              )}
+
               {/* Quick Actions Card - spans full width on mobile, single column on larger screens */}
               <div className="md:col-span-2 lg:col-span-3">
                 <QuickActionsCard 
-                  isAdmin={isAdmin || userProfile?.role === 'admin'}
+                  canUseAdmin={hasAnyPermission(ADMIN_PAGE_PERMISSIONS)}
+                  canUseCms={hasAnyPermission(CMS_PAGE_PERMISSIONS)}
                   onSelectMinutes={() => setSelectedCategories(['minutes'])}
                 />
               </div>
@@ -471,6 +552,14 @@ const MembersPage: React.FC = () => {
                     />
                     <Search className="absolute right-3 top-1/2 transform -translate-y-1/2 text-neutral-400" size={20} />
                   </div>
+                  {searchTerm.trim() && (
+                    <Link
+                      to={`/search?q=${encodeURIComponent(searchTerm.trim())}`}
+                      className="inline-block mt-2 text-sm text-secondary-600 hover:text-secondary-700"
+                    >
+                      Search inside every document, the minutes and blog posts &rarr;
+                    </Link>
+                  )}
                 </div>
               )}
 
@@ -547,6 +636,9 @@ const MembersPage: React.FC = () => {
           </div>
         </div>
       </div>
+
+      <MinutesDetailModal minute={selectedMinute} onClose={() => setSelectedMinute(null)} />
+      <DocumentViewerModal document={viewingDocument} onClose={closeDocumentViewer} />
     </div>
   );
 };
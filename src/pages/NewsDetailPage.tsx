@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { Calendar, ArrowLeft, BookOpen } from 'lucide-react';
 import { format } from 'date-fns';
-import { optimizedApi as cmsApi } from '../lib/optimizedApi';
+import { cmsApi } from '../lib/cmsApi';
 import { CMSBlogPost } from '../types';
 import Button from '../components/Button';
 import LoadingSpinner from '../components/LoadingSpinner';
@@ -4,7 +4,9 @@ import HeroSection from '../components/HeroSection';
 import SectionHeading from '../components/SectionHeading';
 import NewsCard from '../components/NewsCard';
 import LoadingSpinner from '../components/LoadingSpinner';
-import { optimizedApi as cmsApi } from '../lib/optimizedApi';
+import { cmsApi } from '../lib/cmsApi';
+import { CACHE_KEYS } from '../lib/dataCache';
+import { useCacheRefresh } from '../hooks/useCacheRefresh';
 import { CMSNewsArticle } from '../types';
 
 const NewsPage: React.FC = () => {
@@ -12,11 +14,11 @@ const NewsPage: React.FC = () => {
   const [news, setNews] = useState<CMSBlogPost[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const refreshKey = useCacheRefresh([CACHE_KEYS.BLOG_POSTS]);
 
   useEffect(() => {
     const loadNews = async () => {
       try {
-        setLoading(true);
         setError(null);
         const newsData = await cmsApi.getNewsArticles();
         console.log('🔍 NewsPage: Raw news data from API:', newsData);
@@ -36,7 +38,7 @@ const NewsPage: React.FC = () => {
     };
 
     loadNews();
-  }, []);
+  }, [refreshKey]);
 
   // Convert CMS news to component format
   const convertNewsData = (cmsNews: CMSBlogPost) => ({
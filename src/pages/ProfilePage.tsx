@@ -3,9 +3,13 @@ import { Navigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { api } from '../lib/api';
 import { MemberProfile } from '../types';
+import { isOfficeHolder, roleLabel } from '../utils/permissions';
 import ProfileForm from '../components/ProfileForm';
 import SectionHeading from '../components/SectionHeading';
 import LoadingSpinner from '../components/LoadingSpinner';
+import CalendarSubscriptionCard from '../components/CalendarSubscriptionCard';
+import AttendanceHistoryCard from '../components/AttendanceHistoryCard';
+import MySubscriptionsCard from '../components/MySubscriptionsCard';
 import { User, Shield, Calendar, Award, AlertTriangle } from 'lucide-react';
 
 const ProfilePage: React.FC = () => {
@@ -150,11 +154,11 @@ const ProfilePage: React.FC = () => {
                   <p className="text-neutral-600 mt-1">{profile.position}</p>
                 )}
                 <span className={`inline-block mt-3 text-xs font-medium px-3 py-1 rounded-full ${
-                  profile?.role === 'admin' 
+                  isOfficeHolder(profile?.role)
                     ? 'bg-secondary-100 text-secondary-700 border border-secondary-200' 
                     : 'bg-neutral-100 text-neutral-600 border border-neutral-200'
                 }`}>
-                  {profile?.role === 'admin' ? 'Administrator' : 'Member'}
+                  {roleLabel(profile?.role)}
                 </span>
               </div>
 
@@ -205,6 +209,10 @@ const ProfilePage: React.FC = () => {
                 should reflect your current Masonic rank or office within the Lodge.
               </p>
             </div>
+
+            <AttendanceHistoryCard userId={user.id} joinDate={profile?.join_date} />
+
+            <CalendarSubscriptionCard userId={user.id} />
           </div>
 
           {/* Profile Form */}
@@ -223,6 +231,8 @@ const ProfilePage: React.FC = () => {
               )}
             </div>
 
+            <MySubscriptionsCard userId={user.id} />
+
             {/* Masonic Positions Reference */}
             <div className="bg-white rounded-lg p-6 shadow-soft mt-6">
               <h4 className="text-lg font-heading font-semibold text-primary-600 mb-4">
@@ -0,0 +1,331 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { BookOpen, Calendar, Clock, ExternalLink, FileText, Lock, Search, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { api } from '../lib/api';
+import { SearchContentType, SearchFacets, SearchFilters, SearchResult } from '../types';
+import {
+  SEARCH_TYPE_LABELS,
+  searchCategoryLabel,
+  searchFiltersFromParams,
+  searchParamsFromState,
+  searchResultLink,
+  splitSnippet
+} from '../utils/search';
+import SectionHeading from '../components/SectionHeading';
+import LoadingSpinner from '../components/LoadingSpinner';
+import Button from '../components/Button';
+import DocumentLink from '../components/DocumentLink';
+
+const PAGE_SIZE = 20;
+
+const typeIcons: Record<SearchContentType, React.ElementType> = {
+  document: FileText,
+  minutes: Clock,
+  blog: BookOpen
+};
+
+const emptyFacets: SearchFacets = { type: {}, category: {}, year: {} };
+
+const SearchPage: React.FC = () => {
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') || '';
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+  // Re-parsed only when the URL changes, so effects don't loop
+  const paramString = searchParams.toString();
+  const filters = useMemo(() => searchFiltersFromParams(new URLSearchParams(paramString)), [paramString]);
+
+  const [input, setInput] = useState(query);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [facets, setFacets] = useState<SearchFacets>(emptyFacets);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Back/forward navigation changes the query under the input
+  useEffect(() => {
+    setInput(query);
+  }, [query]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      setTotal(0);
+      setFacets(emptyFacets);
+      return;
+    }
+
+    let cancelled = false;
+    const runSearch = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const [found, counts] = await Promise.all([
+          api.searchContent(query, filters, page, PAGE_SIZE),
+          api.getSearchFacets(query, filters)
+        ]);
+        if (cancelled) return;
+        setResults(found.results);
+        setTotal(found.total);
+        setFacets(counts);
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Search failed:', err);
+        setError(err instanceof Error ? err.message : 'Search failed. Please try again.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    runSearch();
+    return () => {
+      cancelled = true;
+    };
+  }, [query, filters, page]);
+
+  // Any change of filters starts again from the first page
+  const update = (nextFilters: SearchFilters, nextQuery: string = query, nextPage: number = 1) => {
+    setSearchParams(searchParamsFromState(nextQuery, nextFilters, nextPage));
+  };
+
+  const toggle = <T extends string>(values: T[] | undefined, value: T): T[] =>
+    values?.includes(value) ? values.filter(v => v !== value) : [...(values || []), value];
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    update(filters, input.trim());
+  };
+
+  const selectYear = (year: string) => {
+    const selected = filters.from === `${year}-01-01` && filters.to === `${year}-12-31`;
+    update({ ...filters, from: selected ? undefined : `${year}-01-01`, to: selected ? undefined : `${year}-12-31` });
+  };
+
+  const hasFilters = !!(filters.types?.length || filters.categories?.length || filters.from || filters.to);
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const renderFacet = (
+    title: string,
+    counts: Record<string, number>,
+    label: (value: string) => string,
+    isSelected: (value: string) => boolean,
+    onSelect: (value: string) => void,
+    sort: (a: [string, number], b: [string, number]) => number = (a, b) => b[1] - a[1]
+  ) => {
+    const entries = Object.entries(counts).sort(sort);
+    if (entries.length === 0) return null;
+
+    return (
+      <div className="mb-6">
+        <h3 className="text-xs font-medium text-neutral-500 uppercase mb-2">{title}</h3>
+        <ul className="space-y-1">
+          {entries.map(([value, count]) => (
+            <li key={value}>
+              <label className="flex items-center justify-between text-sm text-neutral-700 cursor-pointer">
+                <span className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={isSelected(value)}
+                    onChange={() => onSelect(value)}
+                    className="mr-2"
+                  />
+                  {label(value)}
+                </span>
+                <span className="text-neutral-400">{count}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  const renderResult = (result: SearchResult) => {
+    const Icon = typeIcons[result.content_type];
+    const link = searchResultLink(result);
+    const title = <span className="font-medium text-primary-600 hover:text-secondary-600">{result.title}</span>;
+
+    return (
+      <li key={`${result.content_type}-${result.id}`} className="py-5">
+        <div className="flex items-center gap-2 text-xs text-neutral-500 mb-1">
+          <Icon size={14} />
+          <span>{SEARCH_TYPE_LABELS[result.content_type]}</span>
+          <span>•</span>
+          <span>{searchCategoryLabel(result.category)}</span>
+          {result.content_date && (
+            <>
+              <span>•</span>
+              <span>{format(new Date(result.content_date), 'd MMM yyyy')}</span>
+            </>
+          )}
+          {result.content_type === 'blog' && result.is_members_only && (
+            <span className="flex items-center text-secondary-600">
+              <Lock size={12} className="mr-1" />
+              Members only
+            </span>
+          )}
+        </div>
+
+        {link ? (
+          link.external ? (
+            <DocumentLink url={link.href} className="inline-flex items-center">
+              {title}
+              <ExternalLink size={14} className="ml-1 text-neutral-400" />
+            </DocumentLink>
+          ) : (
+            <Link to={link.href}>{title}</Link>
+          )
+        ) : (
+          <span className="font-medium text-primary-600">{result.title}</span>
+        )}
+
+        <p className="text-sm text-neutral-600 mt-1 leading-relaxed">
+          {splitSnippet(result.snippet).map((part, index) =>
+            part.highlighted ? (
+              <mark key={index} className="bg-secondary-100 text-primary-700 rounded px-0.5">{part.text}</mark>
+            ) : (
+              <React.Fragment key={index}>{part.text}</React.Fragment>
+            )
+          )}
+        </p>
+      </li>
+    );
+  };
+
+  return (
+    <div className="min-h-screen pt-32 pb-20 bg-white">
+      <div className="container mx-auto px-4 md:px-6">
+        <SectionHeading
+          title="Search"
+          subtitle={user
+            ? 'Search Lodge documents, meeting minutes and blog posts'
+            : 'Search our news and blog posts. Members can sign in to search documents and minutes too.'}
+        />
+
+        <form onSubmit={handleSubmit} className="max-w-3xl mb-8 flex gap-2">
+          <div className="relative flex-grow">
+            <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-neutral-400" />
+            <input
+              type="search"
+              value={input}
+              onChange={e => setInput(e.target.value)}
+              placeholder='Try "festive board" or installation -summons'
+              className="w-full pl-10 pr-4 py-3 border border-neutral-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+              autoFocus
+            />
+          </div>
+          <Button type="submit">Search</Button>
+        </form>
+
+        {query && (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+            <aside className="lg:col-span-1">
+              {renderFacet(
+                'Type',
+                facets.type,
+                value => SEARCH_TYPE_LABELS[value as SearchContentType] || value,
+                value => !!filters.types?.includes(value as SearchContentType),
+                value => update({ ...filters, types: toggle(filters.types, value as SearchContentType) })
+              )}
+              {renderFacet(
+                'Category',
+                facets.category,
+                searchCategoryLabel,
+                value => !!filters.categories?.includes(value),
+                value => update({ ...filters, categories: toggle(filters.categories, value) })
+              )}
+              {renderFacet(
+                'Year',
+                facets.year,
+                value => value,
+                value => filters.from === `${value}-01-01` && filters.to === `${value}-12-31`,
+                selectYear,
+                (a, b) => b[0].localeCompare(a[0])
+              )}
+
+              <div className="mb-6">
+                <h3 className="text-xs font-medium text-neutral-500 uppercase mb-2 flex items-center">
+                  <Calendar size={12} className="mr-1" />
+                  Date range
+                </h3>
+                <div className="space-y-2">
+                  <input
+                    type="date"
+                    value={filters.from || ''}
+                    onChange={e => update({ ...filters, from: e.target.value || undefined })}
+                    className="w-full px-3 py-2 border border-neutral-300 rounded-md text-sm"
+                    title="From"
+                  />
+                  <input
+                    type="date"
+                    value={filters.to || ''}
+                    onChange={e => update({ ...filters, to: e.target.value || undefined })}
+                    className="w-full px-3 py-2 border border-neutral-300 rounded-md text-sm"
+                    title="To"
+                  />
+                </div>
+              </div>
+
+              {hasFilters && (
+                <button
+                  onClick={() => update({})}
+                  className="text-sm text-secondary-600 hover:text-secondary-700 flex items-center"
+                >
+                  <X size={14} className="mr-1" />
+                  Clear filters
+                </button>
+              )}
+            </aside>
+
+            <div className="lg:col-span-3">
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3 mb-4">
+                  {error}
+                </div>
+              )}
+
+              {loading ? (
+                <LoadingSpinner subtle={true} className="py-12" />
+              ) : results.length === 0 ? (
+                <div className="text-center py-12 bg-neutral-50 rounded-lg">
+                  <p className="text-neutral-600">
+                    No results for "{query}"{hasFilters ? ' with these filters' : ''}.
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <p className="text-sm text-neutral-500 mb-2">
+                    {total} {total === 1 ? 'result' : 'results'} for "{query}"
+                  </p>
+                  <ul className="divide-y divide-neutral-100">
+                    {results.map(renderResult)}
+                  </ul>
+                </>
+              )}
+
+              {totalPages > 1 && (
+                <div className="flex items-center justify-between mt-6">
+                  <p className="text-sm text-neutral-600">
+                    Page {page} of {totalPages}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => update(filters, query, page - 1)} disabled={page <= 1 || loading}>
+                      Previous
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => update(filters, query, page + 1)} disabled={page >= totalPages || loading}>
+                      Next
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SearchPage;
@@ -5,7 +5,7 @@ import SectionHeading from '../components/SectionHeading';
 import LoadingSpinner from '../components/LoadingSpinner';
 import Button from '../components/Button';
 import SEOHead from '../components/SEOHead';
-import { optimizedApi as api } from '../lib/optimizedApi';
+import { cmsApi } from '../lib/cmsApi';
 import { CMSBlogPost } from '../types';
 
 const SnippetsPage: React.FC = () => {
@@ -19,7 +19,7 @@ const SnippetsPage: React.FC = () => {
         setLoading(true);
         setError(null);
 
-        const snippetsData = await api.getSnippets();
+        const snippetsData = await cmsApi.getSnippets();
 
         const now = new Date();
         const publishedSnippets = (snippetsData || [])
@@ -5,6 +5,8 @@ export interface Event {
   description: string;
   location: string;
   isMembers?: boolean;
+  bookingsEnabled?: boolean;
+  bookingCutoff?: string | null;
 }
 
 export interface BlogItem {
@@ -35,12 +37,30 @@ export interface FAQ {
   answer: string;
 }
 
+export type MemberRole = 'member' | 'admin' | 'secretary' | 'treasurer' | 'almoner' | 'webmaster' | 'editor';
+
+// Mirrors the permissions table; admins hold all of them
+export type Permission =
+  | 'approve_members'
+  | 'manage_members'
+  | 'manage_documents'
+  | 'edit_minutes'
+  | 'manage_events'
+  | 'publish_content'
+  | 'manage_site'
+  | 'view_audit_log'
+  | 'manage_finances'
+  | 'manage_charity'
+  | 'manage_enquiries';
+
+export type FieldVisibility = 'lodge' | 'officers' | 'nobody';
+
 export interface MemberProfile {
   id: string;
   user_id: string;
   full_name: string;
   position?: string;
-  role: 'member' | 'admin';
+  role: MemberRole;
   join_date: string;
   created_at: string;
   updated_at: string;
@@ -54,27 +74,220 @@ export interface MemberProfile {
   contact_phone?: string;
   masonic_provincial_rank?: string;
   grand_lodge_rank?: string;
+  // Who else sees each field in the member directory
+  contact_email_visibility?: FieldVisibility;
+  contact_phone_visibility?: FieldVisibility;
+  provincial_rank_visibility?: FieldVisibility;
+  grand_lodge_rank_visibility?: FieldVisibility;
   needs_password_reset?: boolean;
 }
 
+// A row of the member_directory view. Fields the owner has hidden from the viewer are null.
+export interface MemberDirectoryEntry extends Pick<
+  MemberProfile,
+  'id' | 'user_id' | 'full_name' | 'position' | 'role' | 'status' | 'join_date' |
+  'contact_email' | 'contact_phone' | 'masonic_provincial_rank' | 'grand_lodge_rank' |
+  'created_at' | 'updated_at'
+> {
+  // 2 = Grand Lodge rank, 1 = Provincial rank, 0 = neither
+  rank_level: number;
+  search_text: string;
+}
+
+export type DirectorySort = 'name' | 'join_date' | 'rank';
+
+export type DirectoryRankFilter = 'grand' | 'provincial' | 'any' | 'none';
+
+export interface DirectoryQuery {
+  search?: string;
+  status?: 'active' | 'pending' | 'inactive';
+  rank?: DirectoryRankFilter;
+  sort?: DirectorySort;
+  ascending?: boolean;
+}
+
 export interface LodgeDocument {
   id: string;
   title: string;
   description?: string;
-  url: string;
+  url: string; // The latest version's file
   category: string;
+  current_version_id?: string | null;
+  version_number: number;
   created_at: string;
   updated_at: string;
 }
 
+export interface DocumentVersion {
+  id: string;
+  document_id: string;
+  version_number: number;
+  url: string;
+  change_note?: string | null;
+  uploaded_by?: string | null;
+  created_at: string;
+}
+
+// The version a member last opened
+export interface DocumentRead {
+  user_id: string;
+  document_id: string;
+  version_number: number;
+  read_at: string;
+}
+
+// Draft while being written, circulated to the officers, confirmed at the next meeting
+export type MinutesStatus = 'draft' | 'circulated' | 'confirmed';
+
+export interface MinutesBallot {
+  candidate: string;
+  kind: 'initiation' | 'joining';
+  result: 'elected' | 'rejected';
+}
+
 export interface MeetingMinutes {
   id: string;
   meeting_date: string;
   title: string;
-  content: string;
+  content: string; // The business of the meeting
   created_at: string;
   updated_at: string;
   document_url?: string; // Optional URL to the full document
+  status: MinutesStatus;
+  circulated_at?: string | null;
+  confirmed_at?: string | null;
+  confirmed_by?: string | null;
+  confirmed_at_meeting?: string | null; // YYYY-MM-DD
+  attendance?: string[];
+  apologies?: string[];
+  visitors?: string[];
+  ballots?: MinutesBallot[];
+  alms_collected?: number | null;
+}
+
+export interface AttendanceRegister {
+  id: string;
+  meeting_date: string; // YYYY-MM-DD
+  title: string;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Members without an entry were absent without apology
+export type AttendanceStatus = 'present' | 'apologies';
+
+export interface AttendanceEntry {
+  id: string;
+  register_id: string;
+  user_id: string;
+  status: AttendanceStatus;
+  created_at: string;
+}
+
+export interface AttendanceVisitor {
+  id: string;
+  register_id: string;
+  name: string;
+  lodge_name?: string | null;
+  created_at: string;
+}
+
+// What the Secretary saves for one meeting
+export interface AttendanceRegisterForm {
+  meeting_date: string;
+  title: string;
+  notes?: string;
+  present: string[]; // user ids
+  apologies: string[];
+  visitors: { name: string; lodge_name?: string }[];
+}
+
+export interface SubscriptionRate {
+  id: string;
+  year: number;
+  title: string;
+  amount: number;
+  is_default: boolean;
+  notes?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DuesInvoice {
+  id: string;
+  user_id: string;
+  year: number;
+  rate_id?: string | null;
+  // The member's subscription for the year, rather than a one-off charge
+  is_subscription: boolean;
+  title: string;
+  amount: number;
+  due_date: string; // YYYY-MM-DD
+  cancelled: boolean;
+  notes?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Who can be invoiced, from get_finance_members(); the Treasurer can't read full profiles
+export interface FinanceMember {
+  user_id: string;
+  full_name: string;
+  status: MemberProfile['status'];
+}
+
+// Read from the dues_invoice_balances view
+export interface DuesInvoiceBalance extends DuesInvoice {
+  member_name?: string | null;
+  paid: number;
+  balance: number;
+  overdue: boolean;
+}
+
+export type PaymentMethod = 'cash' | 'cheque' | 'bank_transfer';
+
+export interface DuesPayment {
+  id: string;
+  invoice_id: string;
+  amount: number;
+  method: PaymentMethod;
+  paid_on: string; // YYYY-MM-DD
+  reference?: string | null;
+  recorded_by?: string | null;
+  created_at: string;
+}
+
+export interface DuesInvoiceFilters {
+  year?: number;
+  userId?: string;
+  outstandingOnly?: boolean;
+  includeCancelled?: boolean;
+}
+
+export type CharityKind = 'alms' | 'fundraising' | 'donation';
+
+export interface CharityRecord {
+  id: string;
+  kind: CharityKind;
+  record_date: string; // YYYY-MM-DD
+  title: string;
+  charity_name?: string | null; // Required for donations
+  amount: number;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// One row of charity_yearly_totals(), which the public site can read
+export interface CharityYearTotal {
+  year: number;
+  alms: number;
+  fundraising: number;
+  donations: number;
+  charities_supported: number;
 }
 
 // New CMS types
@@ -86,8 +299,13 @@ export interface CMSEvent {
   location: string;
   is_members_only: boolean;
   is_past_event: boolean;
+  is_published?: boolean;
+  bookings_enabled?: boolean;
+  booking_cutoff?: string | null;
+  capacity?: number | null;
   created_at: string;
   updated_at: string;
+  updated_by?: string | null; // Set by the database; null for scheduled/system changes
 }
 
 export interface CMSNewsArticle {
@@ -101,6 +319,7 @@ export interface CMSNewsArticle {
   is_published: boolean;
   created_at: string;
   updated_at: string;
+  updated_by?: string | null;
   category?: string;
   tags?: string[];
   author?: string;
@@ -121,6 +340,7 @@ export interface CMSOfficer {
   is_active: boolean;
   created_at: string;
   updated_at: string;
+  updated_by?: string | null;
 }
 
 export interface CMSTestimonial {
@@ -132,6 +352,7 @@ export interface CMSTestimonial {
   sort_order: number;
   created_at: string;
   updated_at: string;
+  updated_by?: string | null;
 }
 
 export interface CMSFAQItem {
@@ -142,6 +363,7 @@ export interface CMSFAQItem {
   is_published: boolean;
   created_at: string;
   updated_at: string;
+  updated_by?: string | null;
 }
 
 export interface CMSSiteSetting {
@@ -151,6 +373,7 @@ export interface CMSSiteSetting {
   setting_type: 'text' | 'number' | 'boolean' | 'json';
   description?: string;
   updated_at: string;
+  updated_by?: string | null;
 }
 
 export interface CMSPageContent {
@@ -160,4 +383,260 @@ export interface CMSPageContent {
   content_type: 'text' | 'html' | 'json';
   content: string;
   updated_at: string;
-}
\ No newline at end of file
+  updated_by?: string | null;
+}
+
+// Tables whose rows can be published/unpublished on a schedule
+export type ScheduledContentTable = 'events' | 'blog_posts' | 'testimonials' | 'faq_items';
+
+// Tables whose changes are kept as revisions that can be restored
+export type RevisionedContentTable = 'blog_posts' | 'events' | 'page_content' | 'site_settings';
+
+export interface CMSContentRevision {
+  id: string;
+  content_table: RevisionedContentTable;
+  content_id: string;
+  revision_number: number;
+  snapshot: Record<string, unknown>;
+  change_type: 'create' | 'update' | 'restore';
+  restored_from?: number | null;
+  changed_by?: string | null;
+  changed_at: string;
+  // Joined from member_profiles for display
+  author_name?: string;
+}
+
+export interface CMSContentSchedule {
+  id: string;
+  content_table: ScheduledContentTable;
+  content_id: string;
+  content_title: string;
+  auto_publish: boolean;
+  publish_at?: string | null;
+  auto_unpublish: boolean;
+  unpublish_at?: string | null;
+  publish_executed_at?: string | null;
+  unpublish_executed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Recurring Lodge meeting (see supabase/functions/_shared/lodgeMeetings.ts)
+export interface CMSMeetingRule {
+  id: string;
+  title: string;
+  description: string;
+  month: number;
+  weekday: number;
+  week_of_month: number;
+  start_time: string;
+  location: string;
+  is_installation: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CMSMeetingOverride {
+  id: string;
+  meeting_date: string;
+  override_type: 'cancel' | 'change' | 'add';
+  new_date?: string | null;
+  start_time?: string | null;
+  title?: string | null;
+  description?: string | null;
+  location?: string | null;
+  is_installation?: boolean | null;
+  note?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Event RSVPs and festive board bookings
+export interface EventBookingGuest {
+  name: string;
+  dietary_requirements?: string;
+  festive_board: boolean;
+}
+
+export type EventBookingStatus = 'confirmed' | 'waitlisted' | 'declined';
+
+export interface EventBooking {
+  id: string;
+  event_id: string;
+  user_id: string;
+  attending: boolean;
+  festive_board: boolean;
+  dietary_requirements?: string | null;
+  guests: EventBookingGuest[];
+  notes?: string | null;
+  status: EventBookingStatus;
+  created_at: string;
+  updated_at: string;
+  // Joined from member_profiles for admin lists
+  member_name?: string;
+}
+
+export interface EventBookingSummary {
+  capacity: number | null;
+  confirmed_seats: number;
+  waitlisted_count: number;
+  attending_count: number;
+}
+
+// Membership applications, from enquiry to initiation
+export type ApplicationStage = 'enquiry' | 'interview' | 'ballot' | 'initiated' | 'declined';
+
+export type ApplicationSponsor = 'proposer' | 'seconder';
+
+// What a candidate fills in on the Join page
+export interface MembershipApplicationForm {
+  full_name: string;
+  email: string;
+  phone?: string;
+  date_of_birth?: string;
+  town?: string;
+  occupation?: string;
+  reason: string;
+  known_members?: string;
+}
+
+export interface MembershipApplication extends MembershipApplicationForm {
+  id: string;
+  stage: ApplicationStage;
+  proposer_id?: string | null;
+  seconder_id?: string | null;
+  interview_at?: string | null;
+  interview_location?: string | null;
+  ballot_date?: string | null;
+  decline_reason?: string | null;
+  notes?: string | null;
+  stage_changed_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Details that go with a stage change, for the candidate's email
+export interface ApplicationStageChange {
+  stage: ApplicationStage;
+  interview_at?: string | null;
+  interview_location?: string | null;
+  ballot_date?: string | null;
+  decline_reason?: string | null;
+  notify?: boolean;
+}
+
+// A candidate still looking for sponsors, as any member sees them
+export interface OpenApplication {
+  id: string;
+  full_name: string;
+  town?: string | null;
+  stage: ApplicationStage;
+  created_at: string;
+  proposer_id?: string | null;
+  proposer_name?: string | null;
+  seconder_id?: string | null;
+  seconder_name?: string | null;
+}
+
+// Messages from the website contact form, as the Secretary's inbox sees them
+export type ContactSubmissionStatus = 'new' | 'in_progress' | 'resolved';
+
+export interface ContactSubmission {
+  id: string;
+  name: string;
+  email: string;
+  phone?: string | null;
+  subject: string;
+  message: string;
+  interested: boolean;
+  // False when the email to the Lodge failed and the inbox is the only copy
+  email_sent: boolean;
+  is_read: boolean;
+  status: ContactSubmissionStatus;
+  assigned_to?: string | null;
+  notes?: string | null;
+  application_id?: string | null;
+  // Held back by the spam checks and not emailed; spam_reasons says why
+  quarantined: boolean;
+  spam_reasons: string[];
+  // Lower-cased name, email and subject, filled in by the database
+  search_text?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ContactSubmissionFilters {
+  status?: ContactSubmissionStatus;
+  unreadOnly?: boolean;
+  assignedTo?: string;
+  // The spam quarantine instead of the inbox
+  quarantined?: boolean;
+  // Matches name, email or subject
+  search?: string;
+}
+
+// Secret token in a member's calendar subscription URL
+export interface CalendarFeedToken {
+  user_id: string;
+  token: string;
+  created_at: string;
+}
+
+// Who changed what, written by database triggers and edge functions
+export interface AuditLogEntry {
+  id: string;
+  occurred_at: string;
+  actor_id?: string | null;
+  actor_name?: string | null;
+  action: string;
+  table_name: string;
+  record_id?: string | null;
+  record_label?: string | null;
+  summary?: string | null;
+  old_values?: Record<string, unknown> | null;
+  new_values?: Record<string, unknown> | null;
+  source: string;
+}
+
+export interface AuditLogFilters {
+  table?: string;
+  action?: string;
+  actorId?: string;
+  // Matches the record label, e.g. a member's name
+  search?: string;
+  // yyyy-MM-dd, inclusive
+  from?: string;
+  to?: string;
+}
+
+export type SearchContentType = 'document' | 'minutes' | 'blog';
+
+export interface SearchResult {
+  content_type: SearchContentType;
+  id: string;
+  title: string;
+  // Document category, 'minutes', or the blog post's category
+  category: string;
+  content_date: string | null;
+  url: string | null;
+  is_members_only: boolean;
+  // Matches are wrapped in ⟦ ⟧ - see utils/search
+  snippet: string;
+  rank: number;
+}
+
+export interface SearchFilters {
+  types?: SearchContentType[];
+  categories?: string[];
+  // yyyy-MM-dd, inclusive
+  from?: string;
+  to?: string;
+}
+
+// Match counts for each value, e.g. category.minutes = 4
+export interface SearchFacets {
+  type: Record<string, number>;
+  category: Record<string, number>;
+  year: Record<string, number>;
+}
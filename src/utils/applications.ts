@@ -0,0 +1,45 @@
+/**
+ * Membership Application Helpers
+ * Stage labels, colours and the moves the Secretary can make between stages.
+ */
+
+import { ApplicationStage, MembershipApplication } from '../types';
+
+export const APPLICATION_STAGES: ApplicationStage[] = ['enquiry', 'interview', 'ballot', 'initiated', 'declined'];
+
+export const APPLICATION_STAGE_LABELS: Record<ApplicationStage, string> = {
+  enquiry: 'Enquiry',
+  interview: 'Interview',
+  ballot: 'Ballot',
+  initiated: 'Initiated',
+  declined: 'Declined'
+};
+
+export const APPLICATION_STAGE_COLOURS: Record<ApplicationStage, string> = {
+  enquiry: 'border-blue-300 bg-blue-50',
+  interview: 'border-amber-300 bg-amber-50',
+  ballot: 'border-purple-300 bg-purple-50',
+  initiated: 'border-green-300 bg-green-50',
+  declined: 'border-neutral-300 bg-neutral-100'
+};
+
+// Enforced again by the membership-application edge function
+export const APPLICATION_TRANSITIONS: Record<ApplicationStage, ApplicationStage[]> = {
+  enquiry: ['interview', 'declined'],
+  interview: ['ballot', 'enquiry', 'declined'],
+  ballot: ['initiated', 'interview', 'declined'],
+  initiated: [],
+  declined: ['enquiry']
+};
+
+export function canMoveApplication(from: ApplicationStage, to: ApplicationStage): boolean {
+  return APPLICATION_TRANSITIONS[from].includes(to);
+}
+
+// A candidate needs both sponsors before the Lodge can ballot
+export function missingSponsors(application: Pick<MembershipApplication, 'proposer_id' | 'seconder_id'>): string[] {
+  return [
+    !application.proposer_id && 'proposer',
+    !application.seconder_id && 'seconder'
+  ].filter(Boolean) as string[];
+}
@@ -0,0 +1,102 @@
+/**
+ * Attendance Helpers
+ * A member's record only counts meetings held since they joined. Members with
+ * no entry on a register were absent without apology.
+ */
+
+import { format } from 'date-fns';
+import { AttendanceEntry, AttendanceRegister, AttendanceStatus, MemberProfile } from '../types';
+import { CsvValue } from './csv';
+
+export const ATTENDANCE_STATUS_LABELS: Record<AttendanceStatus | 'absent', string> = {
+  present: 'Present',
+  apologies: 'Apologies',
+  absent: 'Absent'
+};
+
+export interface AttendanceSummary {
+  held: number;
+  present: number;
+  apologies: number;
+  absent: number;
+  // Null until there's a meeting to count
+  percentage: number | null;
+}
+
+const isMemberAt = (register: AttendanceRegister, joinDate?: string | null) =>
+  !joinDate || register.meeting_date >= joinDate.slice(0, 10);
+
+export function attendanceMark(
+  register: AttendanceRegister,
+  entries: AttendanceEntry[],
+  userId: string
+): AttendanceStatus | 'absent' {
+  return entries.find(entry => entry.register_id === register.id && entry.user_id === userId)?.status ?? 'absent';
+}
+
+export function summariseAttendance(
+  registers: AttendanceRegister[],
+  entries: AttendanceEntry[],
+  userId: string,
+  joinDate?: string | null
+): AttendanceSummary {
+  const counted = registers.filter(register => isMemberAt(register, joinDate));
+  const marks = counted.map(register => attendanceMark(register, entries, userId));
+  const present = marks.filter(mark => mark === 'present').length;
+  const apologies = marks.filter(mark => mark === 'apologies').length;
+
+  return {
+    held: counted.length,
+    present,
+    apologies,
+    absent: counted.length - present - apologies,
+    percentage: counted.length > 0 ? Math.round((present / counted.length) * 100) : null
+  };
+}
+
+export function formatAttendancePercentage(summary: AttendanceSummary): string {
+  return summary.percentage === null ? '-' : `${summary.percentage}%`;
+}
+
+/**
+ * Year-end report: one row per member with a column per meeting (P, A, blank for
+ * absent, - for meetings before they joined), then their totals
+ */
+export function attendanceReportCsv(
+  registers: AttendanceRegister[],
+  entries: AttendanceEntry[],
+  members: MemberProfile[]
+): { headers: string[]; rows: CsvValue[][] } {
+  const meetings = [...registers].sort((a, b) => a.meeting_date.localeCompare(b.meeting_date));
+  const headers = [
+    'Member',
+    ...meetings.map(register => format(new Date(register.meeting_date), 'd MMM yyyy')),
+    'Meetings',
+    'Present',
+    'Apologies',
+    'Absent',
+    'Attendance %'
+  ];
+
+  const rows = [...members]
+    .sort((a, b) => a.full_name.localeCompare(b.full_name))
+    .map(member => {
+      const summary = summariseAttendance(meetings, entries, member.user_id, member.join_date);
+      const marks = meetings.map(register => {
+        if (!isMemberAt(register, member.join_date)) return '-';
+        const mark = attendanceMark(register, entries, member.user_id);
+        return mark === 'present' ? 'P' : mark === 'apologies' ? 'A' : '';
+      });
+      return [
+        member.full_name,
+        ...marks,
+        summary.held,
+        summary.present,
+        summary.apologies,
+        summary.absent,
+        summary.percentage
+      ];
+    });
+
+  return { headers, rows };
+}
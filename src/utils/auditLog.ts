@@ -0,0 +1,84 @@
+/**
+ * Audit Log Helpers
+ * Labels and CSV export for the admin audit view.
+ */
+
+import { format } from 'date-fns';
+import { AuditLogEntry } from '../types';
+import { CsvValue } from './csv';
+
+export const AUDIT_TABLE_LABELS: Record<string, string> = {
+  member_profiles: 'Members',
+  membership_applications: 'Applications',
+  lodge_documents: 'Documents',
+  meeting_minutes: 'Minutes',
+  attendance_registers: 'Attendance',
+  subscription_rates: 'Subscription Rates',
+  dues_invoices: 'Dues',
+  dues_payments: 'Dues Payments',
+  charity_records: 'Charity',
+  events: 'Events',
+  blog_posts: 'News & Blog',
+  officers: 'Officers',
+  testimonials: 'Testimonials',
+  faq_items: 'FAQs',
+  site_settings: 'Site Settings',
+  page_content: 'Page Content'
+};
+
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  delete_account: 'Account deleted'
+};
+
+export const AUDIT_CSV_HEADERS = ['Date', 'Time', 'Who', 'Action', 'Area', 'Record', 'Summary', 'Before', 'After', 'Source'];
+
+export function auditTableLabel(table: string): string {
+  return AUDIT_TABLE_LABELS[table] || table;
+}
+
+export function auditActionLabel(action: string): string {
+  return AUDIT_ACTION_LABELS[action] || action.replace(/_/g, ' ');
+}
+
+// Changes made by the database itself (e.g. the content schedule job) have no actor
+export function auditActorName(entry: AuditLogEntry): string {
+  if (entry.actor_name) return entry.actor_name;
+  return entry.actor_id ? 'Unknown member' : 'System';
+}
+
+/**
+ * Flatten before/after values to "field: value" lines
+ */
+export function formatAuditValues(values?: Record<string, unknown> | null): string {
+  if (!values) return '';
+
+  return Object.entries(values)
+    .map(([field, value]) => {
+      const text = value === null || value === undefined
+        ? ''
+        : typeof value === 'object' ? JSON.stringify(value) : String(value);
+      return `${field}: ${text}`;
+    })
+    .join('\n');
+}
+
+export function auditLogToCsvRows(entries: AuditLogEntry[]): CsvValue[][] {
+  return entries.map(entry => {
+    const occurredAt = new Date(entry.occurred_at);
+    return [
+      format(occurredAt, 'yyyy-MM-dd'),
+      format(occurredAt, 'HH:mm:ss'),
+      auditActorName(entry),
+      auditActionLabel(entry.action),
+      auditTableLabel(entry.table_name),
+      entry.record_label || entry.record_id || '',
+      entry.summary || '',
+      formatAuditValues(entry.old_values),
+      formatAuditValues(entry.new_values),
+      entry.source
+    ];
+  });
+}
@@ -0,0 +1,79 @@
+/**
+ * Charity Helpers
+ * Labels, totals and the exports the Almoner sends to Province. Alms and
+ * fundraising are money raised; donations are money given away.
+ */
+
+import { CharityKind, CharityRecord, CharityYearTotal } from '../types';
+import { CsvValue } from './csv';
+
+export const CHARITY_KIND_LABELS: Record<CharityKind, string> = {
+  alms: 'Alms collection',
+  fundraising: 'Fundraising',
+  donation: 'Donation'
+};
+
+export const CHARITY_KIND_BADGES: Record<CharityKind, string> = {
+  alms: 'bg-secondary-100 text-secondary-700',
+  fundraising: 'bg-blue-100 text-blue-700',
+  donation: 'bg-green-100 text-green-700'
+};
+
+export function amountRaised(total: Pick<CharityYearTotal, 'alms' | 'fundraising'>): number {
+  return Number(total.alms) + Number(total.fundraising);
+}
+
+export interface CharitySummary {
+  raised: number;
+  given: number;
+  raisedThisYear: number;
+  sinceYear: number | null;
+}
+
+export function summariseCharityTotals(totals: CharityYearTotal[], year: number = new Date().getFullYear()): CharitySummary {
+  const thisYear = totals.find(total => total.year === year);
+  return {
+    raised: totals.reduce((sum, total) => sum + amountRaised(total), 0),
+    given: totals.reduce((sum, total) => sum + Number(total.donations), 0),
+    raisedThisYear: thisYear ? amountRaised(thisYear) : 0,
+    sinceYear: totals.length > 0 ? Math.min(...totals.map(total => total.year)) : null
+  };
+}
+
+// Sums one year's records the same way charity_yearly_totals() does
+export function totalsForRecords(records: CharityRecord[]): Record<CharityKind, number> {
+  return records.reduce(
+    (totals, record) => ({ ...totals, [record.kind]: totals[record.kind] + Number(record.amount) }),
+    { alms: 0, fundraising: 0, donation: 0 } as Record<CharityKind, number>
+  );
+}
+
+export const CHARITY_BREAKDOWN_CSV_HEADERS = ['Year', 'Alms', 'Fundraising', 'Total Raised', 'Donations', 'Charities Supported'];
+
+export function charityBreakdownToCsvRows(totals: CharityYearTotal[]): CsvValue[][] {
+  return [...totals]
+    .sort((a, b) => a.year - b.year)
+    .map(total => [
+      total.year,
+      Number(total.alms).toFixed(2),
+      Number(total.fundraising).toFixed(2),
+      amountRaised(total).toFixed(2),
+      Number(total.donations).toFixed(2),
+      total.charities_supported
+    ]);
+}
+
+export const CHARITY_RECORDS_CSV_HEADERS = ['Date', 'Type', 'Description', 'Charity', 'Amount', 'Notes'];
+
+export function charityRecordsToCsvRows(records: CharityRecord[]): CsvValue[][] {
+  return [...records]
+    .sort((a, b) => a.record_date.localeCompare(b.record_date))
+    .map(record => [
+      record.record_date,
+      CHARITY_KIND_LABELS[record.kind],
+      record.title,
+      record.charity_name || '',
+      Number(record.amount).toFixed(2),
+      record.notes || ''
+    ]);
+}
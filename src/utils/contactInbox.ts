@@ -0,0 +1,30 @@
+/**
+ * Contact Inbox Helpers
+ * Status labels and badges for messages from the website contact form.
+ */
+
+import { ContactSubmission, ContactSubmissionStatus } from '../types';
+
+export const CONTACT_STATUSES: ContactSubmissionStatus[] = ['new', 'in_progress', 'resolved'];
+
+export const CONTACT_STATUS_LABELS: Record<ContactSubmissionStatus, string> = {
+  new: 'New',
+  in_progress: 'In progress',
+  resolved: 'Resolved'
+};
+
+export const CONTACT_STATUS_BADGES: Record<ContactSubmissionStatus, string> = {
+  new: 'bg-blue-100 text-blue-700',
+  in_progress: 'bg-amber-100 text-amber-700',
+  resolved: 'bg-green-100 text-green-700'
+};
+
+// Opens the officer's mail client with the original message quoted
+export function contactReplyLink(submission: Pick<ContactSubmission, 'email' | 'subject' | 'message'>): string {
+  const quoted = submission.message
+    .split('\n')
+    .map(line => `> ${line}`)
+    .join('\n');
+  const subject = submission.subject.startsWith('Re:') ? submission.subject : `Re: ${submission.subject}`;
+  return `mailto:${submission.email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(`\n\n${quoted}`)}`;
+}
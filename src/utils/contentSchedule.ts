@@ -0,0 +1,96 @@
+/**
+ * Content Schedule Helpers
+ * Converts between the ContentScheduler form values (local date + time)
+ * and stored `content_schedules` rows (UTC timestamps).
+ */
+
+import { format } from 'date-fns';
+import { CMSContentSchedule, ScheduledContentTable } from '../types';
+import type { ScheduleData } from '../components/cms/ContentScheduler';
+
+export interface ScheduledChange {
+  schedule: CMSContentSchedule;
+  action: 'publish' | 'unpublish';
+  at: Date;
+}
+
+/**
+ * Combine a date input (yyyy-MM-dd) and time input (HH:mm) into an ISO timestamp,
+ * interpreted in the admin's local time zone
+ */
+function toTimestamp(date?: string, time?: string): string | null {
+  if (!date) return null;
+  return new Date(`${date}T${time || '00:00'}`).toISOString();
+}
+
+/**
+ * Build the row to save from the scheduler form
+ */
+export function scheduleFromFormData(
+  contentTable: ScheduledContentTable,
+  contentId: string,
+  contentTitle: string,
+  data: ScheduleData
+): Pick<CMSContentSchedule, 'content_table' | 'content_id' | 'content_title' | 'auto_publish' | 'publish_at' | 'auto_unpublish' | 'unpublish_at'> {
+  return {
+    content_table: contentTable,
+    content_id: contentId,
+    content_title: contentTitle,
+    auto_publish: data.auto_publish,
+    publish_at: data.auto_publish ? toTimestamp(data.publish_date, data.publish_time) : null,
+    auto_unpublish: data.auto_unpublish,
+    unpublish_at: data.auto_unpublish ? toTimestamp(data.unpublish_date, data.unpublish_time) : null
+  };
+}
+
+/**
+ * Pre-fill the scheduler form from an existing schedule
+ */
+export function formDataFromSchedule(schedule?: CMSContentSchedule): Partial<ScheduleData> | undefined {
+  if (!schedule) return undefined;
+
+  const publishAt = schedule.publish_at ? new Date(schedule.publish_at) : null;
+  const unpublishAt = schedule.unpublish_at ? new Date(schedule.unpublish_at) : null;
+
+  return {
+    auto_publish: schedule.auto_publish,
+    publish_date: publishAt ? format(publishAt, 'yyyy-MM-dd') : undefined,
+    publish_time: publishAt ? format(publishAt, 'HH:mm') : undefined,
+    auto_unpublish: schedule.auto_unpublish,
+    unpublish_date: unpublishAt ? format(unpublishAt, 'yyyy-MM-dd') : undefined,
+    unpublish_time: unpublishAt ? format(unpublishAt, 'HH:mm') : undefined
+  };
+}
+
+/**
+ * Changes that have not yet been applied, soonest first
+ */
+export function getPendingChanges(schedules: CMSContentSchedule[]): ScheduledChange[] {
+  const changes: ScheduledChange[] = [];
+
+  schedules.forEach(schedule => {
+    if (schedule.auto_publish && schedule.publish_at && !schedule.publish_executed_at) {
+      changes.push({ schedule, action: 'publish', at: new Date(schedule.publish_at) });
+    }
+    if (schedule.auto_unpublish && schedule.unpublish_at && !schedule.unpublish_executed_at) {
+      changes.push({ schedule, action: 'unpublish', at: new Date(schedule.unpublish_at) });
+    }
+  });
+
+  return changes.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+/**
+ * Find the schedule for a content item if it still has a change waiting to run
+ */
+export function findPendingSchedule(
+  schedules: CMSContentSchedule[],
+  contentTable: ScheduledContentTable,
+  contentId: string
+): CMSContentSchedule | undefined {
+  return schedules.find(schedule =>
+    schedule.content_table === contentTable &&
+    schedule.content_id === contentId &&
+    getPendingChanges([schedule]).length > 0
+  );
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('quotes cells with commas, quotes and line breaks', () => {
+    expect(toCsv(['Name', 'Note'], [['Smith, John', 'Said "hello"\nand left']])).toBe(
+      'Name,Note\r\n"Smith, John","Said ""hello""\nand left"\r\n'
+    );
+  });
+
+  it('leaves empty values blank', () => {
+    expect(toCsv(['A', 'B', 'C'], [[null, undefined, false]])).toBe('A,B,C\r\n,,false\r\n');
+  });
+
+  it('stops text from running as a spreadsheet formula', () => {
+    const rows = [['=HYPERLINK("http://example.com","Click")'], ['+44 1923 000000'], ['-1'], ['@SUM(A1)'], ['\tTabbed']];
+    expect(toCsv(['Guest'], rows).split('\r\n').slice(1, -1)).toEqual([
+      `"'=HYPERLINK(""http://example.com"",""Click"")"`,
+      `'+44 1923 000000`,
+      `'-1`,
+      `'@SUM(A1)`,
+      `'\tTabbed`
+    ]);
+  });
+
+  it('keeps negative numbers as numbers', () => {
+    expect(toCsv(['Amount'], [[-12.5]])).toBe('Amount\r\n-12.5\r\n');
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * CSV Builder
+ * Produces RFC 4180 CSV that opens cleanly in Excel and Google Sheets.
+ */
+
+import { downloadFile } from './download';
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+
+  // Text from members or the public (guest names, enquiries) could be a formula
+  // such as =HYPERLINK(...); the leading quote makes Excel show it as text.
+  // Numbers are left alone so negative amounts stay numbers.
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a CSV document from a header row and data rows
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows]
+    .map(row => row.map(escapeCsvValue).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+/**
+ * Download rows as a .csv file. The byte order mark tells Excel the file is UTF-8.
+ */
+export function downloadCsv(filename: string, headers: string[], rows: CsvValue[][]): void {
+  downloadFile('\uFEFF' + toCsv(headers, rows), filename, 'text/csv;charset=utf-8');
+}
@@ -0,0 +1,80 @@
+/**
+ * Member Directory Helpers
+ * Labels for the directory's sort and filter options, and the URL query
+ * string that holds them so filtered views can be bookmarked.
+ */
+
+import { DirectoryQuery, DirectoryRankFilter, DirectorySort, FieldVisibility } from '../types';
+
+export const DIRECTORY_PAGE_SIZES = [10, 20, 50, 100];
+export const DEFAULT_DIRECTORY_PAGE_SIZE = 20;
+
+export const DIRECTORY_SORT_LABELS: Record<DirectorySort, string> = {
+  name: 'Name',
+  join_date: 'Join date',
+  rank: 'Rank'
+};
+
+export const RANK_FILTER_LABELS: Record<DirectoryRankFilter, string> = {
+  grand: 'Grand Lodge rank',
+  provincial: 'Provincial rank',
+  any: 'Any rank',
+  none: 'No rank'
+};
+
+export const STATUS_FILTER_LABELS: Record<NonNullable<DirectoryQuery['status']>, string> = {
+  active: 'Active',
+  pending: 'Pending',
+  inactive: 'Inactive'
+};
+
+// Enforced by the member_directory view; members always see their own fields
+export const FIELD_VISIBILITY_LABELS: Record<FieldVisibility, string> = {
+  lodge: 'All Lodge members',
+  officers: 'Officers only',
+  nobody: 'Only me'
+};
+
+const oneOf = <T extends string>(value: string | null, allowed: Record<T, string>): T | undefined =>
+  value && value in allowed ? value as T : undefined;
+
+export interface DirectoryUrlState {
+  query: DirectoryQuery;
+  page: number;
+  pageSize: number;
+}
+
+export function directoryStateFromParams(params: URLSearchParams): DirectoryUrlState {
+  const size = Number(params.get('size'));
+  const dir = params.get('dir');
+
+  return {
+    query: {
+      search: params.get('q') || undefined,
+      status: oneOf(params.get('status'), STATUS_FILTER_LABELS),
+      rank: oneOf(params.get('rank'), RANK_FILTER_LABELS),
+      sort: oneOf(params.get('sort'), DIRECTORY_SORT_LABELS),
+      ascending: dir === 'asc' ? true : dir === 'desc' ? false : undefined
+    },
+    page: Math.max(1, Number(params.get('page')) || 1),
+    pageSize: DIRECTORY_PAGE_SIZES.includes(size) ? size : DEFAULT_DIRECTORY_PAGE_SIZE
+  };
+}
+
+// Defaults are left out to keep bookmarked URLs short
+export function directoryParams({ query, page, pageSize }: DirectoryUrlState): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.search) params.set('q', query.search);
+  if (query.status) params.set('status', query.status);
+  if (query.rank) params.set('rank', query.rank);
+  if (query.sort && query.sort !== 'name') params.set('sort', query.sort);
+  if (query.ascending !== undefined) params.set('dir', query.ascending ? 'asc' : 'desc');
+  if (page > 1) params.set('page', String(page));
+  if (pageSize !== DEFAULT_DIRECTORY_PAGE_SIZE) params.set('size', String(pageSize));
+  return params;
+}
+
+// The direction each sort uses until the member flips it
+export function defaultSortAscending(sort: DirectorySort = 'name'): boolean {
+  return sort !== 'rank';
+}
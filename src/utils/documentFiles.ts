@@ -0,0 +1,99 @@
+/**
+ * Document File Helpers
+ * Uploaded documents live in a private bucket. Rows store a `storage:` reference
+ * instead of a link, and members are handed a short-lived signed URL when they
+ * open one. Pasted links to other sites are left as they are.
+ */
+
+export const DOCUMENTS_BUCKET = 'lodge-documents';
+
+export const MAX_DOCUMENT_FILE_SIZE = 25 * 1024 * 1024; // Matches the bucket's limit
+
+const STORED_FILE_PREFIX = `storage:${DOCUMENTS_BUCKET}/`;
+
+// Browsers don't always know a file's type (Markdown especially), so fall back on the extension
+const DOCUMENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp'
+};
+
+export const ALLOWED_DOCUMENT_TYPES = Array.from(new Set(Object.values(DOCUMENT_TYPES_BY_EXTENSION)));
+
+export const DOCUMENT_FILE_ACCEPT = Object.keys(DOCUMENT_TYPES_BY_EXTENSION).map(extension => `.${extension}`).join(',');
+
+export type DocumentFolder = 'documents' | 'minutes';
+
+function extensionOf(name: string): string {
+  return name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+}
+
+export function documentFileType(file: Pick<File, 'name' | 'type'>): string | null {
+  if (ALLOWED_DOCUMENT_TYPES.includes(file.type)) return file.type;
+  return DOCUMENT_TYPES_BY_EXTENSION[extensionOf(file.name)] || null;
+}
+
+// The type of a saved document or link going by its extension, ignoring any query string
+export function documentUrlType(url: string): string | null {
+  const name = url.split(/[?#]/)[0].split('/').pop() || '';
+  return DOCUMENT_TYPES_BY_EXTENSION[extensionOf(name)] || null;
+}
+
+// A message for the uploader, or null if the file can go up
+export function validateDocumentFile(file: Pick<File, 'name' | 'type' | 'size'>): string | null {
+  if (!documentFileType(file)) {
+    return `"${file.name}" isn't a type we accept. Upload a PDF, Word, Excel, text, Markdown or image file.`;
+  }
+  if (file.size > MAX_DOCUMENT_FILE_SIZE) {
+    return `"${file.name}" is ${formatFileSize(file.size)}; the limit is ${formatFileSize(MAX_DOCUMENT_FILE_SIZE)}.`;
+  }
+  if (file.size === 0) {
+    return `"${file.name}" is empty.`;
+  }
+  return null;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// documents/2025/<uuid>-by-laws.pdf - unique, but still readable in the bucket
+export function documentStoragePath(folder: DocumentFolder, fileName: string, id: string = crypto.randomUUID()): string {
+  const extension = extensionOf(fileName);
+  const base = fileName
+    .replace(/\.[^/.]+$/, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'document';
+  return `${folder}/${new Date().getFullYear()}/${id}-${base}${extension ? `.${extension}` : ''}`;
+}
+
+export function isStoredFile(url?: string | null): url is string {
+  return !!url && url.startsWith(STORED_FILE_PREFIX);
+}
+
+export function toStoredFile(path: string): string {
+  return `${STORED_FILE_PREFIX}${path}`;
+}
+
+export function storedFilePath(url: string): string {
+  return url.slice(STORED_FILE_PREFIX.length);
+}
+
+// What to show for a stored file: its name without the unique prefix
+export function storedFileName(url: string): string {
+  const name = storedFilePath(url).split('/').pop() || '';
+  return name.replace(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}-/, '');
+}
@@ -0,0 +1,109 @@
+/**
+ * Document Viewer Helpers
+ * Deciding how a document can be shown in the members' area viewer, finding
+ * search terms in a PDF's text and placing highlights over the rendered page.
+ */
+
+import { Marked } from 'marked';
+import { documentUrlType } from './documentFiles';
+
+export type DocumentPreviewKind = 'pdf' | 'image' | 'text' | 'markdown' | 'other';
+
+// Word and Excel files have no preview; members download those instead
+export function documentPreviewKind(url: string): DocumentPreviewKind {
+  const type = documentUrlType(url);
+  if (type === 'application/pdf') return 'pdf';
+  if (type?.startsWith('image/')) return 'image';
+  if (type === 'text/markdown') return 'markdown';
+  if (type === 'text/plain') return 'text';
+  return 'other';
+}
+
+// Uploaded Markdown is shown as written: raw HTML is escaped and script links are dropped
+const markdown = new Marked({
+  renderer: {
+    html: ({ text }) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+  },
+  walkTokens: token => {
+    if ((token.type === 'link' || token.type === 'image') && /^\s*(javascript|vbscript|data):/i.test(token.href)) {
+      token.href = '#';
+    }
+  }
+});
+
+export function renderMarkdown(text: string): string {
+  return markdown.parse(text, { async: false });
+}
+
+// The parts of a pdf.js text item the viewer needs
+export interface PdfTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+}
+
+export interface PdfSearchMatch {
+  page: number;
+  item: number;
+  start: number;
+}
+
+// Matches within each text item, in reading order. A phrase split across two items isn't found.
+export function findPdfMatches(pages: PdfTextItem[][], query: string): PdfSearchMatch[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const matches: PdfSearchMatch[] = [];
+  pages.forEach((items, pageIndex) => {
+    items.forEach((item, itemIndex) => {
+      const haystack = item.str.toLowerCase();
+      let start = haystack.indexOf(needle);
+      while (start !== -1) {
+        matches.push({ page: pageIndex + 1, item: itemIndex, start });
+        start = haystack.indexOf(needle, start + needle.length);
+      }
+    });
+  });
+  return matches;
+}
+
+export interface HighlightRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+function multiplyTransforms(m1: number[], m2: number[]): number[] {
+  return [
+    m1[0] * m2[0] + m1[2] * m2[1],
+    m1[1] * m2[0] + m1[3] * m2[1],
+    m1[0] * m2[2] + m1[2] * m2[3],
+    m1[1] * m2[2] + m1[3] * m2[3],
+    m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+    m1[1] * m2[4] + m1[3] * m2[5] + m1[5]
+  ];
+}
+
+/**
+ * Where a match sits on the page in CSS pixels. Characters are taken to be
+ * equally wide, which is close enough to mark the word without a text layer.
+ */
+export function matchHighlightRect(
+  viewportTransform: number[],
+  scale: number,
+  item: PdfTextItem,
+  start: number,
+  length: number
+): HighlightRect {
+  const [, , c, d, e, f] = multiplyTransforms(viewportTransform, item.transform);
+  const height = Math.hypot(c, d);
+  const width = item.width * scale;
+  const characters = Math.max(item.str.length, 1);
+  return {
+    left: e + (width * start) / characters,
+    top: f - height,
+    width: (width * Math.min(length, characters - start)) / characters,
+    height
+  };
+}
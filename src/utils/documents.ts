@@ -0,0 +1,31 @@
+/**
+ * Document Version Helpers
+ * Labels for a document's versions and working out whether a member has
+ * only seen an older one.
+ */
+
+import { format } from 'date-fns';
+import { DocumentRead, DocumentVersion, LodgeDocument } from '../types';
+
+export function versionLabel(version: Pick<DocumentVersion, 'version_number' | 'created_at'>): string {
+  return `Version ${version.version_number} - ${format(new Date(version.created_at), 'd MMM yyyy')}`;
+}
+
+// Newest first, grouped by document
+export function versionsByDocument(versions: DocumentVersion[]): Record<string, DocumentVersion[]> {
+  const grouped: Record<string, DocumentVersion[]> = {};
+  versions.forEach(version => {
+    grouped[version.document_id] = [...(grouped[version.document_id] || []), version];
+  });
+  Object.values(grouped).forEach(list => list.sort((a, b) => b.version_number - a.version_number));
+  return grouped;
+}
+
+export function readVersions(reads: DocumentRead[]): Record<string, number> {
+  return Object.fromEntries(reads.map(read => [read.document_id, read.version_number]));
+}
+
+// Only members who opened an earlier version are told; a document they've never opened is simply new
+export function hasNewerVersion(document: Pick<LodgeDocument, 'id' | 'version_number'>, readVersion?: number): boolean {
+  return readVersion !== undefined && readVersion < (document.version_number || 1);
+}
@@ -0,0 +1,83 @@
+/**
+ * Dues Helpers
+ * Balances come from the dues_invoice_balances view; these turn them into the
+ * labels, totals and arrears report the Treasurer works from.
+ */
+
+import { DuesInvoiceBalance, PaymentMethod } from '../types';
+import { CsvValue } from './csv';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  cheque: 'Cheque',
+  bank_transfer: 'Bank transfer'
+};
+
+export type InvoiceStatus = 'paid' | 'part_paid' | 'unpaid' | 'overdue' | 'cancelled';
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  paid: 'Paid',
+  part_paid: 'Part paid',
+  unpaid: 'Unpaid',
+  overdue: 'Overdue',
+  cancelled: 'Cancelled'
+};
+
+export const INVOICE_STATUS_BADGES: Record<InvoiceStatus, string> = {
+  paid: 'bg-green-100 text-green-700',
+  part_paid: 'bg-blue-100 text-blue-700',
+  unpaid: 'bg-neutral-100 text-neutral-600',
+  overdue: 'bg-red-100 text-red-700',
+  cancelled: 'bg-neutral-100 text-neutral-400 line-through'
+};
+
+const poundFormatter = new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP' });
+
+export function formatPounds(amount: number): string {
+  return poundFormatter.format(amount);
+}
+
+export function invoiceStatus(invoice: DuesInvoiceBalance): InvoiceStatus {
+  if (invoice.cancelled) return 'cancelled';
+  if (Number(invoice.balance) <= 0) return 'paid';
+  if (invoice.overdue) return 'overdue';
+  return Number(invoice.paid) > 0 ? 'part_paid' : 'unpaid';
+}
+
+export function totalOutstanding(invoices: DuesInvoiceBalance[]): number {
+  return invoices.reduce((total, invoice) => total + Math.max(0, Number(invoice.balance)), 0);
+}
+
+export const ARREARS_CSV_HEADERS = ['Member', 'Invoices', 'Invoiced', 'Paid', 'Owed', 'Overdue', 'Oldest Due Date'];
+
+/**
+ * Who owes what: one row per member with anything outstanding, largest debt first
+ */
+export function arrearsToCsvRows(invoices: DuesInvoiceBalance[]): CsvValue[][] {
+  const byMember = new Map<string, DuesInvoiceBalance[]>();
+  invoices
+    .filter(invoice => !invoice.cancelled && Number(invoice.balance) > 0)
+    .forEach(invoice => byMember.set(invoice.user_id, [...(byMember.get(invoice.user_id) || []), invoice]));
+
+  return Array.from(byMember.values())
+    .map(memberInvoices => {
+      const sum = (pick: (invoice: DuesInvoiceBalance) => number) =>
+        memberInvoices.reduce((total, invoice) => total + Number(pick(invoice)), 0);
+      const overdue = memberInvoices.filter(invoice => invoice.overdue);
+      const oldest = memberInvoices.map(invoice => invoice.due_date).sort()[0];
+      return {
+        owed: sum(invoice => invoice.balance),
+        row: [
+          memberInvoices[0].member_name || 'Unknown member',
+          memberInvoices.map(invoice => invoice.title).join('; '),
+          sum(invoice => invoice.amount).toFixed(2),
+          sum(invoice => invoice.paid).toFixed(2),
+          sum(invoice => invoice.balance).toFixed(2),
+          overdue.reduce((total, invoice) => total + Number(invoice.balance), 0).toFixed(2),
+          oldest
+        ] as CsvValue[]
+      };
+    })
+    .sort((a, b) => b.owed - a.owed)
+    .map(({ row }) => row);
+}
@@ -0,0 +1,67 @@
+/**
+ * Event Booking Helpers
+ * Seat counting mirrors public.event_booking_seats() in the database: a booking
+ * takes one festive board seat for the member (if dining) plus one per dining guest.
+ * Guests are dining unless marked otherwise, as in the database.
+ */
+
+import { CMSEvent, EventBooking, EventBookingSummary } from '../types';
+import { CsvValue } from './csv';
+
+export function countBookingSeats(booking: Pick<EventBooking, 'attending' | 'festive_board' | 'guests'>): number {
+  if (!booking.attending) return 0;
+  return (booking.festive_board ? 1 : 0) + booking.guests.filter(guest => guest.festive_board !== false).length;
+}
+
+/**
+ * Counts for the admin attendee list
+ */
+export function summariseBookings(bookings: EventBooking[], capacity?: number | null): EventBookingSummary & {
+  declined_count: number;
+  guest_count: number;
+} {
+  const confirmed = bookings.filter(b => b.status === 'confirmed');
+
+  return {
+    capacity: capacity ?? null,
+    confirmed_seats: confirmed.reduce((total, b) => total + countBookingSeats(b), 0),
+    waitlisted_count: bookings.filter(b => b.status === 'waitlisted').length,
+    attending_count: bookings.filter(b => b.attending).length,
+    declined_count: bookings.filter(b => b.status === 'declined').length,
+    guest_count: confirmed.reduce((total, b) => total + b.guests.length, 0)
+  };
+}
+
+/**
+ * Whether members can still RSVP (the database enforces the same rule)
+ */
+export function areBookingsOpen(event: Pick<CMSEvent, 'bookings_enabled' | 'booking_cutoff' | 'event_date'>): boolean {
+  if (!event.bookings_enabled) return false;
+  return new Date(event.booking_cutoff || event.event_date) > new Date();
+}
+
+export const CATERER_CSV_HEADERS = ['Name', 'Type', 'Booked By', 'Status', 'Festive Board', 'Dietary Requirements', 'Notes'];
+
+/**
+ * One row per person (members and their guests) for the caterer
+ */
+export function bookingsToCsvRows(bookings: EventBooking[]): CsvValue[][] {
+  return bookings
+    .filter(b => b.attending)
+    .sort((a, b) => (a.member_name || '').localeCompare(b.member_name || ''))
+    .flatMap(booking => {
+      const memberName = booking.member_name || 'Unknown member';
+      return [
+        [memberName, 'Member', '', booking.status, booking.festive_board ? 'Yes' : 'No', booking.dietary_requirements || '', booking.notes || ''],
+        ...booking.guests.map(guest => [
+          guest.name,
+          'Guest',
+          memberName,
+          booking.status,
+          guest.festive_board ? 'Yes' : 'No',
+          guest.dietary_requirements || '',
+          ''
+        ])
+      ];
+    });
+}
@@ -0,0 +1,2 @@
+// Shared with the calendar-feed edge function
+export * from '../../supabase/functions/_shared/icalendar';
@@ -0,0 +1,45 @@
+/**
+ * Meeting Minutes Helpers
+ * Workflow labels, and converting the list sections to and from the
+ * one-name-per-line text the Secretary types.
+ */
+
+import { MinutesBallot, MinutesStatus } from '../types';
+
+export const MINUTES_STATUS_LABELS: Record<MinutesStatus, string> = {
+  draft: 'Draft',
+  circulated: 'Circulated',
+  confirmed: 'Confirmed'
+};
+
+export const MINUTES_STATUS_BADGES: Record<MinutesStatus, string> = {
+  draft: 'bg-neutral-100 text-neutral-600',
+  circulated: 'bg-amber-100 text-amber-700',
+  confirmed: 'bg-green-100 text-green-700'
+};
+
+export const BALLOT_KIND_LABELS: Record<MinutesBallot['kind'], string> = {
+  initiation: 'Initiation',
+  joining: 'Joining member'
+};
+
+export const BALLOT_RESULT_LABELS: Record<MinutesBallot['result'], string> = {
+  elected: 'Elected',
+  rejected: 'Not elected'
+};
+
+export function linesToList(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean);
+}
+
+export function listToLines(list?: string[] | null): string {
+  return (list || []).join('\n');
+}
+
+export function formatAlms(amount?: number | null): string | null {
+  if (amount === null || amount === undefined) return null;
+  return new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP' }).format(amount);
+}
@@ -0,0 +1,67 @@
+/**
+ * Roles and Permissions
+ * Labels for the Lodge roles and the permissions that open each admin area.
+ * Which role holds which permission lives in the database (role_permissions);
+ * the signed-in member's set comes from AuthContext.
+ */
+
+import { MemberRole, Permission } from '../types';
+
+export const ROLE_LABELS: Record<MemberRole, string> = {
+  member: 'Member',
+  admin: 'Administrator',
+  secretary: 'Secretary',
+  treasurer: 'Treasurer',
+  almoner: 'Almoner',
+  webmaster: 'Webmaster',
+  editor: 'Editor'
+};
+
+export const ROLE_DESCRIPTIONS: Record<MemberRole, string> = {
+  member: 'Members area only',
+  admin: 'Everything, including assigning roles',
+  secretary: 'Members, enquiries, documents, minutes, events and the audit log',
+  treasurer: 'Subscriptions, dues and the audit log',
+  almoner: 'Alms, donations and fundraising',
+  webmaster: 'Site content, events and publishing',
+  editor: 'News and blog posts'
+};
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  approve_members: 'Approve members',
+  manage_members: 'Manage members',
+  manage_documents: 'Manage documents',
+  edit_minutes: 'Edit minutes',
+  manage_events: 'Manage events',
+  publish_content: 'Publish posts',
+  manage_site: 'Manage site',
+  view_audit_log: 'View audit log',
+  manage_finances: 'Manage finances',
+  manage_charity: 'Manage charity',
+  manage_enquiries: 'Manage enquiries'
+};
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSION_LABELS) as Permission[];
+
+// Holding any one of these opens the page
+export const ADMIN_PAGE_PERMISSIONS: Permission[] = [
+  'approve_members',
+  'manage_members',
+  'manage_documents',
+  'edit_minutes',
+  'view_audit_log',
+  'manage_enquiries',
+  'manage_finances',
+  'manage_charity'
+];
+
+export const CMS_PAGE_PERMISSIONS: Permission[] = ['manage_events', 'publish_content', 'manage_site'];
+
+export function roleLabel(role?: MemberRole | null): string {
+  return role ? ROLE_LABELS[role] || role : ROLE_LABELS.member;
+}
+
+// Anyone with a role beyond plain membership gets the highlighted badge
+export function isOfficeHolder(role?: MemberRole | null): boolean {
+  return !!role && role !== 'member';
+}
@@ -0,0 +1,111 @@
+/**
+ * Revision Diff Helpers
+ * Compares two content snapshots field by field for the side-by-side
+ * revision viewer, with a line-level diff for longer text.
+ */
+
+// Columns that change on every save and aren't worth showing
+const IGNORED_FIELDS = ['id', 'created_at', 'updated_at', 'updated_by'];
+
+// Above this many line comparisons, show the text as wholly replaced instead
+const MAX_LINE_DIFF_CELLS = 250000;
+
+export interface LineDiff {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface FieldDiff {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+  changed: boolean;
+  // Only for multi-line text that changed
+  lines?: LineDiff[];
+}
+
+/**
+ * Turn a column name into a label, e.g. event_date -> "Event date"
+ */
+export function fieldLabel(field: string): string {
+  const words = field.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function formatSnapshotValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.map(formatSnapshotValue).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return String(value);
+}
+
+/**
+ * Line diff using the longest common subsequence of lines
+ */
+export function diffLines(before: string, after: string): LineDiff[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  if (a.length * b.length > MAX_LINE_DIFF_CELLS) {
+    return [
+      ...a.map(text => ({ type: 'removed' as const, text })),
+      ...b.map(text => ({ type: 'added' as const, text }))
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: LineDiff[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: 'removed', text: a[i++] });
+    } else {
+      result.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) result.push({ type: 'added', text: b[j++] });
+
+  return result;
+}
+
+/**
+ * Compare two snapshots of the same row. Fields keep the order of the newer
+ * snapshot, with any that only exist in the older one at the end.
+ */
+export function diffSnapshots(before: Record<string, unknown>, after: Record<string, unknown>): FieldDiff[] {
+  const fields = Array.from(new Set([...Object.keys(after), ...Object.keys(before)]))
+    .filter(field => !IGNORED_FIELDS.includes(field));
+
+  return fields.map(field => {
+    const beforeText = formatSnapshotValue(before[field]);
+    const afterText = formatSnapshotValue(after[field]);
+    const changed = beforeText !== afterText;
+    const multiline = beforeText.includes('\n') || afterText.includes('\n');
+
+    return {
+      field,
+      label: fieldLabel(field),
+      before: beforeText,
+      after: afterText,
+      changed,
+      lines: changed && multiline ? diffLines(beforeText, afterText) : undefined
+    };
+  });
+}
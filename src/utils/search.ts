@@ -0,0 +1,99 @@
+/**
+ * Search Helpers
+ * Snippet highlighting, labels and URL state for the full-text search page.
+ */
+
+import { SearchContentType, SearchFilters, SearchResult } from '../types';
+
+// Must match StartSel/StopSel in search_matches()
+const HIGHLIGHT_START = '⟦';
+const HIGHLIGHT_END = '⟧';
+
+export interface SnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+export const SEARCH_TYPE_LABELS: Record<SearchContentType, string> = {
+  document: 'Documents',
+  minutes: 'Minutes',
+  blog: 'News & Blog'
+};
+
+const CATEGORY_LABELS: Record<string, string> = {
+  grand_lodge: 'Grand Lodge Communications',
+  provincial: 'Provincial Communications',
+  summons: 'Summons',
+  minutes: 'Meeting Minutes',
+  gpc_minutes: 'GPC Minutes',
+  lodge_instruction: 'Lodge of Instruction',
+  resources: 'Resources',
+  news: 'Lodge News',
+  charity: 'Charity Work',
+  'masonic-education': 'Masonic Education'
+};
+
+export function searchCategoryLabel(category: string): string {
+  if (CATEGORY_LABELS[category]) return CATEGORY_LABELS[category];
+  const words = category.replace(/[_-]/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Split a snippet into plain and matched parts so matches can be rendered
+ * as <mark> without treating the content as HTML
+ */
+export function splitSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  let rest = snippet;
+
+  while (rest) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    if (start === -1) {
+      parts.push({ text: rest, highlighted: false });
+      break;
+    }
+
+    const end = rest.indexOf(HIGHLIGHT_END, start);
+    if (end === -1) {
+      parts.push({ text: rest.replace(HIGHLIGHT_START, ''), highlighted: false });
+      break;
+    }
+
+    if (start > 0) parts.push({ text: rest.slice(0, start), highlighted: false });
+    parts.push({ text: rest.slice(start + HIGHLIGHT_START.length, end), highlighted: true });
+    rest = rest.slice(end + HIGHLIGHT_END.length);
+  }
+
+  return parts;
+}
+
+// Where a result opens, if anywhere. Minutes without a document are read in place.
+export function searchResultLink(result: SearchResult): { href: string; external: boolean } | null {
+  if (result.content_type === 'blog') return { href: `/news/${result.id}`, external: false };
+  return result.url ? { href: result.url, external: true } : null;
+}
+
+/**
+ * Filters <-> URL query string, so searches can be bookmarked and shared
+ */
+export function searchFiltersFromParams(params: URLSearchParams): SearchFilters {
+  const list = (key: string) => params.get(key)?.split(',').filter(Boolean);
+  return {
+    types: list('type') as SearchContentType[] | undefined,
+    categories: list('category'),
+    from: params.get('from') || undefined,
+    to: params.get('to') || undefined
+  };
+}
+
+export function searchParamsFromState(query: string, filters: SearchFilters, page: number): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query) params.set('q', query);
+  if (filters.types?.length) params.set('type', filters.types.join(','));
+  if (filters.categories?.length) params.set('category', filters.categories.join(','));
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (page > 1) params.set('page', String(page));
+  return params;
+}
@@ -0,0 +1,72 @@
+/**
+ * vCard Builder
+ * Produces vCard 3.0 contact cards, the version phones and Outlook import
+ * most reliably, from member directory entries.
+ *
+ * Entries come from member_directory, so fields a member has hidden from the
+ * viewer are already null and never reach the card.
+ */
+
+import { MemberDirectoryEntry } from '../types';
+import { downloadFile } from './download';
+import { escapeText, foldLine } from './icalendar';
+
+const ORGANISATION = 'Radlett Lodge No. 6652';
+
+/**
+ * Split a full name into vCard's structured N property (family;given;additional;prefix;suffix).
+ * The last word is taken as the family name.
+ */
+function structuredName(fullName: string): string {
+  const words = fullName.trim().split(/\s+/);
+  const family = words.length > 1 ? words.pop()! : '';
+  return [family, words.join(' '), '', '', ''].map(escapeText).join(';');
+}
+
+function buildCardLines(member: MemberDirectoryEntry): string[] {
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `UID:${member.user_id}`,
+    `FN:${escapeText(member.full_name)}`,
+    `N:${structuredName(member.full_name)}`,
+    `ORG:${escapeText(ORGANISATION)}`
+  ];
+
+  if (member.position) {
+    lines.push(`TITLE:${escapeText(member.position)}`);
+  }
+  if (member.contact_email) {
+    lines.push(`EMAIL;TYPE=INTERNET:${escapeText(member.contact_email)}`);
+  }
+  if (member.contact_phone) {
+    lines.push(`TEL;TYPE=VOICE:${escapeText(member.contact_phone)}`);
+  }
+
+  const ranks = [
+    member.masonic_provincial_rank && `Provincial rank: ${member.masonic_provincial_rank}`,
+    member.grand_lodge_rank && `Grand Lodge rank: ${member.grand_lodge_rank}`
+  ].filter(Boolean) as string[];
+  if (ranks.length > 0) {
+    lines.push(`NOTE:${escapeText(ranks.join('\n'))}`);
+  }
+
+  lines.push('END:VCARD');
+  return lines;
+}
+
+/**
+ * Build a .vcf document. Several cards in one file import as several contacts.
+ */
+export function buildVCards(members: MemberDirectoryEntry[]): string {
+  return members.flatMap(buildCardLines).map(foldLine).join('\r\n') + '\r\n';
+}
+
+export function vCardFilename(member: MemberDirectoryEntry): string {
+  const slug = member.full_name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'member'}.vcf`;
+}
+
+export function downloadVCards(members: MemberDirectoryEntry[], filename: string): void {
+  downloadFile(buildVCards(members), filename, 'text/vcard;charset=utf-8');
+}
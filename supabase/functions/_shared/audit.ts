@@ -0,0 +1,32 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export interface AuditEntry {
+  actor_id: string;
+  actor_name?: string | null;
+  action: string;
+  table_name: string;
+  record_id?: string | null;
+  record_label?: string | null;
+  summary?: string | null;
+  old_values?: Record<string, unknown> | null;
+  new_values?: Record<string, unknown> | null;
+}
+
+/**
+ * Record an admin action in audit_log. The audit trigger skips service-role
+ * writes, so functions acting with the service role must call this themselves.
+ * Failures are logged but never fail the request - the action has already happened.
+ */
+export async function writeAuditLog(
+  supabaseAdmin: SupabaseClient,
+  source: string,
+  entry: AuditEntry
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('audit_log')
+    .insert({ ...entry, source });
+
+  if (error) {
+    console.error('Failed to write audit log entry:', error);
+  }
+}
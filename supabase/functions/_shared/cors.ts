@@ -2,4 +2,37 @@ export const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
-};
\ No newline at end of file
+};
+
+// The live site and the Vite dev server (port 3000, see package.json). ALLOWED_ORIGINS (comma-separated) replaces these.
+const DEFAULT_ALLOWED_ORIGINS = [
+  'https://radlettlodge6652.org.uk',
+  'https://www.radlettlodge6652.org.uk',
+  'http://localhost:3000',
+  'http://127.0.0.1:3000'
+];
+
+export function allowedOrigins(): string[] {
+  const configured = Deno.env.get('ALLOWED_ORIGINS');
+  if (!configured) return DEFAULT_ALLOWED_ORIGINS;
+  return configured.split(',').map(origin => origin.trim().replace(/\/$/, '')).filter(Boolean);
+}
+
+export function isAllowedOrigin(req: Request): boolean {
+  const origin = req.headers.get('Origin');
+  return !!origin && allowedOrigins().includes(origin);
+}
+
+/**
+ * CORS headers for endpoints only the Lodge's own site may call. The caller's
+ * origin is echoed back when it's on the allow-list; anything else gets the
+ * first allowed origin, which the browser then refuses.
+ */
+export function restrictedCorsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get('Origin');
+  return {
+    ...corsHeaders,
+    'Access-Control-Allow-Origin': origin && allowedOrigins().includes(origin) ? origin : allowedOrigins()[0] ?? 'null',
+    'Vary': 'Origin',
+  };
+}
@@ -0,0 +1,248 @@
+/*
+  Outgoing email for the edge functions.
+
+  EMAIL_PROVIDER picks the transport:
+    resend - Resend HTTP API (default). Needs EMAIL_SERVICE_API_KEY.
+    smtp   - Any SMTP server. Needs SMTP_HOST and EMAIL_SENDER_ADDRESS; SMTP_PORT,
+             SMTP_USERNAME, SMTP_PASSWORD and SMTP_SECURE are optional.
+    file   - Nothing leaves the machine. Messages are logged, and written as JSON
+             to EMAIL_FILE_DIR when it's set. For local development and tests.
+
+  EMAIL_SENDER_ADDRESS is the From address and EMAIL_RECIPIENT_ADDRESS the Lodge's
+  own inbox. Missing settings throw EmailConfigError; there are no built-in keys.
+*/
+
+export type EmailProvider = 'resend' | 'smtp' | 'file';
+
+export interface EmailMessage {
+  to: string | string[];
+  subject: string;
+  text: string;
+  html?: string;
+  replyTo?: string;
+  // Display name on the From line
+  fromName?: string;
+}
+
+export interface EmailTransport {
+  provider: EmailProvider;
+  // Resolves with the provider's message id; throws EmailSendError on failure
+  send(message: EmailMessage): Promise<string | null>;
+}
+
+interface SmtpSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  username?: string;
+  password?: string;
+}
+
+export interface EmailConfig {
+  provider: EmailProvider;
+  sender: string;
+  resendApiKey?: string;
+  smtp?: SmtpSettings;
+  fileDir?: string;
+}
+
+export class EmailConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailConfigError';
+  }
+}
+
+export class EmailSendError extends Error {
+  constructor(message: string, public readonly provider: EmailProvider) {
+    super(message);
+    this.name = 'EmailSendError';
+  }
+}
+
+const PROVIDERS: EmailProvider[] = ['resend', 'smtp', 'file'];
+const DEFAULT_FROM_NAME = 'Radlett Lodge';
+const DEFAULT_LODGE_ADDRESS = 'radlettlodge6652@gmail.com';
+// Resend's shared test sender, usable before the Lodge's domain is verified
+const RESEND_TEST_SENDER = 'onboarding@resend.dev';
+
+const env = (name: string): string | undefined => Deno.env.get(name)?.trim() || undefined;
+
+/**
+ * Read and check the email settings. Throws EmailConfigError naming every
+ * missing or invalid variable, so a misconfigured deployment says exactly what to fix.
+ */
+export function loadEmailConfig(): EmailConfig {
+  const provider = (env('EMAIL_PROVIDER') ?? 'resend').toLowerCase() as EmailProvider;
+  if (!PROVIDERS.includes(provider)) {
+    throw new EmailConfigError(`EMAIL_PROVIDER must be one of ${PROVIDERS.join(', ')} (got "${provider}")`);
+  }
+
+  const problems: string[] = [];
+  const config: EmailConfig = {
+    provider,
+    sender: env('EMAIL_SENDER_ADDRESS') ?? ''
+  };
+
+  if (provider === 'resend') {
+    config.resendApiKey = env('EMAIL_SERVICE_API_KEY');
+    config.sender ||= RESEND_TEST_SENDER;
+    if (!config.resendApiKey) problems.push('EMAIL_SERVICE_API_KEY is not set');
+  }
+
+  if (provider === 'smtp') {
+    const secure = env('SMTP_SECURE') === 'true';
+    const port = Number(env('SMTP_PORT') ?? (secure ? 465 : 587));
+    const username = env('SMTP_USERNAME');
+    const password = env('SMTP_PASSWORD');
+
+    if (!env('SMTP_HOST')) problems.push('SMTP_HOST is not set');
+    if (!Number.isInteger(port) || port <= 0) problems.push('SMTP_PORT must be a port number');
+    if (!config.sender) problems.push('EMAIL_SENDER_ADDRESS is not set');
+    if (username && !password) problems.push('SMTP_PASSWORD is not set (SMTP_USERNAME is)');
+
+    config.smtp = { host: env('SMTP_HOST') ?? '', port, secure, username, password };
+  }
+
+  if (provider === 'file') {
+    config.sender ||= 'website@localhost';
+    config.fileDir = env('EMAIL_FILE_DIR');
+  }
+
+  if (problems.length > 0) {
+    throw new EmailConfigError(`Email (${provider}) is not configured: ${problems.join('; ')}`);
+  }
+
+  return config;
+}
+
+const recipients = (to: string | string[]) => (Array.isArray(to) ? to : [to]);
+
+function resendTransport(config: EmailConfig): EmailTransport {
+  return {
+    provider: 'resend',
+    async send(message) {
+      let response: Response;
+      try {
+        response = await fetch('https://api.resend.com/emails', {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${config.resendApiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            from: `${message.fromName ?? DEFAULT_FROM_NAME} <${config.sender}>`,
+            to: recipients(message.to),
+            reply_to: message.replyTo,
+            subject: message.subject,
+            text: message.text,
+            html: message.html
+          }),
+        });
+      } catch (error) {
+        throw new EmailSendError(`Failed to reach Resend: ${error instanceof Error ? error.message : error}`, 'resend');
+      }
+
+      if (!response.ok) {
+        throw new EmailSendError(`Resend API returned ${response.status}: ${await response.text()}`, 'resend');
+      }
+
+      const result = await response.json().catch(() => ({}));
+      return result.id ?? null;
+    }
+  };
+}
+
+function smtpTransport(config: EmailConfig): EmailTransport {
+  const smtp = config.smtp!;
+  return {
+    provider: 'smtp',
+    async send(message) {
+      try {
+        // Loaded on first use so the other transports don't pay for it
+        const { default: nodemailer } = await import('npm:nodemailer@6');
+        const transporter = nodemailer.createTransport({
+          host: smtp.host,
+          port: smtp.port,
+          secure: smtp.secure,
+          auth: smtp.username ? { user: smtp.username, pass: smtp.password } : undefined
+        });
+
+        const info = await transporter.sendMail({
+          from: `${message.fromName ?? DEFAULT_FROM_NAME} <${config.sender}>`,
+          to: recipients(message.to),
+          replyTo: message.replyTo,
+          subject: message.subject,
+          text: message.text,
+          html: message.html
+        });
+        return info.messageId ?? null;
+      } catch (error) {
+        throw new EmailSendError(`SMTP send via ${smtp.host}:${smtp.port} failed: ${error instanceof Error ? error.message : error}`, 'smtp');
+      }
+    }
+  };
+}
+
+function fileTransport(config: EmailConfig): EmailTransport {
+  return {
+    provider: 'file',
+    async send(message) {
+      const id = crypto.randomUUID();
+      const stored = {
+        id,
+        sent_at: new Date().toISOString(),
+        from: `${message.fromName ?? DEFAULT_FROM_NAME} <${config.sender}>`,
+        ...message,
+        to: recipients(message.to)
+      };
+
+      console.log(`[email:file] ${stored.to.join(', ')} - ${message.subject}\n${message.text}`);
+
+      if (config.fileDir) {
+        try {
+          await Deno.mkdir(config.fileDir, { recursive: true });
+          await Deno.writeTextFile(`${config.fileDir}/${stored.sent_at.replace(/[:.]/g, '-')}-${id}.json`, JSON.stringify(stored, null, 2));
+        } catch (error) {
+          throw new EmailSendError(`Couldn't write to ${config.fileDir}: ${error instanceof Error ? error.message : error}`, 'file');
+        }
+      }
+
+      return id;
+    }
+  };
+}
+
+export function createEmailTransport(config: EmailConfig = loadEmailConfig()): EmailTransport {
+  switch (config.provider) {
+    case 'resend':
+      return resendTransport(config);
+    case 'smtp':
+      return smtpTransport(config);
+    case 'file':
+      return fileTransport(config);
+  }
+}
+
+/**
+ * Send one message with the configured transport. Delivery errors are logged
+ * and reported as `sent: false`, so callers can record what happened without
+ * losing the work the email was about. EmailConfigError is rethrown: a
+ * deployment with no working email settings should fail, not quietly carry on.
+ */
+export async function sendEmail(
+  message: EmailMessage
+): Promise<{ sent: true; id: string | null } | { sent: false; error: string }> {
+  try {
+    const id = await createEmailTransport().send(message);
+    return { sent: true, id };
+  } catch (error) {
+    if (error instanceof EmailConfigError) throw error;
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`Email "${message.subject}" to ${recipients(message.to).join(', ')} was not sent:`, reason);
+    return { sent: false, error: reason };
+  }
+}
+
+// The Lodge's own inbox, for notifications about enquiries and applications
+export const lodgeAddress = (): string => env('EMAIL_RECIPIENT_ADDRESS') ?? DEFAULT_LODGE_ADDRESS;
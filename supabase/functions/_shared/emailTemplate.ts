@@ -0,0 +1,93 @@
+/*
+  Plain-text and HTML bodies built from the same content, so every email reads
+  the same whichever part the recipient's mail client shows.
+*/
+
+export interface EmailTemplate {
+  greeting?: string;
+  paragraphs?: string[];
+  // Label/value pairs, e.g. the fields of a form submission
+  details?: Array<[label: string, value: string]>;
+  // Free text written by someone else, shown as a quote
+  quote?: { label: string; text: string };
+  closing?: string[];
+  // Line breaks are kept
+  signOff?: string;
+  footer?: string;
+}
+
+export interface RenderedEmail {
+  text: string;
+  html: string;
+}
+
+export const LODGE_SIGN_OFF = 'With fraternal regards,\nThe Secretary\nRadlett Lodge No. 6652';
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const htmlLines = (value: string) => escapeHtml(value).replace(/\n/g, '<br>');
+
+const paragraphStyle = 'margin:0 0 16px;line-height:1.5;';
+
+export function renderEmail(template: EmailTemplate): RenderedEmail {
+  const text: string[] = [];
+  const html: string[] = [];
+
+  if (template.greeting) {
+    text.push(template.greeting);
+    html.push(`<p style="${paragraphStyle}">${htmlLines(template.greeting)}</p>`);
+  }
+
+  for (const paragraph of template.paragraphs ?? []) {
+    text.push(paragraph);
+    html.push(`<p style="${paragraphStyle}">${htmlLines(paragraph)}</p>`);
+  }
+
+  if (template.details?.length) {
+    text.push(template.details.map(([label, value]) => `${label}: ${value}`).join('\n'));
+    html.push(
+      `<table style="border-collapse:collapse;margin:0 0 16px;">${template.details
+        .map(([label, value]) =>
+          `<tr><td style="padding:4px 16px 4px 0;color:#6b7280;vertical-align:top;">${escapeHtml(label)}</td>` +
+          `<td style="padding:4px 0;">${htmlLines(value)}</td></tr>`)
+        .join('')}</table>`
+    );
+  }
+
+  if (template.quote) {
+    text.push(`${template.quote.label}:\n${template.quote.text}`);
+    html.push(
+      `<p style="margin:0 0 4px;color:#6b7280;">${escapeHtml(template.quote.label)}</p>` +
+      `<blockquote style="margin:0 0 16px;padding:8px 12px;border-left:3px solid #d1d5db;background:#f9fafb;">${htmlLines(template.quote.text)}</blockquote>`
+    );
+  }
+
+  for (const paragraph of template.closing ?? []) {
+    text.push(paragraph);
+    html.push(`<p style="${paragraphStyle}">${htmlLines(paragraph)}</p>`);
+  }
+
+  if (template.signOff) {
+    text.push(template.signOff);
+    html.push(`<p style="${paragraphStyle}">${htmlLines(template.signOff)}</p>`);
+  }
+
+  if (template.footer) {
+    text.push(`---\n${template.footer}`);
+    html.push(`<p style="margin:24px 0 0;padding-top:12px;border-top:1px solid #e5e7eb;font-size:12px;color:#6b7280;">${htmlLines(template.footer)}</p>`);
+  }
+
+  return {
+    text: text.join('\n\n'),
+    html: '<!DOCTYPE html><html><body style="margin:0;padding:24px;background:#ffffff;">' +
+      '<div style="max-width:600px;margin:0 auto;font-family:Georgia,serif;font-size:15px;color:#1f2937;">' +
+      html.join('') +
+      '</div></body></html>'
+  };
+}
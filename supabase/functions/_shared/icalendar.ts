@@ -0,0 +1,203 @@
+/**
+ * iCalendar (RFC 5545) Builder
+ * Produces .ics calendars for Lodge meetings and CMS events with times pinned
+ * to Europe/London, so calendar apps show the right time either side of BST.
+ *
+ * Lives with the edge functions so calendar-feed deploys with it; the app
+ * imports it through src/utils/icalendar.ts. Keep it free of imports.
+ */
+
+export const LODGE_TIMEZONE = 'Europe/London';
+
+/**
+ * A wall-clock time in Europe/London (month is 1-12)
+ */
+export interface LondonDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+export interface CalendarEntry {
+  uid: string;
+  title: string;
+  description?: string;
+  location?: string;
+  start: LondonDateTime;
+  durationMinutes?: number;
+  url?: string;
+}
+
+const PRODUCT_ID = '-//Radlett Lodge No. 6652//Lodge Calendar//EN';
+const DEFAULT_DURATION_MINUTES = 180;
+
+// Current UK rules: BST from the last Sunday in March to the last Sunday in October
+const LONDON_VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${LODGE_TIMEZONE}`,
+  `X-LIC-LOCATION:${LODGE_TIMEZONE}`,
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:+0000',
+  'TZOFFSETTO:+0100',
+  'TZNAME:BST',
+  'DTSTART:19700329T010000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:+0100',
+  'TZOFFSETTO:+0000',
+  'TZNAME:GMT',
+  'DTSTART:19701025T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE'
+];
+
+/**
+ * Convert an instant (e.g. a timestamptz from Supabase) to London wall-clock time
+ */
+export function londonTimeFromInstant(date: Date): LondonDateTime {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: LODGE_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute')
+  };
+}
+
+/**
+ * Read a Date's local fields as London wall-clock time. Used for schedule-derived
+ * dates such as Lodge meetings, which are "18:00 on the night" wherever they're computed.
+ */
+export function londonTimeFromLocalDate(date: Date): LondonDateTime {
+  return {
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+    hour: date.getHours(),
+    minute: date.getMinutes()
+  };
+}
+
+const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+
+function formatLocal(time: LondonDateTime): string {
+  return `${pad(time.year, 4)}${pad(time.month)}${pad(time.day)}T${pad(time.hour)}${pad(time.minute)}00`;
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+}
+
+/**
+ * Add minutes to a wall-clock time (calendar arithmetic, ignoring DST)
+ */
+function addMinutes(time: LondonDateTime, minutes: number): LondonDateTime {
+  const shifted = new Date(Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute + minutes));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hour: shifted.getUTCHours(),
+    minute: shifted.getUTCMinutes()
+  };
+}
+
+/**
+ * Escape a text value. vCard (RFC 6350) uses the same rules.
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold content lines longer than 75 octets, as required by RFC 5545 and RFC 6350
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    const limit = chunks.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (currentBytes + charBytes > limit) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+function buildEventLines(entry: CalendarEntry, stamp: Date): string[] {
+  const end = addMinutes(entry.start, entry.durationMinutes ?? DEFAULT_DURATION_MINUTES);
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${entry.uid}`,
+    `DTSTAMP:${formatUtc(stamp)}`,
+    `DTSTART;TZID=${LODGE_TIMEZONE}:${formatLocal(entry.start)}`,
+    `DTEND;TZID=${LODGE_TIMEZONE}:${formatLocal(end)}`,
+    `SUMMARY:${escapeText(entry.title)}`
+  ];
+
+  if (entry.description) {
+    lines.push(`DESCRIPTION:${escapeText(entry.description)}`);
+  }
+  if (entry.location) {
+    lines.push(`LOCATION:${escapeText(entry.location)}`);
+  }
+  if (entry.url) {
+    lines.push(`URL:${entry.url}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Build a complete VCALENDAR document
+ */
+export function buildCalendar(entries: CalendarEntry[], calendarName: string = 'Radlett Lodge No. 6652'): string {
+  const stamp = new Date();
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${LODGE_TIMEZONE}`,
+    ...LONDON_VTIMEZONE,
+    ...entries.flatMap(entry => buildEventLines(entry, stamp)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,289 @@
+/**
+ * Lodge Meeting Schedule Calculator
+ * Calculates meeting dates from the Lodge's meeting rules (stored in the
+ * `meeting_rules` table and edited in the CMS), then applies any one-off
+ * cancellations, changes or extra meetings from `meeting_overrides`.
+ *
+ * DEFAULT_MEETING_SCHEDULE mirrors the seeded rules for Radlett Lodge No. 6652:
+ * - 2nd Saturday December (Installation)
+ * - 2nd Saturday February
+ * - 1st Saturday April
+ * - 2nd Saturday July
+ * - 1st Saturday September
+ *
+ * Lives with the edge functions so calendar-feed deploys with it; the app
+ * imports it through src/utils/lodgeMeetings.ts. Keep it free of imports.
+ */
+
+export interface LodgeMeeting {
+  date: Date;
+  title: string;
+  description: string;
+  location: string;
+  isInstallation: boolean;
+}
+
+/**
+ * A recurring meeting, e.g. "2nd Saturday of February at 18:00"
+ */
+export interface MeetingRule {
+  title: string;
+  description: string;
+  month: number; // 1-12
+  weekday: number; // 0=Sunday, 6=Saturday
+  week_of_month: number; // 1-5, or -1 for the last occurrence
+  start_time: string; // HH:MM or HH:MM:SS
+  location: string;
+  is_installation: boolean;
+  is_active?: boolean;
+}
+
+export type MeetingOverrideType = 'cancel' | 'change' | 'add';
+
+/**
+ * A one-off exception. For 'cancel' and 'change', meeting_date is the date the
+ * regular meeting would have fallen on; for 'add' it's the date of the extra meeting.
+ */
+export interface MeetingOverride {
+  meeting_date: string; // YYYY-MM-DD
+  override_type: MeetingOverrideType;
+  new_date?: string | null;
+  start_time?: string | null;
+  title?: string | null;
+  description?: string | null;
+  location?: string | null;
+  is_installation?: boolean | null;
+  note?: string | null;
+}
+
+export interface MeetingSchedule {
+  rules: MeetingRule[];
+  overrides: MeetingOverride[];
+}
+
+export const DEFAULT_MEETING_LOCATION = "Radlett Masonic Centre, Rose Walk, Radlett";
+
+export const DEFAULT_MEETING_SCHEDULE: MeetingSchedule = {
+  rules: [
+    {
+      title: "Regular Lodge Meeting",
+      description: "February regular meeting of Radlett Lodge No. 6652. Festive Board to follow.",
+      month: 2, weekday: 6, week_of_month: 2, start_time: "18:00",
+      location: DEFAULT_MEETING_LOCATION, is_installation: false
+    },
+    {
+      title: "Regular Lodge Meeting",
+      description: "April regular meeting of Radlett Lodge No. 6652. Festive Board to follow.",
+      month: 4, weekday: 6, week_of_month: 1, start_time: "18:00",
+      location: DEFAULT_MEETING_LOCATION, is_installation: false
+    },
+    {
+      title: "Regular Lodge Meeting",
+      description: "July regular meeting of Radlett Lodge No. 6652. Festive Board to follow.",
+      month: 7, weekday: 6, week_of_month: 2, start_time: "18:00",
+      location: DEFAULT_MEETING_LOCATION, is_installation: false
+    },
+    {
+      title: "Regular Lodge Meeting",
+      description: "September regular meeting of Radlett Lodge No. 6652. Festive Board to follow.",
+      month: 9, weekday: 6, week_of_month: 1, start_time: "18:00",
+      location: DEFAULT_MEETING_LOCATION, is_installation: false
+    },
+    {
+      title: "Installation Meeting",
+      description: "Annual Installation of the Worshipful Master and Officers. Festive Board to follow.",
+      month: 12, weekday: 6, week_of_month: 2, start_time: "18:00",
+      location: DEFAULT_MEETING_LOCATION, is_installation: true
+    }
+  ],
+  overrides: []
+};
+
+export const MEETING_MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+export const MEETING_WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const MEETING_OCCURRENCE_NAMES: Record<number, string> = {
+  1: '1st', 2: '2nd', 3: '3rd', 4: '4th', 5: '5th', [-1]: 'Last'
+};
+
+/**
+ * Describe a rule in words, e.g. "2nd Saturday of February at 18:00"
+ */
+export function describeMeetingRule(rule: Pick<MeetingRule, 'month' | 'weekday' | 'week_of_month' | 'start_time'>): string {
+  const occurrence = MEETING_OCCURRENCE_NAMES[rule.week_of_month] || `${rule.week_of_month}th`;
+  return `${occurrence} ${MEETING_WEEKDAY_NAMES[rule.weekday]} of ${MEETING_MONTH_NAMES[rule.month - 1]} at ${rule.start_time.slice(0, 5)}`;
+}
+
+/**
+ * Get the nth occurrence of a weekday in a month
+ * @param year - The year
+ * @param month - The month (0-11)
+ * @param weekday - The weekday (0=Sunday, 6=Saturday)
+ * @param occurrence - Which occurrence (1st, 2nd, etc.), or -1 for the last
+ * @returns null if the month has no such occurrence (e.g. a 5th Saturday)
+ */
+function getNthWeekdayOfMonth(year: number, month: number, weekday: number, occurrence: number): Date | null {
+  if (occurrence === -1) {
+    const lastDay = new Date(year, month + 1, 0);
+    const offset = (lastDay.getDay() - weekday + 7) % 7;
+    return new Date(year, month, lastDay.getDate() - offset);
+  }
+
+  const firstDay = new Date(year, month, 1);
+  const firstWeekday = firstDay.getDay();
+
+  // Calculate the date of the first occurrence of the weekday
+  const firstOccurrence = 1 + (weekday - firstWeekday + 7) % 7;
+
+  // Add weeks to get the nth occurrence
+  const targetDate = new Date(year, month, firstOccurrence + (occurrence - 1) * 7);
+
+  return targetDate.getMonth() === month ? targetDate : null;
+}
+
+/**
+ * Format a date as YYYY-MM-DD using its local fields
+ */
+export function toMeetingDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Combine a YYYY-MM-DD date and HH:MM time into a local Date
+ */
+function atTime(dateKey: string, time: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(year, month - 1, day, hours || 0, minutes || 0);
+}
+
+function withNote(description: string, note?: string | null): string {
+  return note ? `${description} ${note}`.trim() : description;
+}
+
+/**
+ * Meetings generated by the rules for one year, with overrides applied. Changed
+ * meetings may have moved into a neighbouring year.
+ */
+function buildMeetingsForRuleYear(year: number, schedule: MeetingSchedule): LodgeMeeting[] {
+  const meetings: LodgeMeeting[] = [];
+
+  schedule.rules
+    .filter(rule => rule.is_active !== false)
+    .forEach(rule => {
+      const day = getNthWeekdayOfMonth(year, rule.month - 1, rule.weekday, rule.week_of_month);
+      if (!day) return;
+
+      const dateKey = toMeetingDateKey(day);
+      const override = schedule.overrides.find(o => o.meeting_date === dateKey && o.override_type !== 'add');
+
+      if (override?.override_type === 'cancel') return;
+
+      if (override?.override_type === 'change') {
+        meetings.push({
+          date: atTime(override.new_date || dateKey, override.start_time || rule.start_time),
+          title: override.title || rule.title,
+          description: withNote(override.description || rule.description, override.note),
+          location: override.location || rule.location,
+          isInstallation: override.is_installation ?? rule.is_installation
+        });
+        return;
+      }
+
+      meetings.push({
+        date: atTime(dateKey, rule.start_time),
+        title: rule.title,
+        description: rule.description,
+        location: rule.location,
+        isInstallation: rule.is_installation
+      });
+    });
+
+  schedule.overrides
+    .filter(o => o.override_type === 'add' && o.meeting_date.startsWith(`${year}-`))
+    .forEach(extra => {
+      meetings.push({
+        date: atTime(extra.meeting_date, extra.start_time || '18:00'),
+        title: extra.title || "Lodge Meeting",
+        description: withNote(extra.description || '', extra.note),
+        location: extra.location || DEFAULT_MEETING_LOCATION,
+        isInstallation: extra.is_installation ?? false
+      });
+    });
+
+  return meetings;
+}
+
+/**
+ * Get all Lodge meetings for a given year
+ */
+export function getLodgeMeetingsForYear(year: number, schedule: MeetingSchedule = DEFAULT_MEETING_SCHEDULE): LodgeMeeting[] {
+  // Include neighbouring years so meetings moved across New Year land in the right one
+  return [year - 1, year, year + 1]
+    .flatMap(ruleYear => buildMeetingsForRuleYear(ruleYear, schedule))
+    .filter(meeting => meeting.date.getFullYear() === year)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Get the next upcoming Lodge meeting
+ */
+export function getNextLodgeMeeting(schedule: MeetingSchedule = DEFAULT_MEETING_SCHEDULE): LodgeMeeting | null {
+  return getUpcomingLodgeMeetings(1, schedule)[0] || null;
+}
+
+/**
+ * Get all upcoming Lodge meetings (next 3)
+ */
+export function getUpcomingLodgeMeetings(count: number = 3, schedule: MeetingSchedule = DEFAULT_MEETING_SCHEDULE): LodgeMeeting[] {
+  const now = new Date();
+  const currentYear = now.getFullYear();
+
+  // Get meetings for current year and next year
+  const currentYearMeetings = getLodgeMeetingsForYear(currentYear, schedule);
+  const nextYearMeetings = getLodgeMeetingsForYear(currentYear + 1, schedule);
+
+  const allMeetings = [...currentYearMeetings, ...nextYearMeetings];
+
+  // Filter future meetings and take the requested count
+  return allMeetings
+    .filter(meeting => meeting.date > now)
+    .slice(0, count);
+}
+
+/**
+ * Check if a date is a Lodge meeting day
+ */
+export function isLodgeMeetingDay(date: Date, schedule: MeetingSchedule = DEFAULT_MEETING_SCHEDULE): boolean {
+  const year = date.getFullYear();
+  const meetings = getLodgeMeetingsForYear(year, schedule);
+
+  return meetings.some(meeting =>
+    meeting.date.getFullYear() === date.getFullYear() &&
+    meeting.date.getMonth() === date.getMonth() &&
+    meeting.date.getDate() === date.getDate()
+  );
+}
+
+/**
+ * The Lodge meeting held on a YYYY-MM-DD date, if there was one
+ */
+export function getLodgeMeetingOn(dateKey: string, schedule: MeetingSchedule = DEFAULT_MEETING_SCHEDULE): LodgeMeeting | null {
+  const year = Number(dateKey.slice(0, 4));
+  return getLodgeMeetingsForYear(year, schedule).find(meeting => toMeetingDateKey(meeting.date) === dateKey) || null;
+}
+
+/**
+ * The first Lodge meeting after a YYYY-MM-DD date, e.g. the one that confirms its minutes
+ */
+export function getLodgeMeetingAfter(dateKey: string, schedule: MeetingSchedule = DEFAULT_MEETING_SCHEDULE): LodgeMeeting | null {
+  const year = Number(dateKey.slice(0, 4));
+  return [...getLodgeMeetingsForYear(year, schedule), ...getLodgeMeetingsForYear(year + 1, schedule)]
+    .find(meeting => toMeetingDateKey(meeting.date) > dateKey) || null;
+}
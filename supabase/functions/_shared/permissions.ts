@@ -0,0 +1,20 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+/**
+ * Whether the caller holds a permission, checked with the database's own
+ * has_permission() so functions and RLS always agree. `supabaseClient` must
+ * act as the caller (created with their Authorization header), not the service role.
+ */
+export async function hasPermission(
+  supabaseClient: SupabaseClient,
+  permission: string
+): Promise<boolean> {
+  const { data, error } = await supabaseClient.rpc('has_permission', { required: permission });
+
+  if (error) {
+    console.error(`Permission check for ${permission} failed:`, error);
+    return false;
+  }
+
+  return data === true;
+}
@@ -0,0 +1,42 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export interface AttemptCounts {
+  ip_attempts: number;
+  email_attempts: number;
+}
+
+// Raw IP addresses are never stored; the hash is peppered so it can't be reversed by brute force
+async function hashIp(ip: string): Promise<string> {
+  const pepper = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${pepper}:${ip}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// The platform's proxy appends the address it saw to X-Forwarded-For. Anything
+// before it came from the caller, who can put whatever they like there.
+const clientIp = (req: Request) =>
+  req.headers.get('x-forwarded-for')?.split(',').pop()?.trim() || 'unknown';
+
+/**
+ * Log a public form submission with record_contact_attempt() and return how
+ * many the same connection and email address have made in the last hour.
+ * Returns null if the counter is unavailable, so genuine visitors aren't
+ * turned away because of it.
+ */
+export async function recordAttempt(
+  supabaseAdmin: SupabaseClient,
+  req: Request,
+  email: string
+): Promise<AttemptCounts | null> {
+  const { data, error } = await supabaseAdmin.rpc('record_contact_attempt', {
+    ip_hash: await hashIp(clientIp(req)),
+    email
+  });
+
+  if (error) {
+    console.error('Failed to record attempt:', error);
+    return null;
+  }
+
+  return (Array.isArray(data) ? data[0] : data) ?? null;
+}
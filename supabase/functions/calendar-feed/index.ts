@@ -0,0 +1,192 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { buildCalendar, londonTimeFromInstant, londonTimeFromLocalDate, CalendarEntry } from '../_shared/icalendar.ts';
+import { getLodgeMeetingsForYear, MeetingRule, MeetingOverride } from '../_shared/lodgeMeetings.ts';
+
+/*
+  iCalendar feed of Lodge meetings and CMS events.
+
+  GET /functions/v1/calendar-feed              - public feed (public events only)
+  GET /functions/v1/calendar-feed?token=<uuid> - members' feed (includes members-only events)
+
+  Calendar apps can't send an Authorization header, so this function must be
+  deployed with JWT verification disabled:
+    supabase functions deploy calendar-feed --no-verify-jwt
+*/
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+};
+
+const UID_DOMAIN = 'radlettlodge6652.org.uk';
+
+interface EventRow {
+  id: string;
+  title: string;
+  description: string;
+  event_date: string;
+  location: string;
+  is_members_only: boolean;
+}
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'GET') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          status: 405,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Work out whether this is a members' feed
+    const token = new URL(req.url).searchParams.get('token');
+    let includeMembersOnly = false;
+
+    if (token) {
+      const { data: feedToken, error: tokenError } = await supabaseAdmin
+        .from('calendar_feed_tokens')
+        .select('user_id')
+        .eq('token', token)
+        .maybeSingle();
+
+      if (tokenError || !feedToken) {
+        console.error('Invalid calendar token:', tokenError);
+        return new Response(
+          JSON.stringify({ error: 'Invalid calendar token' }),
+          {
+            status: 401,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      const { data: profile } = await supabaseAdmin
+        .from('member_profiles')
+        .select('status')
+        .eq('user_id', feedToken.user_id)
+        .maybeSingle();
+
+      if (!profile || profile.status !== 'active') {
+        return new Response(
+          JSON.stringify({ error: 'Membership is not active' }),
+          {
+            status: 403,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      includeMembersOnly = true;
+    }
+
+    // CMS events from a year ago onwards
+    const since = new Date();
+    since.setFullYear(since.getFullYear() - 1);
+
+    let query = supabaseAdmin
+      .from('events')
+      .select('id, title, description, event_date, location, is_members_only')
+      .eq('is_published', true)
+      .gte('event_date', since.toISOString())
+      .order('event_date', { ascending: true });
+
+    if (!includeMembersOnly) {
+      query = query.eq('is_members_only', false);
+    }
+
+    const { data: events, error: eventsError } = await query;
+
+    if (eventsError) {
+      console.error('Error fetching events:', eventsError);
+      throw new Error(`Failed to fetch events: ${eventsError.message}`);
+    }
+
+    const entries: CalendarEntry[] = (events as EventRow[]).map(event => ({
+      uid: `event-${event.id}@${UID_DOMAIN}`,
+      title: event.is_members_only ? `${event.title} (Members Only)` : event.title,
+      description: event.description,
+      location: event.location,
+      start: londonTimeFromInstant(new Date(event.event_date))
+    }));
+
+    // Meeting rules and one-off overrides, as edited in the CMS
+    const [
+      { data: rules, error: rulesError },
+      { data: overrides, error: overridesError }
+    ] = await Promise.all([
+      supabaseAdmin.from('meeting_rules').select('*').eq('is_active', true),
+      supabaseAdmin.from('meeting_overrides').select('*')
+    ]);
+
+    if (rulesError || overridesError) {
+      console.error('Error fetching meeting schedule:', rulesError || overridesError);
+      throw new Error(`Failed to fetch meeting schedule: ${(rulesError || overridesError)?.message}`);
+    }
+
+    const schedule = {
+      rules: rules as MeetingRule[],
+      overrides: overrides as MeetingOverride[]
+    };
+
+    // Regular Lodge meetings for last year, this year and next year, unless the
+    // CMS already has an event on that day (e.g. one with fuller details)
+    const dayKey = (time: CalendarEntry['start']) => `${time.year}-${time.month}-${time.day}`;
+    const eventDays = new Set(entries.map(entry => dayKey(entry.start)));
+    const currentYear = new Date().getFullYear();
+    for (const year of [currentYear - 1, currentYear, currentYear + 1]) {
+      getLodgeMeetingsForYear(year, schedule).forEach(meeting => {
+        const start = londonTimeFromLocalDate(meeting.date);
+        if (eventDays.has(dayKey(start))) return;
+        entries.push({
+          uid: `lodge-meeting-${start.year}${String(start.month).padStart(2, '0')}${String(start.day).padStart(2, '0')}@${UID_DOMAIN}`,
+          title: meeting.title,
+          description: meeting.description,
+          location: meeting.location,
+          start
+        });
+      });
+    }
+
+    const calendar = buildCalendar(
+      entries,
+      includeMembersOnly ? 'Radlett Lodge No. 6652 (Members)' : 'Radlett Lodge No. 6652'
+    );
+
+    return new Response(calendar, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="radlett-lodge.ics"',
+        'Cache-Control': includeMembersOnly ? 'private, max-age=900' : 'public, max-age=900',
+      },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
@@ -1,4 +1,6 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import { writeAuditLog } from '../_shared/audit.ts';
+import { hasPermission } from '../_shared/permissions.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -46,7 +48,7 @@ Deno.serve(async (req: Request) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    // Create regular client to verify the requesting user is an admin
+    // Create regular client to check the requesting user's permissions
     const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_ANON_KEY') ?? '',
@@ -57,7 +59,7 @@ Deno.serve(async (req: Request) => {
       }
     );
 
-    // Verify the requesting user is authenticated and is an admin
+    // Verify the requesting user is authenticated
     const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
     if (authError || !user) {
       console.error('Auth error:', authError);
@@ -70,14 +72,13 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // Check if the user is an admin
     const { data: profile, error: profileError } = await supabaseClient
       .from('member_profiles')
-      .select('role')
+      .select('full_name')
       .eq('user_id', user.id)
       .single();
 
-    if (profileError || !profile || profile.role !== 'admin') {
+    if (profileError || !profile) {
       console.error('Profile error:', profileError);
       return new Response(
         JSON.stringify({ error: 'Insufficient permissions' }),
@@ -112,6 +113,40 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    const { data: target } = await supabaseAdmin
+      .from('member_profiles')
+      .select('status, role')
+      .eq('user_id', user_id)
+      .maybeSingle();
+
+    // Only an admin can remove another admin
+    if (target?.role === 'admin') {
+      const { data: isAdmin } = await supabaseClient.rpc('is_lodge_admin');
+      if (isAdmin !== true) {
+        return new Response(
+          JSON.stringify({ error: 'Only an admin can delete an admin' }),
+          { 
+            status: 403, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+    }
+
+    // Member managers can delete anyone else; approvers only applications they reject
+    if (!(await hasPermission(supabaseClient, 'manage_members'))) {
+      const canReject = target?.status === 'pending' && await hasPermission(supabaseClient, 'approve_members');
+      if (!canReject) {
+        return new Response(
+          JSON.stringify({ error: 'Insufficient permissions' }),
+          { 
+            status: 403, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+    }
+
     console.log('Attempting to delete user:', user_id);
 
     // First, check if the user exists in auth.users
@@ -128,6 +163,22 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Keep the profile for the audit trail before it's deleted
+    const { data: deletedProfile } = await supabaseAdmin
+      .from('member_profiles')
+      .select('*')
+      .eq('user_id', user_id)
+      .maybeSingle();
+
+    const auditEntry = {
+      actor_id: user.id,
+      actor_name: profile.full_name,
+      table_name: 'member_profiles',
+      record_id: user_id,
+      record_label: deletedProfile?.full_name ?? existingUser.user?.email ?? null,
+      old_values: deletedProfile
+    };
+
     if (!existingUser.user) {
       console.error('User does not exist in auth.users:', user_id);
       // User doesn't exist in auth, but might exist in member_profiles
@@ -139,6 +190,12 @@ Deno.serve(async (req: Request) => {
 
       if (deleteProfileError) {
         console.error('Error deleting orphaned profile:', deleteProfileError);
+      } else if (deletedProfile) {
+        await writeAuditLog(supabaseAdmin, 'delete-user', {
+          ...auditEntry,
+          action: 'delete',
+          summary: 'Removed orphaned profile (no login account)'
+        });
       }
 
       return new Response(
@@ -176,6 +233,12 @@ Deno.serve(async (req: Request) => {
     
     if (deleteAuthError) {
       console.error('Error deleting user from auth:', deleteAuthError);
+      // The profile is already gone, so that part still needs recording
+      await writeAuditLog(supabaseAdmin, 'delete-user', {
+        ...auditEntry,
+        action: 'delete',
+        summary: 'Deleted member profile (login account could not be removed)'
+      });
       return new Response(
         JSON.stringify({ error: `Failed to delete user authentication record: ${deleteAuthError.message}` }),
         { 
@@ -187,6 +250,12 @@ Deno.serve(async (req: Request) => {
 
     console.log('User successfully deleted');
 
+    await writeAuditLog(supabaseAdmin, 'delete-user', {
+      ...auditEntry,
+      action: 'delete_account',
+      summary: 'Deleted member profile and login account'
+    });
+
     return new Response(
       JSON.stringify({ message: 'User and profile deleted successfully' }),
       { 
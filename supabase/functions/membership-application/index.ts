@@ -0,0 +1,419 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { writeAuditLog } from '../_shared/audit.ts';
+import { isAllowedOrigin, restrictedCorsHeaders } from '../_shared/cors.ts';
+import { EmailConfigError, loadEmailConfig, lodgeAddress, sendEmail } from '../_shared/email.ts';
+import { LODGE_SIGN_OFF, renderEmail, RenderedEmail } from '../_shared/emailTemplate.ts';
+import { hasPermission } from '../_shared/permissions.ts';
+import { recordAttempt } from '../_shared/rateLimit.ts';
+
+/*
+  Membership applications.
+
+  POST { action: 'submit', application }   - A candidate applies from the Join page (no login)
+  POST { action: 'move', application_id, stage, ... }
+                                           - The Secretary moves an application to another
+                                             stage (needs approve_members)
+
+  The candidate is emailed at every stage change unless `notify` is false.
+  Submissions are only accepted from the Lodge's own site (ALLOWED_ORIGINS in
+  _shared/cors.ts) and share the contact form's hourly rate limit.
+*/
+
+type Stage = 'enquiry' | 'interview' | 'ballot' | 'initiated' | 'declined';
+
+// Keep in step with APPLICATION_TRANSITIONS in src/utils/applications.ts
+const TRANSITIONS: Record<Stage, Stage[]> = {
+  enquiry: ['interview', 'declined'],
+  interview: ['ballot', 'enquiry', 'declined'],
+  ballot: ['initiated', 'interview', 'declined'],
+  initiated: [],
+  declined: ['enquiry']
+};
+
+const MINIMUM_AGE = 21;
+// Applications and contact messages per hour from one connection
+const MAX_ATTEMPTS_PER_IP = 5;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface ApplicationForm {
+  full_name: string;
+  email: string;
+  phone?: string;
+  date_of_birth?: string;
+  town?: string;
+  occupation?: string;
+  reason: string;
+  known_members?: string;
+}
+
+interface MoveRequest {
+  application_id: string;
+  stage: Stage;
+  interview_at?: string | null;
+  interview_location?: string | null;
+  ballot_date?: string | null;
+  decline_reason?: string | null;
+  notify?: boolean;
+}
+
+interface ApplicationRow {
+  id: string;
+  full_name: string;
+  email: string;
+  stage: Stage;
+  interview_at: string | null;
+  interview_location: string | null;
+  ballot_date: string | null;
+}
+
+const trimmed = (value: unknown, maxLength: number): string | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim().slice(0, maxLength);
+  return text || null;
+};
+
+function ageOn(dateOfBirth: string, today: Date): number {
+  const born = new Date(`${dateOfBirth}T00:00:00Z`);
+  const age = today.getUTCFullYear() - born.getUTCFullYear();
+  const beforeBirthday = today.getUTCMonth() < born.getUTCMonth()
+    || (today.getUTCMonth() === born.getUTCMonth() && today.getUTCDate() < born.getUTCDate());
+  return beforeBirthday ? age - 1 : age;
+}
+
+const formatDateTime = (value: string) =>
+  new Intl.DateTimeFormat('en-GB', {
+    timeZone: 'Europe/London',
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).format(new Date(value));
+
+const formatDate = (value: string) =>
+  new Intl.DateTimeFormat('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })
+    .format(new Date(`${value}T12:00:00Z`));
+
+/**
+ * What the candidate is told on reaching each stage. Internal notes and decline
+ * reasons are never included. The acknowledgement of a new enquiry passes a
+ * plain greeting, as nobody has yet checked the name belongs to that address.
+ */
+function stageEmail(
+  application: ApplicationRow,
+  greeting: string = `Dear ${application.full_name.split(/\s+/)[0]},`
+): { subject: string } & RenderedEmail {
+  switch (application.stage) {
+    case 'enquiry':
+      return {
+        subject: 'Your enquiry to Radlett Lodge No. 6652',
+        ...renderEmail({
+          greeting,
+          paragraphs: [
+            'Thank you for your interest in joining Radlett Lodge. We have received your enquiry and the Secretary will be in touch to arrange an informal meeting.',
+            'In the meantime, two members of the Lodge will be asked to act as your proposer and seconder.'
+          ],
+          signOff: LODGE_SIGN_OFF
+        })
+      };
+    case 'interview': {
+      const details: Array<[string, string]> = [];
+      if (application.interview_at) details.push(['When', formatDateTime(application.interview_at)]);
+      if (application.interview_location) details.push(['Where', application.interview_location]);
+      return {
+        subject: 'Your interview with Radlett Lodge No. 6652',
+        ...renderEmail({
+          greeting,
+          paragraphs: ['We would like to invite you to an interview with members of the Lodge committee.'],
+          details,
+          closing: ["It is an informal conversation and a chance for you to ask us anything. Please reply to this email if the time doesn't suit you."],
+          signOff: LODGE_SIGN_OFF
+        })
+      };
+    }
+    case 'ballot':
+      return {
+        subject: 'Your application goes to the Lodge ballot',
+        ...renderEmail({
+          greeting,
+          paragraphs: [
+            'Following your interview, your application will be put to the members of the Lodge in a ballot' +
+              (application.ballot_date ? ` on ${formatDate(application.ballot_date)}` : ' at a forthcoming meeting') +
+              '. We will let you know the result shortly afterwards.'
+          ],
+          signOff: LODGE_SIGN_OFF
+        })
+      };
+    case 'initiated':
+      return {
+        subject: 'Welcome to Radlett Lodge No. 6652',
+        ...renderEmail({
+          greeting,
+          paragraphs: [
+            'Congratulations, and welcome to Radlett Lodge. Your proposer will guide you through your first meetings.',
+            "You can now register on our website to reach the members' area, where you will find the Lodge calendar, summonses and the member directory."
+          ],
+          signOff: LODGE_SIGN_OFF
+        })
+      };
+    case 'declined':
+      return {
+        subject: 'Your application to Radlett Lodge No. 6652',
+        ...renderEmail({
+          greeting,
+          paragraphs: [
+            'Thank you for your interest in Radlett Lodge. After careful consideration, we are unable to take your application further at this time.',
+            'We are grateful for the time you have given us and wish you every success.'
+          ],
+          signOff: LODGE_SIGN_OFF
+        })
+      };
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  const corsHeaders = restrictedCorsHeaders(req);
+  const json = (body: unknown, status: number = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return json({ error: 'Method not allowed' }, 405);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const body = await req.json();
+    const secretaryAddress = lodgeAddress();
+
+    if (body.action === 'submit') {
+      if (!isAllowedOrigin(req)) {
+        console.warn('Application from disallowed origin:', req.headers.get('Origin'));
+        return json({ error: 'Origin not allowed' }, 403);
+      }
+
+      // Honeypot: a hidden field only bots fill in. They are told it worked.
+      if (body.website) {
+        console.warn('Application dropped: honeypot field filled in');
+        return json({ success: true, id: null, emailed: false });
+      }
+
+      const form: Partial<ApplicationForm> = body.application ?? {};
+      const application = {
+        full_name: trimmed(form.full_name, 100),
+        email: trimmed(form.email, 254)?.toLowerCase() ?? null,
+        phone: trimmed(form.phone, 30),
+        date_of_birth: trimmed(form.date_of_birth, 10),
+        town: trimmed(form.town, 100),
+        occupation: trimmed(form.occupation, 100),
+        reason: trimmed(form.reason, 4000),
+        known_members: trimmed(form.known_members, 500)
+      };
+
+      if (!application.full_name || !application.email || !application.reason) {
+        return json({ error: 'Name, email and your reasons for joining are required' }, 400);
+      }
+      if (!EMAIL_PATTERN.test(application.email)) {
+        return json({ error: 'Please enter a valid email address' }, 400);
+      }
+      if (application.date_of_birth) {
+        if (Number.isNaN(Date.parse(application.date_of_birth))) {
+          return json({ error: 'Please enter a valid date of birth' }, 400);
+        }
+        if (ageOn(application.date_of_birth, new Date()) < MINIMUM_AGE) {
+          return json({ error: `Candidates must be at least ${MINIMUM_AGE} years old` }, 400);
+        }
+      }
+
+      const attempts = await recordAttempt(supabaseAdmin, req, application.email);
+      if (attempts && attempts.ip_attempts > MAX_ATTEMPTS_PER_IP) {
+        console.warn('Application rate limited:', attempts);
+        return json({
+          error: "We've received several enquiries from your connection in a short time. Please wait an hour and try again, or email the Lodge directly."
+        }, 429);
+      }
+
+      const { data: saved, error: insertError } = await supabaseAdmin
+        .from('membership_applications')
+        .insert(application)
+        .select('id, full_name, email, stage, interview_at, interview_location, ballot_date')
+        .single();
+
+      if (insertError || !saved) {
+        console.error('Failed to save application:', insertError);
+        return json({ error: 'Failed to save your application. Please try again.' }, 500);
+      }
+
+      const acknowledgement = stageEmail(saved as ApplicationRow, 'Hello,');
+      let candidateEmail: Awaited<ReturnType<typeof sendEmail>>;
+      try {
+        [candidateEmail] = await Promise.all([
+          sendEmail({ to: saved.email, replyTo: secretaryAddress, ...acknowledgement }),
+          sendEmail({
+            to: secretaryAddress,
+            replyTo: application.email,
+            subject: `New membership enquiry: ${saved.full_name}`,
+            ...renderEmail({
+              paragraphs: ['A new membership enquiry has been submitted on the Lodge website.'],
+              details: [
+                ['Name', application.full_name],
+                ['Email', application.email],
+                ['Phone', application.phone || 'Not provided'],
+                ['Town', application.town || 'Not provided'],
+                ['Occupation', application.occupation || 'Not provided'],
+                ['Knows', application.known_members || 'Nobody named']
+              ],
+              quote: { label: 'Why they want to join', text: application.reason },
+              closing: ["Review it in the Applications tab of the members' admin area."]
+            })
+          })
+        ]);
+      } catch (error) {
+        if (!(error instanceof EmailConfigError)) throw error;
+        // Already saved, so it shows in the Applications tab, but the deployment needs fixing
+        console.error('Application email is not configured:', error.message);
+        return json({
+          error: "Your enquiry was saved, but we couldn't send you a confirmation. The Secretary will still be in touch."
+        }, 500);
+      }
+
+      return json({ success: true, id: saved.id, emailed: candidateEmail.sent });
+    }
+
+    if (body.action === 'move') {
+      const authHeader = req.headers.get('Authorization');
+      if (!authHeader) {
+        return json({ error: 'Missing authorization header' }, 401);
+      }
+
+      const supabaseClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+        {
+          global: {
+            headers: { Authorization: authHeader },
+          },
+        }
+      );
+
+      const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+      if (authError || !user) {
+        console.error('Auth error:', authError);
+        return json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!(await hasPermission(supabaseClient, 'approve_members'))) {
+        return json({ error: 'Insufficient permissions' }, 403);
+      }
+
+      const move: MoveRequest = body;
+      if (!move.application_id || !move.stage || !(move.stage in TRANSITIONS)) {
+        return json({ error: 'application_id and a valid stage are required' }, 400);
+      }
+
+      // Don't move a candidate on without telling them because email isn't set up
+      if (move.notify !== false) {
+        try {
+          loadEmailConfig();
+        } catch (error) {
+          if (!(error instanceof EmailConfigError)) throw error;
+          console.error('Application email is not configured:', error.message);
+          return json({ error: `The candidate can't be emailed: ${error.message}` }, 500);
+        }
+      }
+
+      const { data: current, error: loadError } = await supabaseAdmin
+        .from('membership_applications')
+        .select('*')
+        .eq('id', move.application_id)
+        .maybeSingle();
+
+      if (loadError || !current) {
+        return json({ error: 'Application not found' }, 404);
+      }
+
+      if (!TRANSITIONS[current.stage as Stage].includes(move.stage)) {
+        return json({ error: `An application can't move from ${current.stage} to ${move.stage}` }, 400);
+      }
+
+      if (move.stage === 'interview' && !move.interview_at) {
+        return json({ error: 'Choose a date and time for the interview' }, 400);
+      }
+
+      if (move.stage === 'ballot' && (!current.proposer_id || !current.seconder_id)) {
+        return json({ error: 'A candidate needs a proposer and a seconder before the ballot' }, 400);
+      }
+
+      const changes: Record<string, unknown> = {
+        stage: move.stage,
+        stage_changed_at: new Date().toISOString()
+      };
+      if (move.stage === 'interview') {
+        changes.interview_at = move.interview_at;
+        changes.interview_location = trimmed(move.interview_location, 200);
+      }
+      if (move.stage === 'ballot') {
+        changes.ballot_date = trimmed(move.ballot_date, 10);
+      }
+      if (move.stage === 'declined') {
+        changes.decline_reason = trimmed(move.decline_reason, 1000);
+      }
+
+      const { data: updated, error: updateError } = await supabaseAdmin
+        .from('membership_applications')
+        .update(changes)
+        .eq('id', move.application_id)
+        .select('*')
+        .single();
+
+      if (updateError || !updated) {
+        console.error('Failed to move application:', updateError);
+        return json({ error: `Failed to update application: ${updateError?.message}` }, 500);
+      }
+
+      const { data: actor } = await supabaseAdmin
+        .from('member_profiles')
+        .select('full_name')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      await writeAuditLog(supabaseAdmin, 'membership-application', {
+        actor_id: user.id,
+        actor_name: actor?.full_name ?? null,
+        action: 'update',
+        table_name: 'membership_applications',
+        record_id: updated.id,
+        record_label: updated.full_name,
+        summary: `Stage changed from ${current.stage} to ${updated.stage}`,
+        old_values: Object.fromEntries(Object.keys(changes).map(key => [key, current[key]])),
+        new_values: changes
+      });
+
+      let emailed = false;
+      if (move.notify !== false) {
+        const result = await sendEmail({ to: updated.email, replyTo: secretaryAddress, ...stageEmail(updated as ApplicationRow) });
+        emailed = result.sent;
+      }
+
+      return json({ success: true, application: updated, emailed });
+    }
+
+    return json({ error: 'Unknown action' }, 400);
+  } catch (error) {
+    // Details stay in the logs; submissions come from anonymous callers
+    console.error('Unexpected error:', error);
+    return json({ error: 'Internal server error' }, 500);
+  }
+});
@@ -1,9 +1,17 @@
-// Define CORS headers directly in this file
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS',
-};
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { isAllowedOrigin, restrictedCorsHeaders } from '../_shared/cors.ts';
+import { EmailConfigError, lodgeAddress, sendEmail } from '../_shared/email.ts';
+import { renderEmail } from '../_shared/emailTemplate.ts';
+import { recordAttempt } from '../_shared/rateLimit.ts';
+
+/*
+  Website contact form.
+
+  Every message is stored in contact_submissions before anything else happens.
+  Messages that fail the spam checks are quarantined: kept for review in the
+  Enquiries inbox but not emailed to the Lodge. Only the Lodge's own site
+  (ALLOWED_ORIGINS in _shared/cors.ts) may call this function.
+*/
 
 interface ContactFormData {
   name: string;
@@ -12,139 +20,206 @@ interface ContactFormData {
   subject: string;
   message: string;
   interested: boolean;
+  // Honeypot: a hidden field only bots fill in
+  website?: string;
+  // How long the form was open before it was sent, measured in the browser
+  elapsed_ms?: number;
+}
+
+// People take longer than this to fill in the form
+const MINIMUM_FILL_TIME_MS = 3000;
+// Messages per hour before the sender is rate limited
+const MAX_ATTEMPTS_PER_IP = 5;
+const MAX_ATTEMPTS_PER_EMAIL = 3;
+const MAX_LINKS = 2;
+const SPAM_KEYWORDS = [
+  'backlink', 'bitcoin', 'casino', 'cialis', 'crypto', 'forex', 'guest post',
+  'payday loan', 'seo services', 'viagra', 'web design services', 'whatsapp me'
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const trimmed = (value: unknown, maxLength: number): string | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim().slice(0, maxLength);
+  return text || null;
+};
+
+/**
+ * Link and keyword heuristics. Each returned reason is shown to the reviewer,
+ * so they read as plain sentences.
+ */
+function contentReasons(form: { subject: string; message: string }): string[] {
+  const reasons: string[] = [];
+  const text = `${form.subject}\n${form.message}`.toLowerCase();
+
+  const links = text.match(/https?:\/\/|www\./g)?.length ?? 0;
+  if (links > MAX_LINKS) reasons.push(`Contains ${links} links`);
+  if (/\[url=|<a\s+href/.test(text)) reasons.push('Contains link markup');
+
+  const keywords = SPAM_KEYWORDS.filter(keyword => new RegExp(`\\b${keyword}\\b`).test(text));
+  if (keywords.length > 0) reasons.push(`Mentions ${keywords.map(k => `"${k}"`).join(', ')}`);
+
+  return reasons;
+}
+
+async function rateLimitReason(supabaseAdmin: SupabaseClient, req: Request, email: string): Promise<string | null> {
+  const counts = await recordAttempt(supabaseAdmin, req, email);
+  if (!counts) return null;
+  if (counts.ip_attempts > MAX_ATTEMPTS_PER_IP) {
+    return `${counts.ip_attempts} messages from the same connection in an hour`;
+  }
+  if (counts.email_attempts > MAX_ATTEMPTS_PER_EMAIL) {
+    return `${counts.email_attempts} messages from ${email} in an hour`;
+  }
+  return null;
 }
 
 Deno.serve(async (req: Request) => {
+  const corsHeaders = restrictedCorsHeaders(req);
+  const json = (body: unknown, status: number = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    console.log("Contact form function called!");
-    
-    // Only allow POST requests
     if (req.method !== 'POST') {
-      return new Response(
-        JSON.stringify({ error: 'Method not allowed' }),
-        { 
-          status: 405, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      );
+      return json({ error: 'Method not allowed' }, 405);
     }
 
-    // Parse the request body
-    const formData: ContactFormData = await req.json();
-    console.log('Form data received:', { name: formData.name, email: formData.email, subject: formData.subject });
-
-    // Validate required fields
-    if (!formData.name || !formData.email || !formData.subject || !formData.message) {
-      return new Response(
-        JSON.stringify({ error: 'Missing required fields' }),
-        { 
-          status: 400, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      );
+    if (!isAllowedOrigin(req)) {
+      console.warn('Contact form call from disallowed origin:', req.headers.get('Origin'));
+      return json({ error: 'Origin not allowed' }, 403);
     }
 
-    // Email configuration - try environment variables first, then fallback to hardcoded
-    const emailServiceApiKey = Deno.env.get('EMAIL_SERVICE_API_KEY') || 're_6DGfYf7Q_Cn2vVDJqdtLt3rep24GkMXxX';
-    const senderAddress = Deno.env.get('EMAIL_SENDER_ADDRESS') || 'onboarding@resend.dev';
-    const recipientAddress = Deno.env.get('EMAIL_RECIPIENT_ADDRESS') || 'radlettlodge6652@gmail.com';
+    const formData: Partial<ContactFormData> = await req.json();
+    const form = {
+      name: trimmed(formData.name, 100),
+      email: trimmed(formData.email, 254),
+      phone: trimmed(formData.phone, 30),
+      subject: trimmed(formData.subject, 200),
+      message: trimmed(formData.message, 5000),
+      interested: formData.interested === true
+    };
+
+    if (!form.name || !form.email || !form.subject || !form.message) {
+      return json({ error: 'Missing required fields' }, 400);
+    }
+    if (!EMAIL_PATTERN.test(form.email)) {
+      return json({ error: 'Please enter a valid email address' }, 400);
+    }
 
-    console.log('Email config:', {
-      hasApiKey: !!emailServiceApiKey,
-      sender: senderAddress,
-      recipient: recipientAddress
-    });
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
 
-    // Construct email content
-    const emailSubject = `Contact Form: ${formData.subject}`;
-    const emailBody = `
-New contact form submission from Radlett Lodge website:
-
-Name: ${formData.name}
-Email: ${formData.email}
-Phone: ${formData.phone || 'Not provided'}
-Subject: ${formData.subject}
-
-Message:
-${formData.message}
-
-${formData.interested ? '✓ Interested in becoming a Freemason' : '✗ Not interested in membership at this time'}
-
----
-This message was sent via the Radlett Lodge No. 6652 website contact form.
-    `.trim();
-
-    console.log('Sending email via Resend...');
-
-    // Send email using Resend API
-    const emailResponse = await fetch('https://api.resend.com/emails', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${emailServiceApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        from: `Radlett Lodge Website <${senderAddress}>`,
-        to: [recipientAddress],
-        reply_to: formData.email,
-        subject: emailSubject,
-        text: emailBody,
-      }),
-    });
+    const spamReasons: string[] = [];
+    if (formData.website) {
+      spamReasons.push('Filled in the hidden honeypot field');
+    }
+    const elapsed = typeof formData.elapsed_ms === 'number' ? formData.elapsed_ms : null;
+    if (elapsed === null) {
+      spamReasons.push('Sent without the time taken to fill in the form');
+    } else if (elapsed < MINIMUM_FILL_TIME_MS) {
+      spamReasons.push(`Sent ${Math.max(0, Math.round(elapsed / 1000))}s after the form opened`);
+    }
+    const rateLimited = await rateLimitReason(supabaseAdmin, req, form.email);
+    if (rateLimited) spamReasons.push(rateLimited);
+    spamReasons.push(...contentReasons({ subject: form.subject, message: form.message }));
+
+    const quarantined = spamReasons.length > 0;
+
+    // Store the enquiry before emailing it, so it reaches the admin inbox even if the email fails
+    const { data: submission, error: insertError } = await supabaseAdmin
+      .from('contact_submissions')
+      .insert({ ...form, quarantined, spam_reasons: spamReasons })
+      .select('id')
+      .single();
+
+    if (insertError) {
+      console.error('Failed to store contact submission:', insertError);
+    }
 
-    console.log('Resend API response status:', emailResponse.status);
+    if (quarantined) {
+      console.warn('Contact submission quarantined:', { id: submission?.id, reasons: spamReasons });
+
+      // Real people can hit the rate limit, so tell them; bots learn nothing from the rest
+      if (rateLimited) {
+        return json({
+          error: "You've sent several messages in a short time. Please wait an hour and try again, or email the Lodge directly."
+        }, 429);
+      }
+      return json({ success: true, message: 'Message received', id: submission?.id ?? null });
+    }
+
+    const email = renderEmail({
+      paragraphs: ['New contact form submission from Radlett Lodge website:'],
+      details: [
+        ['Name', form.name],
+        ['Email', form.email],
+        ['Phone', form.phone || 'Not provided'],
+        ['Subject', form.subject]
+      ],
+      quote: { label: 'Message', text: form.message },
+      closing: [form.interested ? '✓ Interested in becoming a Freemason' : '✗ Not interested in membership at this time'],
+      footer: 'This message was sent via the Radlett Lodge No. 6652 website contact form.'
+    });
 
-    if (!emailResponse.ok) {
-      const errorText = await emailResponse.text();
-      console.error('Resend API error:', {
-        status: emailResponse.status,
-        statusText: emailResponse.statusText,
-        body: errorText
+    let result: Awaited<ReturnType<typeof sendEmail>>;
+    try {
+      result = await sendEmail({
+        to: lodgeAddress(),
+        replyTo: form.email,
+        fromName: 'Radlett Lodge Website',
+        subject: `Contact Form: ${form.subject}`,
+        ...email
       });
-      
-      return new Response(
-        JSON.stringify({ 
-          error: 'Failed to send email',
-          details: `Resend API returned ${emailResponse.status}: ${errorText}`
-        }),
-        { 
-          status: 500, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      );
+    } catch (error) {
+      if (!(error instanceof EmailConfigError)) throw error;
+      // Already stored, so the enquiry isn't lost, but the deployment needs fixing
+      console.error('Contact form email is not configured:', error.message);
+      return json({
+        error: submission
+          ? 'Your message was saved, but the Lodge could not be notified. Please also email the Lodge directly.'
+          : 'Your message could not be sent. Please email the Lodge directly.'
+      }, 500);
     }
 
-    const emailResult = await emailResponse.json();
-    console.log('Email sent successfully:', emailResult);
-
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        message: 'Email sent successfully',
-        id: emailResult.id || 'unknown'
-      }),
-      { 
-        status: 200, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+    if (!result.sent) {
+      // The enquiry is safely in the inbox, so the visitor doesn't need to try again
+      if (submission) {
+        return json({ success: true, message: 'Message saved', id: submission.id });
       }
-    );
+      return json({ error: 'Failed to send email' }, 500);
+    }
+
+    if (submission) {
+      const { error: updateError } = await supabaseAdmin
+        .from('contact_submissions')
+        .update({ email_sent: true })
+        .eq('id', submission.id);
+
+      if (updateError) {
+        console.error('Failed to mark contact submission as emailed:', updateError);
+      }
+    }
+
+    return json({
+      success: true,
+      message: 'Email sent successfully',
+      id: submission?.id || result.id || 'unknown'
+    });
 
   } catch (error) {
+    // Details stay in the logs; callers are anonymous
     console.error('Unexpected error:', error);
-    return new Response(
-      JSON.stringify({ 
-        error: 'Internal server error',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      }),
-      { 
-        status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      }
-    );
+    return json({ error: 'Internal server error' }, 500);
   }
-});
\ No newline at end of file
+});
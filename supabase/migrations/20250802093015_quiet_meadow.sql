@@ -0,0 +1,139 @@
+/*
+  # Scheduled Publishing for CMS Content
+
+  1. New Tables
+    - `content_schedules` - One publish/unpublish schedule per content item
+      - `content_table` (text) - Table holding the item (events, blog_posts, testimonials, faq_items)
+      - `content_id` (uuid) - Id of the item in that table
+      - `content_title` (text) - Title captured when scheduled, for display in the CMS
+      - `auto_publish` / `publish_at` - When to set `is_published = true`
+      - `auto_unpublish` / `unpublish_at` - When to set `is_published = false`
+      - `publish_executed_at` / `unpublish_executed_at` - When each change was applied
+
+  2. Changes
+    - Add `is_published` to `events` so events can be scheduled like other content
+    - Public and member event policies now only return published events
+
+  3. Processing
+    - `process_content_schedules()` applies every due change and marks it executed
+    - A pg_cron job runs it every minute
+
+  4. Security
+    - Enable RLS on `content_schedules`
+    - Only admins can view or manage schedules
+*/
+
+-- Events previously had no publish state; existing rows stay visible, new ones start as drafts
+ALTER TABLE public.events
+ADD COLUMN IF NOT EXISTS is_published BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE public.events
+ALTER COLUMN is_published SET DEFAULT false;
+
+DROP POLICY IF EXISTS "Public can view public events" ON public.events;
+CREATE POLICY "Public can view public events"
+  ON public.events
+  FOR SELECT
+  TO public
+  USING (is_published = true AND NOT is_members_only AND NOT is_past_event);
+
+DROP POLICY IF EXISTS "Members can view all events" ON public.events;
+CREATE POLICY "Members can view all events"
+  ON public.events
+  FOR SELECT
+  TO authenticated
+  USING (is_published = true);
+
+-- Create content_schedules table
+CREATE TABLE IF NOT EXISTS public.content_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_table TEXT NOT NULL CHECK (content_table IN ('events', 'blog_posts', 'testimonials', 'faq_items')),
+  content_id UUID NOT NULL,
+  content_title TEXT NOT NULL DEFAULT '',
+  auto_publish BOOLEAN NOT NULL DEFAULT false,
+  publish_at TIMESTAMPTZ,
+  auto_unpublish BOOLEAN NOT NULL DEFAULT false,
+  unpublish_at TIMESTAMPTZ,
+  publish_executed_at TIMESTAMPTZ,
+  unpublish_executed_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (content_table, content_id),
+  CHECK (NOT auto_publish OR publish_at IS NOT NULL),
+  CHECK (NOT auto_unpublish OR unpublish_at IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_schedules_publish_at
+  ON public.content_schedules(publish_at)
+  WHERE auto_publish AND publish_executed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_content_schedules_unpublish_at
+  ON public.content_schedules(unpublish_at)
+  WHERE auto_unpublish AND unpublish_executed_at IS NULL;
+
+ALTER TABLE public.content_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage content schedules"
+  ON public.content_schedules
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'));
+
+CREATE TRIGGER update_content_schedules_updated_at
+  BEFORE UPDATE ON public.content_schedules FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Apply every publish/unpublish change that has fallen due
+CREATE OR REPLACE FUNCTION public.process_content_schedules()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  schedule RECORD;
+  applied INTEGER := 0;
+BEGIN
+  FOR schedule IN
+    SELECT * FROM public.content_schedules
+    WHERE auto_publish AND publish_executed_at IS NULL AND publish_at <= now()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    EXECUTE format('UPDATE public.%I SET is_published = true WHERE id = $1', schedule.content_table)
+      USING schedule.content_id;
+    UPDATE public.content_schedules SET publish_executed_at = now() WHERE id = schedule.id;
+    applied := applied + 1;
+  END LOOP;
+
+  FOR schedule IN
+    SELECT * FROM public.content_schedules
+    WHERE auto_unpublish AND unpublish_executed_at IS NULL AND unpublish_at <= now()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    EXECUTE format('UPDATE public.%I SET is_published = false WHERE id = $1', schedule.content_table)
+      USING schedule.content_id;
+    UPDATE public.content_schedules SET unpublish_executed_at = now() WHERE id = schedule.id;
+    applied := applied + 1;
+  END LOOP;
+
+  RETURN applied;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.process_content_schedules() FROM PUBLIC;
+
+COMMENT ON FUNCTION public.process_content_schedules() IS 'Publishes/unpublishes CMS content whose schedule has fallen due. Run every minute by pg_cron.';
+
+-- Run the processor every minute
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.unschedule('process-content-schedules')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'process-content-schedules');
+
+SELECT cron.schedule(
+  'process-content-schedules',
+  '* * * * *',
+  $$SELECT public.process_content_schedules()$$
+);
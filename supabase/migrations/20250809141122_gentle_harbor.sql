@@ -0,0 +1,88 @@
+/*
+  # Calendar Feed Tokens
+
+  1. New Tables
+    - `calendar_feed_tokens` - Private token per member for the members' calendar feed
+      - `user_id` (uuid, primary key, references auth.users)
+      - `token` (uuid, unique) - Secret included in the subscription URL
+      - `created_at` (timestamp)
+
+  2. Purpose
+    - Phone and desktop calendar apps can't sign in, so the members' .ics feed
+      (which includes members-only events) is authorised by this token instead
+    - Members can reset their token to revoke an old subscription URL with
+      `reset_calendar_feed_token()`
+
+  3. Security
+    - Enable RLS; members can only see and create their own token
+    - Tokens are always generated by the database, never chosen by the member,
+      so there is no update policy
+    - The calendar-feed edge function validates tokens with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view own calendar token"
+  ON public.calendar_feed_tokens
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Members can create own calendar token"
+  ON public.calendar_feed_tokens
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+-- Ignores any token sent with the insert
+CREATE OR REPLACE FUNCTION public.generate_calendar_feed_token()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.token := gen_random_uuid();
+  NEW.created_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS generate_calendar_feed_token ON public.calendar_feed_tokens;
+CREATE TRIGGER generate_calendar_feed_token
+  BEFORE INSERT ON public.calendar_feed_tokens
+  FOR EACH ROW
+  EXECUTE FUNCTION public.generate_calendar_feed_token();
+
+-- Replaces the caller's token (creating one if need be) and returns the new value
+CREATE OR REPLACE FUNCTION public.reset_calendar_feed_token()
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_token UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to reset your calendar link'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.calendar_feed_tokens (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO UPDATE
+  SET token = gen_random_uuid(),
+      created_at = now()
+  RETURNING token INTO new_token;
+
+  RETURN new_token;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reset_calendar_feed_token() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.reset_calendar_feed_token() TO authenticated;
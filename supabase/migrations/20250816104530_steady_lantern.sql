@@ -0,0 +1,110 @@
+/*
+  # Configurable Lodge Meeting Schedule
+
+  1. New Tables
+    - `meeting_rules` - Recurring meetings, one row per meeting of the Lodge year
+      - `month` (1-12), `weekday` (0=Sunday … 6=Saturday)
+      - `week_of_month` (1-5, or -1 for the last occurrence in the month)
+      - `start_time`, `location`, `title`, `description`, `is_installation`
+      - `is_active` - Inactive rules are kept but produce no meetings
+    - `meeting_overrides` - One-off exceptions for specific dates
+      - `meeting_date` - The date the regular meeting falls on (or the date of an extra meeting)
+      - `override_type` - 'cancel', 'change' (move or alter the meeting) or 'add' (extra meeting)
+      - `new_date`, `start_time`, `title`, `description`, `location`, `is_installation` - Replacement values
+      - `note` - Shown alongside the meeting, e.g. the reason it was moved
+
+  2. Data
+    - Seed `meeting_rules` with the existing schedule (2nd Sat Feb, 1st Sat Apr,
+      2nd Sat Jul, 1st Sat Sep, 2nd Sat Dec installation, all at 18:00)
+
+  3. Security
+    - Enable RLS on both tables
+    - Anyone can read the schedule (it drives the public events calendar)
+    - Only admins can change it
+*/
+
+-- Create meeting_rules table
+CREATE TABLE IF NOT EXISTS public.meeting_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  month SMALLINT NOT NULL CHECK (month BETWEEN 1 AND 12),
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  week_of_month SMALLINT NOT NULL CHECK (week_of_month IN (-1, 1, 2, 3, 4, 5)),
+  start_time TIME NOT NULL DEFAULT '18:00',
+  location TEXT NOT NULL DEFAULT '',
+  is_installation BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Create meeting_overrides table
+CREATE TABLE IF NOT EXISTS public.meeting_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  meeting_date DATE NOT NULL,
+  override_type TEXT NOT NULL CHECK (override_type IN ('cancel', 'change', 'add')),
+  new_date DATE,
+  start_time TIME,
+  title TEXT,
+  description TEXT,
+  location TEXT,
+  is_installation BOOLEAN,
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CHECK (override_type = 'change' OR new_date IS NULL)
+);
+
+-- A regular meeting can only be cancelled or changed once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_meeting_overrides_regular_date
+  ON public.meeting_overrides(meeting_date)
+  WHERE override_type <> 'add';
+
+ALTER TABLE public.meeting_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.meeting_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view meeting rules"
+  ON public.meeting_rules
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Admins can manage meeting rules"
+  ON public.meeting_rules
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'));
+
+CREATE POLICY "Anyone can view meeting overrides"
+  ON public.meeting_overrides
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Admins can manage meeting overrides"
+  ON public.meeting_overrides
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'));
+
+CREATE TRIGGER update_meeting_rules_updated_at
+  BEFORE UPDATE ON public.meeting_rules FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_meeting_overrides_updated_at
+  BEFORE UPDATE ON public.meeting_overrides FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed with the schedule previously hard-coded in src/utils/lodgeMeetings.ts
+INSERT INTO public.meeting_rules (title, description, month, weekday, week_of_month, start_time, location, is_installation)
+SELECT * FROM (VALUES
+  ('Regular Lodge Meeting', 'February regular meeting of Radlett Lodge No. 6652. Festive Board to follow.', 2, 6, 2, TIME '18:00', 'Radlett Masonic Centre, Rose Walk, Radlett', false),
+  ('Regular Lodge Meeting', 'April regular meeting of Radlett Lodge No. 6652. Festive Board to follow.', 4, 6, 1, TIME '18:00', 'Radlett Masonic Centre, Rose Walk, Radlett', false),
+  ('Regular Lodge Meeting', 'July regular meeting of Radlett Lodge No. 6652. Festive Board to follow.', 7, 6, 2, TIME '18:00', 'Radlett Masonic Centre, Rose Walk, Radlett', false),
+  ('Regular Lodge Meeting', 'September regular meeting of Radlett Lodge No. 6652. Festive Board to follow.', 9, 6, 1, TIME '18:00', 'Radlett Masonic Centre, Rose Walk, Radlett', false),
+  ('Installation Meeting', 'Annual Installation of the Worshipful Master and Officers. Festive Board to follow.', 12, 6, 2, TIME '18:00', 'Radlett Masonic Centre, Rose Walk, Radlett', true)
+) AS seed(title, description, month, weekday, week_of_month, start_time, location, is_installation)
+WHERE NOT EXISTS (SELECT 1 FROM public.meeting_rules);
@@ -0,0 +1,298 @@
+/*
+  # Event RSVPs and Festive Board Bookings
+
+  1. Changes
+    - `events.bookings_enabled` - Whether members can RSVP to the event
+    - `events.booking_cutoff` - When RSVPs close (defaults to the event start)
+    - `events.capacity` - Maximum festive board seats; NULL means unlimited
+
+  2. New Tables
+    - `event_bookings` - One RSVP per member per event
+      - `attending` - Whether the member is coming
+      - `festive_board` - Whether the member is dining
+      - `dietary_requirements` - The member's own requirements
+      - `guests` (jsonb) - Named guests: [{ name, dietary_requirements, festive_board }]
+      - `status` - 'confirmed', 'waitlisted' or 'declined', maintained by triggers
+
+  3. Processing
+    - `event_booking_seats()` counts the festive board seats a booking takes
+    - Bookings that don't fit within capacity are waitlisted
+    - When seats are freed (or capacity is raised) waitlisted bookings are
+      confirmed in the order they were made. A booking that still doesn't fit
+      holds its place: later, smaller bookings can't overtake it
+    - Members can't create, change or cancel bookings after the cut-off
+
+  4. Security
+    - Enable RLS on `event_bookings`
+    - Members can only see and manage their own bookings
+    - Admins can see and manage all bookings
+    - `get_event_booking_summary()` exposes seat counts without exposing who booked
+    - Bookings and seat counts follow the events' own visibility: published events
+      only, and members-only events only for signed-in members
+*/
+
+ALTER TABLE public.events
+ADD COLUMN IF NOT EXISTS bookings_enabled BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS booking_cutoff TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS capacity INTEGER CHECK (capacity IS NULL OR capacity >= 0);
+
+-- Create event_bookings table
+CREATE TABLE IF NOT EXISTS public.event_bookings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  attending BOOLEAN NOT NULL DEFAULT true,
+  festive_board BOOLEAN NOT NULL DEFAULT true,
+  dietary_requirements TEXT,
+  guests JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(guests) = 'array'),
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'confirmed' CHECK (status IN ('confirmed', 'waitlisted', 'declined')),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (event_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_bookings_event_status
+  ON public.event_bookings(event_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_event_bookings_user_id
+  ON public.event_bookings(user_id);
+
+CREATE TRIGGER update_event_bookings_updated_at
+  BEFORE UPDATE ON public.event_bookings FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Festive board seats taken by a booking: the member (if dining) plus dining guests
+CREATE OR REPLACE FUNCTION public.event_booking_seats(booking public.event_bookings)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN NOT booking.attending THEN 0 ELSE
+    (CASE WHEN booking.festive_board THEN 1 ELSE 0 END) +
+    (SELECT count(*)::integer
+       FROM jsonb_array_elements(booking.guests) AS guest
+      WHERE COALESCE((guest->>'festive_board')::boolean, true))
+  END;
+$$;
+
+-- Whether members can still change their booking for an event they can see
+CREATE OR REPLACE FUNCTION public.event_bookings_open(target_event UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = target_event
+      AND e.is_published
+      AND (NOT e.is_members_only OR auth.uid() IS NOT NULL)
+      AND e.bookings_enabled
+      AND COALESCE(e.booking_cutoff, e.event_date) > now()
+  );
+$$;
+
+-- Confirm waitlisted bookings, oldest first, stopping at the first that doesn't fit
+CREATE OR REPLACE FUNCTION public.promote_event_waitlist(target_event UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  event_capacity INTEGER;
+  taken INTEGER;
+  waiting public.event_bookings%ROWTYPE;
+  promoted INTEGER := 0;
+BEGIN
+  -- Locking the event makes bookings for it take turns, so seats are never counted twice
+  SELECT capacity INTO event_capacity FROM public.events WHERE id = target_event FOR UPDATE;
+
+  FOR waiting IN
+    SELECT * FROM public.event_bookings
+    WHERE event_id = target_event AND status = 'waitlisted'
+    ORDER BY created_at
+    FOR UPDATE
+  LOOP
+    SELECT COALESCE(sum(public.event_booking_seats(b)), 0) INTO taken
+    FROM public.event_bookings b
+    WHERE b.event_id = target_event AND b.status = 'confirmed';
+
+    -- Strictly first come, first served: a member bringing guests isn't passed over
+    EXIT WHEN event_capacity IS NOT NULL AND taken + public.event_booking_seats(waiting) > event_capacity;
+
+    UPDATE public.event_bookings SET status = 'confirmed' WHERE id = waiting.id;
+    promoted := promoted + 1;
+  END LOOP;
+
+  RETURN promoted;
+END;
+$$;
+
+-- Enforce the cut-off and work out each booking's status
+CREATE OR REPLACE FUNCTION public.prepare_event_booking()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  booked_event public.events%ROWTYPE;
+  seats INTEGER;
+  taken INTEGER;
+BEGIN
+  -- Status changes made by promote_event_waitlist() are already decided
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  -- Held until the booking commits, so two members can't both take the last seat
+  SELECT * INTO booked_event FROM public.events WHERE id = NEW.event_id FOR UPDATE;
+
+  IF NOT EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin')
+     AND NOT public.event_bookings_open(NEW.event_id) THEN
+    RAISE EXCEPTION 'Bookings for this event are closed';
+  END IF;
+
+  IF NOT NEW.attending THEN
+    NEW.status := 'declined';
+    RETURN NEW;
+  END IF;
+
+  seats := public.event_booking_seats(NEW);
+
+  IF booked_event.capacity IS NULL OR seats = 0 THEN
+    NEW.status := 'confirmed';
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(sum(public.event_booking_seats(b)), 0) INTO taken
+  FROM public.event_bookings b
+  WHERE b.event_id = NEW.event_id AND b.status = 'confirmed' AND b.id <> NEW.id;
+
+  IF taken + seats <= booked_event.capacity THEN
+    NEW.status := 'confirmed';
+  ELSIF TG_OP = 'UPDATE' AND OLD.status = 'confirmed' THEN
+    -- Don't silently move a confirmed member to the waitlist for adding a guest
+    RAISE EXCEPTION 'Only % festive board seat(s) left', GREATEST(booked_event.capacity - taken, 0);
+  ELSE
+    NEW.status := 'waitlisted';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_event_booking
+  BEFORE INSERT OR UPDATE ON public.event_bookings FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_event_booking();
+
+-- Fill freed seats from the waitlist
+CREATE OR REPLACE FUNCTION public.handle_event_booking_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.promote_event_waitlist(OLD.event_id);
+  ELSE
+    PERFORM public.promote_event_waitlist(NEW.event_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER handle_event_booking_change
+  AFTER UPDATE OR DELETE ON public.event_bookings FOR EACH ROW
+  EXECUTE FUNCTION public.handle_event_booking_change();
+
+CREATE OR REPLACE FUNCTION public.handle_event_capacity_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.promote_event_waitlist(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER handle_event_capacity_change
+  AFTER UPDATE OF capacity ON public.events FOR EACH ROW
+  WHEN (NEW.capacity IS DISTINCT FROM OLD.capacity)
+  EXECUTE FUNCTION public.handle_event_capacity_change();
+
+-- Seat counts for the RSVP panel, without revealing other members' bookings.
+-- Only for events the caller could see.
+CREATE OR REPLACE FUNCTION public.get_event_booking_summary(target_event UUID)
+RETURNS TABLE (
+  capacity INTEGER,
+  confirmed_seats INTEGER,
+  waitlisted_count INTEGER,
+  attending_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.capacity,
+    COALESCE(sum(public.event_booking_seats(b)) FILTER (WHERE b.status = 'confirmed'), 0)::integer,
+    count(b.id) FILTER (WHERE b.status = 'waitlisted')::integer,
+    count(b.id) FILTER (WHERE b.attending)::integer
+  FROM public.events e
+  LEFT JOIN public.event_bookings b ON b.event_id = e.id
+  WHERE e.id = target_event
+    AND e.is_published
+    AND (NOT e.is_members_only OR auth.uid() IS NOT NULL)
+  GROUP BY e.id;
+$$;
+
+REVOKE ALL ON FUNCTION public.promote_event_waitlist(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_event_booking_summary(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_event_booking_summary(UUID) TO authenticated;
+
+ALTER TABLE public.event_bookings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view own bookings"
+  ON public.event_bookings
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Members can create own bookings"
+  ON public.event_bookings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Members can update own bookings"
+  ON public.event_bookings
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Members can cancel own bookings before the cut-off"
+  ON public.event_bookings
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid() AND public.event_bookings_open(event_id));
+
+CREATE POLICY "Admins can manage all bookings"
+  ON public.event_bookings
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'));
@@ -0,0 +1,62 @@
+/*
+  # Realtime CMS Content
+
+  1. Changes
+    - Add `updated_by` to `events`, `blog_posts`, `officers`, `testimonials`,
+      `faq_items`, `site_settings` and `page_content`
+      - Filled in by a trigger from `auth.uid()` on every insert and update
+      - NULL for changes made by the database itself (e.g. the content schedule job)
+    - Add the same tables to the `supabase_realtime` publication so browsers can
+      subscribe to changes
+
+  2. Why
+    - Open pages refresh their cached content as soon as an admin saves
+    - The CMS can tell an admin that a record they have open was changed by
+      someone else (rather than by their own save)
+
+  3. Security
+    - Realtime respects the existing RLS policies, so visitors only receive
+      changes to rows they could already read
+*/
+
+-- Record who made each change
+CREATE OR REPLACE FUNCTION public.set_updated_by()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_by = auth.uid();
+  RETURN NEW;
+END;
+$$;
+
+DO $$
+DECLARE
+  content_table TEXT;
+BEGIN
+  FOREACH content_table IN ARRAY ARRAY['events', 'blog_posts', 'officers', 'testimonials', 'faq_items', 'site_settings', 'page_content']
+  LOOP
+    EXECUTE format(
+      'ALTER TABLE public.%I ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL',
+      content_table
+    );
+
+    EXECUTE format('DROP TRIGGER IF EXISTS set_%s_updated_by ON public.%I', content_table, content_table);
+    EXECUTE format(
+      'CREATE TRIGGER set_%s_updated_by BEFORE INSERT OR UPDATE ON public.%I FOR EACH ROW EXECUTE FUNCTION public.set_updated_by()',
+      content_table,
+      content_table
+    );
+
+    -- Publish changes to realtime subscribers (skip tables that are already published)
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = content_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', content_table);
+    END IF;
+  END LOOP;
+END;
+$$;
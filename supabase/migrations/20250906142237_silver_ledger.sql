@@ -0,0 +1,176 @@
+/*
+  # Content Revision History
+
+  1. New Tables
+    - `content_revisions` - A snapshot of a content row after every change
+      - `content_table` - 'blog_posts', 'events', 'page_content' or 'site_settings'
+      - `content_id` - The row the snapshot belongs to
+      - `revision_number` - 1, 2, 3 … per row
+      - `snapshot` - The whole row as JSON
+      - `change_type` - 'create', 'update' or 'restore'
+      - `restored_from` - For restores, the revision number that was brought back
+      - `changed_by`, `changed_at` - Who made the change and when (NULL author = the
+        database itself, e.g. the content schedule job)
+
+  2. Functions
+    - `record_content_revision()` - Trigger that writes a revision after each insert
+      or update (updates that only touch updated_at/updated_by are skipped)
+    - `restore_content_revision(revision_id)` - Admin-only. Copies a revision's
+      values back onto the row, which is itself recorded as a new 'restore' revision
+
+  3. Data
+    - Every existing row gets revision 1 so its current state can be restored after
+      the first edit
+
+  4. Security
+    - Enable RLS; only admins can read revisions
+    - Revisions are only ever written by the trigger
+*/
+
+CREATE TABLE IF NOT EXISTS public.content_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_table TEXT NOT NULL CHECK (content_table IN ('blog_posts', 'events', 'page_content', 'site_settings')),
+  content_id UUID NOT NULL,
+  revision_number INTEGER NOT NULL,
+  snapshot JSONB NOT NULL,
+  change_type TEXT NOT NULL DEFAULT 'update' CHECK (change_type IN ('create', 'update', 'restore')),
+  restored_from INTEGER,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (content_table, content_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_revisions_content
+  ON public.content_revisions (content_table, content_id, revision_number DESC);
+
+ALTER TABLE public.content_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read content revisions"
+  ON public.content_revisions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.member_profiles mp
+      WHERE mp.user_id = auth.uid() AND mp.role = 'admin'
+    )
+  );
+
+-- Write a revision after each change
+CREATE OR REPLACE FUNCTION public.record_content_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  next_number INTEGER;
+  restoring INTEGER := NULLIF(current_setting('app.restoring_revision', true), '')::INTEGER;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND (to_jsonb(NEW) - 'updated_at' - 'updated_by') = (to_jsonb(OLD) - 'updated_at' - 'updated_by') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(MAX(revision_number), 0) + 1 INTO next_number
+  FROM public.content_revisions
+  WHERE content_table = TG_TABLE_NAME AND content_id = NEW.id;
+
+  INSERT INTO public.content_revisions (
+    content_table, content_id, revision_number, snapshot, change_type, restored_from, changed_by
+  ) VALUES (
+    TG_TABLE_NAME,
+    NEW.id,
+    next_number,
+    to_jsonb(NEW),
+    CASE WHEN TG_OP = 'INSERT' THEN 'create' WHEN restoring IS NOT NULL THEN 'restore' ELSE 'update' END,
+    restoring,
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DO $$
+DECLARE
+  content_table TEXT;
+BEGIN
+  FOREACH content_table IN ARRAY ARRAY['blog_posts', 'events', 'page_content', 'site_settings']
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS record_%s_revision ON public.%I', content_table, content_table);
+    EXECUTE format(
+      'CREATE TRIGGER record_%s_revision AFTER INSERT OR UPDATE ON public.%I FOR EACH ROW EXECUTE FUNCTION public.record_content_revision()',
+      content_table,
+      content_table
+    );
+
+    -- Baseline revision for rows that existed before history was kept
+    EXECUTE format(
+      'INSERT INTO public.content_revisions (content_table, content_id, revision_number, snapshot, change_type, changed_by, changed_at)
+       SELECT %L, t.id, 1, to_jsonb(t.*), %L, t.updated_by, COALESCE(t.updated_at, now())
+       FROM public.%I t
+       ON CONFLICT (content_table, content_id, revision_number) DO NOTHING',
+      content_table,
+      'create',
+      content_table
+    );
+  END LOOP;
+END;
+$$;
+
+-- Bring back an earlier revision (recorded as a new revision, so it can be undone too)
+CREATE OR REPLACE FUNCTION public.restore_content_revision(revision_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  revision public.content_revisions;
+  restored_columns TEXT;
+  restored JSONB;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.member_profiles mp
+    WHERE mp.user_id = auth.uid() AND mp.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can restore revisions' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO revision FROM public.content_revisions WHERE id = revision_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  -- Only columns that still exist; identity and bookkeeping columns are left alone
+  SELECT string_agg(quote_ident(c.column_name), ', ') INTO restored_columns
+  FROM information_schema.columns c
+  WHERE c.table_schema = 'public'
+    AND c.table_name = revision.content_table
+    AND revision.snapshot ? c.column_name
+    AND c.column_name NOT IN ('id', 'created_at', 'updated_at', 'updated_by');
+
+  PERFORM set_config('app.restoring_revision', revision.revision_number::TEXT, true);
+
+  EXECUTE format(
+    'UPDATE public.%I AS t SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::public.%I, $1)) WHERE t.id = $2 RETURNING to_jsonb(t.*)',
+    revision.content_table,
+    restored_columns,
+    restored_columns,
+    revision.content_table
+  )
+  INTO restored
+  USING revision.snapshot, revision.content_id;
+
+  PERFORM set_config('app.restoring_revision', '', true);
+
+  IF restored IS NULL THEN
+    RAISE EXCEPTION 'This content has been deleted, so the revision can''t be restored';
+  END IF;
+
+  RETURN restored;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.restore_content_revision(UUID) TO authenticated;
@@ -0,0 +1,149 @@
+/*
+  # Admin Audit Log
+
+  1. New Tables
+    - `audit_log` - One row per change to member or content records
+      - `occurred_at` - When it happened
+      - `actor_id`, `actor_name` - Who did it (the name is copied at the time, so
+        entries still read correctly after the actor's own profile is removed)
+      - `action` - 'create', 'update', 'delete', or a named action written by an
+        edge function (e.g. 'delete_account')
+      - `table_name`, `record_id`, `record_label` - What was changed; the label is a
+        readable name such as a member's name or an event title
+      - `summary` - Short description, e.g. "Status changed from pending to active"
+      - `old_values`, `new_values` - Before and after values (whole rows for creates and
+        deletes, only the changed columns for updates)
+      - `source` - 'database' (trigger) or the name of the edge function
+
+  2. Functions
+    - `write_audit_log()` - Trigger on member_profiles, lodge_documents, meeting_minutes
+      and the CMS content tables. Changes made with the service role are skipped -
+      edge functions write their own, more descriptive entries.
+
+  3. Security
+    - Enable RLS; only admins can read the log
+    - Nobody can change or delete entries through the API
+*/
+
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  actor_id UUID,
+  actor_name TEXT,
+  action TEXT NOT NULL,
+  table_name TEXT NOT NULL,
+  record_id TEXT,
+  record_label TEXT,
+  summary TEXT,
+  old_values JSONB,
+  new_values JSONB,
+  source TEXT NOT NULL DEFAULT 'database'
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_occurred_at ON public.audit_log (occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_table_record ON public.audit_log (table_name, record_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON public.audit_log (actor_id);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read the audit log"
+  ON public.audit_log
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.member_profiles mp
+      WHERE mp.user_id = auth.uid() AND mp.role = 'admin'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.write_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  row_data JSONB := COALESCE(new_row, old_row);
+  changed_old JSONB := old_row;
+  changed_new JSONB := new_row;
+  changed_columns TEXT[];
+  entry_summary TEXT;
+BEGIN
+  -- Edge functions using the service role log their own actions
+  IF auth.role() = 'service_role' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(key ORDER BY key) INTO changed_columns
+    FROM jsonb_each(new_row) AS n(key, value)
+    WHERE n.value IS DISTINCT FROM old_row -> n.key
+      AND n.key NOT IN ('updated_at', 'updated_by');
+
+    -- Nothing but bookkeeping changed
+    IF changed_columns IS NULL THEN
+      RETURN NULL;
+    END IF;
+
+    SELECT jsonb_object_agg(key, old_row -> key), jsonb_object_agg(key, new_row -> key)
+    INTO changed_old, changed_new
+    FROM unnest(changed_columns) AS key;
+
+    entry_summary := CASE
+      WHEN 'status' = ANY (changed_columns) AND TG_TABLE_NAME = 'member_profiles' THEN
+        format('Status changed from %s to %s', old_row ->> 'status', new_row ->> 'status')
+      WHEN 'role' = ANY (changed_columns) THEN
+        format('Role changed from %s to %s', old_row ->> 'role', new_row ->> 'role')
+      ELSE
+        'Changed ' || array_to_string(changed_columns, ', ')
+    END;
+  ELSE
+    entry_summary := CASE WHEN TG_OP = 'INSERT' THEN 'Created' ELSE 'Deleted' END;
+  END IF;
+
+  INSERT INTO public.audit_log (
+    actor_id, actor_name, action, table_name, record_id, record_label, summary, old_values, new_values
+  ) VALUES (
+    auth.uid(),
+    (SELECT mp.full_name FROM public.member_profiles mp WHERE mp.user_id = auth.uid()),
+    CASE TG_OP WHEN 'INSERT' THEN 'create' WHEN 'UPDATE' THEN 'update' ELSE 'delete' END,
+    TG_TABLE_NAME,
+    COALESCE(row_data ->> 'user_id', row_data ->> 'id'),
+    COALESCE(
+      row_data ->> 'full_name',
+      row_data ->> 'title',
+      row_data ->> 'question',
+      row_data ->> 'member_name',
+      row_data ->> 'setting_key',
+      (row_data ->> 'page_name') || ' / ' || (row_data ->> 'section_name')
+    ),
+    entry_summary,
+    changed_old,
+    changed_new
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DO $$
+DECLARE
+  audited_table TEXT;
+BEGIN
+  FOREACH audited_table IN ARRAY ARRAY[
+    'member_profiles', 'lodge_documents', 'meeting_minutes',
+    'events', 'blog_posts', 'officers', 'testimonials', 'faq_items', 'site_settings', 'page_content'
+  ]
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_%s ON public.%I', audited_table, audited_table);
+    EXECUTE format(
+      'CREATE TRIGGER audit_%s AFTER INSERT OR UPDATE OR DELETE ON public.%I FOR EACH ROW EXECUTE FUNCTION public.write_audit_log()',
+      audited_table,
+      audited_table
+    );
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,449 @@
+/*
+  # Lodge Roles and Permissions
+
+  1. New Tables
+    - `permissions` - What can be granted, e.g. 'edit_minutes'
+    - `role_permissions` - Which permissions each role holds
+
+  2. Roles
+    - `member_profiles.role` now also allows 'secretary', 'treasurer', 'almoner',
+      'webmaster' and 'editor'. 'admin' still holds every permission.
+    - Secretary: approve and manage members, documents, minutes, events, audit log
+    - Treasurer: finances, audit log
+    - Almoner: charity and relief
+    - Webmaster: site content, events, publishing
+    - Editor: publishing news and blog posts
+
+  3. Functions
+    - `has_permission(required)` - Whether the signed-in member holds a permission
+    - `get_my_permissions()` - Every permission the signed-in member holds
+    - `is_lodge_admin()` - Whether the signed-in member's own role is admin
+    - `can_manage_content(content_table)` - The permission check for a CMS table, shared
+      by schedules and revisions
+    - `protect_member_privileges()` - Trigger stopping members from changing their own
+      role or status. Only admins may make someone an admin or change an admin's
+      profile. Until the first admin exists, the setup page may still create one.
+
+  4. Security
+    - Every "admins can manage" policy is replaced by one based on the matching permission
+    - Member managers can delete profiles, except admins' (only admins can)
+    - Restoring revisions and reading the audit log follow the same permissions
+    - `prepare_event_booking()` lets anyone with manage_events change bookings after
+      the cut-off, not just admins
+*/
+
+CREATE TABLE IF NOT EXISTS public.permissions (
+  permission TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT ''
+);
+
+CREATE TABLE IF NOT EXISTS public.role_permissions (
+  role TEXT NOT NULL,
+  permission TEXT NOT NULL REFERENCES public.permissions(permission) ON DELETE CASCADE,
+  PRIMARY KEY (role, permission)
+);
+
+INSERT INTO public.permissions (permission, label, description) VALUES
+  ('approve_members', 'Approve members', 'Approve, reject, deactivate and reactivate members'),
+  ('manage_members', 'Manage members', 'Add, edit and remove member profiles and assign roles'),
+  ('manage_documents', 'Manage documents', 'Upload and edit Lodge documents'),
+  ('edit_minutes', 'Edit minutes', 'Write and edit meeting minutes'),
+  ('manage_events', 'Manage events', 'Events, bookings and the meeting schedule'),
+  ('publish_content', 'Publish posts', 'Write and publish news, blog posts and snippets'),
+  ('manage_site', 'Manage site', 'Officers, testimonials, FAQs, page content, media and site settings'),
+  ('view_audit_log', 'View audit log', 'See who changed what'),
+  ('manage_finances', 'Manage finances', 'Dues and payments'),
+  ('manage_charity', 'Manage charity', 'Charity collections and relief')
+ON CONFLICT (permission) DO NOTHING;
+
+INSERT INTO public.role_permissions (role, permission)
+SELECT 'admin', permission FROM public.permissions
+UNION ALL
+SELECT 'secretary', unnest(ARRAY['approve_members', 'manage_members', 'manage_documents', 'edit_minutes', 'manage_events', 'view_audit_log'])
+UNION ALL
+SELECT 'treasurer', unnest(ARRAY['manage_finances', 'view_audit_log'])
+UNION ALL
+SELECT 'almoner', unnest(ARRAY['manage_charity'])
+UNION ALL
+SELECT 'webmaster', unnest(ARRAY['manage_site', 'publish_content', 'manage_events'])
+UNION ALL
+SELECT 'editor', unnest(ARRAY['publish_content'])
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.member_profiles DROP CONSTRAINT IF EXISTS member_profiles_role_check;
+ALTER TABLE public.member_profiles ADD CONSTRAINT member_profiles_role_check
+  CHECK (role IN ('member', 'admin', 'secretary', 'treasurer', 'almoner', 'webmaster', 'editor'));
+
+-- Permission checks
+CREATE OR REPLACE FUNCTION public.has_permission(required TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.member_profiles mp
+    LEFT JOIN public.role_permissions rp ON rp.role = mp.role AND rp.permission = required
+    WHERE mp.user_id = auth.uid()
+      AND (mp.role = 'admin' OR rp.permission IS NOT NULL)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_my_permissions()
+RETURNS SETOF TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.permission
+  FROM public.permissions p
+  JOIN public.member_profiles mp ON mp.user_id = auth.uid()
+  WHERE mp.role = 'admin'
+     OR EXISTS (
+       SELECT 1 FROM public.role_permissions rp
+       WHERE rp.role = mp.role AND rp.permission = p.permission
+     )
+  ORDER BY p.permission;
+$$;
+
+-- manage_members assigns roles, but only an admin may hand out or take away admin
+CREATE OR REPLACE FUNCTION public.is_lodge_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.member_profiles mp
+    WHERE mp.user_id = auth.uid() AND mp.role = 'admin'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_content(content_table TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_permission(CASE content_table
+    WHEN 'blog_posts' THEN 'publish_content'
+    WHEN 'events' THEN 'manage_events'
+    ELSE 'manage_site'
+  END);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_permission(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_permissions() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_lodge_admin() TO authenticated;
+
+ALTER TABLE public.permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view permissions"
+  ON public.permissions FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Members can view role permissions"
+  ON public.role_permissions FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage role permissions"
+  ON public.role_permissions
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'));
+
+-- Members may edit their own profile, but not promote or approve themselves
+CREATE OR REPLACE FUNCTION public.protect_member_privileges()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Service role and SQL run without a user; the first admin is set up from the site
+  IF auth.uid() IS NULL OR NOT EXISTS (SELECT 1 FROM public.member_profiles WHERE role = 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NOT public.has_permission('manage_members')
+      AND (NEW.role <> 'member' OR COALESCE(NEW.status, 'pending') <> 'pending') THEN
+      RAISE EXCEPTION 'New profiles start as pending members' USING ERRCODE = '42501';
+    END IF;
+    IF NEW.role = 'admin' AND NOT public.is_lodge_admin() THEN
+      RAISE EXCEPTION 'Only an admin can make someone an admin' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF (OLD.role = 'admin' OR NEW.role = 'admin') AND NOT public.is_lodge_admin() THEN
+    RAISE EXCEPTION 'Only an admin can change an admin''s profile or make someone an admin' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role AND NOT public.has_permission('manage_members') THEN
+    RAISE EXCEPTION 'You do not have permission to change roles' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT (public.has_permission('approve_members') OR public.has_permission('manage_members')) THEN
+    RAISE EXCEPTION 'You do not have permission to change membership status' USING ERRCODE = '42501';
+  END IF;
+
+  -- Approvers can change someone else's status, but nothing else on their profile
+  IF OLD.user_id <> auth.uid()
+    AND NOT public.has_permission('manage_members')
+    AND (to_jsonb(NEW) - 'status' - 'updated_at') <> (to_jsonb(OLD) - 'status' - 'updated_at') THEN
+    RAISE EXCEPTION 'You can only change the membership status of other members' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_member_privileges ON public.member_profiles;
+CREATE TRIGGER protect_member_privileges
+  BEFORE INSERT OR UPDATE ON public.member_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_member_privileges();
+
+-- Member profiles
+DROP POLICY IF EXISTS "Admins can insert any profile" ON public.member_profiles;
+DROP POLICY IF EXISTS "Admins can update any profile" ON public.member_profiles;
+DROP POLICY IF EXISTS "Only admins can delete profiles" ON public.member_profiles;
+
+CREATE POLICY "Member managers can insert any profile"
+  ON public.member_profiles FOR INSERT TO authenticated
+  WITH CHECK (public.has_permission('manage_members'));
+
+-- Approvers' updates are limited to status by protect_member_privileges()
+CREATE POLICY "Member managers and approvers can update any profile"
+  ON public.member_profiles FOR UPDATE TO authenticated
+  USING (public.has_permission('manage_members') OR public.has_permission('approve_members'))
+  WITH CHECK (public.has_permission('manage_members') OR public.has_permission('approve_members'));
+
+CREATE POLICY "Member managers can delete profiles"
+  ON public.member_profiles FOR DELETE TO authenticated
+  USING (public.has_permission('manage_members') AND (role <> 'admin' OR public.is_lodge_admin()));
+
+-- Documents and minutes
+DROP POLICY IF EXISTS "Admins can manage documents" ON public.lodge_documents;
+CREATE POLICY "Document managers can manage documents"
+  ON public.lodge_documents FOR ALL TO authenticated
+  USING (public.has_permission('manage_documents'))
+  WITH CHECK (public.has_permission('manage_documents'));
+
+DROP POLICY IF EXISTS "Admins can manage meeting minutes" ON public.meeting_minutes;
+CREATE POLICY "Minute editors can manage meeting minutes"
+  ON public.meeting_minutes FOR ALL TO authenticated
+  USING (public.has_permission('edit_minutes'))
+  WITH CHECK (public.has_permission('edit_minutes'));
+
+-- Events, bookings and the meeting schedule
+DROP POLICY IF EXISTS "Admins can manage events" ON public.events;
+CREATE POLICY "Event managers can manage events"
+  ON public.events FOR ALL TO authenticated
+  USING (public.has_permission('manage_events'))
+  WITH CHECK (public.has_permission('manage_events'));
+
+DROP POLICY IF EXISTS "Admins can manage all bookings" ON public.event_bookings;
+CREATE POLICY "Event managers can manage all bookings"
+  ON public.event_bookings FOR ALL TO authenticated
+  USING (public.has_permission('manage_events'))
+  WITH CHECK (public.has_permission('manage_events'));
+
+-- As before, but the cut-off bypass follows manage_events rather than the admin role
+CREATE OR REPLACE FUNCTION public.prepare_event_booking()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  booked_event public.events%ROWTYPE;
+  seats INTEGER;
+  taken INTEGER;
+BEGIN
+  -- Status changes made by promote_event_waitlist() are already decided
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  -- Held until the booking commits, so two members can't both take the last seat
+  SELECT * INTO booked_event FROM public.events WHERE id = NEW.event_id FOR UPDATE;
+
+  IF NOT public.has_permission('manage_events') AND NOT public.event_bookings_open(NEW.event_id) THEN
+    RAISE EXCEPTION 'Bookings for this event are closed';
+  END IF;
+
+  IF NOT NEW.attending THEN
+    NEW.status := 'declined';
+    RETURN NEW;
+  END IF;
+
+  seats := public.event_booking_seats(NEW);
+
+  IF booked_event.capacity IS NULL OR seats = 0 THEN
+    NEW.status := 'confirmed';
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(sum(public.event_booking_seats(b)), 0) INTO taken
+  FROM public.event_bookings b
+  WHERE b.event_id = NEW.event_id AND b.status = 'confirmed' AND b.id <> NEW.id;
+
+  IF taken + seats <= booked_event.capacity THEN
+    NEW.status := 'confirmed';
+  ELSIF TG_OP = 'UPDATE' AND OLD.status = 'confirmed' THEN
+    -- Don't silently move a confirmed member to the waitlist for adding a guest
+    RAISE EXCEPTION 'Only % festive board seat(s) left', GREATEST(booked_event.capacity - taken, 0);
+  ELSE
+    NEW.status := 'waitlisted';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Admins can manage meeting rules" ON public.meeting_rules;
+CREATE POLICY "Event managers can manage meeting rules"
+  ON public.meeting_rules FOR ALL TO authenticated
+  USING (public.has_permission('manage_events'))
+  WITH CHECK (public.has_permission('manage_events'));
+
+DROP POLICY IF EXISTS "Admins can manage meeting overrides" ON public.meeting_overrides;
+CREATE POLICY "Event managers can manage meeting overrides"
+  ON public.meeting_overrides FOR ALL TO authenticated
+  USING (public.has_permission('manage_events'))
+  WITH CHECK (public.has_permission('manage_events'));
+
+-- Blog posts (older databases may still carry the policy from news_articles)
+DROP POLICY IF EXISTS "Admins can manage blog posts" ON public.blog_posts;
+DROP POLICY IF EXISTS "Admins can manage news" ON public.blog_posts;
+CREATE POLICY "Editors can manage blog posts"
+  ON public.blog_posts FOR ALL TO authenticated
+  USING (public.has_permission('publish_content'))
+  WITH CHECK (public.has_permission('publish_content'));
+
+-- Site content
+DROP POLICY IF EXISTS "Admins can manage officers" ON public.officers;
+CREATE POLICY "Site managers can manage officers"
+  ON public.officers FOR ALL TO authenticated
+  USING (public.has_permission('manage_site'))
+  WITH CHECK (public.has_permission('manage_site'));
+
+DROP POLICY IF EXISTS "Admins can manage testimonials" ON public.testimonials;
+CREATE POLICY "Site managers can manage testimonials"
+  ON public.testimonials FOR ALL TO authenticated
+  USING (public.has_permission('manage_site'))
+  WITH CHECK (public.has_permission('manage_site'));
+
+DROP POLICY IF EXISTS "Admins can manage FAQs" ON public.faq_items;
+CREATE POLICY "Site managers can manage FAQs"
+  ON public.faq_items FOR ALL TO authenticated
+  USING (public.has_permission('manage_site'))
+  WITH CHECK (public.has_permission('manage_site'));
+
+DROP POLICY IF EXISTS "Admins can manage page content" ON public.page_content;
+CREATE POLICY "Site managers can manage page content"
+  ON public.page_content FOR ALL TO authenticated
+  USING (public.has_permission('manage_site'))
+  WITH CHECK (public.has_permission('manage_site'));
+
+DROP POLICY IF EXISTS "Admins can manage site settings" ON public.site_settings;
+CREATE POLICY "Site managers can manage site settings"
+  ON public.site_settings FOR ALL TO authenticated
+  USING (public.has_permission('manage_site'))
+  WITH CHECK (public.has_permission('manage_site'));
+
+-- Media is used by posts as well as site pages
+DROP POLICY IF EXISTS "Admins can delete files" ON storage.objects;
+CREATE POLICY "Content managers can delete files"
+  ON storage.objects FOR DELETE TO authenticated
+  USING (
+    bucket_id = 'cms-media'
+    AND (public.has_permission('manage_site') OR public.has_permission('publish_content'))
+  );
+
+DROP POLICY IF EXISTS "Admins can update files" ON storage.objects;
+CREATE POLICY "Content managers can update files"
+  ON storage.objects FOR UPDATE TO authenticated
+  USING (
+    bucket_id = 'cms-media'
+    AND (public.has_permission('manage_site') OR public.has_permission('publish_content'))
+  )
+  WITH CHECK (
+    bucket_id = 'cms-media'
+    AND (public.has_permission('manage_site') OR public.has_permission('publish_content'))
+  );
+
+-- Schedules, revisions and the audit log
+DROP POLICY IF EXISTS "Admins can manage content schedules" ON public.content_schedules;
+CREATE POLICY "Content managers can manage content schedules"
+  ON public.content_schedules FOR ALL TO authenticated
+  USING (public.can_manage_content(content_table))
+  WITH CHECK (public.can_manage_content(content_table));
+
+DROP POLICY IF EXISTS "Admins can read content revisions" ON public.content_revisions;
+CREATE POLICY "Content managers can read content revisions"
+  ON public.content_revisions FOR SELECT TO authenticated
+  USING (public.can_manage_content(content_table));
+
+DROP POLICY IF EXISTS "Admins can read the audit log" ON public.audit_log;
+CREATE POLICY "Audit viewers can read the audit log"
+  ON public.audit_log FOR SELECT TO authenticated
+  USING (public.has_permission('view_audit_log'));
+
+CREATE OR REPLACE FUNCTION public.restore_content_revision(revision_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  revision public.content_revisions;
+  restored_columns TEXT;
+  restored JSONB;
+BEGIN
+  SELECT * INTO revision FROM public.content_revisions WHERE id = revision_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  IF NOT public.can_manage_content(revision.content_table) THEN
+    RAISE EXCEPTION 'You do not have permission to restore this content' USING ERRCODE = '42501';
+  END IF;
+
+  -- Only columns that still exist; identity and bookkeeping columns are left alone
+  SELECT string_agg(quote_ident(c.column_name), ', ') INTO restored_columns
+  FROM information_schema.columns c
+  WHERE c.table_schema = 'public'
+    AND c.table_name = revision.content_table
+    AND revision.snapshot ? c.column_name
+    AND c.column_name NOT IN ('id', 'created_at', 'updated_at', 'updated_by');
+
+  PERFORM set_config('app.restoring_revision', revision.revision_number::TEXT, true);
+
+  EXECUTE format(
+    'UPDATE public.%I AS t SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::public.%I, $1)) WHERE t.id = $2 RETURNING to_jsonb(t.*)',
+    revision.content_table,
+    restored_columns,
+    restored_columns,
+    revision.content_table
+  )
+  INTO restored
+  USING revision.snapshot, revision.content_id;
+
+  PERFORM set_config('app.restoring_revision', '', true);
+
+  IF restored IS NULL THEN
+    RAISE EXCEPTION 'This content has been deleted, so the revision can''t be restored';
+  END IF;
+
+  RETURN restored;
+END;
+$$;
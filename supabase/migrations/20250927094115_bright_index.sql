@@ -0,0 +1,303 @@
+/*
+  # Full-Text Search
+
+  1. Changes
+    - `search_vector` generated columns with GIN indexes on:
+      - `lodge_documents` (title, description)
+      - `meeting_minutes` (title, content)
+      - `blog_posts` (title, summary, content with HTML tags removed)
+    - Titles are weighted highest so they rank above body matches
+
+  2. Functions
+    - `search_matches(query)` - Every visible row matching a web-style query
+      ("quoted phrases", -excluded, or), ranked, with a highlighted snippet
+    - `search_content(...)` - One page of matches, filtered by type, category and date
+    - `search_content_facets(...)` - Match counts per type, category and year for the
+      same query, ignoring the filter being counted so it can be widened again
+
+  3. Security
+    - The functions run as the caller, so the existing RLS policies decide what can be
+      found: documents and minutes need a signed-in member, members-only blog posts
+      are hidden from visitors and unpublished posts are never returned
+    - Snippets mark matches with ⟦ and ⟧ rather than HTML, so content is never
+      rendered as markup
+
+  4. Bookkeeping
+    - The audit log and content revisions leave out `search_vector`; it only ever
+      mirrors the other columns
+*/
+
+ALTER TABLE public.lodge_documents
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(description, '')), 'B')
+  ) STORED;
+
+ALTER TABLE public.meeting_minutes
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(content, '')), 'B')
+  ) STORED;
+
+ALTER TABLE public.blog_posts
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(summary, '')), 'B') ||
+    setweight(to_tsvector('english', regexp_replace(COALESCE(content, ''), '<[^>]*>', ' ', 'g')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_lodge_documents_search ON public.lodge_documents USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_meeting_minutes_search ON public.meeting_minutes USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_blog_posts_search ON public.blog_posts USING GIN (search_vector);
+
+-- All matches, as the caller is allowed to see them
+CREATE OR REPLACE FUNCTION public.search_matches(query TEXT)
+RETURNS TABLE (
+  content_type TEXT,
+  id UUID,
+  title TEXT,
+  category TEXT,
+  content_date TIMESTAMPTZ,
+  url TEXT,
+  is_members_only BOOLEAN,
+  snippet TEXT,
+  rank REAL
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', query) AS tsq
+  ),
+  matched AS (
+    SELECT 'document'::TEXT AS content_type, d.id, d.title, d.category, d.created_at AS content_date,
+      d.url, true AS is_members_only, COALESCE(d.description, '') AS body,
+      ts_rank(d.search_vector, q.tsq) AS rank, q.tsq
+    FROM public.lodge_documents d, q
+    WHERE d.search_vector @@ q.tsq
+
+    UNION ALL
+
+    SELECT 'minutes', m.id, m.title, 'minutes', m.meeting_date::TIMESTAMPTZ,
+      NULL, true, COALESCE(m.content, ''),
+      ts_rank(m.search_vector, q.tsq), q.tsq
+    FROM public.meeting_minutes m, q
+    WHERE m.search_vector @@ q.tsq
+
+    UNION ALL
+
+    SELECT 'blog', b.id, b.title, COALESCE(b.category, 'news'), b.publish_date::TIMESTAMPTZ,
+      NULL, b.is_members_only,
+      COALESCE(b.summary, '') || E'\n' || regexp_replace(COALESCE(b.content, ''), '<[^>]*>', ' ', 'g'),
+      ts_rank(b.search_vector, q.tsq), q.tsq
+    FROM public.blog_posts b, q
+    WHERE b.search_vector @@ q.tsq
+      AND b.is_published = true
+      AND (NOT b.is_members_only OR auth.uid() IS NOT NULL)
+  )
+  SELECT
+    matched.content_type,
+    matched.id,
+    matched.title,
+    matched.category,
+    matched.content_date,
+    matched.url,
+    matched.is_members_only,
+    ts_headline(
+      'english',
+      matched.body,
+      matched.tsq,
+      'StartSel=⟦, StopSel=⟧, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    matched.rank
+  FROM matched;
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_content(
+  query TEXT,
+  content_types TEXT[] DEFAULT NULL,
+  categories TEXT[] DEFAULT NULL,
+  from_date DATE DEFAULT NULL,
+  to_date DATE DEFAULT NULL,
+  result_limit INTEGER DEFAULT 20,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  content_type TEXT,
+  id UUID,
+  title TEXT,
+  category TEXT,
+  content_date TIMESTAMPTZ,
+  url TEXT,
+  is_members_only BOOLEAN,
+  snippet TEXT,
+  rank REAL,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT s.*, COUNT(*) OVER () AS total_count
+  FROM public.search_matches(query) s
+  WHERE (content_types IS NULL OR s.content_type = ANY (content_types))
+    AND (categories IS NULL OR s.category = ANY (categories))
+    AND (from_date IS NULL OR s.content_date >= from_date)
+    AND (to_date IS NULL OR s.content_date < to_date + 1)
+  ORDER BY s.rank DESC, s.content_date DESC NULLS LAST
+  LIMIT LEAST(result_limit, 100)
+  OFFSET result_offset;
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_content_facets(
+  query TEXT,
+  content_types TEXT[] DEFAULT NULL,
+  categories TEXT[] DEFAULT NULL,
+  from_date DATE DEFAULT NULL,
+  to_date DATE DEFAULT NULL
+)
+RETURNS TABLE (
+  facet TEXT,
+  value TEXT,
+  match_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH s AS (
+    SELECT
+      m.*,
+      (content_types IS NULL OR m.content_type = ANY (content_types)) AS type_ok,
+      (categories IS NULL OR m.category = ANY (categories)) AS category_ok,
+      ((from_date IS NULL OR m.content_date >= from_date)
+        AND (to_date IS NULL OR m.content_date < to_date + 1)) AS date_ok
+    FROM public.search_matches(query) m
+  )
+  SELECT 'type', s.content_type, COUNT(*) FROM s WHERE s.category_ok AND s.date_ok GROUP BY s.content_type
+  UNION ALL
+  SELECT 'category', s.category, COUNT(*) FROM s WHERE s.type_ok AND s.date_ok GROUP BY s.category
+  UNION ALL
+  SELECT 'year', EXTRACT(YEAR FROM s.content_date)::INTEGER::TEXT, COUNT(*)
+  FROM s
+  WHERE s.type_ok AND s.category_ok AND s.content_date IS NOT NULL
+  GROUP BY EXTRACT(YEAR FROM s.content_date);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_matches(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_content(TEXT, TEXT[], TEXT[], DATE, DATE, INTEGER, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_content_facets(TEXT, TEXT[], TEXT[], DATE, DATE) TO anon, authenticated;
+
+-- Keep the generated search column out of revisions
+CREATE OR REPLACE FUNCTION public.record_content_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  next_number INTEGER;
+  restoring INTEGER := NULLIF(current_setting('app.restoring_revision', true), '')::INTEGER;
+  new_row JSONB := to_jsonb(NEW) - 'search_vector';
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND (new_row - 'updated_at' - 'updated_by') = (to_jsonb(OLD) - 'search_vector' - 'updated_at' - 'updated_by') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(MAX(revision_number), 0) + 1 INTO next_number
+  FROM public.content_revisions
+  WHERE content_table = TG_TABLE_NAME AND content_id = NEW.id;
+
+  INSERT INTO public.content_revisions (
+    content_table, content_id, revision_number, snapshot, change_type, restored_from, changed_by
+  ) VALUES (
+    TG_TABLE_NAME,
+    NEW.id,
+    next_number,
+    new_row,
+    CASE WHEN TG_OP = 'INSERT' THEN 'create' WHEN restoring IS NOT NULL THEN 'restore' ELSE 'update' END,
+    restoring,
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- ...and out of the audit log
+CREATE OR REPLACE FUNCTION public.write_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) - 'search_vector' END;
+  new_row JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) - 'search_vector' END;
+  row_data JSONB := COALESCE(new_row, old_row);
+  changed_old JSONB := old_row;
+  changed_new JSONB := new_row;
+  changed_columns TEXT[];
+  entry_summary TEXT;
+BEGIN
+  -- Edge functions using the service role log their own actions
+  IF auth.role() = 'service_role' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(key ORDER BY key) INTO changed_columns
+    FROM jsonb_each(new_row) AS n(key, value)
+    WHERE n.value IS DISTINCT FROM old_row -> n.key
+      AND n.key NOT IN ('updated_at', 'updated_by');
+
+    -- Nothing but bookkeeping changed
+    IF changed_columns IS NULL THEN
+      RETURN NULL;
+    END IF;
+
+    SELECT jsonb_object_agg(key, old_row -> key), jsonb_object_agg(key, new_row -> key)
+    INTO changed_old, changed_new
+    FROM unnest(changed_columns) AS key;
+
+    entry_summary := CASE
+      WHEN 'status' = ANY (changed_columns) AND TG_TABLE_NAME = 'member_profiles' THEN
+        format('Status changed from %s to %s', old_row ->> 'status', new_row ->> 'status')
+      WHEN 'role' = ANY (changed_columns) THEN
+        format('Role changed from %s to %s', old_row ->> 'role', new_row ->> 'role')
+      ELSE
+        'Changed ' || array_to_string(changed_columns, ', ')
+    END;
+  ELSE
+    entry_summary := CASE WHEN TG_OP = 'INSERT' THEN 'Created' ELSE 'Deleted' END;
+  END IF;
+
+  INSERT INTO public.audit_log (
+    actor_id, actor_name, action, table_name, record_id, record_label, summary, old_values, new_values
+  ) VALUES (
+    auth.uid(),
+    (SELECT mp.full_name FROM public.member_profiles mp WHERE mp.user_id = auth.uid()),
+    CASE TG_OP WHEN 'INSERT' THEN 'create' WHEN 'UPDATE' THEN 'update' ELSE 'delete' END,
+    TG_TABLE_NAME,
+    COALESCE(row_data ->> 'user_id', row_data ->> 'id'),
+    COALESCE(
+      row_data ->> 'full_name',
+      row_data ->> 'title',
+      row_data ->> 'question',
+      row_data ->> 'member_name',
+      row_data ->> 'setting_key',
+      (row_data ->> 'page_name') || ' / ' || (row_data ->> 'section_name')
+    ),
+    entry_summary,
+    changed_old,
+    changed_new
+  );
+
+  RETURN NULL;
+END;
+$$;
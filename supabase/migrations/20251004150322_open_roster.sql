@@ -0,0 +1,44 @@
+/*
+  # Member Directory View
+
+  1. New Views
+    - `member_directory` - The directory's columns from `member_profiles`, plus:
+      - `rank_level` (smallint) - 2 for Grand Lodge rank, 1 for Provincial rank, 0 for none,
+        so the directory can sort and filter by rank
+      - `search_text` (text) - Lower-cased name, position and ranks for one `ilike` search
+
+  2. Security
+    - `security_invoker`, so the `member_profiles` RLS policies still apply
+    - Admin-only columns (notes, needs_password_reset) are left out
+*/
+
+CREATE OR REPLACE VIEW public.member_directory
+WITH (security_invoker = true)
+AS
+SELECT
+  mp.id,
+  mp.user_id,
+  mp.full_name,
+  mp.position,
+  mp.role,
+  mp.status,
+  mp.join_date,
+  mp.contact_email,
+  mp.contact_phone,
+  mp.masonic_provincial_rank,
+  mp.grand_lodge_rank,
+  mp.created_at,
+  mp.updated_at,
+  (CASE
+    WHEN NULLIF(btrim(mp.grand_lodge_rank), '') IS NOT NULL THEN 2
+    WHEN NULLIF(btrim(mp.masonic_provincial_rank), '') IS NOT NULL THEN 1
+    ELSE 0
+  END)::SMALLINT AS rank_level,
+  lower(concat_ws(' ', mp.full_name, mp.position, mp.masonic_provincial_rank, mp.grand_lodge_rank)) AS search_text
+FROM public.member_profiles mp;
+
+GRANT SELECT ON public.member_directory TO authenticated;
+
+-- Sorting by join date and rank
+CREATE INDEX IF NOT EXISTS idx_member_profiles_join_date ON public.member_profiles (join_date);
+CREATE INDEX IF NOT EXISTS idx_member_profiles_status ON public.member_profiles (status);
@@ -0,0 +1,139 @@
+/*
+  # Member Directory Privacy
+
+  1. Changes
+    - `member_profiles` gains a visibility setting for each personal field shown in
+      the directory: `contact_email_visibility`, `contact_phone_visibility`,
+      `provincial_rank_visibility` and `grand_lodge_rank_visibility`
+    - Each is 'lodge' (every member), 'officers' (members holding a Lodge role) or
+      'nobody'. They default to 'lodge', which is what everyone saw until now.
+
+  2. Functions
+    - `is_active_member()` - Whether the signed-in member's profile is active
+    - `is_lodge_officer()` - Whether the signed-in member holds a role beyond 'member'
+    - `member_field_visible(owner_id, visibility)` - Whether the signed-in member may
+      see a field of someone else's profile. Members always see their own.
+
+  3. Views
+    - `member_directory` now runs as its owner and blanks each field the viewer may not
+      see. Rank level and the search text are worked out from the blanked ranks, so a
+      hidden rank can't be found by filtering or searching for it.
+    - Only active members can read it, and they only see active members. Member
+      managers and approvers also see pending and inactive members.
+
+  4. Security
+    - "Members can view all profiles" is replaced: members read their own row, and
+      member managers and approvers read every row for the admin screens. Everyone
+      else reads other members through `member_directory`.
+*/
+
+ALTER TABLE public.member_profiles
+  ADD COLUMN IF NOT EXISTS contact_email_visibility TEXT NOT NULL DEFAULT 'lodge'
+    CHECK (contact_email_visibility IN ('lodge', 'officers', 'nobody')),
+  ADD COLUMN IF NOT EXISTS contact_phone_visibility TEXT NOT NULL DEFAULT 'lodge'
+    CHECK (contact_phone_visibility IN ('lodge', 'officers', 'nobody')),
+  ADD COLUMN IF NOT EXISTS provincial_rank_visibility TEXT NOT NULL DEFAULT 'lodge'
+    CHECK (provincial_rank_visibility IN ('lodge', 'officers', 'nobody')),
+  ADD COLUMN IF NOT EXISTS grand_lodge_rank_visibility TEXT NOT NULL DEFAULT 'lodge'
+    CHECK (grand_lodge_rank_visibility IN ('lodge', 'officers', 'nobody'));
+
+CREATE OR REPLACE FUNCTION public.is_active_member()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.member_profiles mp
+    WHERE mp.user_id = auth.uid() AND mp.status = 'active'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_lodge_officer()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.member_profiles mp
+    WHERE mp.user_id = auth.uid() AND mp.role <> 'member'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.member_field_visible(owner_id UUID, visibility TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT owner_id = auth.uid()
+    OR visibility = 'lodge'
+    OR (visibility = 'officers' AND public.is_lodge_officer());
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_active_member() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_lodge_officer() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.member_field_visible(UUID, TEXT) TO authenticated;
+
+-- Profiles
+DROP POLICY IF EXISTS "Members can view all profiles" ON public.member_profiles;
+
+CREATE POLICY "Members can view their own profile"
+  ON public.member_profiles FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Member managers and approvers can view all profiles"
+  ON public.member_profiles FOR SELECT TO authenticated
+  USING (public.has_permission('manage_members') OR public.has_permission('approve_members'));
+
+-- The view reads past the policies above, so it must do the masking itself.
+-- security_invoker can't be switched off in place, hence the drop.
+DROP VIEW IF EXISTS public.member_directory;
+
+CREATE VIEW public.member_directory
+WITH (security_invoker = false)
+AS
+WITH visible AS (
+  SELECT
+    mp.id,
+    mp.user_id,
+    mp.full_name,
+    mp.position,
+    mp.role,
+    mp.status,
+    mp.join_date,
+    CASE WHEN public.member_field_visible(mp.user_id, mp.contact_email_visibility)
+      THEN mp.contact_email END AS contact_email,
+    CASE WHEN public.member_field_visible(mp.user_id, mp.contact_phone_visibility)
+      THEN mp.contact_phone END AS contact_phone,
+    CASE WHEN public.member_field_visible(mp.user_id, mp.provincial_rank_visibility)
+      THEN mp.masonic_provincial_rank END AS masonic_provincial_rank,
+    CASE WHEN public.member_field_visible(mp.user_id, mp.grand_lodge_rank_visibility)
+      THEN mp.grand_lodge_rank END AS grand_lodge_rank,
+    mp.created_at,
+    mp.updated_at
+  FROM public.member_profiles mp
+  -- Pending applicants and lapsed members aren't shown, nor can they look
+  WHERE public.is_active_member()
+    AND (
+      mp.status = 'active'
+      OR public.has_permission('manage_members')
+      OR public.has_permission('approve_members')
+    )
+)
+SELECT
+  v.*,
+  (CASE
+    WHEN NULLIF(btrim(v.grand_lodge_rank), '') IS NOT NULL THEN 2
+    WHEN NULLIF(btrim(v.masonic_provincial_rank), '') IS NOT NULL THEN 1
+    ELSE 0
+  END)::SMALLINT AS rank_level,
+  lower(concat_ws(' ', v.full_name, v.position, v.masonic_provincial_rank, v.grand_lodge_rank)) AS search_text
+FROM visible v;
+
+REVOKE ALL ON public.member_directory FROM anon, public;
+GRANT SELECT ON public.member_directory TO authenticated;
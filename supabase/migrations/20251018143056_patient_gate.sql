@@ -0,0 +1,165 @@
+/*
+  # Membership Applications
+
+  1. New Tables
+    - `membership_applications` - A candidate's enquiry as it moves through
+      enquiry -> interview -> ballot -> initiated, or is declined
+      - Candidate details (`full_name`, `email`, `phone`, `town`, `occupation`, `reason`, ...)
+      - `proposer_id` / `seconder_id` - The members sponsoring the candidate
+      - `interview_at` / `interview_location` and `ballot_date` - Scheduling for those stages
+      - `decline_reason` and `notes` - For the Secretary; never shown to the candidate
+
+  2. Functions
+    - `get_open_applications()` - Candidates still looking for sponsors, for any active member
+    - `nominate_application(application_id, sponsor)` - Sign up as proposer or seconder
+    - `withdraw_nomination(application_id)` - Step down as a sponsor
+
+  3. Security
+    - Candidates apply through the membership-application edge function, which also
+      emails them at each stage; there is no public insert policy
+    - Members holding approve_members manage applications
+    - Other members only see what `get_open_applications()` returns
+    - Changes are written to the audit log
+*/
+
+CREATE TABLE IF NOT EXISTS public.membership_applications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  full_name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  phone TEXT,
+  date_of_birth DATE,
+  town TEXT,
+  occupation TEXT,
+  reason TEXT NOT NULL,
+  known_members TEXT,
+  stage TEXT NOT NULL DEFAULT 'enquiry'
+    CHECK (stage IN ('enquiry', 'interview', 'ballot', 'initiated', 'declined')),
+  proposer_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  seconder_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  interview_at TIMESTAMPTZ,
+  interview_location TEXT,
+  ballot_date DATE,
+  decline_reason TEXT,
+  notes TEXT,
+  stage_changed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT membership_applications_distinct_sponsors CHECK (proposer_id IS DISTINCT FROM seconder_id OR proposer_id IS NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_membership_applications_stage ON public.membership_applications (stage, stage_changed_at);
+
+CREATE TRIGGER update_membership_applications_updated_at
+  BEFORE UPDATE ON public.membership_applications
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS audit_membership_applications ON public.membership_applications;
+CREATE TRIGGER audit_membership_applications
+  AFTER INSERT OR UPDATE OR DELETE ON public.membership_applications
+  FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+ALTER TABLE public.membership_applications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Approvers can manage membership applications"
+  ON public.membership_applications FOR ALL TO authenticated
+  USING (public.has_permission('approve_members'))
+  WITH CHECK (public.has_permission('approve_members'));
+
+-- Sponsors can be found until the Lodge ballots
+CREATE OR REPLACE FUNCTION public.get_open_applications()
+RETURNS TABLE (
+  id UUID,
+  full_name TEXT,
+  town TEXT,
+  stage TEXT,
+  created_at TIMESTAMPTZ,
+  proposer_id UUID,
+  proposer_name TEXT,
+  seconder_id UUID,
+  seconder_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    a.id, a.full_name, a.town, a.stage, a.created_at,
+    a.proposer_id, proposer.full_name,
+    a.seconder_id, seconder.full_name
+  FROM public.membership_applications a
+  LEFT JOIN public.member_profiles proposer ON proposer.user_id = a.proposer_id
+  LEFT JOIN public.member_profiles seconder ON seconder.user_id = a.seconder_id
+  WHERE a.stage IN ('enquiry', 'interview')
+    AND EXISTS (
+      SELECT 1 FROM public.member_profiles mp
+      WHERE mp.user_id = auth.uid() AND mp.status = 'active'
+    )
+  ORDER BY a.created_at;
+$$;
+
+CREATE OR REPLACE FUNCTION public.nominate_application(application_id UUID, sponsor TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  application public.membership_applications%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.member_profiles mp
+    WHERE mp.user_id = auth.uid() AND mp.status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'Only active members can sponsor a candidate' USING ERRCODE = '42501';
+  END IF;
+
+  IF sponsor NOT IN ('proposer', 'seconder') THEN
+    RAISE EXCEPTION 'Sponsor must be proposer or seconder' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO application FROM public.membership_applications WHERE id = application_id FOR UPDATE;
+
+  IF NOT FOUND OR application.stage NOT IN ('enquiry', 'interview') THEN
+    RAISE EXCEPTION 'This application is no longer open for sponsors' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF auth.uid() IN (application.proposer_id, application.seconder_id) THEN
+    RAISE EXCEPTION 'You are already sponsoring this candidate' USING ERRCODE = '23505';
+  END IF;
+
+  IF (sponsor = 'proposer' AND application.proposer_id IS NOT NULL)
+    OR (sponsor = 'seconder' AND application.seconder_id IS NOT NULL) THEN
+    RAISE EXCEPTION 'This candidate already has a %', sponsor USING ERRCODE = '23505';
+  END IF;
+
+  UPDATE public.membership_applications
+  SET proposer_id = CASE WHEN sponsor = 'proposer' THEN auth.uid() ELSE proposer_id END,
+      seconder_id = CASE WHEN sponsor = 'seconder' THEN auth.uid() ELSE seconder_id END
+  WHERE id = application_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.withdraw_nomination(application_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.membership_applications
+  SET proposer_id = CASE WHEN proposer_id = auth.uid() THEN NULL ELSE proposer_id END,
+      seconder_id = CASE WHEN seconder_id = auth.uid() THEN NULL ELSE seconder_id END
+  WHERE id = application_id
+    AND stage IN ('enquiry', 'interview')
+    AND auth.uid() IN (proposer_id, seconder_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not sponsoring an open application with that id' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_open_applications() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.nominate_application(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.withdraw_nomination(UUID) TO authenticated;
@@ -0,0 +1,121 @@
+/*
+  # Contact Form Inbox
+
+  1. New Tables
+    - `contact_submissions` - Every message sent from the website contact form, kept
+      whether or not the email to the Lodge got through
+      - `is_read`, `status` ('new', 'in_progress', 'resolved') and `notes` for the inbox
+      - `assigned_to` - The officer following it up
+      - `email_sent` - Whether send-contact-email managed to forward it
+      - `application_id` - The membership application it led to, if any
+
+  2. Permissions
+    - New `manage_enquiries` permission, held by the Secretary (and admins)
+
+  3. Functions
+    - `link_contact_submission(submission_id)` - Connect an enquiry from someone interested
+      in joining to the membership pipeline: the open application with the same email,
+      or a new one at the enquiry stage
+
+  4. Security
+    - Only send-contact-email (service role) adds submissions
+    - Members holding manage_enquiries read, update and delete them
+*/
+
+INSERT INTO public.permissions (permission, label, description) VALUES
+  ('manage_enquiries', 'Manage enquiries', 'Read and follow up contact form messages')
+ON CONFLICT (permission) DO NOTHING;
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'manage_enquiries'),
+  ('secretary', 'manage_enquiries')
+ON CONFLICT DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.contact_submissions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  phone TEXT,
+  subject TEXT NOT NULL,
+  message TEXT NOT NULL,
+  interested BOOLEAN NOT NULL DEFAULT false,
+  email_sent BOOLEAN NOT NULL DEFAULT false,
+  is_read BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'new' CHECK (status IN ('new', 'in_progress', 'resolved')),
+  assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  notes TEXT,
+  application_id UUID REFERENCES public.membership_applications(id) ON DELETE SET NULL,
+  -- What the inbox search box matches against
+  search_text TEXT GENERATED ALWAYS AS (lower(name || ' ' || email || ' ' || subject)) STORED,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_submissions_created_at ON public.contact_submissions (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_contact_submissions_unread ON public.contact_submissions (is_read) WHERE NOT is_read;
+
+CREATE TRIGGER update_contact_submissions_updated_at
+  BEFORE UPDATE ON public.contact_submissions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.contact_submissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enquiry managers can read contact submissions"
+  ON public.contact_submissions FOR SELECT TO authenticated
+  USING (public.has_permission('manage_enquiries'));
+
+CREATE POLICY "Enquiry managers can update contact submissions"
+  ON public.contact_submissions FOR UPDATE TO authenticated
+  USING (public.has_permission('manage_enquiries'))
+  WITH CHECK (public.has_permission('manage_enquiries'));
+
+CREATE POLICY "Enquiry managers can delete contact submissions"
+  ON public.contact_submissions FOR DELETE TO authenticated
+  USING (public.has_permission('manage_enquiries'));
+
+CREATE OR REPLACE FUNCTION public.link_contact_submission(submission_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  submission public.contact_submissions%ROWTYPE;
+  linked_id UUID;
+BEGIN
+  IF NOT (public.has_permission('manage_enquiries') AND public.has_permission('approve_members')) THEN
+    RAISE EXCEPTION 'You do not have permission to add candidates' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO submission FROM public.contact_submissions WHERE id = submission_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contact submission not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF submission.application_id IS NOT NULL THEN
+    RETURN submission.application_id;
+  END IF;
+
+  SELECT a.id INTO linked_id
+  FROM public.membership_applications a
+  WHERE lower(a.email) = lower(submission.email)
+    AND a.stage IN ('enquiry', 'interview', 'ballot')
+  ORDER BY a.created_at DESC
+  LIMIT 1;
+
+  IF linked_id IS NULL THEN
+    INSERT INTO public.membership_applications (full_name, email, phone, reason)
+    VALUES (submission.name, lower(submission.email), submission.phone, submission.message)
+    RETURNING id INTO linked_id;
+  END IF;
+
+  UPDATE public.contact_submissions
+  SET application_id = linked_id,
+      status = CASE WHEN status = 'new' THEN 'in_progress' ELSE status END
+  WHERE id = submission_id;
+
+  RETURN linked_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.link_contact_submission(UUID) TO authenticated;
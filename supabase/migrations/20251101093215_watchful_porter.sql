@@ -0,0 +1,66 @@
+/*
+  # Contact Form Spam Protection
+
+  1. Changed Tables
+    - `contact_submissions`
+      - `quarantined` - Held back by the spam checks; not emailed to the Lodge and
+        kept out of the main inbox until someone releases or deletes it
+      - `spam_reasons` - Which checks it failed, for the reviewer
+
+  2. New Tables
+    - `contact_attempts` - One row per contact form POST, keyed by a hash of the
+      sender's IP address and their email, for rate limiting. Rows older than a day
+      are removed as new ones arrive.
+
+  3. Functions
+    - `record_contact_attempt(ip_hash, email)` - Log an attempt and return how many
+      the same IP and email have made in the last hour (including this one)
+
+  4. Security
+    - contact_attempts has RLS enabled and no policies; only send-contact-email
+      (service role) reads or writes it
+*/
+
+ALTER TABLE public.contact_submissions
+  ADD COLUMN IF NOT EXISTS quarantined BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS spam_reasons TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_contact_submissions_quarantined ON public.contact_submissions (quarantined, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.contact_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ip_hash TEXT NOT NULL,
+  email TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_attempts_ip_hash ON public.contact_attempts (ip_hash, created_at);
+CREATE INDEX IF NOT EXISTS idx_contact_attempts_email ON public.contact_attempts (email, created_at);
+
+ALTER TABLE public.contact_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.record_contact_attempt(ip_hash TEXT, email TEXT)
+RETURNS TABLE (ip_attempts INTEGER, email_attempts INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.contact_attempts a WHERE a.created_at < now() - interval '1 day';
+
+  INSERT INTO public.contact_attempts (ip_hash, email)
+  VALUES (record_contact_attempt.ip_hash, lower(record_contact_attempt.email));
+
+  RETURN QUERY
+  SELECT
+    (SELECT count(*)::INTEGER FROM public.contact_attempts a
+      WHERE a.ip_hash = record_contact_attempt.ip_hash
+        AND a.created_at > now() - interval '1 hour'),
+    (SELECT count(*)::INTEGER FROM public.contact_attempts a
+      WHERE a.email = lower(record_contact_attempt.email)
+        AND a.created_at > now() - interval '1 hour');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_contact_attempt(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_contact_attempt(TEXT, TEXT) TO service_role;
@@ -0,0 +1,113 @@
+/*
+  # Minutes Approval Workflow and Structured Minutes
+
+  1. Changed Tables
+    - `meeting_minutes`
+      - `status` - 'draft' while the Secretary writes them, 'circulated' to the officers
+        for checking, 'confirmed' once the Lodge has approved them at its next meeting
+      - `circulated_at`, `confirmed_at`, `confirmed_by` - When each step happened, and who
+        recorded the confirmation
+      - `confirmed_at_meeting` - Date of the meeting that confirmed them
+      - `attendance`, `apologies`, `visitors` - One name per entry
+      - `ballots` - JSON list of { candidate, kind: 'initiation' | 'joining', result: 'elected' | 'rejected' }
+      - `alms_collected` - Pounds collected in the alms plate
+      - `content` carries on as the business of the meeting
+    - Existing minutes were already visible to every member, so they start out confirmed
+
+  2. Functions
+    - `meeting_minutes_workflow()` - Trigger that only allows draft -> circulated,
+      circulated -> draft and circulated -> confirmed, stamps the dates, and stops
+      confirmed minutes being edited
+
+  3. Security
+    - Members only see confirmed minutes; officers also see circulated ones.
+      Minute editors (edit_minutes) still see and manage everything.
+    - search_matches() runs as the caller, so search follows the same rule
+*/
+
+ALTER TABLE public.meeting_minutes
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'confirmed'
+    CHECK (status IN ('draft', 'circulated', 'confirmed')),
+  ADD COLUMN IF NOT EXISTS circulated_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS confirmed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS confirmed_at_meeting DATE,
+  ADD COLUMN IF NOT EXISTS attendance TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS apologies TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS visitors TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS ballots JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS alms_collected NUMERIC(10, 2) CHECK (alms_collected >= 0);
+
+UPDATE public.meeting_minutes
+SET confirmed_at = COALESCE(confirmed_at, updated_at)
+WHERE status = 'confirmed';
+
+-- New minutes start as drafts
+ALTER TABLE public.meeting_minutes ALTER COLUMN status SET DEFAULT 'draft';
+
+CREATE INDEX IF NOT EXISTS idx_meeting_minutes_status ON public.meeting_minutes (status, meeting_date DESC);
+
+CREATE OR REPLACE FUNCTION public.meeting_minutes_workflow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft' THEN
+      RAISE EXCEPTION 'New minutes must start as a draft' USING ERRCODE = '23514';
+    END IF;
+    NEW.circulated_at := NULL;
+    NEW.confirmed_at := NULL;
+    NEW.confirmed_by := NULL;
+    NEW.confirmed_at_meeting := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'confirmed' THEN
+    RAISE EXCEPTION 'Confirmed minutes can''t be changed' USING ERRCODE = '23514';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'draft' AND NEW.status = 'circulated') OR
+      (OLD.status = 'circulated' AND NEW.status IN ('draft', 'confirmed'))
+    ) THEN
+      RAISE EXCEPTION 'Minutes can''t move from % to %', OLD.status, NEW.status USING ERRCODE = '23514';
+    END IF;
+
+    IF NEW.status = 'circulated' THEN
+      NEW.circulated_at := now();
+    ELSIF NEW.status = 'draft' THEN
+      NEW.circulated_at := NULL;
+    ELSE
+      IF NEW.confirmed_at_meeting IS NULL OR NEW.confirmed_at_meeting <= NEW.meeting_date THEN
+        RAISE EXCEPTION 'Minutes are confirmed at a later meeting - give its date' USING ERRCODE = '23514';
+      END IF;
+      NEW.confirmed_at := now();
+      NEW.confirmed_by := auth.uid();
+    END IF;
+  END IF;
+
+  -- Only the workflow sets these
+  IF NEW.status <> 'confirmed' THEN
+    NEW.confirmed_at := NULL;
+    NEW.confirmed_by := NULL;
+    NEW.confirmed_at_meeting := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS meeting_minutes_workflow ON public.meeting_minutes;
+CREATE TRIGGER meeting_minutes_workflow
+  BEFORE INSERT OR UPDATE ON public.meeting_minutes
+  FOR EACH ROW EXECUTE FUNCTION public.meeting_minutes_workflow();
+
+DROP POLICY IF EXISTS "Members can view all meeting minutes" ON public.meeting_minutes;
+CREATE POLICY "Members can view confirmed minutes"
+  ON public.meeting_minutes FOR SELECT TO authenticated
+  USING (
+    status = 'confirmed'
+    OR (status = 'circulated' AND public.is_lodge_officer())
+  );
@@ -0,0 +1,137 @@
+/*
+  # Attendance Register
+
+  1. New Tables
+    - `attendance_registers` - One per Lodge meeting, keyed by its date
+      - `title` - The meeting, e.g. "Regular Meeting" or "Installation Meeting"
+      - `notes` - Anything the Secretary wants to record alongside it
+    - `attendance_entries` - A member's mark for one register: 'present' or 'apologies'.
+      Members with no entry were absent without apology.
+    - `attendance_visitors` - Visiting brethren at a meeting, with their Lodge
+
+  2. Functions
+    - `save_attendance_register(...)` - Create or replace a meeting's register, its
+      entries and visitors in one go
+
+  3. Security
+    - Every member can see which meetings have a register, so their own attendance
+      percentage can be worked out
+    - Members read their own entries; minute editors (the Secretary) read and write
+      everything, including visitors
+    - Registers are audited like the minutes
+*/
+
+CREATE TABLE IF NOT EXISTS public.attendance_registers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  meeting_date DATE NOT NULL UNIQUE,
+  title TEXT NOT NULL,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.attendance_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  register_id UUID NOT NULL REFERENCES public.attendance_registers(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('present', 'apologies')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (register_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.attendance_visitors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  register_id UUID NOT NULL REFERENCES public.attendance_registers(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  lodge_name TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_entries_user_id ON public.attendance_entries (user_id);
+CREATE INDEX IF NOT EXISTS idx_attendance_visitors_register_id ON public.attendance_visitors (register_id);
+
+CREATE TRIGGER update_attendance_registers_updated_at
+  BEFORE UPDATE ON public.attendance_registers
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS audit_attendance_registers ON public.attendance_registers;
+CREATE TRIGGER audit_attendance_registers
+  AFTER INSERT OR UPDATE OR DELETE ON public.attendance_registers
+  FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+ALTER TABLE public.attendance_registers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.attendance_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.attendance_visitors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view attendance registers"
+  ON public.attendance_registers FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Minute editors can manage attendance registers"
+  ON public.attendance_registers FOR ALL TO authenticated
+  USING (public.has_permission('edit_minutes'))
+  WITH CHECK (public.has_permission('edit_minutes'));
+
+CREATE POLICY "Members can view their own attendance"
+  ON public.attendance_entries FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Minute editors can manage attendance entries"
+  ON public.attendance_entries FOR ALL TO authenticated
+  USING (public.has_permission('edit_minutes'))
+  WITH CHECK (public.has_permission('edit_minutes'));
+
+CREATE POLICY "Minute editors can manage attendance visitors"
+  ON public.attendance_visitors FOR ALL TO authenticated
+  USING (public.has_permission('edit_minutes'))
+  WITH CHECK (public.has_permission('edit_minutes'));
+
+-- Runs as the caller, so the policies above still apply
+CREATE OR REPLACE FUNCTION public.save_attendance_register(
+  target_date DATE,
+  register_title TEXT,
+  register_notes TEXT,
+  present UUID[],
+  apologies UUID[],
+  visitors JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  saved_id UUID;
+BEGIN
+  IF NOT public.has_permission('edit_minutes') THEN
+    RAISE EXCEPTION 'You do not have permission to take the register' USING ERRCODE = '42501';
+  END IF;
+
+  IF present && apologies THEN
+    RAISE EXCEPTION 'A member can''t be both present and send apologies' USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO public.attendance_registers (meeting_date, title, notes)
+  VALUES (target_date, register_title, NULLIF(trim(register_notes), ''))
+  ON CONFLICT (meeting_date) DO UPDATE
+    SET title = EXCLUDED.title, notes = EXCLUDED.notes
+  RETURNING id INTO saved_id;
+
+  DELETE FROM public.attendance_entries WHERE register_id = saved_id;
+  DELETE FROM public.attendance_visitors WHERE register_id = saved_id;
+
+  INSERT INTO public.attendance_entries (register_id, user_id, status)
+  SELECT saved_id, member, 'present' FROM unnest(COALESCE(present, '{}')) AS member
+  UNION
+  SELECT saved_id, member, 'apologies' FROM unnest(COALESCE(apologies, '{}')) AS member;
+
+  INSERT INTO public.attendance_visitors (register_id, name, lodge_name)
+  SELECT saved_id, trim(v ->> 'name'), NULLIF(trim(v ->> 'lodge_name'), '')
+  FROM jsonb_array_elements(COALESCE(visitors, '[]'::jsonb)) AS v
+  WHERE trim(COALESCE(v ->> 'name', '')) <> '';
+
+  RETURN saved_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_attendance_register(DATE, TEXT, TEXT, UUID[], UUID[], JSONB) TO authenticated;
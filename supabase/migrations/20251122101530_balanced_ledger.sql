@@ -0,0 +1,214 @@
+/*
+  # Subscriptions and Dues Ledger
+
+  1. New Tables
+    - `subscription_rates` - What the Lodge charges each year, e.g. "Full member" or
+      "Country member". `is_default` marks the rate most members pay.
+    - `dues_invoices` - What a member has been asked to pay
+      - `rate_id` - The rate it was raised from, if any (one-off charges have none)
+      - `is_subscription` - The member's subscription for `year`, as opposed to a
+        one-off charge. Unlike `rate_id` it survives the rate being deleted, and a
+        member has at most one a year that isn't cancelled
+      - `cancelled` - Written off by the Treasurer; kept for the record
+    - `dues_payments` - Money received against an invoice, recorded by hand
+      - `method` - 'cash', 'cheque' or 'bank_transfer'
+
+  2. Views
+    - `dues_invoice_balances` - Each invoice with the member's name, the amount paid,
+      the balance and whether it is overdue. Runs as the caller, so members only see
+      their own.
+
+  3. Functions
+    - `get_finance_members()` - Every member's id, name and status for finance
+      officers (just the caller's own for anyone else). Used for names in the
+      ledger instead of reading member_profiles, whose other columns stay private
+    - `raise_annual_invoices(rate_id, due_date)` - Invoice every active member who
+      hasn't already had a subscription invoice for that year (at any rate), so members
+      on other rates can be invoiced individually first; returns how many were raised
+
+  4. Security
+    - Members read their own invoices and payments; everyone can see the rates
+    - Finance officers (manage_finances) manage everything, and see members' names
+      through get_finance_members() rather than their profiles
+    - Rates, invoices and payments are audited
+*/
+
+CREATE TABLE IF NOT EXISTS public.subscription_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  year INTEGER NOT NULL CHECK (year BETWEEN 2000 AND 2100),
+  title TEXT NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount >= 0),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (year, title)
+);
+
+-- Only one default rate a year
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subscription_rates_default ON public.subscription_rates (year) WHERE is_default;
+
+CREATE TABLE IF NOT EXISTS public.dues_invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  year INTEGER NOT NULL CHECK (year BETWEEN 2000 AND 2100),
+  rate_id UUID REFERENCES public.subscription_rates(id) ON DELETE SET NULL,
+  is_subscription BOOLEAN NOT NULL DEFAULT false,
+  title TEXT NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  due_date DATE NOT NULL,
+  cancelled BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.dues_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES public.dues_invoices(id) ON DELETE CASCADE,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  method TEXT NOT NULL CHECK (method IN ('cash', 'cheque', 'bank_transfer')),
+  paid_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  reference TEXT,
+  recorded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dues_invoices_user_id ON public.dues_invoices (user_id, year DESC);
+CREATE INDEX IF NOT EXISTS idx_dues_invoices_year ON public.dues_invoices (year);
+CREATE INDEX IF NOT EXISTS idx_dues_payments_invoice_id ON public.dues_payments (invoice_id);
+
+-- One subscription invoice per member per year, whatever the rate. A cancelled one
+-- doesn't count, so a subscription raised at the wrong rate can be replaced.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dues_invoices_subscription ON public.dues_invoices (user_id, year) WHERE is_subscription AND NOT cancelled;
+
+CREATE TRIGGER update_subscription_rates_updated_at
+  BEFORE UPDATE ON public.subscription_rates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_dues_invoices_updated_at
+  BEFORE UPDATE ON public.dues_invoices
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS audit_subscription_rates ON public.subscription_rates;
+CREATE TRIGGER audit_subscription_rates
+  AFTER INSERT OR UPDATE OR DELETE ON public.subscription_rates
+  FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+DROP TRIGGER IF EXISTS audit_dues_invoices ON public.dues_invoices;
+CREATE TRIGGER audit_dues_invoices
+  AFTER INSERT OR UPDATE OR DELETE ON public.dues_invoices
+  FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+DROP TRIGGER IF EXISTS audit_dues_payments ON public.dues_payments;
+CREATE TRIGGER audit_dues_payments
+  AFTER INSERT OR UPDATE OR DELETE ON public.dues_payments
+  FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+CREATE OR REPLACE FUNCTION public.get_finance_members()
+RETURNS TABLE (user_id UUID, full_name TEXT, status TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT mp.user_id, mp.full_name, mp.status
+  FROM public.member_profiles mp
+  WHERE mp.user_id = auth.uid() OR public.has_permission('manage_finances')
+  ORDER BY mp.full_name;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_finance_members() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_finance_members() TO authenticated;
+
+CREATE OR REPLACE VIEW public.dues_invoice_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  i.*,
+  mp.full_name AS member_name,
+  COALESCE(p.paid, 0)::NUMERIC(10, 2) AS paid,
+  CASE WHEN i.cancelled THEN 0 ELSE i.amount - COALESCE(p.paid, 0) END::NUMERIC(10, 2) AS balance,
+  (NOT i.cancelled AND i.amount > COALESCE(p.paid, 0) AND i.due_date < CURRENT_DATE) AS overdue
+FROM public.dues_invoices i
+LEFT JOIN public.get_finance_members() mp ON mp.user_id = i.user_id
+LEFT JOIN (
+  SELECT invoice_id, sum(amount) AS paid
+  FROM public.dues_payments
+  GROUP BY invoice_id
+) p ON p.invoice_id = i.id;
+
+GRANT SELECT ON public.dues_invoice_balances TO authenticated;
+
+ALTER TABLE public.subscription_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dues_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dues_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view subscription rates"
+  ON public.subscription_rates FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Finance officers can manage subscription rates"
+  ON public.subscription_rates FOR ALL TO authenticated
+  USING (public.has_permission('manage_finances'))
+  WITH CHECK (public.has_permission('manage_finances'));
+
+CREATE POLICY "Members can view their own invoices"
+  ON public.dues_invoices FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Finance officers can manage invoices"
+  ON public.dues_invoices FOR ALL TO authenticated
+  USING (public.has_permission('manage_finances'))
+  WITH CHECK (public.has_permission('manage_finances'));
+
+CREATE POLICY "Members can view payments on their own invoices"
+  ON public.dues_payments FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.dues_invoices i
+    WHERE i.id = dues_payments.invoice_id AND i.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Finance officers can manage payments"
+  ON public.dues_payments FOR ALL TO authenticated
+  USING (public.has_permission('manage_finances'))
+  WITH CHECK (public.has_permission('manage_finances'));
+
+-- Runs as the caller, so the policies above still apply
+CREATE OR REPLACE FUNCTION public.raise_annual_invoices(rate_id UUID, due_date DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  rate public.subscription_rates%ROWTYPE;
+  raised INTEGER;
+BEGIN
+  IF NOT public.has_permission('manage_finances') THEN
+    RAISE EXCEPTION 'You do not have permission to raise invoices' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO rate FROM public.subscription_rates r WHERE r.id = raise_annual_invoices.rate_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Subscription rate not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF rate.amount <= 0 THEN
+    RAISE EXCEPTION 'A rate of nothing can''t be invoiced' USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO public.dues_invoices (user_id, year, rate_id, is_subscription, title, amount, due_date)
+  SELECT mp.user_id, rate.year, rate.id, true, format('%s Subscription - %s', rate.year, rate.title), rate.amount, raise_annual_invoices.due_date
+  FROM public.get_finance_members() mp
+  WHERE mp.status = 'active'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.dues_invoices i
+      WHERE i.user_id = mp.user_id AND i.year = rate.year AND i.is_subscription AND NOT i.cancelled
+    )
+  ON CONFLICT (user_id, year) WHERE is_subscription AND NOT cancelled DO NOTHING;
+
+  GET DIAGNOSTICS raised = ROW_COUNT;
+  RETURN raised;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.raise_annual_invoices(UUID, DATE) TO authenticated;
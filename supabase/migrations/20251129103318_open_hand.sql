@@ -0,0 +1,79 @@
+/*
+  # Charity Giving and Fundraising
+
+  1. New Tables
+    - `charity_records` - Money the Lodge raises or gives away, recorded by the Almoner
+      - `kind` - 'alms' (the alms plate at a meeting), 'fundraising' (an event's total)
+        or 'donation' (a gift to a named charity)
+      - `record_date` - The meeting, event or gift date
+      - `charity_name` - Who received a donation, or who an event raised money for
+      - One alms collection per meeting day
+
+  2. Functions
+    - `charity_yearly_totals()` - Alms, fundraising and donations per year, with the
+      number of charities given to. Only totals leave the function, so the public
+      site can show them without exposing individual gifts.
+
+  3. Security
+    - Almoners (manage_charity) manage the records; nobody else can read them
+    - Changes are audited
+*/
+
+CREATE TABLE IF NOT EXISTS public.charity_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind TEXT NOT NULL CHECK (kind IN ('alms', 'fundraising', 'donation')),
+  record_date DATE NOT NULL,
+  title TEXT NOT NULL,
+  charity_name TEXT,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (kind <> 'donation' OR COALESCE(trim(charity_name), '') <> '')
+);
+
+CREATE INDEX IF NOT EXISTS idx_charity_records_record_date ON public.charity_records (record_date DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_charity_records_alms ON public.charity_records (record_date) WHERE kind = 'alms';
+
+CREATE TRIGGER update_charity_records_updated_at
+  BEFORE UPDATE ON public.charity_records
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS audit_charity_records ON public.charity_records;
+CREATE TRIGGER audit_charity_records
+  AFTER INSERT OR UPDATE OR DELETE ON public.charity_records
+  FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+ALTER TABLE public.charity_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Almoners can manage charity records"
+  ON public.charity_records FOR ALL TO authenticated
+  USING (public.has_permission('manage_charity'))
+  WITH CHECK (public.has_permission('manage_charity'));
+
+CREATE OR REPLACE FUNCTION public.charity_yearly_totals()
+RETURNS TABLE (
+  year INTEGER,
+  alms NUMERIC(10, 2),
+  fundraising NUMERIC(10, 2),
+  donations NUMERIC(10, 2),
+  charities_supported INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    extract(year FROM r.record_date)::INTEGER,
+    COALESCE(sum(r.amount) FILTER (WHERE r.kind = 'alms'), 0)::NUMERIC(10, 2),
+    COALESCE(sum(r.amount) FILTER (WHERE r.kind = 'fundraising'), 0)::NUMERIC(10, 2),
+    COALESCE(sum(r.amount) FILTER (WHERE r.kind = 'donation'), 0)::NUMERIC(10, 2),
+    count(DISTINCT lower(trim(r.charity_name))) FILTER (WHERE r.kind = 'donation')::INTEGER
+  FROM public.charity_records r
+  GROUP BY 1
+  ORDER BY 1 DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.charity_yearly_totals() TO anon, authenticated;
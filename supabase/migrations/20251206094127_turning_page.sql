@@ -0,0 +1,160 @@
+/*
+  # Document Versions
+
+  1. New Tables
+    - `document_versions` - Every file a document has pointed at
+      - `version_number` - 1, 2, 3... per document, filled in by the database
+      - `change_note` - What changed, for members comparing versions
+      - `uploaded_by` - Who published it
+    - `document_reads` - The version each member last opened, so the members' area
+      can say when a newer one is out
+
+  2. Changes
+    - `lodge_documents.current_version_id` - Points at the latest version
+    - `lodge_documents.version_number` - The latest version's number
+    - `lodge_documents.url` still holds the latest file, so existing readers keep working
+
+  3. Triggers
+    - A new document becomes version 1 of itself
+    - Adding a version moves the document's url and pointer on to it
+    - Changing a document's url any other way is refused, so nothing is overwritten
+      without a trace
+
+  4. Security
+    - Members can read every version and record their own reads
+    - Document managers (manage_documents) publish versions
+    - Existing documents are backfilled as version 1
+*/
+
+CREATE TABLE IF NOT EXISTS public.document_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES public.lodge_documents(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  url TEXT NOT NULL,
+  change_note TEXT,
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (document_id, version_number)
+);
+
+CREATE TABLE IF NOT EXISTS public.document_reads (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES public.lodge_documents(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  read_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, document_id)
+);
+
+ALTER TABLE public.lodge_documents
+  ADD COLUMN IF NOT EXISTS current_version_id UUID REFERENCES public.document_versions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS version_number INTEGER NOT NULL DEFAULT 1;
+
+-- Existing documents start at version 1
+INSERT INTO public.document_versions (document_id, version_number, url, uploaded_by, created_at)
+SELECT d.id, 1, d.url, NULL, d.created_at
+FROM public.lodge_documents d
+WHERE NOT EXISTS (SELECT 1 FROM public.document_versions v WHERE v.document_id = d.id);
+
+UPDATE public.lodge_documents d
+SET current_version_id = v.id, version_number = v.version_number
+FROM public.document_versions v
+WHERE v.document_id = d.id AND v.version_number = 1 AND d.current_version_id IS NULL;
+
+CREATE OR REPLACE FUNCTION public.number_document_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Serialise publishers of the same document so numbers never collide
+  PERFORM 1 FROM public.lodge_documents d WHERE d.id = NEW.document_id FOR UPDATE;
+
+  SELECT COALESCE(max(v.version_number), 0) + 1 INTO NEW.version_number
+  FROM public.document_versions v
+  WHERE v.document_id = NEW.document_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.point_document_at_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.lodge_documents
+  SET url = NEW.url, current_version_id = NEW.id, version_number = NEW.version_number
+  WHERE id = NEW.document_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_first_document_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.document_versions (document_id, url)
+  VALUES (NEW.id, NEW.url);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.guard_document_url()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.url IS DISTINCT FROM OLD.url AND NOT EXISTS (
+    SELECT 1 FROM public.document_versions v
+    WHERE v.id = NEW.current_version_id AND v.url = NEW.url
+  ) THEN
+    RAISE EXCEPTION 'Publish a new version to replace a document''s file' USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS number_document_version ON public.document_versions;
+CREATE TRIGGER number_document_version
+  BEFORE INSERT ON public.document_versions
+  FOR EACH ROW EXECUTE FUNCTION public.number_document_version();
+
+DROP TRIGGER IF EXISTS point_document_at_version ON public.document_versions;
+CREATE TRIGGER point_document_at_version
+  AFTER INSERT ON public.document_versions
+  FOR EACH ROW EXECUTE FUNCTION public.point_document_at_version();
+
+DROP TRIGGER IF EXISTS create_first_document_version ON public.lodge_documents;
+CREATE TRIGGER create_first_document_version
+  AFTER INSERT ON public.lodge_documents
+  FOR EACH ROW EXECUTE FUNCTION public.create_first_document_version();
+
+DROP TRIGGER IF EXISTS guard_document_url ON public.lodge_documents;
+CREATE TRIGGER guard_document_url
+  BEFORE UPDATE OF url ON public.lodge_documents
+  FOR EACH ROW EXECUTE FUNCTION public.guard_document_url();
+
+CREATE INDEX IF NOT EXISTS idx_document_versions_document_id ON public.document_versions (document_id, version_number DESC);
+
+ALTER TABLE public.document_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.document_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view document versions"
+  ON public.document_versions FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Document managers can publish versions"
+  ON public.document_versions FOR INSERT TO authenticated
+  WITH CHECK (public.has_permission('manage_documents'));
+
+CREATE POLICY "Members manage their own document reads"
+  ON public.document_reads FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
@@ -0,0 +1,73 @@
+/*
+  # Private Storage for Lodge Documents
+
+  1. New Storage Bucket
+    - `lodge-documents` - Private. Files uploaded for documents and minutes, up to
+      25MB, limited to PDF, Word, Excel, text, Markdown and images
+    - Rows point at a file with a `storage:lodge-documents/<path>` reference in
+      `lodge_documents.url`, `document_versions.url` or `meeting_minutes.document_url`;
+      members are given a short-lived signed URL to open it
+
+  2. Security
+    - A member can only open a file that a document version or minutes they can
+      already see refers to, so draft minutes stay with the Secretary
+    - Document managers and minute editors upload and remove files
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'lodge-documents',
+  'lodge-documents',
+  false,
+  25 * 1024 * 1024,
+  ARRAY[
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'text/plain',
+    'text/markdown',
+    'image/jpeg',
+    'image/png',
+    'image/gif',
+    'image/webp'
+  ]
+)
+ON CONFLICT (id) DO UPDATE
+SET public = false,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- The subqueries run with the member's own row-level security
+CREATE POLICY "Members can read referenced lodge documents"
+  ON storage.objects FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'lodge-documents'
+    AND (
+      public.has_permission('manage_documents')
+      OR public.has_permission('edit_minutes')
+      OR EXISTS (
+        SELECT 1 FROM public.document_versions v
+        WHERE v.url = 'storage:lodge-documents/' || objects.name
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.meeting_minutes m
+        WHERE m.document_url = 'storage:lodge-documents/' || objects.name
+      )
+    )
+  );
+
+CREATE POLICY "Document editors can upload lodge documents"
+  ON storage.objects FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'lodge-documents'
+    AND (public.has_permission('manage_documents') OR public.has_permission('edit_minutes'))
+  );
+
+CREATE POLICY "Document editors can remove lodge documents"
+  ON storage.objects FOR DELETE TO authenticated
+  USING (
+    bucket_id = 'lodge-documents'
+    AND (public.has_permission('manage_documents') OR public.has_permission('edit_minutes'))
+  );